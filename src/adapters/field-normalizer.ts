@@ -191,7 +191,8 @@ export function normalizeOpzetAanvragerShape(args: any): any {
 
   const legacy = { ...args };
   if (
-    typeof legacy.inkomen_aanvrager === 'number' &&
+    (typeof legacy.inkomen_aanvrager === 'number' ||
+      typeof legacy.inkomensbron_aanvrager === 'object') &&
     typeof legacy.geboortedatum_aanvrager === 'string' &&
     typeof legacy.heeft_partner === 'boolean'
   ) {
@@ -203,6 +204,8 @@ export function normalizeOpzetAanvragerShape(args: any): any {
       geboortedatum_partner: legacy.geboortedatum_partner,
       verplichtingen_pm: legacy.verplichtingen_pm,
       eigen_vermogen: legacy.eigen_vermogen,
+      inkomensbron_aanvrager: legacy.inkomensbron_aanvrager,
+      inkomensbron_partner: legacy.inkomensbron_partner,
     };
   }
 
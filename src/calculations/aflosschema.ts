@@ -0,0 +1,227 @@
+/**
+ * Aflosschema per leningdeel
+ *
+ * Rekent maand voor maand rente, aflossing en restschuld door voor
+ * annuïtaire, lineaire en aflossingsvrije leningdelen. Aan het einde van de
+ * rentevaste periode wordt de rente herzien naar een (optioneel) aangenomen
+ * nieuwe rente; bij annuïteiten wordt de maandlast dan herberekend over de
+ * resterende looptijd.
+ */
+
+import { Hypotheekvorm, Leningdeel, normalizeHypotheekvorm } from '../types/index.js';
+import { annuiteitMaandlast, maandRente, roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export type AflosschemaWeergave = 'maand' | 'jaar';
+
+export interface AflosschemaOpties {
+  weergave?: AflosschemaWeergave;
+  // Aangenomen rente na afloop van de rentevaste periode (decimaal)
+  nieuweRente?: number;
+}
+
+export interface AflosschemaRegel {
+  // Maandnummer (weergave 'maand') of jaarnummer (weergave 'jaar'), 1-based
+  periode: number;
+  rente_percentage: number;
+  bruto_maandlast: number;
+  rente: number;
+  aflossing: number;
+  restschuld: number;
+}
+
+export interface Aflosschema {
+  hypotheekvorm: Hypotheekvorm;
+  hoofdsom: number;
+  weergave: AflosschemaWeergave;
+  renteherziening_na_maanden?: number;
+  rente_na_herziening?: number;
+  totaal_rente: number;
+  totaal_aflossing: number;
+  eindrestschuld: number;
+  regels: AflosschemaRegel[];
+}
+
+export interface GecombineerdAflosschema {
+  weergave: AflosschemaWeergave;
+  leningdelen: Aflosschema[];
+  totaal: AflosschemaRegel[];
+  totaal_rente: number;
+  totaal_aflossing: number;
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+function berekenMaandregels(
+  deel: Leningdeel,
+  vorm: Hypotheekvorm,
+  nieuweRente?: number
+): AflosschemaRegel[] {
+  const looptijd = Math.round(deel.resterende_looptijd_in_maanden);
+  const rentevast = Math.round(deel.rentevasteperiode_maanden);
+  const lineaireAflossing = looptijd > 0 ? deel.huidige_schuld / looptijd : 0;
+
+  const regels: AflosschemaRegel[] = [];
+  let restschuld = deel.huidige_schuld;
+  let rente = deel.huidige_rente;
+  let annuiteit = annuiteitMaandlast(restschuld, rente, looptijd);
+
+  for (let maand = 1; maand <= looptijd; maand++) {
+    if (nieuweRente !== undefined && rentevast > 0 && maand === rentevast + 1) {
+      rente = nieuweRente;
+      annuiteit = annuiteitMaandlast(restschuld, rente, looptijd - rentevast);
+    }
+
+    const renteBedrag = restschuld * maandRente(rente);
+    let aflossing: number;
+    switch (vorm) {
+      case Hypotheekvorm.ANNUITEIT:
+        aflossing = annuiteit - renteBedrag;
+        break;
+      case Hypotheekvorm.LINEAIR:
+        aflossing = lineaireAflossing;
+        break;
+      case Hypotheekvorm.AFLOSSINGSVRIJ:
+        aflossing = 0;
+        break;
+    }
+    // Laatste termijn lost exact de restschuld af (afrondingsverschillen)
+    if (vorm !== Hypotheekvorm.AFLOSSINGSVRIJ && maand === looptijd) {
+      aflossing = restschuld;
+    }
+    aflossing = Math.min(aflossing, restschuld);
+    restschuld -= aflossing;
+
+    regels.push({
+      periode: maand,
+      rente_percentage: rente,
+      bruto_maandlast: renteBedrag + aflossing,
+      rente: renteBedrag,
+      aflossing,
+      restschuld,
+    });
+  }
+
+  return regels;
+}
+
+function roundRegel(regel: AflosschemaRegel): AflosschemaRegel {
+  return {
+    ...regel,
+    bruto_maandlast: roundCents(regel.bruto_maandlast),
+    rente: roundCents(regel.rente),
+    aflossing: roundCents(regel.aflossing),
+    restschuld: roundCents(Math.max(0, regel.restschuld)),
+  };
+}
+
+/**
+ * Tel maandregels op tot jaarregels. De maandlast is die van de laatste
+ * maand in het jaar, rente en aflossing zijn jaartotalen.
+ */
+function naarJaarregels(maandregels: AflosschemaRegel[]): AflosschemaRegel[] {
+  const jaarregels: AflosschemaRegel[] = [];
+  for (let start = 0; start < maandregels.length; start += 12) {
+    const jaar = maandregels.slice(start, start + 12);
+    const laatste = jaar[jaar.length - 1];
+    jaarregels.push({
+      periode: start / 12 + 1,
+      rente_percentage: laatste.rente_percentage,
+      bruto_maandlast: laatste.bruto_maandlast,
+      rente: jaar.reduce((som, regel) => som + regel.rente, 0),
+      aflossing: jaar.reduce((som, regel) => som + regel.aflossing, 0),
+      restschuld: laatste.restschuld,
+    });
+  }
+  return jaarregels;
+}
+
+/**
+ * Aflosschema voor één leningdeel
+ */
+export function berekenAflosschema(deel: Leningdeel, opties: AflosschemaOpties = {}): Aflosschema {
+  const weergave = opties.weergave ?? 'jaar';
+  const vorm = normalizeHypotheekvorm(deel.hypotheekvorm);
+  const heeftHerziening =
+    opties.nieuweRente !== undefined &&
+    deel.rentevasteperiode_maanden > 0 &&
+    deel.rentevasteperiode_maanden < deel.resterende_looptijd_in_maanden;
+
+  const maandregels = berekenMaandregels(
+    deel,
+    vorm,
+    heeftHerziening ? opties.nieuweRente : undefined
+  );
+  const regels = weergave === 'jaar' ? naarJaarregels(maandregels) : maandregels;
+  const totaalRente = maandregels.reduce((som, regel) => som + regel.rente, 0);
+  const totaalAflossing = maandregels.reduce((som, regel) => som + regel.aflossing, 0);
+
+  return {
+    hypotheekvorm: vorm,
+    hoofdsom: deel.huidige_schuld,
+    weergave,
+    renteherziening_na_maanden: heeftHerziening ? deel.rentevasteperiode_maanden : undefined,
+    rente_na_herziening: heeftHerziening ? opties.nieuweRente : undefined,
+    totaal_rente: roundCents(totaalRente),
+    totaal_aflossing: roundCents(totaalAflossing),
+    eindrestschuld: roundCents(Math.max(0, deel.huidige_schuld - totaalAflossing)),
+    regels: regels.map(roundRegel),
+  };
+}
+
+/**
+ * Aflosschema's voor meerdere leningdelen plus een opgeteld totaalschema
+ */
+export function berekenAflosschemas(
+  leningdelen: Leningdeel[],
+  opties: AflosschemaOpties = {}
+): GecombineerdAflosschema {
+  const weergave = opties.weergave ?? 'jaar';
+  const schemas = leningdelen.map((deel) => berekenAflosschema(deel, { ...opties, weergave }));
+  const aantalPerioden = Math.max(0, ...schemas.map((schema) => schema.regels.length));
+
+  const totaal: AflosschemaRegel[] = [];
+  for (let i = 0; i < aantalPerioden; i++) {
+    const regels = schemas
+      .map((schema) => schema.regels[i])
+      .filter((regel): regel is AflosschemaRegel => regel !== undefined);
+    const schuldBegin = regels.reduce((som, regel) => som + regel.restschuld + regel.aflossing, 0);
+    const rente = regels.reduce((som, regel) => som + regel.rente, 0);
+
+    totaal.push(
+      roundRegel({
+        periode: i + 1,
+        // Gewogen gemiddelde rente over de openstaande schuld
+        rente_percentage:
+          schuldBegin > 0
+            ? regels.reduce(
+                (som, regel) => som + regel.rente_percentage * (regel.restschuld + regel.aflossing),
+                0
+              ) / schuldBegin
+            : 0,
+        bruto_maandlast: regels.reduce((som, regel) => som + regel.bruto_maandlast, 0),
+        rente,
+        aflossing: regels.reduce((som, regel) => som + regel.aflossing, 0),
+        // Leningdelen die al zijn afgelopen tellen mee met hun eindrestschuld
+        restschuld:
+          regels.reduce((som, regel) => som + regel.restschuld, 0) +
+          schemas
+            .filter((schema) => schema.regels[i] === undefined)
+            .reduce((som, schema) => som + schema.eindrestschuld, 0),
+      })
+    );
+  }
+
+  return {
+    weergave,
+    leningdelen: schemas,
+    totaal,
+    totaal_rente: roundCents(schemas.reduce((som, schema) => som + schema.totaal_rente, 0)),
+    totaal_aflossing: roundCents(schemas.reduce((som, schema) => som + schema.totaal_aflossing, 0)),
+  };
+}
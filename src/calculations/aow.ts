@@ -0,0 +1,148 @@
+/**
+ * Toets op pensioenleeftijd
+ *
+ * Bepaalt per aanvrager de AOW-datum uit de geboortedatum en hoe lang de
+ * lening daarna nog doorloopt. De AOW-leeftijd hangt af van het jaar waarin
+ * iemand die leeftijd bereikt; jaren na het laatst vastgestelde jaar krijgen
+ * de laatst bekende leeftijd en zijn gemarkeerd als niet vastgesteld.
+ * Bereikt een aanvrager binnen tien jaar de AOW-leeftijd, dan toetsen
+ * geldverstrekkers ook op het inkomen na pensionering.
+ */
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface AowLeeftijd {
+  jaren: number;
+  maanden: number;
+}
+
+export interface AowToetsInput {
+  geboortedatum: string;
+  looptijd_maanden: number;
+  // Ingangsdatum van de lening; standaard vandaag
+  peildatum?: Date;
+}
+
+export interface AowToets {
+  // YYYY-MM-DD
+  aow_datum: string;
+  aow_leeftijd: AowLeeftijd;
+  // False als de AOW-leeftijd voor dat jaar nog niet wettelijk is vastgesteld
+  vastgesteld: boolean;
+  maanden_tot_aow: number;
+  // Maanden dat de lening na de AOW-datum doorloopt; 0 = eindigt ervoor
+  maanden_na_aow: number;
+  // AOW binnen de toetstermijn: toets ook op pensioeninkomen
+  pensioentoets_nodig: boolean;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * AOW-leeftijd per kalenderjaar waarin die leeftijd wordt bereikt (SVB)
+ */
+export const AOW_LEEFTIJD_PER_JAAR: Record<number, AowLeeftijd> = {
+  2013: { jaren: 65, maanden: 1 },
+  2014: { jaren: 65, maanden: 2 },
+  2015: { jaren: 65, maanden: 3 },
+  2016: { jaren: 65, maanden: 6 },
+  2017: { jaren: 65, maanden: 9 },
+  2018: { jaren: 66, maanden: 0 },
+  2019: { jaren: 66, maanden: 4 },
+  2020: { jaren: 66, maanden: 4 },
+  2021: { jaren: 66, maanden: 4 },
+  2022: { jaren: 66, maanden: 7 },
+  2023: { jaren: 66, maanden: 10 },
+  2024: { jaren: 67, maanden: 0 },
+  2025: { jaren: 67, maanden: 0 },
+  2026: { jaren: 67, maanden: 0 },
+  2027: { jaren: 67, maanden: 0 },
+  2028: { jaren: 67, maanden: 3 },
+  2029: { jaren: 67, maanden: 3 },
+  2030: { jaren: 67, maanden: 3 },
+};
+
+const EERSTE_JAAR = Math.min(...Object.keys(AOW_LEEFTIJD_PER_JAAR).map(Number));
+const LAATST_VASTGESTELD_JAAR = Math.max(...Object.keys(AOW_LEEFTIJD_PER_JAAR).map(Number));
+
+/**
+ * Termijn waarbinnen het bereiken van de AOW-leeftijd een toets op het
+ * pensioeninkomen vraagt
+ */
+export const PENSIOENTOETS_TERMIJN_MAANDEN = 120;
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+function aowLeeftijdInJaar(jaar: number): AowLeeftijd {
+  if (jaar < EERSTE_JAAR) {
+    return { jaren: 65, maanden: 0 };
+  }
+  return AOW_LEEFTIJD_PER_JAAR[Math.min(jaar, LAATST_VASTGESTELD_JAAR)];
+}
+
+function plusMaanden(datum: Date, maanden: number): Date {
+  return new Date(
+    Date.UTC(datum.getUTCFullYear(), datum.getUTCMonth() + maanden, datum.getUTCDate())
+  );
+}
+
+function volleMaandenTussen(van: Date, tot: Date): number {
+  const maanden =
+    (tot.getUTCFullYear() - van.getUTCFullYear()) * 12 + (tot.getUTCMonth() - van.getUTCMonth());
+  return tot.getUTCDate() < van.getUTCDate() ? maanden - 1 : maanden;
+}
+
+/**
+ * AOW-datum en -leeftijd bij een geboortedatum (YYYY-MM-DD)
+ */
+export function bepaalAowDatum(geboortedatum: string): {
+  datum: Date;
+  leeftijd: AowLeeftijd;
+  vastgesteld: boolean;
+} {
+  const geboren = new Date(`${geboortedatum}T00:00:00Z`);
+  const kandidaten = [{ jaren: 65, maanden: 0 }, ...Object.values(AOW_LEEFTIJD_PER_JAAR)].sort(
+    (a, b) => a.jaren * 12 + a.maanden - (b.jaren * 12 + b.maanden)
+  );
+
+  // De eerste leeftijd die geldt in het jaar waarin die leeftijd wordt bereikt
+  let leeftijd = kandidaten[kandidaten.length - 1];
+  for (const kandidaat of kandidaten) {
+    const jaar = plusMaanden(geboren, kandidaat.jaren * 12 + kandidaat.maanden).getUTCFullYear();
+    const geldend = aowLeeftijdInJaar(jaar);
+    if (geldend.jaren === kandidaat.jaren && geldend.maanden === kandidaat.maanden) {
+      leeftijd = kandidaat;
+      break;
+    }
+  }
+
+  const datum = plusMaanden(geboren, leeftijd.jaren * 12 + leeftijd.maanden);
+  return { datum, leeftijd, vastgesteld: datum.getUTCFullYear() <= LAATST_VASTGESTELD_JAAR };
+}
+
+/**
+ * AOW-datum van een aanvrager en de maanden dat de lening daarna doorloopt
+ */
+export function toetsAow(input: AowToetsInput): AowToets {
+  const { datum, leeftijd, vastgesteld } = bepaalAowDatum(input.geboortedatum);
+  const peildatum = input.peildatum ?? new Date();
+  const start = new Date(
+    Date.UTC(peildatum.getUTCFullYear(), peildatum.getUTCMonth(), peildatum.getUTCDate())
+  );
+  const maandenTotAow = Math.max(0, volleMaandenTussen(start, datum));
+
+  return {
+    aow_datum: datum.toISOString().slice(0, 10),
+    aow_leeftijd: leeftijd,
+    vastgesteld,
+    maanden_tot_aow: maandenTotAow,
+    maanden_na_aow: Math.max(0, Math.round(input.looptijd_maanden) - maandenTotAow),
+    pensioentoets_nodig: maandenTotAow <= PENSIOENTOETS_TERMIJN_MAANDEN,
+  };
+}
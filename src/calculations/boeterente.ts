@@ -0,0 +1,175 @@
+/**
+ * Boeterente (vergoeding bij vervroegde aflossing)
+ *
+ * Volgt de AFM-standaardmethode: de boeterente is de contante waarde van het
+ * renteverschil tussen contractrente en vergelijkingsrente over de resterende
+ * rentevaste periode, berekend over het deel van de schuld boven de
+ * boetevrije aflossingsruimte. Het saldo volgt het contractuele aflosschema;
+ * contant maken gebeurt tegen de contractrente.
+ */
+
+import { Leningdeel } from '../types/index.js';
+import { berekenAflosschema } from './aflosschema.js';
+import { maandRente, roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface BoeterenteOpties {
+  // Fractie van de schuld die per jaar boetevrij afgelost mag worden
+  boetevrij_percentage?: number;
+}
+
+export interface BoeterenteLeningdeel {
+  huidige_schuld: number;
+  contractrente: number;
+  vergelijkingsrente: number;
+  resterende_rentevast_maanden: number;
+  boetevrij_bedrag: number;
+  // Deel van de schuld waarover boeterente wordt berekend
+  boetegrondslag: number;
+  boeterente: number;
+  reden?: string;
+}
+
+export interface BoeterenteResultaat {
+  leningdelen: BoeterenteLeningdeel[];
+  totaal_schuld: number;
+  totaal_boetevrij: number;
+  totaal_boeterente: number;
+}
+
+export interface Vergelijkingsrente {
+  rentevast_maanden: number;
+  rente: number;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Gangbare boetevrije aflossingsruimte per kalenderjaar
+ */
+export const STANDAARD_BOETEVRIJ_PERCENTAGE = 0.1;
+
+// ==============================================================================
+// VERGELIJKINGSRENTE
+// ==============================================================================
+
+/**
+ * Zet een rentetabel uit haal_actuele_rentes_op ({ "10_jaar": 3.45, ... }, in
+ * procenten) om naar vergelijkingsrentes per rentevaste periode
+ */
+export function parseRentetabel(tabel: unknown): Vergelijkingsrente[] {
+  if (typeof tabel !== 'object' || tabel === null) {
+    return [];
+  }
+
+  return Object.entries(tabel as Record<string, unknown>)
+    .map(([sleutel, waarde]) => {
+      const jaren = /^(\d+)_jaar$/.exec(sleutel);
+      const rente = typeof waarde === 'number' ? waarde : Number.parseFloat(String(waarde));
+      return jaren && Number.isFinite(rente)
+        ? { rentevast_maanden: Number(jaren[1]) * 12, rente: rente / 100 }
+        : null;
+    })
+    .filter((item): item is Vergelijkingsrente => item !== null)
+    .sort((a, b) => a.rentevast_maanden - b.rentevast_maanden);
+}
+
+/**
+ * Vergelijkingsrente voor de rentevaste periode die het dichtst bij de
+ * resterende periode ligt; bij gelijke afstand de kortere periode
+ */
+export function kiesVergelijkingsrente(
+  rentes: Vergelijkingsrente[],
+  resterendeMaanden: number
+): number | undefined {
+  let gekozen: Vergelijkingsrente | undefined;
+  for (const rente of rentes) {
+    if (
+      !gekozen ||
+      Math.abs(rente.rentevast_maanden - resterendeMaanden) <
+        Math.abs(gekozen.rentevast_maanden - resterendeMaanden)
+    ) {
+      gekozen = rente;
+    }
+  }
+  return gekozen?.rente;
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Boeterente voor één leningdeel bij volledige aflossing
+ */
+export function berekenBoeterente(
+  deel: Leningdeel,
+  vergelijkingsrente: number,
+  opties: BoeterenteOpties = {}
+): BoeterenteLeningdeel {
+  const boetevrijPercentage = opties.boetevrij_percentage ?? STANDAARD_BOETEVRIJ_PERCENTAGE;
+  const rentevast = Math.min(
+    Math.max(0, Math.round(deel.rentevasteperiode_maanden)),
+    Math.round(deel.resterende_looptijd_in_maanden)
+  );
+  const boetevrij = Math.min(deel.huidige_schuld, deel.huidige_schuld * boetevrijPercentage);
+  const grondslag = deel.huidige_schuld - boetevrij;
+
+  const basis = {
+    huidige_schuld: roundCents(deel.huidige_schuld),
+    contractrente: deel.huidige_rente,
+    vergelijkingsrente,
+    resterende_rentevast_maanden: rentevast,
+    boetevrij_bedrag: roundCents(boetevrij),
+    boetegrondslag: roundCents(grondslag),
+  };
+
+  if (rentevast === 0) {
+    return { ...basis, boeterente: 0, reden: 'Variabele rente of einde rentevaste periode' };
+  }
+  if (vergelijkingsrente >= deel.huidige_rente) {
+    return { ...basis, boeterente: 0, reden: 'Contractrente niet hoger dan vergelijkingsrente' };
+  }
+
+  // Saldo aan het begin van elke maand volgens het contractuele schema
+  const regels = berekenAflosschema(deel, { weergave: 'maand' }).regels;
+  const factor = deel.huidige_schuld > 0 ? grondslag / deel.huidige_schuld : 0;
+  const renteverschil = maandRente(deel.huidige_rente) - maandRente(vergelijkingsrente);
+
+  let contanteWaarde = 0;
+  let saldo = deel.huidige_schuld;
+  for (let maand = 1; maand <= rentevast; maand++) {
+    contanteWaarde +=
+      (saldo * factor * renteverschil) / Math.pow(1 + maandRente(deel.huidige_rente), maand);
+    saldo = regels[maand - 1]?.restschuld ?? 0;
+  }
+
+  return { ...basis, boeterente: roundCents(contanteWaarde) };
+}
+
+/**
+ * Boeterente voor meerdere leningdelen, elk met een eigen vergelijkingsrente
+ */
+export function berekenBoeterentes(
+  leningdelen: Leningdeel[],
+  vergelijkingsrentes: number[],
+  opties: BoeterenteOpties = {}
+): BoeterenteResultaat {
+  const resultaten = leningdelen.map((deel, index) =>
+    berekenBoeterente(deel, vergelijkingsrentes[index], opties)
+  );
+  const som = (selecteer: (deel: BoeterenteLeningdeel) => number) =>
+    roundCents(resultaten.reduce((totaal, deel) => totaal + selecteer(deel), 0));
+
+  return {
+    leningdelen: resultaten,
+    totaal_schuld: som((deel) => deel.huidige_schuld),
+    totaal_boetevrij: som((deel) => deel.boetevrij_bedrag),
+    totaal_boeterente: som((deel) => deel.boeterente),
+  };
+}
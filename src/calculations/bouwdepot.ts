@@ -0,0 +1,181 @@
+/**
+ * Bouwdepot
+ *
+ * Bij verbouwing of nieuwbouw wordt de hypotheek direct volledig verstrekt,
+ * maar staat het bouwbedrag in een depot dat per termijn wordt uitbetaald.
+ * Over het saldo in het depot ontvangt de klant depotrente, zodat de netto
+ * maandlast tijdens de bouw lager is dan na oplevering. Bij nieuwbouw worden
+ * termijnen die vóór het passeren van de akte vervallen direct uit de
+ * hypotheek betaald; de ontwikkelaar rekent daarover bouwrente tot het
+ * passeren.
+ */
+
+import { roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export type BouwdepotSoort = 'verbouwing' | 'nieuwbouw';
+
+export interface BouwTermijn {
+  // Maand ten opzichte van het passeren van de akte; 0 of negatief = vervallen bij transport
+  maand: number;
+  // Deel van het bouwbedrag als decimaal
+  percentage: number;
+}
+
+export interface BouwdepotInput {
+  soort: BouwdepotSoort;
+  // Verbouwingskosten of aanneemsom
+  bouwbedrag: number;
+  termijnen: BouwTermijn[];
+  // Bruto maandlast van de volledige hypotheek
+  bruto_maandlast: number;
+  depotrente: number;
+  // Rente die de ontwikkelaar rekent over termijnen die vóór transport vervallen
+  bouwrente: number;
+}
+
+export interface BouwdepotMaand {
+  maand: number;
+  uitbetaling: number;
+  depot_saldo: number;
+  bruto_maandlast: number;
+  depotrente: number;
+  netto_maandlast: number;
+}
+
+export interface BouwdepotResultaat {
+  soort: BouwdepotSoort;
+  bouwbedrag: number;
+  // Termijnen die bij transport al vervallen zijn en direct uit de hypotheek worden betaald
+  betaald_bij_transport: number;
+  depot_bij_transport: number;
+  // Eenmalige bouwrente over vóór transport vervallen termijnen
+  bouwrente: number;
+  bouwperiode_maanden: number;
+  maanden: BouwdepotMaand[];
+  totale_depotrente: number;
+  gemiddelde_netto_maandlast: number;
+  maandlast_na_oplevering: number;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Standaard bouwperiode wanneer de gebruiker geen termijnen opgeeft
+ */
+export const STANDAARD_BOUWPERIODE_MAANDEN: Record<BouwdepotSoort, number> = {
+  verbouwing: 6,
+  nieuwbouw: 12,
+};
+
+/**
+ * Gangbaar termijnschema van een aannemingsovereenkomst, van start bouw tot
+ * oplevering (fractie van de aanneemsom)
+ */
+export const STANDAARD_NIEUWBOUW_TERMIJNEN = [
+  { omschrijving: 'Start bouw', percentage: 0.1 },
+  { omschrijving: 'Fundering gereed', percentage: 0.15 },
+  { omschrijving: 'Begane grondvloer gereed', percentage: 0.15 },
+  { omschrijving: 'Verdiepingsvloer gereed', percentage: 0.15 },
+  { omschrijving: 'Dak gesloten', percentage: 0.15 },
+  { omschrijving: 'Gevels gesloten', percentage: 0.1 },
+  { omschrijving: 'Stukadoor- en tegelwerk gereed', percentage: 0.1 },
+  { omschrijving: 'Oplevering', percentage: 0.1 },
+] as const;
+
+// ==============================================================================
+// TERMIJNSCHEMA
+// ==============================================================================
+
+/**
+ * Standaard termijnschema: bij verbouwing gelijke maandelijkse uitbetalingen,
+ * bij nieuwbouw het gangbare schema verdeeld over de bouwperiode. start_bouw
+ * is de maand ten opzichte van transport (negatief = de bouw is al gestart).
+ */
+export function standaardTermijnen(
+  soort: BouwdepotSoort,
+  bouwperiode_maanden: number = STANDAARD_BOUWPERIODE_MAANDEN[soort],
+  start_bouw = 0
+): BouwTermijn[] {
+  const periode = Math.max(1, Math.round(bouwperiode_maanden));
+  if (soort === 'verbouwing') {
+    return Array.from({ length: periode }, (_, index) => ({
+      maand: start_bouw + index + 1,
+      percentage: 1 / periode,
+    }));
+  }
+
+  const stappen = STANDAARD_NIEUWBOUW_TERMIJNEN.length - 1;
+  return STANDAARD_NIEUWBOUW_TERMIJNEN.map((termijn, index) => ({
+    maand: start_bouw + Math.round((index * periode) / stappen),
+    percentage: termijn.percentage,
+  }));
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Depotsaldo, depotrente en netto maandlast per maand tot de laatste uitbetaling
+ */
+export function berekenBouwdepot(input: BouwdepotInput): BouwdepotResultaat {
+  const termijnen = input.termijnen.map((termijn) => ({
+    maand: Math.round(termijn.maand),
+    bedrag: input.bouwbedrag * termijn.percentage,
+  }));
+
+  const vervallen = termijnen.filter((termijn) => termijn.maand <= 0);
+  const betaaldBijTransport = vervallen.reduce((totaal, termijn) => totaal + termijn.bedrag, 0);
+  const bouwrente = vervallen.reduce(
+    (totaal, termijn) => totaal + (termijn.bedrag * input.bouwrente * -termijn.maand) / 12,
+    0
+  );
+
+  const depotBijTransport = input.bouwbedrag - betaaldBijTransport;
+  const bouwperiode = Math.max(0, ...termijnen.map((termijn) => termijn.maand));
+
+  const maanden: BouwdepotMaand[] = [];
+  let saldo = depotBijTransport;
+  let totaleDepotrente = 0;
+  for (let maand = 1; maand <= bouwperiode; maand++) {
+    const uitbetaling = termijnen
+      .filter((termijn) => termijn.maand === maand)
+      .reduce((totaal, termijn) => totaal + termijn.bedrag, 0);
+    saldo = Math.max(0, saldo - uitbetaling);
+    const depotrente = (saldo * input.depotrente) / 12;
+    totaleDepotrente += depotrente;
+
+    maanden.push({
+      maand,
+      uitbetaling: roundCents(uitbetaling),
+      depot_saldo: roundCents(saldo),
+      bruto_maandlast: roundCents(input.bruto_maandlast),
+      depotrente: roundCents(depotrente),
+      netto_maandlast: roundCents(input.bruto_maandlast - depotrente),
+    });
+  }
+
+  const gemiddeld =
+    maanden.length > 0
+      ? maanden.reduce((totaal, regel) => totaal + regel.netto_maandlast, 0) / maanden.length
+      : input.bruto_maandlast;
+
+  return {
+    soort: input.soort,
+    bouwbedrag: roundCents(input.bouwbedrag),
+    betaald_bij_transport: roundCents(betaaldBijTransport),
+    depot_bij_transport: roundCents(depotBijTransport),
+    bouwrente: roundCents(bouwrente),
+    bouwperiode_maanden: bouwperiode,
+    maanden,
+    totale_depotrente: roundCents(totaleDepotrente),
+    gemiddelde_netto_maandlast: roundCents(gemiddeld),
+    maandlast_na_oplevering: roundCents(input.bruto_maandlast),
+  };
+}
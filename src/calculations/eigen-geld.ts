@@ -0,0 +1,201 @@
+/**
+ * Schenking en familiebank
+ *
+ * Eigen geld bestaat bij veel starters uit een schenking en/of een lening van
+ * familie. Voor de schenking bepalen we de vrijstelling (jaarlijks, eenmalig
+ * verhoogd voor kinderen van 18 tot 40 jaar of, tot en met 2023, de
+ * verhoogde vrijstelling eigen woning) en de schenkbelasting die de
+ * ontvanger betaalt. De familielening is een annuïtaire onderhandse lening;
+ * de maandlast telt als financiële verplichting mee in de toets.
+ */
+
+import { calculateAge } from '../types/index.js';
+import { annuiteitMaandlast, roundCents, selecteerJaartabel } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export type SchenkerRelatie = 'ouder' | 'overig';
+
+export type SchenkingVrijstellingSoort = 'jaarlijks' | 'eenmalig_verhoogd' | 'eigen_woning';
+
+export interface SchenkParameters {
+  jaar: number;
+  vrijstellingKind: number;
+  // Eenmalig verhoogde vrijstelling ouder-kind (ontvanger 18 tot 40 jaar)
+  vrijstellingEenmaligKind: number;
+  // Verhoogde vrijstelling eigen woning (ontvanger 18 tot 40 jaar); 0 = afgeschaft
+  vrijstellingEigenWoning: number;
+  vrijstellingOverig: number;
+  verhoogdMinLeeftijd: number;
+  // Verhoogde vrijstellingen gelden tot (niet tot en met) deze leeftijd
+  verhoogdMaxLeeftijd: number;
+  // Grens tussen het lage en hoge tarief over het belastbare bedrag
+  tariefgrens: number;
+  tarieven: Record<SchenkerRelatie, [number, number]>;
+}
+
+export interface SchenkingInput {
+  bedrag: number;
+  relatie: SchenkerRelatie;
+  geboortedatum_ontvanger: string;
+  // Eenmalig verhoogde vrijstelling is nog niet eerder gebruikt
+  verhoogde_vrijstelling?: boolean;
+  peildatum?: Date;
+}
+
+export interface SchenkingResultaat {
+  // Jaar van de gebruikte tabel; kan eerder liggen dan het peiljaar
+  jaar: number;
+  peiljaar: number;
+  bedrag: number;
+  vrijstelling: number;
+  vrijstelling_soort: SchenkingVrijstellingSoort;
+  belastbaar: number;
+  schenkbelasting: number;
+  // Beschikbaar als eigen geld na schenkbelasting
+  netto: number;
+  opmerking?: string;
+}
+
+export interface FamilieleningInput {
+  bedrag: number;
+  rente: number;
+  looptijd_maanden: number;
+}
+
+export interface FamilieleningResultaat {
+  bedrag: number;
+  rente: number;
+  looptijd_maanden: number;
+  maandlast: number;
+  totale_rente: number;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Vrijstellingen en tarieven schenkbelasting per jaar; latere jaren gebruiken de laatst bekende tabel
+ */
+export const SCHENK_PARAMETERS: Record<number, SchenkParameters> = {
+  2023: {
+    jaar: 2023,
+    vrijstellingKind: 6_604,
+    vrijstellingEenmaligKind: 31_650,
+    vrijstellingEigenWoning: 28_947,
+    vrijstellingOverig: 2_418,
+    verhoogdMinLeeftijd: 18,
+    verhoogdMaxLeeftijd: 40,
+    tariefgrens: 138_641,
+    tarieven: { ouder: [0.1, 0.2], overig: [0.3, 0.4] },
+  },
+  2024: {
+    jaar: 2024,
+    vrijstellingKind: 6_633,
+    vrijstellingEenmaligKind: 31_813,
+    vrijstellingEigenWoning: 0,
+    vrijstellingOverig: 2_658,
+    verhoogdMinLeeftijd: 18,
+    verhoogdMaxLeeftijd: 40,
+    tariefgrens: 152_368,
+    tarieven: { ouder: [0.1, 0.2], overig: [0.3, 0.4] },
+  },
+  2025: {
+    jaar: 2025,
+    vrijstellingKind: 6_713,
+    vrijstellingEenmaligKind: 32_195,
+    vrijstellingEigenWoning: 0,
+    vrijstellingOverig: 2_690,
+    verhoogdMinLeeftijd: 18,
+    verhoogdMaxLeeftijd: 40,
+    tariefgrens: 154_197,
+    tarieven: { ouder: [0.1, 0.2], overig: [0.3, 0.4] },
+  },
+};
+
+export function getSchenkParameters(jaar: number = new Date().getFullYear()): SchenkParameters {
+  return selecteerJaartabel(SCHENK_PARAMETERS, jaar);
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+function bepaalVrijstelling(
+  input: SchenkingInput,
+  parameters: SchenkParameters,
+  leeftijd: number
+): { bedrag: number; soort: SchenkingVrijstellingSoort } {
+  const verhoogdMogelijk =
+    leeftijd >= parameters.verhoogdMinLeeftijd && leeftijd < parameters.verhoogdMaxLeeftijd;
+  const opties: { bedrag: number; soort: SchenkingVrijstellingSoort }[] = [
+    {
+      bedrag:
+        input.relatie === 'ouder' ? parameters.vrijstellingKind : parameters.vrijstellingOverig,
+      soort: 'jaarlijks',
+    },
+  ];
+  if (verhoogdMogelijk && input.verhoogde_vrijstelling) {
+    if (input.relatie === 'ouder') {
+      opties.push({ bedrag: parameters.vrijstellingEenmaligKind, soort: 'eenmalig_verhoogd' });
+    }
+    if (parameters.vrijstellingEigenWoning > 0) {
+      opties.push({ bedrag: parameters.vrijstellingEigenWoning, soort: 'eigen_woning' });
+    }
+  }
+  return opties.reduce((hoogste, optie) => (optie.bedrag > hoogste.bedrag ? optie : hoogste));
+}
+
+/**
+ * Vrijstelling, schenkbelasting en netto beschikbaar bedrag van een schenking
+ */
+export function berekenSchenking(input: SchenkingInput): SchenkingResultaat {
+  const peildatum = input.peildatum ?? new Date();
+  const parameters = getSchenkParameters(peildatum.getFullYear());
+  const leeftijd = calculateAge(input.geboortedatum_ontvanger, peildatum);
+  const vrijstelling = bepaalVrijstelling(input, parameters, leeftijd);
+
+  const belastbaar = Math.max(0, input.bedrag - vrijstelling.bedrag);
+  const [laag, hoog] = parameters.tarieven[input.relatie];
+  const belasting =
+    Math.min(belastbaar, parameters.tariefgrens) * laag +
+    Math.max(0, belastbaar - parameters.tariefgrens) * hoog;
+
+  let opmerking: string | undefined;
+  if (input.verhoogde_vrijstelling && vrijstelling.soort === 'jaarlijks') {
+    opmerking =
+      leeftijd < parameters.verhoogdMinLeeftijd || leeftijd >= parameters.verhoogdMaxLeeftijd
+        ? `Verhoogde vrijstelling niet mogelijk: de ontvanger moet tussen ${parameters.verhoogdMinLeeftijd} en ${parameters.verhoogdMaxLeeftijd} jaar zijn`
+        : 'Verhoogde vrijstelling eigen woning is per 2024 afgeschaft; alleen ouders kunnen nog eenmalig verhoogd schenken';
+  }
+
+  return {
+    jaar: parameters.jaar,
+    peiljaar: peildatum.getFullYear(),
+    bedrag: roundCents(input.bedrag),
+    vrijstelling: Math.min(input.bedrag, vrijstelling.bedrag),
+    vrijstelling_soort: vrijstelling.soort,
+    belastbaar: roundCents(belastbaar),
+    schenkbelasting: Math.round(belasting),
+    netto: roundCents(input.bedrag - Math.round(belasting)),
+    opmerking,
+  };
+}
+
+/**
+ * Maandlast en totale rente van een annuïtaire familielening
+ */
+export function berekenFamilielening(input: FamilieleningInput): FamilieleningResultaat {
+  const maandlast = annuiteitMaandlast(input.bedrag, input.rente, input.looptijd_maanden);
+
+  return {
+    bedrag: roundCents(input.bedrag),
+    rente: input.rente,
+    looptijd_maanden: input.looptijd_maanden,
+    maandlast: roundCents(maandlast),
+    totale_rente: roundCents(maandlast * input.looptijd_maanden - input.bedrag),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Extra aflossen
+ *
+ * Simuleert een eenmalige en/of periodieke extra aflossing op bestaande
+ * leningdelen en vergelijkt twee keuzes: de maandlast verlagen (looptijd
+ * gelijk, annuïteit of lineaire aflossing herberekend) of de looptijd
+ * verkorten (maandlast gelijk). Extra aflossingen gaan eerst naar het
+ * leningdeel met de hoogste rente en blijven binnen de rentevaste periode
+ * binnen de boetevrije ruimte per jaar; het meerdere wordt niet afgelost.
+ * De rente blijft over de hele looptijd gelijk.
+ */
+
+import { Hypotheekvorm, Leningdeel, normalizeHypotheekvorm } from '../types/index.js';
+import { STANDAARD_BOETEVRIJ_PERCENTAGE } from './boeterente.js';
+import { annuiteitMaandlast, maandRente, roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export type ExtraAflosKeuze = 'lagere_maandlast' | 'kortere_looptijd';
+
+export type AflosFrequentie = 'maand' | 'jaar';
+
+export interface ExtraAflossenInput {
+  leningdelen: Leningdeel[];
+  // Eenmalige extra aflossing aan het einde van de eerste maand
+  eenmalig?: number;
+  // Periodieke extra aflossing, vanaf de eerste maand
+  periodiek?: number;
+  frequentie?: AflosFrequentie;
+  // Fractie van de schuld die per jaar boetevrij afgelost mag worden
+  boetevrij_percentage?: number;
+}
+
+export interface ExtraAflosScenario {
+  totale_rente: number;
+  // Maand waarin de laatste schuld is afgelost
+  looptijd_maanden: number;
+  maandlast_start: number;
+  // Maandlast in de maand na de eerste extra aflossing
+  maandlast_na_aflossing: number;
+  extra_afgelost: number;
+  // Extra aflossing die boven de boetevrije ruimte viel en niet is afgelost
+  niet_boetevrij: number;
+}
+
+export interface ExtraAflossenResultaat {
+  zonder_extra: ExtraAflosScenario;
+  lagere_maandlast: ExtraAflosScenario;
+  kortere_looptijd: ExtraAflosScenario;
+}
+
+interface DeelStatus {
+  vorm: Hypotheekvorm;
+  schuld: number;
+  rente: number;
+  looptijd: number;
+  rentevast: number;
+  // Boetevrije ruimte per jaar, gebaseerd op de schuld bij aanvang
+  jaarruimte: number;
+  ruimte: number;
+  annuiteit: number;
+  lineaireAflossing: number;
+}
+
+// ==============================================================================
+// SIMULATIE
+// ==============================================================================
+
+function extraInMaand(input: ExtraAflossenInput, maand: number): number {
+  let extra = maand === 1 ? (input.eenmalig ?? 0) : 0;
+  if (input.periodiek && (input.frequentie !== 'jaar' || (maand - 1) % 12 === 0)) {
+    extra += input.periodiek;
+  }
+  return extra;
+}
+
+function simuleer(input: ExtraAflossenInput, keuze?: ExtraAflosKeuze): ExtraAflosScenario {
+  const boetevrijPercentage = input.boetevrij_percentage ?? STANDAARD_BOETEVRIJ_PERCENTAGE;
+  const delen: DeelStatus[] = input.leningdelen.map((deel) => {
+    const looptijd = Math.round(deel.resterende_looptijd_in_maanden);
+    return {
+      vorm: normalizeHypotheekvorm(deel.hypotheekvorm),
+      schuld: deel.huidige_schuld,
+      rente: deel.huidige_rente,
+      looptijd,
+      rentevast: Math.max(0, Math.round(deel.rentevasteperiode_maanden)),
+      jaarruimte: deel.huidige_schuld * boetevrijPercentage,
+      ruimte: 0,
+      annuiteit: annuiteitMaandlast(deel.huidige_schuld, deel.huidige_rente, looptijd),
+      lineaireAflossing: looptijd > 0 ? deel.huidige_schuld / looptijd : 0,
+    };
+  });
+  // Extra aflossen eerst op het duurste leningdeel
+  const volgorde = [...delen].sort((a, b) => b.rente - a.rente);
+  const maxLooptijd = Math.max(0, ...delen.map((deel) => deel.looptijd));
+
+  let totaleRente = 0;
+  let laatsteMaand = 0;
+  let maandlastStart = 0;
+  let maandlastNaAflossing = 0;
+  let extraAfgelost = 0;
+  let nietBoetevrij = 0;
+
+  for (let maand = 1; maand <= maxLooptijd; maand++) {
+    let maandlast = 0;
+    for (const deel of delen) {
+      if (deel.schuld <= 0) {
+        continue;
+      }
+      const rente = deel.schuld * maandRente(deel.rente);
+      let aflossing = 0;
+      if (maand >= deel.looptijd) {
+        aflossing = deel.schuld;
+      } else if (deel.vorm === Hypotheekvorm.ANNUITEIT) {
+        aflossing = Math.min(deel.schuld, Math.max(0, deel.annuiteit - rente));
+      } else if (deel.vorm === Hypotheekvorm.LINEAIR) {
+        aflossing = Math.min(deel.schuld, deel.lineaireAflossing);
+      }
+
+      deel.schuld -= aflossing;
+      totaleRente += rente;
+      maandlast += rente + aflossing;
+      if (deel.schuld <= 0.005) {
+        deel.schuld = 0;
+        laatsteMaand = maand;
+      }
+    }
+    if (maand === 1) {
+      maandlastStart = maandlast;
+    } else if (maand === 2) {
+      maandlastNaAflossing = maandlast;
+    }
+
+    if (!keuze) {
+      continue;
+    }
+
+    if ((maand - 1) % 12 === 0) {
+      delen.forEach((deel) => (deel.ruimte = deel.jaarruimte));
+    }
+    let rest = extraInMaand(input, maand);
+    for (const deel of volgorde) {
+      if (rest <= 0 || deel.schuld <= 0) {
+        continue;
+      }
+      const ruimte = maand <= deel.rentevast ? deel.ruimte : Infinity;
+      const bedrag = Math.min(rest, deel.schuld, ruimte);
+      if (bedrag <= 0) {
+        continue;
+      }
+      deel.schuld -= bedrag;
+      deel.ruimte -= bedrag;
+      rest -= bedrag;
+      extraAfgelost += bedrag;
+      if (deel.schuld <= 0.005) {
+        deel.schuld = 0;
+        laatsteMaand = maand;
+      }
+      if (keuze === 'lagere_maandlast') {
+        const resterend = deel.looptijd - maand;
+        deel.annuiteit = annuiteitMaandlast(deel.schuld, deel.rente, resterend);
+        deel.lineaireAflossing = resterend > 0 ? deel.schuld / resterend : 0;
+      }
+    }
+    // Wat boven de boetevrije ruimte valt blijft op de rekening; na volledige aflossing telt het niet mee
+    if (delen.some((deel) => deel.schuld > 0)) {
+      nietBoetevrij += rest;
+    }
+
+    if (delen.every((deel) => deel.schuld <= 0)) {
+      break;
+    }
+  }
+
+  return {
+    totale_rente: roundCents(totaleRente),
+    looptijd_maanden: laatsteMaand,
+    maandlast_start: roundCents(maandlastStart),
+    maandlast_na_aflossing: roundCents(maandlastNaAflossing),
+    extra_afgelost: roundCents(extraAfgelost),
+    niet_boetevrij: roundCents(nietBoetevrij),
+  };
+}
+
+/**
+ * Zonder extra aflossing, met lagere maandlast en met kortere looptijd
+ */
+export function berekenExtraAflossen(input: ExtraAflossenInput): ExtraAflossenResultaat {
+  return {
+    zonder_extra: simuleer(input),
+    lagere_maandlast: simuleer(input, 'lagere_maandlast'),
+    kortere_looptijd: simuleer(input, 'kortere_looptijd'),
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Financiële basisfuncties
+ *
+ * Gedeelde rekenhulpen voor lokale berekeningen (annuïteiten, maandlasten
+ * per hypotheekvorm). Rentes zijn jaarlijkse decimalen (0.04 = 4%),
+ * de maandrente is nominaal (jaarrente / 12).
+ */
+
+import { Hypotheekvorm, Leningdeel, normalizeHypotheekvorm } from '../types/index.js';
+
+/**
+ * Nominale maandrente
+ */
+export function maandRente(jaarrente: number): number {
+  return jaarrente / 12;
+}
+
+/**
+ * Bruto maandlast van een annuïteitenlening
+ */
+export function annuiteitMaandlast(
+  hoofdsom: number,
+  jaarrente: number,
+  looptijdMaanden: number
+): number {
+  if (hoofdsom <= 0 || looptijdMaanden <= 0) {
+    return 0;
+  }
+  const r = maandRente(jaarrente);
+  if (r === 0) {
+    return hoofdsom / looptijdMaanden;
+  }
+  return (hoofdsom * r) / (1 - Math.pow(1 + r, -looptijdMaanden));
+}
+
+/**
+ * Maximale hoofdsom bij een gegeven bruto maandlast (contante waarde van de annuïteit)
+ */
+export function annuiteitHoofdsom(
+  maandlast: number,
+  jaarrente: number,
+  looptijdMaanden: number
+): number {
+  if (maandlast <= 0 || looptijdMaanden <= 0) {
+    return 0;
+  }
+  const r = maandRente(jaarrente);
+  if (r === 0) {
+    return maandlast * looptijdMaanden;
+  }
+  return (maandlast * (1 - Math.pow(1 + r, -looptijdMaanden))) / r;
+}
+
+/**
+ * Bruto maandlast (eerste maand) van een leningdeel volgens zijn hypotheekvorm
+ */
+export function leningdeelMaandlast(deel: Leningdeel, rente: number = deel.huidige_rente): number {
+  const vorm = normalizeHypotheekvorm(deel.hypotheekvorm);
+  const schuld = deel.huidige_schuld;
+  const looptijd = deel.resterende_looptijd_in_maanden;
+
+  switch (vorm) {
+    case Hypotheekvorm.ANNUITEIT:
+      return annuiteitMaandlast(schuld, rente, looptijd);
+    case Hypotheekvorm.LINEAIR:
+      return looptijd > 0 ? schuld / looptijd + schuld * maandRente(rente) : 0;
+    case Hypotheekvorm.AFLOSSINGSVRIJ:
+      return schuld * maandRente(rente);
+  }
+}
+
+/**
+ * Totale bruto maandlast van alle leningdelen
+ */
+export function totaleMaandlast(leningdelen: Leningdeel[]): number {
+  return leningdelen.reduce((totaal, deel) => totaal + leningdeelMaandlast(deel), 0);
+}
+
+/**
+ * Rond af op centen
+ */
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Kies de tabel voor het gevraagde jaar, of de meest recente eerdere tabel.
+ * Valt terug op het oudste jaar wanneer het gevraagde jaar vóór alle tabellen ligt.
+ */
+export function selecteerJaartabel<T>(tabellen: Record<number, T>, jaar: number): T {
+  const jaren = Object.keys(tabellen)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const gekozen = jaren.filter((j) => j <= jaar).pop() ?? jaren[0];
+  return tabellen[gekozen];
+}
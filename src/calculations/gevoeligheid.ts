@@ -0,0 +1,74 @@
+/**
+ * Gevoeligheidsanalyse
+ *
+ * Bouwt het raster van scenario's (rente, inkomen en looptijd) voor een
+ * gevoeligheidsanalyse op één basisinvoer. De backend-calls zelf lopen via de
+ * tool; deze module bepaalt alleen de combinaties.
+ */
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface GevoeligheidVariaties {
+  // Absolute verschuivingen van de rente (decimaal, bijv. -0.01)
+  rente?: number[];
+  // Relatieve verschuivingen van het inkomen (decimaal, bijv. 0.1 = +10%)
+  inkomen?: number[];
+  looptijd_jaren?: number[];
+}
+
+export interface GevoeligheidScenario {
+  rente_delta: number;
+  inkomen_delta: number;
+  // Undefined = looptijd uit de basisinvoer
+  looptijd_jaren?: number;
+  is_basis: boolean;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Maximum aantal combinaties per analyse
+ */
+export const MAX_GEVOELIGHEID_SCENARIOS = 27;
+
+// ==============================================================================
+// SCENARIO'S
+// ==============================================================================
+
+function uniek(waarden: number[] | undefined): (number | undefined)[] {
+  return waarden && waarden.length > 0 ? [...new Set(waarden)] : [undefined];
+}
+
+/**
+ * Alle combinaties van de opgegeven variaties (rente × inkomen × looptijd)
+ */
+export function genereerScenarios(
+  variaties: GevoeligheidVariaties,
+  basisLooptijdJaren?: number
+): GevoeligheidScenario[] {
+  const scenarios: GevoeligheidScenario[] = [];
+
+  for (const looptijd of uniek(variaties.looptijd_jaren)) {
+    for (const inkomen of uniek(variaties.inkomen)) {
+      for (const rente of uniek(variaties.rente)) {
+        const renteDelta = rente ?? 0;
+        const inkomenDelta = inkomen ?? 0;
+        scenarios.push({
+          rente_delta: renteDelta,
+          inkomen_delta: inkomenDelta,
+          looptijd_jaren: looptijd,
+          is_basis:
+            renteDelta === 0 &&
+            inkomenDelta === 0 &&
+            (looptijd === undefined || looptijd === (basisLooptijdJaren ?? 30)),
+        });
+      }
+    }
+  }
+
+  return scenarios;
+}
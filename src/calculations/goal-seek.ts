@@ -0,0 +1,115 @@
+/**
+ * Goal-seek
+ *
+ * Binair zoeken naar de kleinste of grootste waarde waarvoor een
+ * (asynchrone) toets slaagt, bijvoorbeeld het minimale inkomen of de
+ * maximale koopsom waarmee een opzet rond komt. De toets moet monotoon zijn
+ * in de zoekrichting.
+ */
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface GoalSeekOpties {
+  ondergrens: number;
+  bovengrens: number;
+  // Zoeken stopt zodra het interval kleiner is dan de precisie
+  precisie: number;
+  maxIteraties: number;
+}
+
+export interface GoalSeekResultaat<T> {
+  gevonden: boolean;
+  // Kleinste (zoekMinimum) of grootste (zoekMaximum) geteste waarde waarvoor de toets slaagde
+  waarde?: number;
+  // Uitkomst van de toets bij die waarde
+  uitkomst?: T;
+  iteraties: number;
+}
+
+export interface ToetsUitkomst<T> {
+  geslaagd: boolean;
+  uitkomst: T;
+}
+
+// ==============================================================================
+// ZOEKEN
+// ==============================================================================
+
+/**
+ * Kleinste waarde waarvoor de toets slaagt; slaagt hij niet bij de bovengrens, dan niet gevonden
+ */
+export async function zoekMinimum<T>(
+  opties: GoalSeekOpties,
+  toets: (waarde: number) => Promise<ToetsUitkomst<T>>
+): Promise<GoalSeekResultaat<T>> {
+  let iteraties = 1;
+  const boven = await toets(opties.bovengrens);
+  if (!boven.geslaagd) {
+    return { gevonden: false, iteraties };
+  }
+
+  let laag = opties.ondergrens;
+  let hoog = opties.bovengrens;
+  let beste = boven.uitkomst;
+
+  while (hoog - laag > opties.precisie && iteraties < opties.maxIteraties) {
+    const midden = Math.ceil((laag + hoog) / 2 / opties.precisie) * opties.precisie;
+    if (midden >= hoog || midden <= laag) {
+      break;
+    }
+    iteraties++;
+    const resultaat = await toets(midden);
+    if (resultaat.geslaagd) {
+      hoog = midden;
+      beste = resultaat.uitkomst;
+    } else {
+      laag = midden;
+    }
+  }
+
+  return { gevonden: true, waarde: hoog, uitkomst: beste, iteraties };
+}
+
+/**
+ * Grootste waarde waarvoor de toets slaagt; slaagt hij niet bij de ondergrens,
+ * dan niet gevonden. Slaagt hij ook bij de bovengrens, dan is dat het resultaat.
+ */
+export async function zoekMaximum<T>(
+  opties: GoalSeekOpties,
+  toets: (waarde: number) => Promise<ToetsUitkomst<T>>
+): Promise<GoalSeekResultaat<T>> {
+  let iteraties = 1;
+  const onder = await toets(opties.ondergrens);
+  if (!onder.geslaagd) {
+    return { gevonden: false, iteraties };
+  }
+
+  iteraties++;
+  const boven = await toets(opties.bovengrens);
+  if (boven.geslaagd) {
+    return { gevonden: true, waarde: opties.bovengrens, uitkomst: boven.uitkomst, iteraties };
+  }
+
+  let laag = opties.ondergrens;
+  let hoog = opties.bovengrens;
+  let beste = onder.uitkomst;
+
+  while (hoog - laag > opties.precisie && iteraties < opties.maxIteraties) {
+    const midden = Math.floor((laag + hoog) / 2 / opties.precisie) * opties.precisie;
+    if (midden >= hoog || midden <= laag) {
+      break;
+    }
+    iteraties++;
+    const resultaat = await toets(midden);
+    if (resultaat.geslaagd) {
+      laag = midden;
+      beste = resultaat.uitkomst;
+    } else {
+      hoog = midden;
+    }
+  }
+
+  return { gevonden: true, waarde: laag, uitkomst: beste, iteraties };
+}
@@ -0,0 +1,123 @@
+/**
+ * Huren versus kopen
+ *
+ * Vergelijkt jaar voor jaar het vermogen bij kopen (woningwaarde min
+ * restschuld plus belegd eigen geld) met het vermogen bij blijven huren
+ * (belegd eigen geld). Beide huishoudens geven per jaar hetzelfde uit: wie
+ * goedkoper uit is belegt het verschil tegen het alternatieve rendement.
+ * Woonlasten bij kopen zijn de bruto hypotheeklasten plus eigenaarslasten;
+ * fiscale effecten en verkoopkosten zijn niet meegenomen.
+ */
+
+import { Leningdeel } from '../types/index.js';
+import { berekenAflosschema } from './aflosschema.js';
+import { roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface HurenKopenInput {
+  koopsom: number;
+  hypotheek: Leningdeel;
+  // Eigen geld dat in de aankoop gaat (kosten koper en eventueel een deel van de koopsom)
+  eigen_geld_ingebracht: number;
+  // Totaal beschikbaar eigen geld bij aanvang
+  eigen_vermogen: number;
+  huur_per_maand: number;
+  // Jaarlijkse stijgingen en rendement als decimaal
+  huurstijging: number;
+  waardestijging: number;
+  rendement: number;
+  // Onderhoud, verzekering en belastingen als fractie van de woningwaarde per jaar
+  eigenaarslasten_percentage: number;
+  horizon_jaren: number;
+}
+
+export interface HurenKopenJaar {
+  jaar: number;
+  woningwaarde: number;
+  restschuld: number;
+  woonlasten_kopen: number;
+  woonlasten_huren: number;
+  vermogen_kopen: number;
+  vermogen_huren: number;
+  // Positief = kopen levert meer vermogen op
+  verschil: number;
+}
+
+export interface HurenKopenResultaat {
+  jaren: HurenKopenJaar[];
+  // Eerste jaar waarin kopen minstens evenveel vermogen oplevert als huren
+  omslagjaar?: number;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Standaardaannames wanneer de gebruiker niets opgeeft
+ */
+export const STANDAARD_HUREN_KOPEN_AANNAMES = {
+  huurstijging: 0.03,
+  waardestijging: 0.02,
+  rendement: 0.03,
+  eigenaarslasten_percentage: 0.01,
+  horizon_jaren: 10,
+} as const;
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Vermogensopbouw per jaar bij kopen en bij huren
+ */
+export function vergelijkHurenKopen(input: HurenKopenInput): HurenKopenResultaat {
+  const schema = berekenAflosschema(input.hypotheek, { weergave: 'jaar' }).regels;
+
+  let woningwaarde = input.koopsom;
+  let huurPerMaand = input.huur_per_maand;
+  let beleggingKopen = Math.max(0, input.eigen_vermogen - input.eigen_geld_ingebracht);
+  let beleggingHuren = input.eigen_vermogen;
+
+  const jaren: HurenKopenJaar[] = [];
+  let omslagjaar: number | undefined;
+
+  for (let jaar = 1; jaar <= input.horizon_jaren; jaar++) {
+    const regel = schema[jaar - 1];
+    const hypotheeklasten = regel ? regel.rente + regel.aflossing : 0;
+    const restschuld = regel?.restschuld ?? 0;
+
+    const woonlastenKopen = hypotheeklasten + woningwaarde * input.eigenaarslasten_percentage;
+    const woonlastenHuren = huurPerMaand * 12;
+
+    beleggingKopen =
+      beleggingKopen * (1 + input.rendement) + Math.max(0, woonlastenHuren - woonlastenKopen);
+    beleggingHuren =
+      beleggingHuren * (1 + input.rendement) + Math.max(0, woonlastenKopen - woonlastenHuren);
+    woningwaarde *= 1 + input.waardestijging;
+
+    const vermogenKopen = woningwaarde - restschuld + beleggingKopen;
+    const vermogenHuren = beleggingHuren;
+    if (omslagjaar === undefined && vermogenKopen >= vermogenHuren) {
+      omslagjaar = jaar;
+    }
+
+    jaren.push({
+      jaar,
+      woningwaarde: roundCents(woningwaarde),
+      restschuld: roundCents(restschuld),
+      woonlasten_kopen: roundCents(woonlastenKopen),
+      woonlasten_huren: roundCents(woonlastenHuren),
+      vermogen_kopen: roundCents(vermogenKopen),
+      vermogen_huren: roundCents(vermogenHuren),
+      verschil: roundCents(vermogenKopen - vermogenHuren),
+    });
+
+    huurPerMaand *= 1 + input.huurstijging;
+  }
+
+  return { jaren, omslagjaar };
+}
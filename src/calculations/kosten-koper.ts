@@ -0,0 +1,202 @@
+/**
+ * Kosten koper
+ *
+ * Specificeert de bijkomende kosten bij aankoop van een woning voor eigen
+ * bewoning: overdrachtsbelasting (inclusief startersvrijstelling per koper),
+ * notaris, taxatie, advies en de NHG-borgtochtprovisie. Tarieven en grenzen
+ * zijn per jaar vastgelegd; de vaste kostenposten zijn gemiddelde
+ * marktbedragen die per aanvraag overschreven kunnen worden.
+ */
+
+import { calculateAge } from '../types/index.js';
+import { roundCents, selecteerJaartabel } from './financieel.js';
+import { getNhgParameters } from './nhg.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface KostenKoperParameters {
+  jaar: number;
+  overdrachtsbelastingTarief: number;
+  // Maximale woningwaarde voor de startersvrijstelling
+  startersvrijstellingGrens: number;
+  startersMinLeeftijd: number;
+  // Vrijstelling geldt tot (niet tot en met) deze leeftijd
+  startersMaxLeeftijd: number;
+}
+
+export interface Koper {
+  geboortedatum: string;
+  eerder_startersvrijstelling_gebruikt?: boolean;
+}
+
+export interface KostenKoperOverrides {
+  notariskosten?: number;
+  taxatiekosten?: number;
+  advieskosten?: number;
+  nhg?: boolean;
+}
+
+export interface KostenKoperInput {
+  waarde_woning: number;
+  kopers: Koper[];
+  // Verbouwing/verduurzaming die mee gefinancierd wordt
+  overige_financiering?: number;
+  // Eigen geld en overwaarde; verlaagt de geschatte hypotheek voor de NHG-provisie
+  eigen_inbreng?: number;
+  overrides?: KostenKoperOverrides;
+  peildatum?: Date;
+}
+
+export interface KostenKoperResultaat {
+  jaar: number;
+  overdrachtsbelasting: number;
+  startersvrijstelling: 'volledig' | 'gedeeltelijk' | 'geen';
+  notariskosten: number;
+  taxatiekosten: number;
+  advieskosten: number;
+  nhg_provisie: number;
+  totaal: number;
+  // Totaal als fractie van de koopsom (voor kosten_percentage)
+  percentage: number;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+export const KOSTEN_KOPER_PARAMETERS: Record<number, KostenKoperParameters> = {
+  2024: {
+    jaar: 2024,
+    overdrachtsbelastingTarief: 0.02,
+    startersvrijstellingGrens: 510_000,
+    startersMinLeeftijd: 18,
+    startersMaxLeeftijd: 35,
+  },
+  2025: {
+    jaar: 2025,
+    overdrachtsbelastingTarief: 0.02,
+    startersvrijstellingGrens: 525_000,
+    startersMinLeeftijd: 18,
+    startersMaxLeeftijd: 35,
+  },
+  2026: {
+    jaar: 2026,
+    overdrachtsbelastingTarief: 0.02,
+    startersvrijstellingGrens: 555_000,
+    startersMinLeeftijd: 18,
+    startersMaxLeeftijd: 35,
+  },
+};
+
+/**
+ * Gemiddelde marktbedragen voor de vaste kostenposten
+ */
+export const STANDAARD_BIJKOMENDE_KOSTEN = {
+  // Leverings- en hypotheekakte inclusief kadasterkosten
+  notariskosten: 2_000,
+  taxatiekosten: 850,
+  advieskosten: 3_000,
+} as const;
+
+export function getKostenKoperParameters(
+  jaar: number = new Date().getFullYear()
+): KostenKoperParameters {
+  return selecteerJaartabel(KOSTEN_KOPER_PARAMETERS, jaar);
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Komt een koper in aanmerking voor de startersvrijstelling?
+ */
+export function heeftStartersvrijstelling(
+  koper: Koper,
+  waardeWoning: number,
+  parameters: KostenKoperParameters,
+  peildatum: Date = new Date()
+): boolean {
+  if (
+    koper.eerder_startersvrijstelling_gebruikt ||
+    waardeWoning > parameters.startersvrijstellingGrens
+  ) {
+    return false;
+  }
+  const leeftijd = calculateAge(koper.geboortedatum, peildatum);
+  return leeftijd >= parameters.startersMinLeeftijd && leeftijd < parameters.startersMaxLeeftijd;
+}
+
+/**
+ * Overdrachtsbelasting bij gelijke eigendomsdelen; de vrijstelling geldt per koper
+ */
+export function berekenOverdrachtsbelasting(
+  waardeWoning: number,
+  kopers: Koper[],
+  parameters: KostenKoperParameters,
+  peildatum: Date = new Date()
+): { bedrag: number; vrijgestelde_kopers: number } {
+  const aantal = Math.max(1, kopers.length);
+  const aandeel = waardeWoning / aantal;
+  const vrijgesteld = kopers.filter((koper) =>
+    heeftStartersvrijstelling(koper, waardeWoning, parameters, peildatum)
+  ).length;
+
+  return {
+    bedrag: roundCents((aantal - vrijgesteld) * aandeel * parameters.overdrachtsbelastingTarief),
+    vrijgestelde_kopers: vrijgesteld,
+  };
+}
+
+/**
+ * Volledige specificatie kosten koper
+ */
+export function berekenKostenKoper(input: KostenKoperInput): KostenKoperResultaat {
+  const peildatum = input.peildatum ?? new Date();
+  const parameters = getKostenKoperParameters(peildatum.getFullYear());
+  const overrides = input.overrides ?? {};
+
+  const overdracht = berekenOverdrachtsbelasting(
+    input.waarde_woning,
+    input.kopers,
+    parameters,
+    peildatum
+  );
+  const notariskosten = overrides.notariskosten ?? STANDAARD_BIJKOMENDE_KOSTEN.notariskosten;
+  const taxatiekosten = overrides.taxatiekosten ?? STANDAARD_BIJKOMENDE_KOSTEN.taxatiekosten;
+  const advieskosten = overrides.advieskosten ?? STANDAARD_BIJKOMENDE_KOSTEN.advieskosten;
+  const kostenExclusiefProvisie = overdracht.bedrag + notariskosten + taxatiekosten + advieskosten;
+
+  // De provisie wordt zelf mee gefinancierd: H = basis + provisie × H
+  const basisHypotheek = Math.max(
+    0,
+    input.waarde_woning +
+      (input.overige_financiering ?? 0) +
+      kostenExclusiefProvisie -
+      (input.eigen_inbreng ?? 0)
+  );
+  const provisie = getNhgParameters(parameters.jaar).provisie;
+  const nhgProvisie = overrides.nhg ? roundCents((basisHypotheek / (1 - provisie)) * provisie) : 0;
+
+  const totaal = roundCents(kostenExclusiefProvisie + nhgProvisie);
+  const aantalKopers = Math.max(1, input.kopers.length);
+
+  return {
+    jaar: parameters.jaar,
+    overdrachtsbelasting: overdracht.bedrag,
+    startersvrijstelling:
+      overdracht.vrijgestelde_kopers === 0
+        ? 'geen'
+        : overdracht.vrijgestelde_kopers >= aantalKopers
+          ? 'volledig'
+          : 'gedeeltelijk',
+    notariskosten,
+    taxatiekosten,
+    advieskosten,
+    nhg_provisie: nhgProvisie,
+    totaal,
+    percentage: input.waarde_woning > 0 ? totaal / input.waarde_woning : 0,
+  };
+}
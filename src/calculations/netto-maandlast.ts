@@ -0,0 +1,222 @@
+/**
+ * Netto maandlast (hypotheekrenteaftrek)
+ *
+ * Zet de bruto maandlast om naar een netto maandlast op basis van de
+ * fiscale parameters per jaar: box 1 tarieven, het maximale aftrektarief,
+ * het eigenwoningforfait (percentage van de WOZ-waarde) en de afbouw van de
+ * Wet Hillen. Rekent met de aftrekbare rente van het eerste jaar.
+ */
+
+import { Hypotheekvorm, Leningdeel, normalizeHypotheekvorm } from '../types/index.js';
+import { berekenAflosschemas } from './aflosschema.js';
+import { roundCents, selecteerJaartabel } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface Belastingschijf {
+  // Bovengrens van de schijf (inclusief); Infinity voor de laatste schijf
+  tot: number;
+  tarief: number;
+}
+
+export interface ForfaitSchijf {
+  tot: number;
+  percentage: number;
+}
+
+export interface FiscaleParameters {
+  jaar: number;
+  box1Schijven: Belastingschijf[];
+  // Maximaal tarief waartegen hypotheekrente aftrekbaar is
+  aftrektarief: number;
+  eigenwoningforfait: {
+    schijven: ForfaitSchijf[];
+    // Boven de villagrens: vast bedrag plus percentage over het meerdere
+    villagrens: number;
+    villaBasis: number;
+    villaPercentage: number;
+  };
+  // Deel van het positieve saldo dat via de Wet Hillen wordt afgetrokken
+  hillenFactor: number;
+}
+
+export interface NettoMaandlastInput {
+  bruto_maandlast: number;
+  aftrekbare_rente_jaar: number;
+  woz_waarde: number;
+  // Inkomen van de partner aan wie de eigen woning wordt toegerekend
+  inkomen: number;
+  jaar?: number;
+}
+
+export interface NettoMaandlastResultaat {
+  jaar: number;
+  bruto_maandlast: number;
+  aftrekbare_rente_jaar: number;
+  eigenwoningforfait: number;
+  hillen_aftrek: number;
+  // Negatief = aftrekpost, positief = bijtelling
+  saldo_eigen_woning: number;
+  tarief: number;
+  fiscaal_voordeel_jaar: number;
+  fiscaal_voordeel_pm: number;
+  netto_maandlast: number;
+}
+
+// ==============================================================================
+// FISCALE PARAMETERS
+// ==============================================================================
+
+const FORFAIT_ONDER_75K: ForfaitSchijf[] = [
+  { tot: 12_500, percentage: 0 },
+  { tot: 25_000, percentage: 0.001 },
+  { tot: 50_000, percentage: 0.002 },
+  { tot: 75_000, percentage: 0.0025 },
+];
+
+export const FISCALE_PARAMETERS: Record<number, FiscaleParameters> = {
+  2024: {
+    jaar: 2024,
+    box1Schijven: [
+      { tot: 75_518, tarief: 0.3697 },
+      { tot: Infinity, tarief: 0.495 },
+    ],
+    aftrektarief: 0.3697,
+    eigenwoningforfait: {
+      schijven: [...FORFAIT_ONDER_75K, { tot: 1_200_000, percentage: 0.0035 }],
+      villagrens: 1_200_000,
+      villaBasis: 4_200,
+      villaPercentage: 0.0235,
+    },
+    hillenFactor: 0.8,
+  },
+  2025: {
+    jaar: 2025,
+    box1Schijven: [
+      { tot: 38_441, tarief: 0.3582 },
+      { tot: 76_817, tarief: 0.3748 },
+      { tot: Infinity, tarief: 0.495 },
+    ],
+    aftrektarief: 0.3748,
+    eigenwoningforfait: {
+      schijven: [...FORFAIT_ONDER_75K, { tot: 1_310_000, percentage: 0.0035 }],
+      villagrens: 1_310_000,
+      villaBasis: 4_585,
+      villaPercentage: 0.0235,
+    },
+    hillenFactor: 0.76667,
+  },
+  2026: {
+    jaar: 2026,
+    box1Schijven: [
+      { tot: 38_883, tarief: 0.3575 },
+      { tot: 78_426, tarief: 0.3756 },
+      { tot: Infinity, tarief: 0.495 },
+    ],
+    aftrektarief: 0.3756,
+    eigenwoningforfait: {
+      schijven: [...FORFAIT_ONDER_75K, { tot: 1_330_000, percentage: 0.0035 }],
+      villagrens: 1_330_000,
+      villaBasis: 4_655,
+      villaPercentage: 0.0235,
+    },
+    hillenFactor: 0.73333,
+  },
+};
+
+export function getFiscaleParameters(jaar: number = new Date().getFullYear()): FiscaleParameters {
+  return selecteerJaartabel(FISCALE_PARAMETERS, jaar);
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Marginaal box 1 tarief voor een belastbaar inkomen
+ */
+export function marginaalTarief(inkomen: number, parameters: FiscaleParameters): number {
+  const schijf = parameters.box1Schijven.find((s) => inkomen <= s.tot);
+  return (schijf ?? parameters.box1Schijven[parameters.box1Schijven.length - 1]).tarief;
+}
+
+/**
+ * Eigenwoningforfait op jaarbasis
+ */
+export function berekenEigenwoningforfait(
+  wozWaarde: number,
+  parameters: FiscaleParameters
+): number {
+  const forfait = parameters.eigenwoningforfait;
+  if (wozWaarde > forfait.villagrens) {
+    return forfait.villaBasis + (wozWaarde - forfait.villagrens) * forfait.villaPercentage;
+  }
+  const schijf = forfait.schijven.find((s) => wozWaarde <= s.tot);
+  return wozWaarde * (schijf?.percentage ?? 0);
+}
+
+/**
+ * Netto maandlast op basis van de aftrekbare rente in het eerste jaar
+ */
+export function berekenNettoMaandlast(input: NettoMaandlastInput): NettoMaandlastResultaat {
+  const parameters = getFiscaleParameters(input.jaar);
+  const forfait = berekenEigenwoningforfait(input.woz_waarde, parameters);
+  const positiefSaldo = forfait - input.aftrekbare_rente_jaar;
+
+  const hillenAftrek = positiefSaldo > 0 ? positiefSaldo * parameters.hillenFactor : 0;
+  const saldo = positiefSaldo - hillenAftrek;
+
+  // Aftrek tegen maximaal het aftrektarief; een bijtelling tegen het marginale tarief
+  const marginaal = marginaalTarief(input.inkomen, parameters);
+  const tarief = saldo < 0 ? Math.min(marginaal, parameters.aftrektarief) : marginaal;
+  const voordeelJaar = -saldo * tarief;
+
+  return {
+    jaar: parameters.jaar,
+    bruto_maandlast: roundCents(input.bruto_maandlast),
+    aftrekbare_rente_jaar: roundCents(input.aftrekbare_rente_jaar),
+    eigenwoningforfait: roundCents(forfait),
+    hillen_aftrek: roundCents(hillenAftrek),
+    saldo_eigen_woning: roundCents(saldo),
+    tarief,
+    fiscaal_voordeel_jaar: roundCents(voordeelJaar),
+    fiscaal_voordeel_pm: roundCents(voordeelJaar / 12),
+    netto_maandlast: roundCents(input.bruto_maandlast - voordeelJaar / 12),
+  };
+}
+
+/**
+ * Netto maandlast voor een set leningdelen. Aflossingsvrije delen zijn sinds
+ * 2013 niet aftrekbaar, tenzij overgangsrecht van toepassing is.
+ */
+export function berekenNettoMaandlastVoorLeningdelen(
+  leningdelen: Leningdeel[],
+  opties: {
+    woz_waarde: number;
+    inkomen: number;
+    jaar?: number;
+    aflossingsvrij_aftrekbaar?: boolean;
+    bruto_maandlast?: number;
+  }
+): NettoMaandlastResultaat {
+  const aftrekbaar = leningdelen.filter(
+    (deel) =>
+      opties.aflossingsvrij_aftrekbaar ||
+      normalizeHypotheekvorm(deel.hypotheekvorm) !== Hypotheekvorm.AFLOSSINGSVRIJ
+  );
+  const eersteJaar = berekenAflosschemas(aftrekbaar, { weergave: 'jaar' }).totaal[0];
+  const brutoEersteMaand =
+    opties.bruto_maandlast ??
+    berekenAflosschemas(leningdelen, { weergave: 'maand' }).totaal[0]?.bruto_maandlast ??
+    0;
+
+  return berekenNettoMaandlast({
+    bruto_maandlast: brutoEersteMaand,
+    aftrekbare_rente_jaar: eersteJaar?.rente ?? 0,
+    woz_waarde: opties.woz_waarde,
+    inkomen: opties.inkomen,
+    jaar: opties.jaar,
+  });
+}
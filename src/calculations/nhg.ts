@@ -0,0 +1,149 @@
+/**
+ * Nationale Hypotheek Garantie (NHG)
+ *
+ * Toetst of een financiering binnen de NHG-kostengrens van het jaar valt,
+ * inclusief de verhoging voor energiebesparende voorzieningen, berekent de
+ * borgtochtprovisie en bepaalt welke renteklasse van toepassing is.
+ */
+
+import { Renteklasse } from '../types/index.js';
+import { roundCents, selecteerJaartabel } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface NhgParameters {
+  jaar: number;
+  kostengrens: number;
+  // Maximale verhoging van de kostengrens voor energiebesparende voorzieningen
+  energiebesparingOpslag: number;
+  provisie: number;
+}
+
+export interface NhgInput {
+  hypotheekbedrag: number;
+  // Marktwaarde na verbouwing; grondslag voor de LTV
+  marktwaarde: number;
+  bedrag_verduurzamen?: number;
+  renteklassen?: Renteklasse[];
+  jaar?: number;
+}
+
+export interface NhgToets {
+  jaar: number;
+  komt_in_aanmerking: boolean;
+  kostengrens: number;
+  // Kostengrens inclusief opslag voor energiebesparende voorzieningen
+  effectieve_kostengrens: number;
+  energiebesparing_opslag: number;
+  hypotheekbedrag: number;
+  borgtochtprovisie: number;
+  ltv: number;
+  renteklasse: string;
+  renteklasse_rente_pct?: number;
+  reden?: string;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+// Borgtochtprovisie per 1 januari 2025 verlaagd van 0,6% naar 0,4%
+export const NHG_PARAMETERS: Record<number, NhgParameters> = {
+  2024: { jaar: 2024, kostengrens: 435_000, energiebesparingOpslag: 0.06, provisie: 0.006 },
+  2025: { jaar: 2025, kostengrens: 470_000, energiebesparingOpslag: 0.06, provisie: 0.004 },
+  2026: { jaar: 2026, kostengrens: 470_000, energiebesparingOpslag: 0.06, provisie: 0.004 },
+};
+
+/**
+ * Standaard LTV-klassen (bovengrens in procenten) wanneer geen renteklassen zijn opgegeven
+ */
+const STANDAARD_LTV_KLASSEN = [60, 70, 80, 90, 100];
+
+export function getNhgParameters(jaar: number = new Date().getFullYear()): NhgParameters {
+  return selecteerJaartabel(NHG_PARAMETERS, jaar);
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Kostengrens inclusief opslag voor energiebesparende voorzieningen
+ */
+export function berekenEffectieveKostengrens(
+  parameters: NhgParameters,
+  bedragVerduurzamen = 0
+): { grens: number; opslag: number } {
+  const opslag = Math.min(
+    Math.max(0, bedragVerduurzamen),
+    parameters.kostengrens * parameters.energiebesparingOpslag
+  );
+  return { grens: parameters.kostengrens + opslag, opslag };
+}
+
+/**
+ * Kies de renteklasse: met NHG de NHG-klasse, anders de LTV-klasse
+ */
+export function bepaalRenteklasse(
+  ltv: number,
+  nhg: boolean,
+  renteklassen?: Renteklasse[]
+): { naam: string; rente_pct?: number } {
+  const ltvPct = ltv * 100;
+
+  if (renteklassen && renteklassen.length > 0) {
+    const passend = renteklassen.find(
+      (klasse) =>
+        klasse.nhg === nhg &&
+        ltvPct > klasse.lowerbound_ltv_pct &&
+        ltvPct <= klasse.higherbound_ltv_pct
+    );
+    const fallback = nhg ? renteklassen.find((klasse) => klasse.nhg) : undefined;
+    const gekozen = passend ?? fallback;
+    if (gekozen) {
+      return { naam: gekozen.naam, rente_pct: gekozen.rente_jaarlijks_pct };
+    }
+  }
+
+  if (nhg) {
+    return { naam: 'NHG' };
+  }
+  const bovengrens = STANDAARD_LTV_KLASSEN.find((grens) => ltvPct <= grens);
+  return { naam: bovengrens ? `LTV ≤ ${bovengrens}%` : 'LTV > 100%' };
+}
+
+/**
+ * NHG-toets voor een (geschatte) hypotheek
+ */
+export function toetsNhg(input: NhgInput): NhgToets {
+  const parameters = getNhgParameters(input.jaar);
+  const { grens, opslag } = berekenEffectieveKostengrens(parameters, input.bedrag_verduurzamen);
+  const ltv = input.marktwaarde > 0 ? input.hypotheekbedrag / input.marktwaarde : 0;
+
+  let reden: string | undefined;
+  if (input.hypotheekbedrag <= 0) {
+    reden = 'Geen hypotheek nodig';
+  } else if (input.hypotheekbedrag > grens) {
+    reden = 'Hypotheek boven de NHG-kostengrens';
+  }
+  const komtInAanmerking = reden === undefined;
+  const klasse = bepaalRenteklasse(ltv, komtInAanmerking, input.renteklassen);
+
+  return {
+    jaar: parameters.jaar,
+    komt_in_aanmerking: komtInAanmerking,
+    kostengrens: parameters.kostengrens,
+    effectieve_kostengrens: roundCents(grens),
+    energiebesparing_opslag: roundCents(opslag),
+    hypotheekbedrag: roundCents(input.hypotheekbedrag),
+    borgtochtprovisie: komtInAanmerking
+      ? roundCents(input.hypotheekbedrag * parameters.provisie)
+      : 0,
+    ltv,
+    renteklasse: klasse.naam,
+    renteklasse_rente_pct: klasse.rente_pct,
+    reden,
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Offline Rekenengine (fallback bij circuit breaker OPEN)
+ *
+ * Berekent een INDICATIEVE maximale hypotheek wanneer de Replit backend
+ * niet beschikbaar is. Gebaseerd op een vereenvoudigde Nibud
+ * financieringslasttabel (woonquote per toetsinkomen en toetsrente) en de
+ * AFM toetsrente voor rentevaste periodes korter dan 10 jaar.
+ *
+ * De output volgt de response-shape van de backend zodat de bestaande
+ * formatting hergebruikt kan worden, maar is altijd gemarkeerd als
+ * "indicatief/offline".
+ */
+
+import { Leningdeel } from '../types/index.js';
+import {
+  annuiteitHoofdsom,
+  annuiteitMaandlast,
+  roundCents,
+  selecteerJaartabel,
+  totaleMaandlast,
+} from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface WoonquoteTabel {
+  jaar: number;
+  // Ondergrenzen toetsinkomen (oplopend)
+  inkomensgrenzen: number[];
+  // Ondergrenzen toetsrente als decimaal (oplopend)
+  rentegrenzen: number[];
+  // percentages[renteIndex][inkomenIndex] als decimaal
+  percentages: number[][];
+  // Weging van het laagste inkomen bij twee aanvragers
+  partnerFactor: number;
+}
+
+export interface OfflineAanvragers {
+  inkomen_aanvrager: number;
+  heeft_partner: boolean;
+  inkomen_partner?: number;
+  verplichtingen_pm?: number;
+}
+
+export interface OfflineAannames {
+  rente: number;
+  rentevastMaanden: number;
+  looptijdMaanden: number;
+  jaar: number;
+}
+
+export interface OfflineBerekening {
+  toetsinkomen: number;
+  toetsrente: number;
+  woonquote: number;
+  maximale_maandlast: number;
+  maximaal_bedrag: number;
+  bruto_maandlast: number;
+  aannames: OfflineAannames;
+}
+
+// ==============================================================================
+// CONSTANTS
+// ==============================================================================
+
+export const OFFLINE_LABEL = 'Indicatief (offline berekening)';
+
+/**
+ * AFM toetsrente voor rentevaste periodes korter dan 10 jaar
+ */
+export const AFM_TOETSRENTE = 0.05;
+const TOETSRENTE_RENTEVAST_GRENS_MAANDEN = 120;
+
+export const OFFLINE_DEFAULTS: Omit<OfflineAannames, 'jaar'> = {
+  rente: 0.04,
+  rentevastMaanden: 120,
+  looptijdMaanden: 360,
+};
+
+const INKOMENSGRENZEN = [
+  0, 30_000, 40_000, 50_000, 60_000, 70_000, 80_000, 90_000, 100_000, 110_000,
+];
+const RENTEGRENZEN = [0, 0.02, 0.03, 0.04, 0.05, 0.06];
+
+/**
+ * Vereenvoudigde financieringslasttabellen per jaar (niet-AOW).
+ * Let op: indicatief; de backend blijft leidend voor de officiële normen.
+ */
+export const WOONQUOTE_TABELLEN: Record<number, WoonquoteTabel> = {
+  2024: {
+    jaar: 2024,
+    inkomensgrenzen: INKOMENSGRENZEN,
+    rentegrenzen: RENTEGRENZEN,
+    percentages: [
+      [0.165, 0.195, 0.215, 0.23, 0.24, 0.25, 0.255, 0.26, 0.265, 0.27],
+      [0.175, 0.205, 0.23, 0.245, 0.255, 0.265, 0.27, 0.275, 0.28, 0.285],
+      [0.185, 0.22, 0.24, 0.26, 0.27, 0.28, 0.29, 0.295, 0.3, 0.305],
+      [0.195, 0.23, 0.255, 0.275, 0.285, 0.295, 0.305, 0.31, 0.315, 0.32],
+      [0.205, 0.24, 0.265, 0.285, 0.3, 0.31, 0.32, 0.325, 0.33, 0.335],
+      [0.215, 0.25, 0.275, 0.3, 0.315, 0.325, 0.335, 0.34, 0.345, 0.35],
+    ],
+    partnerFactor: 0.9,
+  },
+  2025: {
+    jaar: 2025,
+    inkomensgrenzen: INKOMENSGRENZEN,
+    rentegrenzen: RENTEGRENZEN,
+    percentages: [
+      [0.17, 0.2, 0.22, 0.235, 0.245, 0.255, 0.26, 0.265, 0.27, 0.275],
+      [0.18, 0.21, 0.235, 0.25, 0.26, 0.27, 0.275, 0.28, 0.285, 0.29],
+      [0.19, 0.225, 0.245, 0.265, 0.275, 0.285, 0.295, 0.3, 0.305, 0.31],
+      [0.2, 0.235, 0.26, 0.28, 0.29, 0.3, 0.31, 0.315, 0.32, 0.325],
+      [0.21, 0.245, 0.27, 0.29, 0.305, 0.315, 0.325, 0.33, 0.335, 0.34],
+      [0.22, 0.255, 0.28, 0.305, 0.32, 0.33, 0.34, 0.345, 0.35, 0.355],
+    ],
+    partnerFactor: 1.0,
+  },
+};
+
+// ==============================================================================
+// HELPERS
+// ==============================================================================
+
+/**
+ * Tabel voor het gevraagde jaar, of de meest recente eerdere tabel
+ */
+export function getWoonquoteTabel(jaar: number = new Date().getFullYear()): WoonquoteTabel {
+  return selecteerJaartabel(WOONQUOTE_TABELLEN, jaar);
+}
+
+function bracketIndex(grenzen: number[], waarde: number): number {
+  let index = 0;
+  for (let i = 0; i < grenzen.length; i++) {
+    if (waarde >= grenzen[i]) {
+      index = i;
+    }
+  }
+  return index;
+}
+
+/**
+ * Woonquote (financieringslastpercentage) voor toetsinkomen en toetsrente
+ */
+export function bepaalWoonquote(
+  tabel: WoonquoteTabel,
+  toetsinkomen: number,
+  toetsrente: number
+): number {
+  const renteIndex = bracketIndex(tabel.rentegrenzen, toetsrente);
+  const inkomenIndex = bracketIndex(tabel.inkomensgrenzen, toetsinkomen);
+  return tabel.percentages[renteIndex][inkomenIndex];
+}
+
+/**
+ * Toetsrente: bij rentevast korter dan 10 jaar minimaal de AFM toetsrente
+ */
+export function bepaalToetsrente(rente: number, rentevastMaanden: number): number {
+  return rentevastMaanden < TOETSRENTE_RENTEVAST_GRENS_MAANDEN
+    ? Math.max(rente, AFM_TOETSRENTE)
+    : rente;
+}
+
+/**
+ * Toetsinkomen: hoogste inkomen volledig, laagste inkomen gewogen met de partnerfactor
+ */
+export function bepaalToetsinkomen(aanvragers: OfflineAanvragers, tabel: WoonquoteTabel): number {
+  const hoofd = aanvragers.inkomen_aanvrager;
+  const partner = aanvragers.heeft_partner ? (aanvragers.inkomen_partner ?? 0) : 0;
+  const hoogste = Math.max(hoofd, partner);
+  const laagste = Math.min(hoofd, partner);
+  return hoogste + laagste * tabel.partnerFactor;
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Bereken een indicatieve maximale hypotheek (annuïtair)
+ */
+export function berekenOfflineMaximaleHypotheek(
+  aanvragers: OfflineAanvragers,
+  aannames: Partial<OfflineAannames> = {}
+): OfflineBerekening {
+  const volledig: OfflineAannames = {
+    ...OFFLINE_DEFAULTS,
+    jaar: new Date().getFullYear(),
+    ...aannames,
+  };
+  const tabel = getWoonquoteTabel(volledig.jaar);
+
+  const toetsinkomen = bepaalToetsinkomen(aanvragers, tabel);
+  const toetsrente = bepaalToetsrente(volledig.rente, volledig.rentevastMaanden);
+  const woonquote = bepaalWoonquote(tabel, toetsinkomen, toetsrente);
+
+  const maximaleMaandlast = Math.max(
+    0,
+    (toetsinkomen * woonquote) / 12 - (aanvragers.verplichtingen_pm ?? 0)
+  );
+  const maximaalBedrag = Math.floor(
+    annuiteitHoofdsom(maximaleMaandlast, toetsrente, volledig.looptijdMaanden)
+  );
+  const brutoMaandlast = annuiteitMaandlast(
+    maximaalBedrag,
+    volledig.rente,
+    volledig.looptijdMaanden
+  );
+
+  return {
+    toetsinkomen,
+    toetsrente,
+    woonquote,
+    maximale_maandlast: roundCents(maximaleMaandlast),
+    maximaal_bedrag: maximaalBedrag,
+    bruto_maandlast: roundCents(brutoMaandlast),
+    aannames: volledig,
+  };
+}
+
+function buildDisclaimers(berekening: OfflineBerekening): string[] {
+  const { aannames } = berekening;
+  return [
+    'De rekenservice is tijdelijk niet beschikbaar; dit is een INDICATIEVE offline berekening.',
+    `Aannames: annuïtair, looptijd ${aannames.looptijdMaanden / 12} jaar, rente ${(aannames.rente * 100).toFixed(2)}% met ${aannames.rentevastMaanden / 12} jaar rentevast, toetsrente ${(berekening.toetsrente * 100).toFixed(2)}%.`,
+    `Woonquote ${(berekening.woonquote * 100).toFixed(1)}% uit een vereenvoudigde benadering van de Nibud-tabel ${getWoonquoteTabel(aannames.jaar).jaar} (schatting, niet de officiële normen); energielabel en NHG zijn niet meegenomen.`,
+    'Herhaal de berekening zodra de service weer beschikbaar is voor een definitieve uitkomst.',
+  ];
+}
+
+function buildHypotheekgegevens(berekening: OfflineBerekening) {
+  return {
+    opzet_nieuwe_hypotheek: [
+      {
+        hypotheekvorm: 'annuiteit',
+        looptijd_maanden: berekening.aannames.looptijdMaanden,
+        rentevastperiode_maanden: berekening.aannames.rentevastMaanden,
+        rente: berekening.aannames.rente,
+      },
+    ],
+    nhg_toegepast: false,
+  };
+}
+
+/**
+ * Offline resultaat voor starters in backend response-shape
+ */
+export function berekenOfflineStarter(
+  aanvragers: OfflineAanvragers,
+  aannames?: Partial<OfflineAannames>
+) {
+  const berekening = berekenOfflineMaximaleHypotheek(aanvragers, aannames);
+
+  return {
+    offline: true,
+    resultaat: [
+      {
+        resultaat_omschrijving: OFFLINE_LABEL,
+        maximaal_bedrag: berekening.maximaal_bedrag,
+        bruto_maandlasten_nieuwe_lening: berekening.bruto_maandlast,
+        gebruikte_hypotheekgegevens: buildHypotheekgegevens(berekening),
+      },
+    ],
+    extra_informatie: {
+      disclaimers: buildDisclaimers(berekening),
+    },
+  };
+}
+
+/**
+ * Offline resultaat voor doorstromers in backend response-shape
+ */
+export function berekenOfflineDoorstromer(
+  aanvragers: OfflineAanvragers,
+  waardeHuidigeWoning: number,
+  leningdelen: Leningdeel[],
+  aannames?: Partial<OfflineAannames>
+) {
+  const berekening = berekenOfflineMaximaleHypotheek(aanvragers, aannames);
+  const huidigeSchuld = leningdelen.reduce((totaal, deel) => totaal + deel.huidige_schuld, 0);
+  const overwaarde = waardeHuidigeWoning - huidigeSchuld;
+  const maandlastNu = roundCents(totaleMaandlast(leningdelen));
+  const extraLeencapaciteit = Math.max(0, berekening.maximaal_bedrag - huidigeSchuld);
+
+  return {
+    offline: true,
+    resultaat: [
+      {
+        resultaat_omschrijving: OFFLINE_LABEL,
+        maximaal_bedrag: berekening.maximaal_bedrag,
+        bruto_maandlasten_nieuwe_lening: berekening.bruto_maandlast,
+        max_woningbudget: berekening.maximaal_bedrag + overwaarde,
+        overwaarde_bedrag: overwaarde,
+        huidige_hypotheek_schuld: huidigeSchuld,
+        extra_leencapaciteit: extraLeencapaciteit,
+        maandlast_nu: maandlastNu,
+        maandlast_straks: berekening.bruto_maandlast,
+        verschil_maandlast: roundCents(berekening.bruto_maandlast - maandlastNu),
+        gebruikte_hypotheekgegevens: buildHypotheekgegevens(berekening),
+        bestaande_situatie: {
+          woningwaarde: waardeHuidigeWoning,
+          totale_restschuld: huidigeSchuld,
+          huidige_maandlast: maandlastNu,
+        },
+      },
+    ],
+    extra_informatie: {
+      disclaimers: buildDisclaimers(berekening),
+    },
+  };
+}
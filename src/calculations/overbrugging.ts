@@ -0,0 +1,132 @@
+/**
+ * Overbruggingskrediet
+ *
+ * Een doorstromer die de nieuwe woning koopt voordat de huidige woning is
+ * verkocht, leent de verwachte overwaarde tijdelijk via een
+ * overbruggingskrediet. Het krediet is aflossingsvrij en wordt bij verkoop
+ * in één keer afgelost. Tot die tijd betaalt het huishouden de lasten van de
+ * bestaande hypotheek en de rente over het krediet bovenop de nieuwe
+ * maandlast (dubbele lasten). Het stressscenario toetst of de buffer aan
+ * eigen geld die na de aankoop overblijft die dubbele lasten een gegeven
+ * aantal maanden kan dragen.
+ */
+
+import { Leningdeel } from '../types/index.js';
+import { maandRente, roundCents, totaleMaandlast } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface OverbruggingInput {
+  verwachte_overwaarde: number;
+  // Jaarrente van het krediet als decimaal
+  rente: number;
+  // Maanden tussen aankoop nieuwe woning en verkoop huidige woning
+  looptijd_maanden: number;
+  bestaande_leningdelen: Leningdeel[];
+}
+
+export interface OverbruggingResultaat {
+  krediet: number;
+  looptijd_maanden: number;
+  rente_per_maand: number;
+  bestaande_maandlast: number;
+  // Bestaande maandlast plus rente overbrugging, bovenop de nieuwe maandlast
+  dubbele_lasten_per_maand: number;
+  totale_rente: number;
+  totale_dubbele_lasten: number;
+  reden?: string;
+}
+
+export interface DubbeleWoonlastenInput {
+  maanden: number;
+  bestaande_leningdelen: Leningdeel[];
+  nieuwe_maandlast: number;
+  // Overige lasten per maand bovenop de bestaande hypotheek, zoals rente overbrugging
+  overige_lasten_per_maand?: number;
+  // Eigen geld dat na de aankoop overblijft
+  buffer: number;
+}
+
+export interface DubbeleWoonlastenResultaat {
+  maanden: number;
+  bestaande_maandlast: number;
+  nieuwe_maandlast: number;
+  // Alles wat per maand bovenop de nieuwe maandlast komt
+  extra_per_maand: number;
+  totale_maandlast: number;
+  extra_totaal: number;
+  totaal_benodigd: number;
+  buffer: number;
+  buffer_toereikend: boolean;
+  tekort: number;
+  // Aantal maanden dat de buffer de extra lasten kan dragen
+  maanden_gedekt: number;
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Aantal (begonnen) maanden tussen twee datums; een gedeeltelijke maand telt als hele maand
+ */
+export function maandenTussen(van: Date, tot: Date): number {
+  const maanden =
+    (tot.getUTCFullYear() - van.getUTCFullYear()) * 12 + (tot.getUTCMonth() - van.getUTCMonth());
+  return Math.max(0, tot.getUTCDate() > van.getUTCDate() ? maanden + 1 : maanden);
+}
+
+/**
+ * Kredietbedrag, rente en dubbele lasten tijdens de overbruggingsperiode
+ */
+export function berekenOverbrugging(input: OverbruggingInput): OverbruggingResultaat {
+  const krediet = Math.max(0, input.verwachte_overwaarde);
+  const rentePerMaand = krediet * maandRente(input.rente);
+  const bestaandeMaandlast = totaleMaandlast(input.bestaande_leningdelen);
+  const dubbeleLasten = bestaandeMaandlast + rentePerMaand;
+
+  return {
+    krediet: roundCents(krediet),
+    looptijd_maanden: input.looptijd_maanden,
+    rente_per_maand: roundCents(rentePerMaand),
+    bestaande_maandlast: roundCents(bestaandeMaandlast),
+    dubbele_lasten_per_maand: roundCents(dubbeleLasten),
+    totale_rente: roundCents(rentePerMaand * input.looptijd_maanden),
+    totale_dubbele_lasten: roundCents(dubbeleLasten * input.looptijd_maanden),
+    reden:
+      krediet > 0
+        ? undefined
+        : 'Geen verwachte overwaarde: een overbruggingskrediet is niet nodig, de bestaande lasten lopen wel door tot de verkoop',
+  };
+}
+
+/**
+ * Dubbele woonlasten gedurende een aantal maanden, getoetst aan de buffer
+ */
+export function berekenDubbeleWoonlasten(
+  input: DubbeleWoonlastenInput
+): DubbeleWoonlastenResultaat {
+  const bestaandeMaandlast = totaleMaandlast(input.bestaande_leningdelen);
+  const extraPerMaand = bestaandeMaandlast + (input.overige_lasten_per_maand ?? 0);
+  const extraTotaal = extraPerMaand * input.maanden;
+  const buffer = Math.max(0, input.buffer);
+
+  return {
+    maanden: input.maanden,
+    bestaande_maandlast: roundCents(bestaandeMaandlast),
+    nieuwe_maandlast: roundCents(input.nieuwe_maandlast),
+    extra_per_maand: roundCents(extraPerMaand),
+    totale_maandlast: roundCents(input.nieuwe_maandlast + extraPerMaand),
+    extra_totaal: roundCents(extraTotaal),
+    totaal_benodigd: roundCents((input.nieuwe_maandlast + extraPerMaand) * input.maanden),
+    buffer: roundCents(buffer),
+    buffer_toereikend: buffer >= extraTotaal,
+    tekort: roundCents(Math.max(0, extraTotaal - buffer)),
+    maanden_gedekt:
+      extraPerMaand > 0
+        ? Math.min(input.maanden, Math.floor(buffer / extraPerMaand))
+        : input.maanden,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Oversluiten
+ *
+ * Vergelijkt het oversluiten van een bestaande hypotheek naar een nieuwe rente
+ * met doorlopen tot het einde van de rentevaste periode. Eenmalige kosten zijn
+ * de boeterente plus advies-, notaris- en taxatiekosten; die worden uit eigen
+ * geld betaald of meegefinancierd. Het netto voordeel per maand is de
+ * cumulatieve maandlastbesparing min de eenmalige kosten en min het verschil
+ * in restschuld, zodat meefinancieren niet als gratis geld telt.
+ */
+
+import { Leningdeel } from '../types/index.js';
+import { AflosschemaRegel, berekenAflosschema } from './aflosschema.js';
+import { roundCents, totaleMaandlast } from './financieel.js';
+import { STANDAARD_BIJKOMENDE_KOSTEN } from './kosten-koper.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface OversluitKostenOverrides {
+  advieskosten?: number;
+  notariskosten?: number;
+  taxatiekosten?: number;
+}
+
+export interface OversluitenInput {
+  leningdelen: Leningdeel[];
+  // Rente (decimaal) voor de nieuwe rentevaste periode, voor alle leningdelen
+  nieuwe_rente: number;
+  nieuwe_rentevast_maanden: number;
+  // Totale boeterente over alle leningdelen
+  boeterente: number;
+  kosten?: OversluitKostenOverrides;
+  kosten_meefinancieren?: boolean;
+}
+
+export interface OversluitKosten {
+  boeterente: number;
+  advieskosten: number;
+  notariskosten: number;
+  taxatiekosten: number;
+  totaal: number;
+}
+
+export interface OversluitenResultaat {
+  huidige_schuld: number;
+  nieuwe_hoofdsom: number;
+  kosten: OversluitKosten;
+  kosten_meegefinancierd: boolean;
+  huidige_maandlast: number;
+  nieuwe_maandlast: number;
+  maandlast_verschil: number;
+  // Resterende rentevaste periode waarover vergeleken wordt
+  horizon_maanden: number;
+  // Positief = oversluiten levert over de horizon netto op
+  netto_voordeel: number;
+  // Eerste maand waarin het cumulatieve netto voordeel niet meer negatief is
+  break_even_maand?: number;
+  reden?: string;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Gemiddelde kosten bij oversluiten; de notaris maakt alleen een hypotheekakte op
+ */
+export const STANDAARD_OVERSLUITKOSTEN = {
+  advieskosten: STANDAARD_BIJKOMENDE_KOSTEN.advieskosten,
+  notariskosten: 1_000,
+  taxatiekosten: STANDAARD_BIJKOMENDE_KOSTEN.taxatiekosten,
+} as const;
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+function sommeerPerMaand(
+  schemas: AflosschemaRegel[][],
+  horizon: number,
+  veld: 'bruto_maandlast' | 'restschuld'
+): number[] {
+  return Array.from({ length: horizon }, (_, maand) =>
+    schemas.reduce((totaal, regels) => totaal + (regels[maand]?.[veld] ?? 0), 0)
+  );
+}
+
+/**
+ * Oversluiten versus doorlopen over de resterende rentevaste periode
+ */
+export function berekenOversluiten(input: OversluitenInput): OversluitenResultaat {
+  const leningdelen = input.leningdelen;
+  const huidigeSchuld = leningdelen.reduce((totaal, deel) => totaal + deel.huidige_schuld, 0);
+
+  const advieskosten = input.kosten?.advieskosten ?? STANDAARD_OVERSLUITKOSTEN.advieskosten;
+  const notariskosten = input.kosten?.notariskosten ?? STANDAARD_OVERSLUITKOSTEN.notariskosten;
+  const taxatiekosten = input.kosten?.taxatiekosten ?? STANDAARD_OVERSLUITKOSTEN.taxatiekosten;
+  const totaleKosten = input.boeterente + advieskosten + notariskosten + taxatiekosten;
+  const meefinancieren = input.kosten_meefinancieren ?? false;
+
+  // Meegefinancierde kosten worden naar rato over de leningdelen verdeeld
+  const ophoging = meefinancieren && huidigeSchuld > 0 ? totaleKosten / huidigeSchuld : 0;
+  const nieuweDelen: Leningdeel[] = leningdelen.map((deel) => ({
+    ...deel,
+    huidige_schuld: deel.huidige_schuld * (1 + ophoging),
+    huidige_rente: input.nieuwe_rente,
+    rentevasteperiode_maanden: Math.min(
+      input.nieuwe_rentevast_maanden,
+      deel.resterende_looptijd_in_maanden
+    ),
+  }));
+
+  const resterendVast = Math.max(
+    ...leningdelen.map((deel) =>
+      Math.min(
+        Math.max(0, Math.round(deel.rentevasteperiode_maanden)),
+        Math.round(deel.resterende_looptijd_in_maanden)
+      )
+    )
+  );
+  const langsteLooptijd = Math.max(
+    ...leningdelen.map((deel) => Math.round(deel.resterende_looptijd_in_maanden))
+  );
+  const horizon =
+    resterendVast > 0
+      ? resterendVast
+      : Math.min(Math.round(input.nieuwe_rentevast_maanden), langsteLooptijd);
+
+  // Bij doorlopen wordt de rente na afloop van de rentevaste periode herzien naar de nieuwe rente
+  const oud = leningdelen.map(
+    (deel) =>
+      berekenAflosschema(deel, { weergave: 'maand', nieuweRente: input.nieuwe_rente }).regels
+  );
+  const nieuw = nieuweDelen.map((deel) => berekenAflosschema(deel, { weergave: 'maand' }).regels);
+  const maandlastOud = sommeerPerMaand(oud, horizon, 'bruto_maandlast');
+  const maandlastNieuw = sommeerPerMaand(nieuw, horizon, 'bruto_maandlast');
+  const restschuldOud = sommeerPerMaand(oud, horizon, 'restschuld');
+  const restschuldNieuw = sommeerPerMaand(nieuw, horizon, 'restschuld');
+
+  const eenmalig = meefinancieren ? 0 : totaleKosten;
+  let besparing = 0;
+  let nettoVoordeel = -eenmalig;
+  let breakEven: number | undefined;
+  for (let maand = 0; maand < horizon; maand++) {
+    besparing += maandlastOud[maand] - maandlastNieuw[maand];
+    nettoVoordeel = besparing - eenmalig - (restschuldNieuw[maand] - restschuldOud[maand]);
+    if (breakEven === undefined && nettoVoordeel >= 0) {
+      breakEven = maand + 1;
+    }
+  }
+
+  const huidigeMaandlast = totaleMaandlast(leningdelen);
+  const nieuweMaandlast = totaleMaandlast(nieuweDelen);
+  const gewogenRente =
+    huidigeSchuld > 0
+      ? leningdelen.reduce((totaal, deel) => totaal + deel.huidige_rente * deel.huidige_schuld, 0) /
+        huidigeSchuld
+      : 0;
+
+  let reden: string | undefined;
+  if (input.nieuwe_rente >= gewogenRente) {
+    reden = 'Nieuwe rente is niet lager dan de huidige (gewogen) rente';
+  } else if (breakEven === undefined) {
+    reden = 'Oversluiten verdient zich binnen de resterende rentevaste periode niet terug';
+  }
+
+  return {
+    huidige_schuld: roundCents(huidigeSchuld),
+    nieuwe_hoofdsom: roundCents(huidigeSchuld * (1 + ophoging)),
+    kosten: {
+      boeterente: roundCents(input.boeterente),
+      advieskosten,
+      notariskosten,
+      taxatiekosten,
+      totaal: roundCents(totaleKosten),
+    },
+    kosten_meegefinancierd: meefinancieren,
+    huidige_maandlast: roundCents(huidigeMaandlast),
+    nieuwe_maandlast: roundCents(nieuweMaandlast),
+    maandlast_verschil: roundCents(nieuweMaandlast - huidigeMaandlast),
+    horizon_maanden: horizon,
+    netto_voordeel: roundCents(nettoVoordeel),
+    break_even_maand: breakEven,
+    reden,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Rentemiddeling
+ *
+ * Vergelijkt het middelen van de rente van een leningdeel met wachten tot het
+ * einde van de rentevaste periode. De middelrente is het in de tijd gewogen
+ * gemiddelde van de huidige rente over de resterende rentevaste periode en de
+ * actuele rente over de rest van de nieuwe rentevaste periode, plus een
+ * eventuele renteopslag van de geldverstrekker. De kosten per scenario zijn
+ * de betaalde rente over de nieuwe rentevaste periode.
+ */
+
+import { Leningdeel } from '../types/index.js';
+import { berekenAflosschema } from './aflosschema.js';
+import { leningdeelMaandlast, roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface RentemiddelingInput {
+  leningdeel: Leningdeel;
+  // Actuele rente voor de nieuwe rentevaste periode (decimaal)
+  nieuwe_rente: number;
+  nieuwe_rentevast_maanden: number;
+  renteopslag?: number;
+  // Verwachte rente na afloop van de huidige rentevaste periode; standaard nieuwe_rente
+  rente_na_afloop?: number;
+}
+
+export interface RentemiddelingResultaat {
+  huidige_rente: number;
+  nieuwe_rente: number;
+  renteopslag: number;
+  middelrente: number;
+  resterende_rentevast_maanden: number;
+  horizon_maanden: number;
+  huidige_maandlast: number;
+  nieuwe_maandlast: number;
+  maandlast_verschil: number;
+  rente_na_afloop: number;
+  totale_rente_middelen: number;
+  totale_rente_wachten: number;
+  // Positief = middelen is goedkoper over de horizon
+  kostenverschil: number;
+  // Maand waarin het cumulatieve voordeel van middelen omslaat naar nadeel
+  break_even_maand?: number;
+  reden?: string;
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * In de tijd gewogen middelrente
+ */
+export function berekenMiddelrente(
+  huidigeRente: number,
+  resterendeMaanden: number,
+  nieuweRente: number,
+  nieuweRentevastMaanden: number,
+  renteopslag = 0
+): number {
+  if (nieuweRentevastMaanden <= 0) {
+    return huidigeRente + renteopslag;
+  }
+  const resterend = Math.min(resterendeMaanden, nieuweRentevastMaanden);
+  return (
+    (huidigeRente * resterend + nieuweRente * (nieuweRentevastMaanden - resterend)) /
+      nieuweRentevastMaanden +
+    renteopslag
+  );
+}
+
+/**
+ * Middelen versus wachten over de nieuwe rentevaste periode
+ */
+export function berekenRentemiddeling(input: RentemiddelingInput): RentemiddelingResultaat {
+  const deel = input.leningdeel;
+  const renteopslag = input.renteopslag ?? 0;
+  const renteNaAfloop = input.rente_na_afloop ?? input.nieuwe_rente;
+  const looptijd = Math.round(deel.resterende_looptijd_in_maanden);
+  const horizon = Math.min(Math.round(input.nieuwe_rentevast_maanden), looptijd);
+  const resterend = Math.min(Math.max(0, Math.round(deel.rentevasteperiode_maanden)), horizon);
+
+  const middelrente = berekenMiddelrente(
+    deel.huidige_rente,
+    resterend,
+    input.nieuwe_rente,
+    horizon,
+    renteopslag
+  );
+
+  const middelen = berekenAflosschema(
+    { ...deel, huidige_rente: middelrente, rentevasteperiode_maanden: horizon },
+    { weergave: 'maand' }
+  ).regels.slice(0, horizon);
+  const wachten = berekenAflosschema(deel, {
+    weergave: 'maand',
+    nieuweRente: renteNaAfloop,
+  }).regels.slice(0, horizon);
+
+  let cumulatiefVoordeel = 0;
+  let breakEven: number | undefined;
+  for (let maand = 0; maand < horizon; maand++) {
+    const vorigVoordeel = cumulatiefVoordeel;
+    cumulatiefVoordeel += (wachten[maand]?.rente ?? 0) - (middelen[maand]?.rente ?? 0);
+    if (breakEven === undefined && vorigVoordeel > 0 && cumulatiefVoordeel <= 0) {
+      breakEven = maand + 1;
+    }
+  }
+
+  const somRente = (regels: { rente: number }[]) =>
+    roundCents(regels.reduce((totaal, regel) => totaal + regel.rente, 0));
+  const totaleRenteMiddelen = somRente(middelen);
+  const totaleRenteWachten = somRente(wachten);
+  const huidigeMaandlast = leningdeelMaandlast(deel);
+  const nieuweMaandlast = leningdeelMaandlast(deel, middelrente);
+
+  let reden: string | undefined;
+  if (resterend === 0) {
+    reden = 'Geen resterende rentevaste periode; direct oversluiten tegen de actuele rente';
+  } else if (input.nieuwe_rente >= deel.huidige_rente) {
+    reden = 'Actuele rente is niet lager dan de huidige rente';
+  }
+
+  return {
+    huidige_rente: deel.huidige_rente,
+    nieuwe_rente: input.nieuwe_rente,
+    renteopslag,
+    middelrente,
+    resterende_rentevast_maanden: resterend,
+    horizon_maanden: horizon,
+    huidige_maandlast: roundCents(huidigeMaandlast),
+    nieuwe_maandlast: roundCents(nieuweMaandlast),
+    maandlast_verschil: roundCents(nieuweMaandlast - huidigeMaandlast),
+    rente_na_afloop: renteNaAfloop,
+    totale_rente_middelen: totaleRenteMiddelen,
+    totale_rente_wachten: totaleRenteWachten,
+    kostenverschil: roundCents(totaleRenteWachten - totaleRenteMiddelen),
+    break_even_maand: breakEven,
+    reden,
+  };
+}
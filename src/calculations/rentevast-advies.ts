@@ -0,0 +1,184 @@
+/**
+ * Rentevaste periode advies
+ *
+ * Zet de actuele rentes per rentevaste periode om naar een maandlast per
+ * periode en bepaalt per periode de break-even rentestijging: de stijging van
+ * de rente bij renteherziening waarboven de kortere periode over de looptijd
+ * van de eerstvolgende langere periode meer rente kost dan direct langer
+ * vastzetten.
+ */
+
+import { berekenAflosschema } from './aflosschema.js';
+import { annuiteitMaandlast, roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface RentevastOptie {
+  rentevast_maanden: number;
+  rente: number;
+}
+
+export interface RentevastAdviesInput {
+  hypotheekbedrag: number;
+  looptijd_maanden: number;
+  rentes: RentevastOptie[];
+}
+
+export interface RentevastPeriodeAdvies {
+  rentevast_maanden: number;
+  rente: number;
+  maandlast: number;
+  // Vergeleken met de eerstvolgende langere periode; ontbreekt bij de langste periode
+  vergeleken_met_maanden?: number;
+  // Rentestijging (decimaal) bij herziening waarboven deze periode duurder is; 0 = nu al duurder
+  break_even_stijging?: number;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Zoekgrens en nauwkeurigheid van de break-even stijging
+ */
+const MAX_STIJGING = 0.15;
+const STIJGING_PRECISIE = 0.00001;
+
+// ==============================================================================
+// RENTETABEL
+// ==============================================================================
+
+/**
+ * Rente uit een cel van de rentetabel: een getal (in procenten) of een
+ * staffel per LTV-bovengrens ({ "60": 3.4, "80": 3.6, "100": 3.9 })
+ */
+function renteVoorLtv(waarde: unknown, ltv: number): number | undefined {
+  if (typeof waarde === 'number' || typeof waarde === 'string') {
+    const rente = typeof waarde === 'number' ? waarde : Number.parseFloat(waarde);
+    return Number.isFinite(rente) ? rente / 100 : undefined;
+  }
+  if (typeof waarde !== 'object' || waarde === null) {
+    return undefined;
+  }
+
+  const staffel = Object.entries(waarde as Record<string, unknown>)
+    .map(([sleutel, rente]) => ({
+      grens: Number.parseFloat(sleutel.replace(/^ltv_?/i, '')),
+      rente: renteVoorLtv(rente, ltv),
+    }))
+    .filter(
+      (klasse): klasse is { grens: number; rente: number } =>
+        Number.isFinite(klasse.grens) && klasse.rente !== undefined
+    )
+    .sort((a, b) => a.grens - b.grens);
+
+  return staffel.find((klasse) => ltv * 100 <= klasse.grens)?.rente;
+}
+
+/**
+ * Rente per rentevaste periode uit een rentetabel van haal_actuele_rentes_op,
+ * voor de opgegeven LTV (decimaal)
+ */
+export function selecteerRentes(tabel: unknown, ltv: number): RentevastOptie[] {
+  if (typeof tabel !== 'object' || tabel === null) {
+    return [];
+  }
+
+  return Object.entries(tabel as Record<string, unknown>)
+    .map(([sleutel, waarde]) => {
+      const jaren = /^(\d+)_jaar$/.exec(sleutel);
+      const rente = jaren ? renteVoorLtv(waarde, ltv) : undefined;
+      return jaren && rente !== undefined
+        ? { rentevast_maanden: Number(jaren[1]) * 12, rente }
+        : null;
+    })
+    .filter((item): item is RentevastOptie => item !== null)
+    .sort((a, b) => a.rentevast_maanden - b.rentevast_maanden);
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+function renteOverHorizon(
+  input: RentevastAdviesInput,
+  optie: RentevastOptie,
+  horizon: number,
+  renteNaHerziening?: number
+): number {
+  const regels = berekenAflosschema(
+    {
+      huidige_schuld: input.hypotheekbedrag,
+      huidige_rente: optie.rente,
+      resterende_looptijd_in_maanden: input.looptijd_maanden,
+      rentevasteperiode_maanden: optie.rentevast_maanden,
+      hypotheekvorm: 'annuiteit',
+    },
+    { weergave: 'maand', nieuweRente: renteNaHerziening }
+  ).regels.slice(0, horizon);
+  return regels.reduce((totaal, regel) => totaal + regel.rente, 0);
+}
+
+/**
+ * Rentestijging bij herziening waarboven de korte periode over de horizon van
+ * de lange periode meer rente kost; undefined als dat binnen de zoekgrens niet gebeurt
+ */
+export function berekenBreakEvenStijging(
+  input: RentevastAdviesInput,
+  kort: RentevastOptie,
+  lang: RentevastOptie
+): number | undefined {
+  const horizon = Math.min(lang.rentevast_maanden, input.looptijd_maanden);
+  if (kort.rentevast_maanden >= horizon) {
+    return undefined;
+  }
+
+  const renteLang = renteOverHorizon(input, lang, horizon);
+  const meerkosten = (stijging: number) =>
+    renteOverHorizon(input, kort, horizon, kort.rente + stijging) - renteLang;
+
+  if (meerkosten(0) >= 0) {
+    return 0;
+  }
+  if (meerkosten(MAX_STIJGING) < 0) {
+    return undefined;
+  }
+
+  let laag = 0;
+  let hoog = MAX_STIJGING;
+  while (hoog - laag > STIJGING_PRECISIE) {
+    const midden = (laag + hoog) / 2;
+    if (meerkosten(midden) >= 0) {
+      hoog = midden;
+    } else {
+      laag = midden;
+    }
+  }
+  return hoog;
+}
+
+/**
+ * Maandlast en break-even rentestijging per rentevaste periode
+ */
+export function adviseerRentevastePeriode(input: RentevastAdviesInput): RentevastPeriodeAdvies[] {
+  const opties = input.rentes.filter((optie) => optie.rentevast_maanden <= input.looptijd_maanden);
+
+  return opties.map((optie, index) => {
+    const advies: RentevastPeriodeAdvies = {
+      rentevast_maanden: optie.rentevast_maanden,
+      rente: optie.rente,
+      maandlast: roundCents(
+        annuiteitMaandlast(input.hypotheekbedrag, optie.rente, input.looptijd_maanden)
+      ),
+    };
+
+    const langer = opties[index + 1];
+    if (langer) {
+      advies.vergeleken_met_maanden = langer.rentevast_maanden;
+      advies.break_even_stijging = berekenBreakEvenStijging(input, optie, langer);
+    }
+    return advies;
+  });
+}
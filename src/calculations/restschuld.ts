@@ -0,0 +1,143 @@
+/**
+ * Restschuld (woning onder water)
+ *
+ * Is de waarde van de huidige woning lager dan de totale hypotheekschuld,
+ * dan blijft er na verkoop een restschuld over. Die wordt hier als aparte
+ * annuïtaire lening met een eigen rente en looptijd gefinancierd. Fiscaal
+ * is de rente alleen aftrekbaar voor restschulden die zijn ontstaan bij
+ * verkoop tussen 29 oktober 2012 en 31 december 2017, gedurende maximaal
+ * 15 jaar na de verkoop; latere restschulden vallen in box 3.
+ */
+
+import { Leningdeel } from '../types/index.js';
+import { berekenAflosschema } from './aflosschema.js';
+import { annuiteitMaandlast, roundCents } from './financieel.js';
+import { getFiscaleParameters, marginaalTarief } from './netto-maandlast.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface RestschuldInput {
+  waarde_huidige_woning: number;
+  leningdelen: Leningdeel[];
+  // Rente (decimaal) en looptijd van de restschuldfinanciering
+  rente?: number;
+  looptijd_maanden?: number;
+  // Datum van verkoop van de huidige woning; standaard vandaag
+  verkoopdatum?: Date;
+  // Inkomen van de partner aan wie de aftrek wordt toegerekend
+  inkomen: number;
+  peildatum?: Date;
+}
+
+export interface RestschuldFinanciering {
+  restschuld: number;
+  rente: number;
+  looptijd_maanden: number;
+  bruto_maandlast: number;
+  totale_rente: number;
+  rente_aftrekbaar: boolean;
+  // Laatste datum waarop de rente aftrekbaar is (alleen bij aftrekbare rente)
+  aftrekbaar_tot?: Date;
+  tarief: number;
+  fiscaal_voordeel_pm: number;
+  netto_maandlast: number;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Aannames als de gebruiker geen rente of looptijd opgeeft
+ */
+export const STANDAARD_RESTSCHULD_FINANCIERING = {
+  rente: 0.06,
+  looptijd_maanden: 180,
+} as const;
+
+/**
+ * Tijdelijke aftrek restschuld (art. 3.120a Wet IB 2001)
+ */
+export const RESTSCHULD_AFTREK = {
+  verkocht_vanaf: new Date(Date.UTC(2012, 9, 29)),
+  verkocht_tot_en_met: new Date(Date.UTC(2017, 11, 31)),
+  max_jaren: 15,
+} as const;
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Tekort na verkoop: totale schuld min woningwaarde, nooit negatief
+ */
+export function bepaalRestschuld(waardeHuidigeWoning: number, leningdelen: Leningdeel[]): number {
+  const schuld = leningdelen.reduce((totaal, deel) => totaal + deel.huidige_schuld, 0);
+  return Math.max(0, schuld - waardeHuidigeWoning);
+}
+
+/**
+ * Laatste dag van de renteaftrek, of undefined als de restschuld niet onder de regeling valt
+ */
+export function aftrekbaarTot(verkoopdatum: Date): Date | undefined {
+  if (
+    verkoopdatum < RESTSCHULD_AFTREK.verkocht_vanaf ||
+    verkoopdatum > RESTSCHULD_AFTREK.verkocht_tot_en_met
+  ) {
+    return undefined;
+  }
+  const einde = new Date(verkoopdatum);
+  einde.setUTCFullYear(einde.getUTCFullYear() + RESTSCHULD_AFTREK.max_jaren);
+  return einde;
+}
+
+/**
+ * Financiering van de restschuld; null als de woning niet onder water staat
+ */
+export function berekenRestschuldFinanciering(
+  input: RestschuldInput
+): RestschuldFinanciering | null {
+  const restschuld = bepaalRestschuld(input.waarde_huidige_woning, input.leningdelen);
+  if (restschuld <= 0) {
+    return null;
+  }
+
+  const rente = input.rente ?? STANDAARD_RESTSCHULD_FINANCIERING.rente;
+  const looptijd = input.looptijd_maanden ?? STANDAARD_RESTSCHULD_FINANCIERING.looptijd_maanden;
+  const peildatum = input.peildatum ?? new Date();
+  const regels = berekenAflosschema(
+    {
+      huidige_schuld: restschuld,
+      huidige_rente: rente,
+      resterende_looptijd_in_maanden: looptijd,
+      rentevasteperiode_maanden: looptijd,
+      hypotheekvorm: 'annuiteit',
+    },
+    { weergave: 'maand' }
+  ).regels;
+  const brutoMaandlast = annuiteitMaandlast(restschuld, rente, looptijd);
+
+  const einde = aftrekbaarTot(input.verkoopdatum ?? peildatum);
+  const aftrekbaar = einde !== undefined && peildatum <= einde;
+  const parameters = getFiscaleParameters(peildatum.getFullYear());
+  const tarief = aftrekbaar
+    ? Math.min(marginaalTarief(input.inkomen, parameters), parameters.aftrektarief)
+    : 0;
+  const renteEersteJaar = regels.slice(0, 12).reduce((totaal, regel) => totaal + regel.rente, 0);
+  const voordeelPm = (renteEersteJaar * tarief) / 12;
+
+  return {
+    restschuld: roundCents(restschuld),
+    rente,
+    looptijd_maanden: looptijd,
+    bruto_maandlast: roundCents(brutoMaandlast),
+    totale_rente: roundCents(regels.reduce((totaal, regel) => totaal + regel.rente, 0)),
+    rente_aftrekbaar: aftrekbaar,
+    aftrekbaar_tot: aftrekbaar ? einde : undefined,
+    tarief,
+    fiscaal_voordeel_pm: roundCents(voordeelPm),
+    netto_maandlast: roundCents(brutoMaandlast - voordeelPm),
+  };
+}
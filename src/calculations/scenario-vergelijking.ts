@@ -0,0 +1,105 @@
+/**
+ * Scenariovergelijking
+ *
+ * Past benoemde aanpassingen toe op één basisinvoer en bepaalt per kerncijfer
+ * welke scenario's afwijken van de basis. De backend-calls zelf lopen via de
+ * tool; deze module bevat alleen het samenvoegen en vergelijken.
+ */
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface ScenarioAanpassing {
+  naam: string;
+  // Velden die over de basisinvoer heen gelegd worden (geneste objecten worden samengevoegd)
+  aanpassingen: Record<string, unknown>;
+}
+
+export interface ScenarioKerncijfers {
+  maximaal_bedrag: number | null;
+  // Alleen bij doorstromers: maximale koopsom inclusief overwaarde
+  woningbudget: number | null;
+  maandlast: number | null;
+  // Totale rente over de looptijd bij gelijkblijvende rente
+  totaal_rente: number | null;
+  nhg: boolean | null;
+}
+
+export type Kerncijfer = keyof ScenarioKerncijfers;
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Maximum aantal scenario's naast de basis
+ */
+export const MAX_VERGELIJK_SCENARIOS = 6;
+
+/**
+ * Bedragen die minder dan dit verschillen gelden als gelijk (afronding backend)
+ */
+const BEDRAG_TOLERANTIE = 1;
+
+// ==============================================================================
+// SAMENVOEGEN
+// ==============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Basisinvoer met de aanpassingen van één scenario; lijsten worden vervangen,
+ * objecten recursief samengevoegd
+ */
+export function pasAanpassingenToe<T extends Record<string, unknown>>(
+  basis: T,
+  aanpassingen: Record<string, unknown>
+): T {
+  const resultaat: Record<string, unknown> = { ...basis };
+  for (const [sleutel, waarde] of Object.entries(aanpassingen)) {
+    const huidig = resultaat[sleutel];
+    resultaat[sleutel] =
+      isPlainObject(huidig) && isPlainObject(waarde) ? pasAanpassingenToe(huidig, waarde) : waarde;
+  }
+  return resultaat as T;
+}
+
+// ==============================================================================
+// VERGELIJKEN
+// ==============================================================================
+
+/**
+ * Of een kerncijfer van een scenario afwijkt van de basis
+ */
+export function wijktAf(
+  basis: ScenarioKerncijfers,
+  scenario: ScenarioKerncijfers,
+  veld: Kerncijfer
+): boolean {
+  const a = basis[veld];
+  const b = scenario[veld];
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) >= BEDRAG_TOLERANTIE;
+  }
+  return a !== b;
+}
+
+/**
+ * Kerncijfers waarop minstens één scenario van de basis afwijkt
+ */
+export function bepaalVerschillen(
+  basis: ScenarioKerncijfers,
+  scenarios: ScenarioKerncijfers[]
+): Kerncijfer[] {
+  const velden: Kerncijfer[] = [
+    'maximaal_bedrag',
+    'woningbudget',
+    'maandlast',
+    'totaal_rente',
+    'nhg',
+  ];
+  return velden.filter((veld) => scenarios.some((scenario) => wijktAf(basis, scenario, veld)));
+}
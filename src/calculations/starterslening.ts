@@ -0,0 +1,92 @@
+/**
+ * Starterslening (SVn)
+ *
+ * Gemeenten die meedoen met de Starterslening van SVn financieren het
+ * verschil tussen wat de bank maximaal leent en wat de woning kost, tot een
+ * maximum per gemeente. De regels (maximaal bedrag, koopsomgrens, rente)
+ * komen uit de configuratie. De eerste jaren is de lening rente- en
+ * aflossingsvrij; daarna wordt ze annuïtair afgelost over de resterende
+ * looptijd.
+ */
+
+import { StartersleningRegels } from '../types/index.js';
+import { annuiteitMaandlast, roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface StartersleningInput {
+  regels: StartersleningRegels;
+  koopsom: number;
+  // Benodigd bedrag dat niet met hypotheek en eigen geld gefinancierd kan worden
+  tekort: number;
+  // Gewenst bedrag; standaard het tekort
+  gewenst_bedrag?: number;
+}
+
+export interface StartersleningResultaat {
+  gemeente: string;
+  maximaal: number;
+  bedrag: number;
+  // Tekort dat ook na de starterslening overblijft
+  resterend_tekort: number;
+  rente: number;
+  looptijd_maanden: number;
+  rentevrije_maanden: number;
+  maandlast_rentevrij: number;
+  maandlast_na_rentevrij: number;
+  reden?: string;
+}
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+/**
+ * Regels van een gemeente, hoofdletterongevoelig op naam
+ */
+export function vindStartersleningRegels(
+  regels: StartersleningRegels[],
+  gemeente: string
+): StartersleningRegels | undefined {
+  const naam = gemeente.trim().toLowerCase();
+  return regels.find((regel) => regel.gemeente.trim().toLowerCase() === naam);
+}
+
+/**
+ * Maximale en benodigde starterslening met de maandlasten in en na de rentevrije periode
+ */
+export function berekenStarterslening(input: StartersleningInput): StartersleningResultaat {
+  const { regels } = input;
+  const tekort = Math.max(0, input.tekort);
+
+  let maximaal = regels.max_bedrag;
+  if (regels.max_percentage_koopsom !== undefined) {
+    maximaal = Math.min(maximaal, input.koopsom * regels.max_percentage_koopsom);
+  }
+
+  let reden: string | undefined;
+  if (regels.max_koopsom !== undefined && input.koopsom > regels.max_koopsom) {
+    maximaal = 0;
+    reden = `Koopsom ligt boven de grens van ${regels.gemeente} voor een starterslening`;
+  } else if (tekort === 0 && input.gewenst_bedrag === undefined) {
+    reden = 'Hypotheek en eigen geld dekken de aankoop; een starterslening is niet nodig';
+  }
+
+  const bedrag = Math.min(maximaal, input.gewenst_bedrag ?? tekort);
+  const aflosMaanden = regels.looptijd_maanden - regels.rentevrije_maanden;
+
+  return {
+    gemeente: regels.gemeente,
+    maximaal: roundCents(maximaal),
+    bedrag: roundCents(bedrag),
+    resterend_tekort: roundCents(Math.max(0, tekort - bedrag)),
+    rente: regels.rente,
+    looptijd_maanden: regels.looptijd_maanden,
+    rentevrije_maanden: regels.rentevrije_maanden,
+    maandlast_rentevrij: 0,
+    maandlast_na_rentevrij: roundCents(annuiteitMaandlast(bedrag, regels.rente, aflosMaanden)),
+    reden,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Toetsinkomen
+ *
+ * Leidt het toetsinkomen af voor ondernemers en flexwerkers, van wie het
+ * inkomen niet als één vast jaarbedrag vaststaat. Voor ZZP'ers en flexwerkers
+ * zonder IBL geldt het gemiddelde over de laatste drie jaar, maar nooit meer
+ * dan het laatste jaar. Een IBL-toetsinkomen (UWV) en het inkomen op een
+ * perspectiefverklaring worden ongewijzigd overgenomen.
+ */
+
+import { roundCents } from './financieel.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export type InkomensbronSoort = 'zzp' | 'flex' | 'ibl' | 'perspectiefverklaring';
+
+export type Inkomensbron =
+  // Winst uit onderneming per jaar, oudste jaar eerst
+  | { soort: 'zzp'; winst_per_jaar: number[] }
+  // Bruto jaarinkomen per jaar zonder IBL, oudste jaar eerst
+  | { soort: 'flex'; inkomen_per_jaar: number[] }
+  | { soort: 'ibl'; toetsinkomen: number }
+  | { soort: 'perspectiefverklaring'; jaarinkomen: number };
+
+export interface ToetsinkomenAfleiding {
+  soort: InkomensbronSoort;
+  toetsinkomen: number;
+  // Alleen bij zzp en flex
+  gemiddelde?: number;
+  laatste_jaar?: number;
+  toelichting: string;
+}
+
+// ==============================================================================
+// PARAMETERS
+// ==============================================================================
+
+/**
+ * Aantal jaren waarover het inkomen van ondernemers en flexwerkers wordt gemiddeld
+ */
+export const JAREN_GEMIDDELD_INKOMEN = 3;
+
+// ==============================================================================
+// BEREKENING
+// ==============================================================================
+
+function gemiddeldMaxLaatsteJaar(soort: 'zzp' | 'flex', bedragen: number[]): ToetsinkomenAfleiding {
+  const jaren = bedragen.slice(-JAREN_GEMIDDELD_INKOMEN);
+  const gemiddelde = jaren.reduce((totaal, bedrag) => totaal + bedrag, 0) / jaren.length;
+  const laatsteJaar = jaren[jaren.length - 1];
+  const begrensd = laatsteJaar < gemiddelde;
+  const omschrijving = soort === 'zzp' ? 'winst' : 'inkomen';
+
+  return {
+    soort,
+    toetsinkomen: roundCents(Math.max(0, Math.min(gemiddelde, laatsteJaar))),
+    gemiddelde: roundCents(gemiddelde),
+    laatste_jaar: roundCents(laatsteJaar),
+    toelichting: begrensd
+      ? `Laatste jaar ${omschrijving} is lager dan het gemiddelde over ${jaren.length} jaar en is daarom leidend`
+      : `Gemiddelde ${omschrijving} over de laatste ${jaren.length} jaar`,
+  };
+}
+
+/**
+ * Toetsinkomen volgens de standaardregels voor de opgegeven inkomensbron
+ */
+export function bepaalToetsinkomen(bron: Inkomensbron): ToetsinkomenAfleiding {
+  switch (bron.soort) {
+    case 'zzp':
+      return gemiddeldMaxLaatsteJaar('zzp', bron.winst_per_jaar);
+    case 'flex':
+      return gemiddeldMaxLaatsteJaar('flex', bron.inkomen_per_jaar);
+    case 'ibl':
+      return {
+        soort: 'ibl',
+        toetsinkomen: roundCents(bron.toetsinkomen),
+        toelichting: 'Toetsinkomen uit de Inkomensbepaling Loondienst (UWV)',
+      };
+    case 'perspectiefverklaring':
+      return {
+        soort: 'perspectiefverklaring',
+        toetsinkomen: roundCents(bron.jaarinkomen),
+        toelichting: 'Jaarinkomen volgens de perspectiefverklaring van de werkgever',
+      };
+  }
+}
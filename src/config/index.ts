@@ -2,14 +2,17 @@
  * Centralized configuration loader.
  */
 
+import { readFileSync } from 'node:fs';
 import { createRequire } from 'node:module';
 import { z } from 'zod';
 
-import { ValidationError, ErrorCode } from '../types/index.js';
+import { ValidationError, ErrorCode, StartersleningRegels } from '../types/index.js';
 
 const require = createRequire(import.meta.url);
 const { version: packageVersion } = require('../../package.json') as { version: string };
 
+export type TransportMode = 'stdio' | 'http';
+
 export interface ServerConfig {
   replitApiKey: string;
   replitApiUrlBase: string;
@@ -21,7 +24,18 @@ export interface ServerConfig {
   apiTimeoutMs: number;
   enableRetry: boolean;
   maxRetries: number;
+  apiMaxConcurrency: number;
   rateLimitPerSession: number;
+  mcpTransport: TransportMode;
+  httpHost: string;
+  httpPort: number;
+  httpPath: string;
+  httpSessionIdleTimeoutMs: number;
+  httpMaxSessions: number;
+  httpAllowedHosts?: string[];
+  httpAllowedOrigins?: string[];
+  healthPort?: number;
+  startersleningRegels: StartersleningRegels[];
   serverName: string;
   serverVersion: string;
 }
@@ -34,9 +48,39 @@ const envSchema = z.object({
   API_TIMEOUT_MS: z.coerce.number().min(5000).max(60000).default(30000),
   ENABLE_RETRY: z.coerce.boolean().default(true),
   MAX_RETRIES: z.coerce.number().min(0).max(5).default(3),
+  API_MAX_CONCURRENCY: z.coerce.number().int().min(1).max(10).default(3),
   RATE_LIMIT_PER_SESSION: z.coerce.number().min(1).default(100),
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  HOST: z.string().min(1).default('127.0.0.1'),
+  PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  MCP_HTTP_PATH: z.string().startsWith('/', 'MCP_HTTP_PATH moet met / beginnen').default('/mcp'),
+  MCP_SESSION_IDLE_TIMEOUT_MS: z.coerce
+    .number()
+    .min(60_000)
+    .default(30 * 60_000),
+  MCP_MAX_SESSIONS: z.coerce.number().int().min(1).default(100),
+  MCP_ALLOWED_HOSTS: z.string().optional(),
+  MCP_ALLOWED_ORIGINS: z.string().optional(),
+  HEALTH_PORT: z.coerce.number().int().min(1).max(65535).optional(),
+  STARTERSLENING_REGELS_PATH: z.string().min(1).optional(),
 });
 
+const startersleningRegelsSchema = z.array(
+  z
+    .object({
+      gemeente: z.string().min(1),
+      max_bedrag: z.number().positive(),
+      max_koopsom: z.number().positive().optional(),
+      max_percentage_koopsom: z.number().gt(0).max(1).optional(),
+      rente: z.number().min(0).max(0.2),
+      looptijd_maanden: z.number().int().min(12).max(360).default(360),
+      rentevrije_maanden: z.number().int().min(0).max(120).default(36),
+    })
+    .refine((regel) => regel.rentevrije_maanden < regel.looptijd_maanden, {
+      message: 'rentevrije_maanden moet korter zijn dan looptijd_maanden',
+    })
+);
+
 function parseEnv(): z.infer<typeof envSchema> {
   const raw = {
     REPLIT_API_KEY: process.env.REPLIT_API_KEY ?? ((process.env.NODE_ENV || 'development') === 'test' ? 'test-replit-api-key' : undefined),
@@ -46,7 +90,18 @@ function parseEnv(): z.infer<typeof envSchema> {
     API_TIMEOUT_MS: process.env.API_TIMEOUT_MS,
     ENABLE_RETRY: process.env.ENABLE_RETRY,
     MAX_RETRIES: process.env.MAX_RETRIES,
+    API_MAX_CONCURRENCY: process.env.API_MAX_CONCURRENCY,
     RATE_LIMIT_PER_SESSION: process.env.RATE_LIMIT_PER_SESSION,
+    MCP_TRANSPORT: process.env.MCP_TRANSPORT,
+    HOST: process.env.HOST,
+    PORT: process.env.PORT,
+    MCP_HTTP_PATH: process.env.MCP_HTTP_PATH,
+    MCP_SESSION_IDLE_TIMEOUT_MS: process.env.MCP_SESSION_IDLE_TIMEOUT_MS,
+    MCP_MAX_SESSIONS: process.env.MCP_MAX_SESSIONS,
+    MCP_ALLOWED_HOSTS: process.env.MCP_ALLOWED_HOSTS,
+    MCP_ALLOWED_ORIGINS: process.env.MCP_ALLOWED_ORIGINS,
+    HEALTH_PORT: process.env.HEALTH_PORT,
+    STARTERSLENING_REGELS_PATH: process.env.STARTERSLENING_REGELS_PATH,
   };
 
   try {
@@ -62,6 +117,47 @@ function parseEnv(): z.infer<typeof envSchema> {
   }
 }
 
+/**
+ * Kommagescheiden lijst uit een environment variabele
+ */
+function parseLijst(waarde: string | undefined): string[] | undefined {
+  const items = waarde
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function loadStartersleningRegels(pad: string | undefined): StartersleningRegels[] {
+  if (!pad) {
+    return [];
+  }
+
+  let inhoud: unknown;
+  try {
+    inhoud = JSON.parse(readFileSync(pad, 'utf8'));
+  } catch (error) {
+    const reden = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(
+      ErrorCode.CONFIGURATION_ERROR,
+      `Startersleningregels konden niet gelezen worden: ${reden}`,
+      'STARTERSLENING_REGELS_PATH'
+    );
+  }
+
+  const resultaat = startersleningRegelsSchema.safeParse(inhoud);
+  if (!resultaat.success) {
+    const issue = resultaat.error.issues[0];
+    const locatie = issue?.path.length ? ` (${issue.path.join('.')})` : '';
+    throw new ValidationError(
+      ErrorCode.CONFIGURATION_ERROR,
+      `Ongeldige startersleningregels${locatie}: ${issue?.message ?? 'onbekende fout'}`,
+      'STARTERSLENING_REGELS_PATH'
+    );
+  }
+  return resultaat.data;
+}
+
 export function loadConfig(): ServerConfig {
   const env = parseEnv();
 
@@ -76,7 +172,18 @@ export function loadConfig(): ServerConfig {
     apiTimeoutMs: env.API_TIMEOUT_MS,
     enableRetry: env.ENABLE_RETRY,
     maxRetries: env.MAX_RETRIES,
+    apiMaxConcurrency: env.API_MAX_CONCURRENCY,
     rateLimitPerSession: env.RATE_LIMIT_PER_SESSION,
+    mcpTransport: env.MCP_TRANSPORT,
+    httpHost: env.HOST,
+    httpPort: env.PORT,
+    httpPath: env.MCP_HTTP_PATH,
+    httpSessionIdleTimeoutMs: env.MCP_SESSION_IDLE_TIMEOUT_MS,
+    httpMaxSessions: env.MCP_MAX_SESSIONS,
+    httpAllowedHosts: parseLijst(env.MCP_ALLOWED_HOSTS),
+    httpAllowedOrigins: parseLijst(env.MCP_ALLOWED_ORIGINS),
+    healthPort: env.HEALTH_PORT,
+    startersleningRegels: loadStartersleningRegels(env.STARTERSLENING_REGELS_PATH),
     serverName: 'hypotheek-berekening-server',
     serverVersion: packageVersion,
   };
@@ -2,6 +2,7 @@
 import "dotenv/config";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Server as HttpServer } from 'node:http';
 import {
   CallToolRequestSchema,
   GetPromptRequestSchema,
@@ -11,23 +12,159 @@ import {
   ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { createLogger } from './utils/logger.js';
-import { getConfig } from './config/index.js';
+import { getConfig, TransportMode } from './config/index.js';
 import { 
   validateBaseArguments, 
   validateDoorstromerArguments,
-  validateBestaandeHypotheek
+  validateBestaandeHypotheek,
+  validateAflosschemaArguments,
+  validateNettoMaandlastArguments,
+  validateOptionalWozWaarde,
+  validateKostenKoperInvoer,
+  validateNhgArguments,
+  validateBoeterenteArguments,
+  validateOptionalRente,
+  validateRentemiddelingArguments,
+  validateGevoeligheidArguments,
+  validateOptionalBedrag,
+  validateOptionalFractie,
+  validateVergelijkScenariosArguments,
+  validateRentevastAdviesArguments,
+  validateOversluitenArguments,
+  validateExtraAflossenArguments,
+  validateHurenKopenArguments,
+  validateOverbrugging,
+  validateDubbeleLastenMaanden,
+  validateRestschuldFinanciering,
+  validateSchenking,
+  validateFamilielening,
+  validateStarterslening,
+  validateBouwdepot,
+  validateInkomensbron,
 } from './validation/schemas.js';
-import { ValidationError, normalizeEnergielabel, APIError, ErrorCode } from './types/index.js';
+import {
+  ValidationError,
+  normalizeEnergielabel,
+  APIError,
+  ErrorCode,
+  Leningdeel,
+  Renteklasse,
+  StartersleningRegels,
+  isHypotheekvorm,
+  ValidationConstraints,
+} from './types/index.js';
 import { getApiClient } from './api/client.js';
-import { enforceRateLimit } from './middleware/rate-limiter.js';
+import { enforceRateLimit, metTransportSessie } from './middleware/rate-limiter.js';
 import { 
   normalizeDoorstromerArgs,
   normalizeOpzetDoorstromerArgs,
   normalizeOpzetAanvragerShape,
+  normalizeBestaandeHypotheek,
 } from './adapters/field-normalizer.js';
 import { recordToolCall, recordValidationError } from './metrics/exporter.js';
 import { listResources, readResource } from './resources/index.js';
 import { getPrompt, listPrompts } from './prompts/index.js';
+import { McpHttpServer } from './transport/http.js';
+import { handleOpsRequest, startOpsServer } from './routes/ops-server.js';
+import { CircuitState, getCircuitBreaker } from './middleware/circuit-breaker.js';
+import { berekenOfflineDoorstromer, berekenOfflineStarter } from './calculations/offline-engine.js';
+import {
+  AflosschemaRegel,
+  AflosschemaWeergave,
+  GecombineerdAflosschema,
+  berekenAflosschema,
+  berekenAflosschemas,
+} from './calculations/aflosschema.js';
+import {
+  NettoMaandlastResultaat,
+  berekenNettoMaandlastVoorLeningdelen,
+} from './calculations/netto-maandlast.js';
+import {
+  Koper,
+  KostenKoperOverrides,
+  KostenKoperResultaat,
+  berekenKostenKoper,
+} from './calculations/kosten-koper.js';
+import { NhgToets, toetsNhg } from './calculations/nhg.js';
+import {
+  BoeterenteResultaat,
+  STANDAARD_BOETEVRIJ_PERCENTAGE,
+  Vergelijkingsrente,
+  berekenBoeterentes,
+  kiesVergelijkingsrente,
+  parseRentetabel,
+} from './calculations/boeterente.js';
+import { RentemiddelingResultaat, berekenRentemiddeling } from './calculations/rentemiddeling.js';
+import { OversluitenResultaat, berekenOversluiten } from './calculations/oversluiten.js';
+import {
+  DubbeleWoonlastenResultaat,
+  OverbruggingResultaat,
+  berekenDubbeleWoonlasten,
+  berekenOverbrugging,
+  maandenTussen,
+} from './calculations/overbrugging.js';
+import {
+  FamilieleningResultaat,
+  SchenkerRelatie,
+  SchenkingResultaat,
+  berekenFamilielening,
+  berekenSchenking,
+} from './calculations/eigen-geld.js';
+import { AowToets, toetsAow } from './calculations/aow.js';
+import {
+  Inkomensbron,
+  InkomensbronSoort,
+  bepaalToetsinkomen,
+} from './calculations/toetsinkomen.js';
+import {
+  BouwTermijn,
+  BouwdepotResultaat,
+  BouwdepotSoort,
+  berekenBouwdepot,
+  standaardTermijnen,
+} from './calculations/bouwdepot.js';
+import {
+  StartersleningResultaat,
+  berekenStarterslening,
+  vindStartersleningRegels,
+} from './calculations/starterslening.js';
+import {
+  RestschuldFinanciering,
+  STANDAARD_RESTSCHULD_FINANCIERING,
+  berekenRestschuldFinanciering,
+} from './calculations/restschuld.js';
+import { roundCents } from './calculations/financieel.js';
+import {
+  HurenKopenResultaat,
+  STANDAARD_HUREN_KOPEN_AANNAMES,
+  vergelijkHurenKopen,
+} from './calculations/huren-kopen.js';
+import {
+  AflosFrequentie,
+  ExtraAflosScenario,
+  ExtraAflossenResultaat,
+  berekenExtraAflossen,
+} from './calculations/extra-aflossen.js';
+import {
+  RentevastPeriodeAdvies,
+  adviseerRentevastePeriode,
+  selecteerRentes,
+} from './calculations/rentevast-advies.js';
+import {
+  GevoeligheidScenario,
+  MAX_GEVOELIGHEID_SCENARIOS,
+  genereerScenarios,
+} from './calculations/gevoeligheid.js';
+import { GoalSeekResultaat, zoekMaximum, zoekMinimum } from './calculations/goal-seek.js';
+import {
+  MAX_VERGELIJK_SCENARIOS,
+  ScenarioAanpassing,
+  ScenarioKerncijfers,
+  bepaalVerschillen,
+  pasAanpassingenToe,
+  wijktAf,
+} from './calculations/scenario-vergelijking.js';
+import { mapMetLimiet } from './utils/concurrency.js';
 
 const config = getConfig();
 
@@ -49,23 +186,31 @@ interface BaseArguments {
   inkomen_partner?: number;
   geboortedatum_partner?: string;
   verplichtingen_pm?: number;
-}
-
-interface Leningdeel {
-  huidige_schuld: number;
-  huidige_rente: number;
-  resterende_looptijd_in_maanden: number;
-  rentevasteperiode_maanden: number;
-  hypotheekvorm: string;
+  // Inkomen van ondernemers en flexwerkers; vervangt inkomen_aanvrager/inkomen_partner door het toetsinkomen
+  inkomensbron_aanvrager?: Inkomensbron;
+  inkomensbron_partner?: Inkomensbron;
+  toon_netto_maandlast?: boolean;
+  woz_waarde?: number;
+  // Verwacht bruto jaarinkomen na pensionering, voor de toets op pensioenleeftijd
+  pensioeninkomen_aanvrager?: number;
+  pensioeninkomen_partner?: number;
 }
 
 interface BestaandeHypotheek {
   leningdelen: Leningdeel[];
 }
 
+interface RestschuldInvoer {
+  rente?: number;
+  looptijd_jaren?: number;
+  // Datum van verkoop van de huidige woning (YYYY-MM-DD); standaard vandaag
+  verkoopdatum?: string;
+}
+
 interface DoorstromerArguments extends BaseArguments {
   waarde_huidige_woning: number;
   bestaande_hypotheek: BestaandeHypotheek;
+  restschuld_financiering?: RestschuldInvoer;
 }
 
 interface NieuweHypotheek {
@@ -83,6 +228,13 @@ interface UitgebreidArguments extends BaseArguments {
   waarde_huidige_woning?: number;
   bestaande_hypotheek?: BestaandeHypotheek;
   nieuwe_hypotheek?: NieuweHypotheek;
+  restschuld_financiering?: RestschuldInvoer;
+}
+
+interface GevoeligheidArguments extends UitgebreidArguments {
+  rente_variaties?: number[];
+  inkomen_variaties?: number[];
+  looptijden_jaren?: number[];
 }
 
 // Type definitions voor opzet hypotheek
@@ -94,11 +246,62 @@ interface OpzetAanvrager {
   geboortedatum_partner?: string;
   verplichtingen_pm?: number;
   eigen_vermogen?: number;
+  inkomensbron_aanvrager?: Inkomensbron;
+  inkomensbron_partner?: Inkomensbron;
+  pensioeninkomen_aanvrager?: number;
+  pensioeninkomen_partner?: number;
+}
+
+interface SchenkingInvoer {
+  bedrag: number;
+  relatie?: SchenkerRelatie;
+  verhoogde_vrijstelling?: boolean;
+}
+
+interface FamilieleningInvoer {
+  bedrag: number;
+  rente: number;
+  looptijd_jaren: number;
 }
 
 interface OpzetBaseArguments {
   session_id?: string; // OPTIONEEL - Sessie ID van de gebruiker uit n8n chat trigger: "When chat message received"
   aanvrager: OpzetAanvrager;
+  toon_netto_maandlast?: boolean;
+  woz_waarde?: number;
+  // Aanvullend eigen geld bovenop aanvrager.eigen_vermogen
+  schenking?: SchenkingInvoer;
+  familielening?: FamilieleningInvoer;
+}
+
+interface OpzetEigenGeld {
+  // Eigen vermogen van de aanvrager zonder schenking en familielening
+  eigenVermogen: number;
+  schenking?: SchenkingResultaat;
+  familielening?: FamilieleningResultaat;
+}
+
+// Aanvullende financiering die naast de backendberekening in de samenvatting komt
+interface OpzetAanvulling {
+  eigenGeld?: OpzetEigenGeld;
+  starterslening?: StartersleningResultaat;
+}
+
+interface KostenKoperInvoer extends KostenKoperOverrides {
+  startersvrijstelling_gebruikt_aanvrager?: boolean;
+  startersvrijstelling_gebruikt_partner?: boolean;
+}
+
+interface BouwdepotInvoer {
+  soort?: BouwdepotSoort;
+  // Nieuwbouw: deel van de koopsom dat via de aannemer in termijnen wordt betaald
+  aanneemsom?: number;
+  depotrente?: number;
+  bouwrente?: number;
+  bouwperiode_maanden?: number;
+  // Start bouw ten opzichte van transport; negatief = al gestart
+  start_bouw_maanden?: number;
+  termijnen?: BouwTermijn[];
 }
 
 interface NieuweWoning {
@@ -106,25 +309,75 @@ interface NieuweWoning {
   bedrag_verbouwen?: number;
   bedrag_verduurzamen?: number;
   kosten_percentage?: number;
+  kosten_koper?: KostenKoperInvoer;
   energielabel?: string;
+  bouwdepot?: BouwdepotInvoer;
+}
+
+interface StartersleningInvoer {
+  gemeente: string;
+  // Gewenst bedrag; standaard het tekort tot het gemeentelijke maximum
+  bedrag?: number;
 }
 
 interface OpzetStarterArguments extends OpzetBaseArguments {
   nieuwe_woning: NieuweWoning;
+  starterslening?: StartersleningInvoer;
+}
+
+interface BenodigdInkomenArguments extends OpzetStarterArguments {
+  // Deel van het totale inkomen dat de partner verdient; zonder dit veld blijft inkomen_partner vast
+  partner_aandeel?: number;
+  precisie?: number;
+}
+
+interface MaximaleKoopsomArguments extends OpzetBaseArguments {
+  // Aannames voor kosten en verbouwing; de koopsom zelf wordt gezocht
+  nieuwe_woning?: Omit<NieuweWoning, 'waarde_woning'>;
+  precisie?: number;
+}
+
+type VergelijkSoort = 'bereken' | 'opzet';
+
+interface VergelijkScenariosArguments {
+  // 'bereken' = invoer van bereken_hypotheek_uitgebreid, 'opzet' = invoer van opzet_hypotheek_uitgebreid
+  soort: VergelijkSoort;
+  basis: Record<string, unknown>;
+  scenarios: ScenarioAanpassing[];
+  session_id?: string;
+}
+
+interface HurenKopenArguments extends OpzetStarterArguments {
+  huur_per_maand: number;
+  huurstijging?: number;
+  waardestijging?: number;
+  rendement?: number;
+  eigenaarslasten_percentage?: number;
+  horizon_jaren?: number;
+}
+
+interface OverbruggingInvoer {
+  verwachte_verkoopdatum: string;
+  rente: number;
+  // Zonder dit veld: waarde huidige woning min bestaande schuld
+  verwachte_overwaarde?: number;
+  // Aankoopdatum nieuwe woning; standaard vandaag
+  ingangsdatum?: string;
 }
 
 interface OpzetDoorstromerArguments extends OpzetBaseArguments {
   nieuwe_woning: NieuweWoning;
   waarde_huidige_woning: number;
   bestaande_hypotheek: BestaandeHypotheek;
-}
-
-interface Renteklasse {
-  naam: string;
-  lowerbound_ltv_pct: number;
-  higherbound_ltv_pct: number;
-  nhg: boolean;
-  rente_jaarlijks_pct: number;
+  boeterente_meefinancieren?: boolean;
+  vergelijkingsrente?: number;
+  // Bestaande hypotheek met NHG: vergelijk met de NHG-rentes
+  nhg?: boolean;
+  boetevrij_percentage?: number;
+  restschuld_financiering?: RestschuldInvoer;
+  overbrugging?: OverbruggingInvoer;
+  // Stressscenario: aantal maanden dat beide hypotheken betaald worden
+  dubbele_lasten_maanden?: number;
 }
 
 interface OpzetNieuweLening {
@@ -139,9 +392,92 @@ interface OpzetUitgebreidArguments extends OpzetBaseArguments {
   is_doorstromer?: boolean;
   waarde_huidige_woning?: number;
   bestaande_hypotheek?: BestaandeHypotheek;
+  restschuld_financiering?: RestschuldInvoer;
   nieuwe_lening?: OpzetNieuweLening;
 }
 
+interface AflosschemaArguments {
+  session_id?: string;
+  leningdelen: Leningdeel[];
+  weergave?: AflosschemaWeergave;
+  nieuwe_rente?: number;
+}
+
+interface NettoMaandlastArguments {
+  session_id?: string;
+  inkomen_aanvrager: number;
+  inkomen_partner?: number;
+  woz_waarde: number;
+  leningdelen?: Leningdeel[];
+  hypotheekbedrag?: number;
+  rente?: number;
+  looptijd_maanden?: number;
+  hypotheekvorm?: string;
+  jaar?: number;
+  aflossingsvrij_aftrekbaar?: boolean;
+}
+
+interface NhgArguments {
+  session_id?: string;
+  waarde_woning: number;
+  bedrag_verbouwen?: number;
+  bedrag_verduurzamen?: number;
+  kosten_koper?: number;
+  eigen_vermogen?: number;
+  hypotheekbedrag?: number;
+  renteklassen?: Renteklasse[];
+  jaar?: number;
+}
+
+interface BoeterenteArguments {
+  session_id?: string;
+  leningdelen: Leningdeel[];
+  vergelijkingsrente?: number;
+  nhg?: boolean;
+  boetevrij_percentage?: number;
+}
+
+interface RentemiddelingArguments {
+  session_id?: string;
+  leningdeel: Leningdeel;
+  nieuwe_rentevaste_periode_maanden: number;
+  nieuwe_rente?: number;
+  renteopslag?: number;
+  rente_na_afloop?: number;
+  nhg?: boolean;
+}
+
+interface OversluitenArguments {
+  session_id?: string;
+  leningdelen: Leningdeel[];
+  nieuwe_rentevaste_periode_maanden?: number;
+  nieuwe_rente?: number;
+  vergelijkingsrente?: number;
+  nhg?: boolean;
+  boetevrij_percentage?: number;
+  advieskosten?: number;
+  notariskosten?: number;
+  taxatiekosten?: number;
+  kosten_meefinancieren?: boolean;
+}
+
+interface ExtraAflossenArguments {
+  session_id?: string;
+  leningdelen: Leningdeel[];
+  eenmalig?: number;
+  periodiek?: number;
+  frequentie?: AflosFrequentie;
+  boetevrij_percentage?: number;
+}
+
+interface RentevastAdviesArguments {
+  session_id?: string;
+  hypotheekbedrag: number;
+  ltv: number;
+  nhg?: boolean;
+  looptijd_jaren?: number;
+}
+
 const OPZET_GUIDE_URI = 'hypotheek://v4/guide/opzet-intake';
 
 const DOORSTROMER_OUTPUT_GUIDANCE = `
@@ -155,6 +491,7 @@ const DOORSTROMER_OUTPUT_GUIDANCE = `
 **Presentatie richting gebruiker (één compact blok):**
 - Toon het woningbudget centraal onder de titel "Uw woningbudget" en licht toe waaruit dit bedrag bestaat in bullets (overwaarde, huidige hypotheek, extra leencapaciteit).
 - Voeg een tweede blok toe "Uw nieuwe maandlast" met maandlast nu, maandlast straks en het verschil (positief/negatief) op eigen regel.
+- Staat de huidige woning onder water, dan is de overwaarde 0 en toont het blok de restschuldfinanciering als aparte lening naast het woningbudget; de maandlast ervan is als verplichting meegenomen in het budget. Vermeld of de rente aftrekbaar is.
 - Gebruik alleen MCP-waarden; geen eigen herberekeningen behalve eenvoudige weergave/afronding.
 
 **Invoerkeuze bestaande hypotheek (verplicht expliciet vragen):**
@@ -177,10 +514,41 @@ Vraag altijd: "Wilt u een snelle globale berekening (met een samenvatting van uw
 // - Vraag eindgebruikers altijd: "Wat is uw leeftijd of geboortedatum?"
 // - Converteer een opgegeven leeftijd intern naar een geboortedatum in ISO-formaat voor MCP-calls
 // - Rapporteer bij een gegeven leeftijd uitsluitend die leeftijd terug aan de gebruiker (nooit de afgeleide geboortedatum)
+const inkomensbronSchema = {
+  type: 'object',
+  properties: {
+    soort: {
+      type: 'string',
+      enum: ['zzp', 'flex', 'ibl', 'perspectiefverklaring'],
+      description:
+        'zzp/flex: gemiddelde over de laatste 3 jaar, maximaal het laatste jaar; ibl: toetsinkomen van het UWV; perspectiefverklaring: jaarinkomen op de verklaring.',
+    },
+    winst_per_jaar: {
+      type: 'array',
+      items: { type: 'number' },
+      description: 'zzp: winst uit onderneming per jaar, oudste jaar eerst (minimaal 3 jaar).',
+    },
+    inkomen_per_jaar: {
+      type: 'array',
+      items: { type: 'number' },
+      description: 'flex: bruto jaarinkomen per jaar, oudste jaar eerst (minimaal 3 jaar).',
+    },
+    toetsinkomen: {
+      type: 'number',
+      description: 'ibl: toetsinkomen uit de Inkomensbepaling Loondienst.',
+    },
+    jaarinkomen: {
+      type: 'number',
+      description: 'perspectiefverklaring: bruto jaarinkomen op de verklaring.',
+    },
+  },
+  required: ['soort'],
+};
+
 const baseIntakeProperties = {
   inkomen_aanvrager: {
     type: "number",
-    description: "Bruto jaarinkomen hoofdaanvrager in euro's.",
+    description: "Bruto jaarinkomen hoofdaanvrager in euro's. Verplicht, tenzij inkomensbron_aanvrager is opgegeven.",
   },
   geboortedatum_aanvrager: {
     type: "string",
@@ -203,9 +571,80 @@ const baseIntakeProperties = {
     description: "Optionele maandelijkse verplichtingen in euro's.",
     default: 0,
   },
+  inkomensbron_aanvrager: {
+    ...inkomensbronSchema,
+    description: `Optioneel voor ZZP'ers en flexwerkers: inkomensgegevens waaruit het toetsinkomen van de aanvrager wordt afgeleid. Vervangt inkomen_aanvrager.`,
+  },
+  inkomensbron_partner: {
+    ...inkomensbronSchema,
+    description:
+      'Optioneel: inkomensgegevens waaruit het toetsinkomen van de partner wordt afgeleid. Vervangt inkomen_partner.',
+  },
+};
+
+const nettoMaandlastProperties = {
+  toon_netto_maandlast: {
+    type: 'boolean',
+    description:
+      'Optioneel: voeg een indicatieve netto maandlast toe (hypotheekrenteaftrek, eigenwoningforfait, Wet Hillen).',
+    default: false,
+  },
+  woz_waarde: {
+    type: 'number',
+    description:
+      'Optionele WOZ-waarde voor het eigenwoningforfait. Standaard de koopsom (opzet) of het hypotheekbedrag (maximaal).',
+  },
+};
+
+const pensioenProperties = {
+  pensioeninkomen_aanvrager: {
+    type: 'number',
+    description:
+      'Optioneel verwacht bruto jaarinkomen van de aanvrager na pensionering (AOW plus aanvullend pensioen). Rekent de hypotheek nogmaals door op dit inkomen; het laagste bedrag is leidend.',
+  },
+  pensioeninkomen_partner: {
+    type: 'number',
+    description: 'Optioneel verwacht bruto jaarinkomen van de partner na pensionering.',
+  },
+};
+
+const eigenGeldProperties = {
+  schenking: {
+    type: 'object',
+    description:
+      'Optionele schenking als extra eigen geld. Vrijstelling en schenkbelasting worden per jaar berekend; het netto bedrag telt mee als eigen vermogen.',
+    properties: {
+      bedrag: { type: 'number', description: "Geschonken bedrag in euro's." },
+      relatie: {
+        type: 'string',
+        enum: ['ouder', 'overig'],
+        description: 'Schenker is een ouder (standaard) of een ander.',
+        default: 'ouder',
+      },
+      verhoogde_vrijstelling: {
+        type: 'boolean',
+        description:
+          'Eenmalig verhoogde vrijstelling gebruiken (ontvanger 18 tot 40 jaar, nog niet eerder gebruikt).',
+        default: false,
+      },
+    },
+    required: ['bedrag'],
+  },
+  familielening: {
+    type: 'object',
+    description:
+      'Optionele lening van familie (familiebank). Het bedrag telt mee als eigen vermogen, de annuïtaire maandlast als verplichting in de toets.',
+    properties: {
+      bedrag: { type: 'number', description: "Geleend bedrag in euro's." },
+      rente: { type: 'number', description: 'Rente als decimaal (bijv. 0.03).' },
+      looptijd_jaren: { type: 'number', description: 'Looptijd in jaren.' },
+    },
+    required: ['bedrag', 'rente', 'looptijd_jaren'],
+  },
 };
 
-const baseIntakeRequired = ["inkomen_aanvrager", "geboortedatum_aanvrager", "heeft_partner"];
+// inkomen_aanvrager is verplicht, tenzij inkomensbron_aanvrager is opgegeven (afgedwongen in de validatie)
+const baseIntakeRequired = ['geboortedatum_aanvrager', 'heeft_partner'];
 
 const aanvragerSchema = {
   type: "object",
@@ -221,6 +660,14 @@ const aanvragerSchema = {
   required: [...baseIntakeRequired],
 };
 
+const opzetAanvragerSchema = {
+  ...aanvragerSchema,
+  properties: {
+    ...aanvragerSchema.properties,
+    ...pensioenProperties,
+  },
+};
+
 const nieuweWoningSchema = {
   type: "object",
   description: `Kerngegevens nieuwe woning (detailuitleg: ${OPZET_GUIDE_URI}).`,
@@ -241,8 +688,31 @@ const nieuweWoningSchema = {
     },
     kosten_percentage: {
       type: "number",
-      description: "Optioneel kostenpercentage koper als decimaal.",
-      default: 0.05,
+      description: "Optioneel vast kostenpercentage koper als decimaal. Laat leeg om de kosten koper gespecificeerd te berekenen (overdrachtsbelasting incl. startersvrijstelling, notaris, taxatie, advies, NHG-provisie).",
+    },
+    kosten_koper: {
+      type: 'object',
+      description: 'Optionele afwijkingen voor de gespecificeerde kosten koper.',
+      properties: {
+        notariskosten: {
+          type: 'number',
+          description: 'Leverings- en hypotheekakte incl. kadaster (standaard € 2.000).',
+        },
+        taxatiekosten: { type: 'number', description: 'Taxatiekosten (standaard € 850).' },
+        advieskosten: {
+          type: 'number',
+          description: 'Advies- en bemiddelingskosten (standaard € 3.000).',
+        },
+        nhg: { type: 'boolean', description: 'Reken NHG-borgtochtprovisie mee.' },
+        startersvrijstelling_gebruikt_aanvrager: {
+          type: 'boolean',
+          description: 'Aanvrager heeft de startersvrijstelling al eerder gebruikt.',
+        },
+        startersvrijstelling_gebruikt_partner: {
+          type: 'boolean',
+          description: 'Partner heeft de startersvrijstelling al eerder gebruikt.',
+        },
+      },
     },
     energielabel: {
       type: "string",
@@ -253,6 +723,64 @@ const nieuweWoningSchema = {
   required: ["waarde_woning"],
 };
 
+const bouwdepotSchema = {
+  type: 'object',
+  description:
+    'Optioneel bouwdepot voor verbouwing (bedrag_verbouwen + bedrag_verduurzamen) of nieuwbouw (aanneemsom). Toont de netto maandlast per maand tijdens de bouw (met depotrente) en de maandlast na oplevering.',
+  properties: {
+    soort: {
+      type: 'string',
+      enum: ['verbouwing', 'nieuwbouw'],
+      description: 'Verbouwing (standaard) of nieuwbouw met termijnschema van de aannemer.',
+      default: 'verbouwing',
+    },
+    aanneemsom: {
+      type: 'number',
+      description: 'Nieuwbouw: deel van de koopsom dat in termijnen aan de aannemer wordt betaald.',
+    },
+    depotrente: {
+      type: 'number',
+      description: 'Rente over het depotsaldo als decimaal. Standaard de hypotheekrente.',
+    },
+    bouwrente: {
+      type: 'number',
+      description:
+        'Nieuwbouw: rente van de ontwikkelaar over termijnen die vóór transport vervallen. Standaard de hypotheekrente.',
+    },
+    bouwperiode_maanden: {
+      type: 'number',
+      description:
+        'Duur van de bouw voor het standaard termijnschema (standaard 6 bij verbouwing, 12 bij nieuwbouw).',
+    },
+    start_bouw_maanden: {
+      type: 'number',
+      description:
+        'Start bouw ten opzichte van transport in maanden; negatief als de bouw al gestart is.',
+    },
+    termijnen: {
+      type: 'array',
+      description:
+        'Eigen termijnschema; percentages tellen op tot 1. Maand 0 of negatief = vervallen bij transport.',
+      items: {
+        type: 'object',
+        properties: {
+          maand: { type: 'number', description: 'Maand ten opzichte van transport.' },
+          percentage: { type: 'number', description: 'Deel van het bouwbedrag als decimaal.' },
+        },
+        required: ['maand', 'percentage'],
+      },
+    },
+  },
+};
+
+const opzetNieuweWoningSchema = {
+  ...nieuweWoningSchema,
+  properties: {
+    ...nieuweWoningSchema.properties,
+    bouwdepot: bouwdepotSchema,
+  },
+};
+
 // Doorstromer invoerbeleid:
 // - Laat gebruikers kiezen tussen een snelle globale samenvatting of detailinvoer per leningdeel.
 // - Snelle invoer: één "leningdeel" dat totale schuld, gemiddelde rente en resterende looptijd samenvat.
@@ -296,19 +824,25 @@ const bestaandeHypotheekSchema = {
   required: ["leningdelen"],
 };
 
-const server = new Server(
-  {
-    name: "hypotheek-berekening-server",
-    version: config.serverVersion,
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
-      prompts: {},
+const restschuldFinancieringSchema = {
+  type: 'object',
+  description: `Alleen relevant als de huidige woning onder water staat (schuld hoger dan waarde_huidige_woning): aannames voor de aparte financiering van de restschuld. Standaard ${STANDAARD_RESTSCHULD_FINANCIERING.rente * 100}% over ${STANDAARD_RESTSCHULD_FINANCIERING.looptijd_maanden / 12} jaar.`,
+  properties: {
+    rente: {
+      type: 'number',
+      description: 'Rente van de restschuldfinanciering als decimaal.',
     },
-  }
-);
+    looptijd_jaren: {
+      type: 'number',
+      description: 'Looptijd van de restschuldfinanciering in jaren.',
+    },
+    verkoopdatum: {
+      type: 'string',
+      description:
+        'Verkoopdatum van de huidige woning (YYYY-MM-DD), bepaalt of de rente aftrekbaar is; standaard vandaag.',
+    },
+  },
+};
 
 type ToolResponse = {
   content: Array<{
@@ -410,6 +944,37 @@ function extractSessionId(args: unknown): string | undefined {
   return undefined;
 }
 
+interface InkomenVelden {
+  inkomen_aanvrager: number;
+  heeft_partner: boolean;
+  inkomen_partner?: number;
+  inkomensbron_aanvrager?: Inkomensbron;
+  inkomensbron_partner?: Inkomensbron;
+}
+
+/**
+ * Vervangt inkomen_aanvrager en inkomen_partner door het toetsinkomen uit een
+ * opgegeven inkomensbron, vóór validatie en het opbouwen van de payload
+ */
+function pasToetsinkomenToe<T extends InkomenVelden>(aanvragers: T): T {
+  validateInkomensbron(aanvragers.inkomensbron_aanvrager, 'inkomensbron_aanvrager');
+  validateInkomensbron(aanvragers.inkomensbron_partner, 'inkomensbron_partner');
+  if (!aanvragers.inkomensbron_aanvrager && !aanvragers.inkomensbron_partner) {
+    return aanvragers;
+  }
+
+  return {
+    ...aanvragers,
+    inkomen_aanvrager: aanvragers.inkomensbron_aanvrager
+      ? bepaalToetsinkomen(aanvragers.inkomensbron_aanvrager).toetsinkomen
+      : aanvragers.inkomen_aanvrager,
+    inkomen_partner:
+      aanvragers.heeft_partner && aanvragers.inkomensbron_partner
+        ? bepaalToetsinkomen(aanvragers.inkomensbron_partner).toetsinkomen
+        : aanvragers.inkomen_partner,
+  };
+}
+
 function mapAanvragers(args: {
   inkomen_aanvrager: number;
   geboortedatum_aanvrager: string;
@@ -436,9 +1001,14 @@ function validateOpzetAanvrager(aanvrager: OpzetAanvrager) {
     inkomen_partner: aanvrager.inkomen_partner,
     geboortedatum_partner: aanvrager.geboortedatum_partner,
     verplichtingen_pm: aanvrager.verplichtingen_pm,
+    pensioeninkomen_aanvrager: aanvrager.pensioeninkomen_aanvrager,
+    pensioeninkomen_partner: aanvrager.pensioeninkomen_partner,
   } as BaseArguments);
 }
 
+/**
+ * Aanvrager uit de opzetinvoer, met het toetsinkomen uit een eventuele inkomensbron
+ */
 function requireOpzetAanvrager(container: { aanvrager?: OpzetAanvrager }): OpzetAanvrager {
   if (!container.aanvrager || typeof container.aanvrager !== 'object') {
     throw new ValidationError(
@@ -447,7 +1017,7 @@ function requireOpzetAanvrager(container: { aanvrager?: OpzetAanvrager }): Opzet
       'aanvrager'
     );
   }
-  return container.aanvrager;
+  return pasToetsinkomenToe(container.aanvrager);
 }
 
 function mapOpzetAanvrager(aanvrager: OpzetAanvrager) {
@@ -462,6 +1032,106 @@ function mapOpzetAanvrager(aanvrager: OpzetAanvrager) {
   };
 }
 
+/**
+ * Schenking (netto na schenkbelasting) en familielening tellen mee als eigen
+ * vermogen; de maandlast van de familielening telt mee als verplichting
+ */
+function verwerkEigenGeld(
+  args: OpzetBaseArguments,
+  aanvrager: OpzetAanvrager
+): { aanvrager: OpzetAanvrager; eigenGeld?: OpzetEigenGeld } {
+  if (!args.schenking && !args.familielening) {
+    return { aanvrager };
+  }
+
+  const schenking = args.schenking
+    ? berekenSchenking({
+        bedrag: args.schenking.bedrag,
+        relatie: args.schenking.relatie ?? 'ouder',
+        geboortedatum_ontvanger: aanvrager.geboortedatum_aanvrager,
+        verhoogde_vrijstelling: args.schenking.verhoogde_vrijstelling,
+      })
+    : undefined;
+  const familielening = args.familielening
+    ? berekenFamilielening({
+        bedrag: args.familielening.bedrag,
+        rente: args.familielening.rente,
+        looptijd_maanden: args.familielening.looptijd_jaren * 12,
+      })
+    : undefined;
+
+  const eigenVermogen = aanvrager.eigen_vermogen ?? 0;
+  return {
+    aanvrager: {
+      ...aanvrager,
+      eigen_vermogen: eigenVermogen + (schenking?.netto ?? 0) + (familielening?.bedrag ?? 0),
+      verplichtingen_pm: (aanvrager.verplichtingen_pm ?? 0) + (familielening?.maandlast ?? 0),
+    },
+    eigenGeld: { eigenVermogen, schenking, familielening },
+  };
+}
+
+/**
+ * Regels van de gemeente uit STARTERSLENING_REGELS_PATH
+ */
+function resolveStartersleningRegels(gemeente: string): StartersleningRegels {
+  const regels = vindStartersleningRegels(config.startersleningRegels, gemeente);
+  if (!regels) {
+    const bekend = config.startersleningRegels.map((regel) => regel.gemeente);
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      bekend.length > 0
+        ? `Geen startersleningregels voor gemeente ${gemeente}; bekend: ${bekend.join(', ')}`
+        : 'Er zijn geen startersleningregels geconfigureerd (STARTERSLENING_REGELS_PATH)',
+      'starterslening.gemeente',
+      gemeente
+    );
+  }
+  return regels;
+}
+
+/**
+ * Bouwdepot op basis van de bruto maandlast en rente uit de opzet; zonder
+ * opgegeven termijnen het standaardschema voor verbouwing of nieuwbouw
+ */
+function resolveBouwdepot(
+  nieuweWoning: NieuweWoning | undefined,
+  data: any
+): BouwdepotResultaat | undefined {
+  const invoer = nieuweWoning?.bouwdepot;
+  if (!nieuweWoning || !invoer) {
+    return undefined;
+  }
+
+  const resultaat = normalizeResultList(data?.resultaat)[0] ?? data?.resultaat;
+  const { maandStraks } = extractOpzetBedragen(resultaat);
+  const rente = sanitizeNumber(
+    resultaat?.gebruikte_hypotheekgegevens?.opzet_nieuwe_hypotheek?.[0]?.rente
+  );
+  const depotrente = invoer.depotrente ?? rente;
+  if (maandStraks === null || depotrente === null) {
+    throw new APIError(
+      ErrorCode.API_ERROR,
+      'Opzet-respons bevat geen maandlast of rente; het bouwdepot is niet te berekenen'
+    );
+  }
+
+  const soort = invoer.soort ?? 'verbouwing';
+  return berekenBouwdepot({
+    soort,
+    bouwbedrag:
+      soort === 'nieuwbouw'
+        ? (invoer.aanneemsom ?? 0)
+        : (nieuweWoning.bedrag_verbouwen ?? 0) + (nieuweWoning.bedrag_verduurzamen ?? 0),
+    termijnen:
+      invoer.termijnen ??
+      standaardTermijnen(soort, invoer.bouwperiode_maanden, invoer.start_bouw_maanden),
+    bruto_maandlast: maandStraks,
+    depotrente,
+    bouwrente: invoer.bouwrente ?? rente ?? depotrente,
+  });
+}
+
 function buildNieuweLeningPayload(raw: any): any | undefined {
   if (!raw || typeof raw !== 'object') {
     return undefined;
@@ -521,12 +1191,20 @@ function buildNieuweLeningPayload(raw: any): any | undefined {
   return Object.keys(payload).length > 0 ? payload : undefined;
 }
 
+/**
+ * Alleen bij een open circuit breaker valt de berekening terug op de offline engine
+ */
+function isCircuitOpenError(error: unknown): boolean {
+  return error instanceof APIError && getCircuitBreaker().getStats().state === CircuitState.OPEN;
+}
+
 async function handleBerekenStarter(request: any): Promise<ToolResponse> {
-  const args = requireArguments<BaseArguments>(request);
+  const args = pasToetsinkomenToe(requireArguments<BaseArguments>(request));
   const logger = createLogger(args.session_id);
 
   validateBaseArguments(args);
-  enforceRateLimit(args.session_id);
+  validateOptionalWozWaarde(args.woz_waarde);
+  enforceRateLimit(args.session_id, aantalBerekeningen(args));
 
   const payload: any = {
     aanvragers: mapAanvragers(args),
@@ -537,81 +1215,328 @@ async function handleBerekenStarter(request: any): Promise<ToolResponse> {
   }
 
   const apiClient = getApiClient();
-  const { data } = await apiClient.post(
-    REPLIT_API_URL_BEREKENEN,
-    payload,
-    { correlationId: args.session_id }
-  );
+  let data: any;
+  try {
+    ({ data } = await apiClient.post(REPLIT_API_URL_BEREKENEN, payload, {
+      correlationId: args.session_id,
+    }));
+  } catch (error) {
+    if (!isCircuitOpenError(error)) {
+      throw error;
+    }
+    logger.warn('Backend onbeschikbaar, offline fallback gebruikt', {
+      tool: 'bereken_hypotheek_starter',
+    });
+    data = berekenOfflineStarter(payload.aanvragers);
+  }
+  const pensioen = await toetsOpPensioeninkomen(payload, args, data, {
+    sessionId: args.session_id,
+  });
 
   logger.info('Toolcall succesvol', { tool: 'bereken_hypotheek_starter' });
-  return successResponse(formatResponse(data, "bereken_hypotheek_starter"));
+  let text = formatResponse(data, 'bereken_hypotheek_starter');
+  if (args.toon_netto_maandlast) {
+    text += renderNettoVerrijking(data, {
+      inkomen: hoogsteInkomen(args),
+      wozWaarde: args.woz_waarde,
+    });
+  }
+  text += renderToetsinkomen(args);
+  text += renderAowToets(resolveAowToetsen(args, looptijdNieuweLening(data)), pensioen);
+  return successResponse(text);
 }
 
 async function handleBerekenDoorstromer(request: any): Promise<ToolResponse> {
   const rawArgs = requireArguments<DoorstromerArguments>(request);
-  const normalizedArgs = normalizeDoorstromerArgs(rawArgs) as DoorstromerArguments;
+  const normalizedArgs = pasToetsinkomenToe(
+    normalizeDoorstromerArgs(rawArgs) as DoorstromerArguments
+  );
   const logger = createLogger(normalizedArgs.session_id);
 
   validateDoorstromerArguments(normalizedArgs);
-  enforceRateLimit(normalizedArgs.session_id);
-
-  const payload: any = {
-    aanvragers: mapAanvragers(normalizedArgs),
-    bestaande_hypotheek: {
-      waarde_huidige_woning: normalizedArgs.waarde_huidige_woning,
-      leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
+  validateOptionalWozWaarde(normalizedArgs.woz_waarde);
+  validateRestschuldFinanciering(normalizedArgs.restschuld_financiering);
+  enforceRateLimit(normalizedArgs.session_id, aantalBerekeningen(normalizedArgs));
+
+  const restschuld = resolveRestschuld(normalizedArgs, hoogsteInkomen(normalizedArgs));
+  const payload: any = verwerkRestschuld(
+    {
+      aanvragers: mapAanvragers(normalizedArgs),
+      bestaande_hypotheek: {
+        waarde_huidige_woning: normalizedArgs.waarde_huidige_woning,
+        leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
+      },
     },
-  };
+    restschuld
+  );
 
   if (normalizedArgs.session_id) {
     payload.session_id = normalizedArgs.session_id;
   }
 
   const apiClient = getApiClient();
-  const { data } = await apiClient.post(
-    REPLIT_API_URL_BEREKENEN,
-    payload,
-    { correlationId: normalizedArgs.session_id }
-  );
+  let data: any;
+  try {
+    ({ data } = await apiClient.post(REPLIT_API_URL_BEREKENEN, payload, {
+      correlationId: normalizedArgs.session_id,
+    }));
+  } catch (error) {
+    if (!isCircuitOpenError(error)) {
+      throw error;
+    }
+    logger.warn('Backend onbeschikbaar, offline fallback gebruikt', {
+      tool: 'bereken_hypotheek_doorstromer',
+    });
+    data = berekenOfflineDoorstromer(
+      payload.aanvragers,
+      payload.bestaande_hypotheek.waarde_huidige_woning,
+      normalizedArgs.bestaande_hypotheek.leningdelen
+    );
+  }
+  const pensioen = await toetsOpPensioeninkomen(payload, normalizedArgs, data, {
+    sessionId: normalizedArgs.session_id,
+  });
 
   logger.info('Toolcall succesvol', { tool: 'bereken_hypotheek_doorstromer' });
-  return successResponse(formatResponse(data, "bereken_hypotheek_doorstromer"));
+  let text = formatResponse(data, 'bereken_hypotheek_doorstromer', { restschuld });
+  if (normalizedArgs.toon_netto_maandlast) {
+    text += renderNettoVerrijking(data, {
+      inkomen: hoogsteInkomen(normalizedArgs),
+      wozWaarde: normalizedArgs.woz_waarde,
+    });
+  }
+  text += renderToetsinkomen(normalizedArgs);
+  text += renderAowToets(resolveAowToetsen(normalizedArgs, looptijdNieuweLening(data)), pensioen);
+  return successResponse(text);
 }
 
-async function handleBerekenUitgebreid(request: any): Promise<ToolResponse> {
-  const rawArgs = requireArguments<UitgebreidArguments>(request);
-  const normalizedArgs = rawArgs.is_doorstromer
-    ? (normalizeDoorstromerArgs(rawArgs) as UitgebreidArguments)
-    : rawArgs;
-  const logger = createLogger(normalizedArgs.session_id);
-
-  validateBaseArguments(normalizedArgs as BaseArguments);
-  if (normalizedArgs.is_doorstromer && normalizedArgs.bestaande_hypotheek) {
-    validateBestaandeHypotheek(normalizedArgs.bestaande_hypotheek);
+/**
+ * Restschuldfinanciering als de huidige woning onder water staat
+ */
+function resolveRestschuld(
+  args: Pick<
+    UitgebreidArguments,
+    'waarde_huidige_woning' | 'bestaande_hypotheek' | 'restschuld_financiering'
+  >,
+  inkomen: number
+): RestschuldFinanciering | null {
+  if (!args.waarde_huidige_woning || !args.bestaande_hypotheek) {
+    return null;
   }
 
-  enforceRateLimit(normalizedArgs.session_id);
-
-  const payload: any = {
-    aanvragers: mapAanvragers(normalizedArgs),
-  };
+  const invoer = args.restschuld_financiering ?? {};
+  return berekenRestschuldFinanciering({
+    waarde_huidige_woning: args.waarde_huidige_woning,
+    leningdelen: args.bestaande_hypotheek.leningdelen,
+    rente: invoer.rente,
+    looptijd_maanden: invoer.looptijd_jaren !== undefined ? invoer.looptijd_jaren * 12 : undefined,
+    verkoopdatum: invoer.verkoopdatum ? new Date(invoer.verkoopdatum) : undefined,
+    inkomen,
+  });
+}
 
-  if (normalizedArgs.is_doorstromer && normalizedArgs.waarde_huidige_woning && normalizedArgs.bestaande_hypotheek) {
-    payload.bestaande_hypotheek = {
-      waarde_huidige_woning: normalizedArgs.waarde_huidige_woning,
-      leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
-    };
+/**
+ * De restschuld wordt buiten het woningbudget apart gefinancierd: de backend
+ * rekent met overwaarde 0 en de bruto maandlast van de restschuldfinanciering
+ * telt mee als verplichting in de toets
+ */
+function verwerkRestschuld(payload: any, restschuld: RestschuldFinanciering | null): any {
+  if (!restschuld || !payload.bestaande_hypotheek) {
+    return payload;
   }
 
-  const maatwerk = (normalizedArgs as any).nieuwe_hypotheek ?? (normalizedArgs as any).nieuwe_lening;
-  const nieuweLening = buildNieuweLeningPayload(maatwerk);
-  if (nieuweLening) {
-    payload.nieuwe_lening = nieuweLening;
-  }
+  // Opzet-payloads gebruiken `aanvrager`, maximale-hypotheekpayloads `aanvragers`
+  const sleutel = payload.aanvrager ? 'aanvrager' : 'aanvragers';
+  return {
+    ...payload,
+    [sleutel]: {
+      ...payload[sleutel],
+      verplichtingen_pm: roundCents(
+        (payload[sleutel].verplichtingen_pm ?? 0) + restschuld.bruto_maandlast
+      ),
+    },
+    bestaande_hypotheek: {
+      ...payload.bestaande_hypotheek,
+      waarde_huidige_woning:
+        payload.bestaande_hypotheek.waarde_huidige_woning + restschuld.restschuld,
+    },
+  };
+}
 
-  if (normalizedArgs.session_id) {
-    payload.session_id = normalizedArgs.session_id;
+interface AowAanvragerToets {
+  rol: string;
+  toets: AowToets;
+}
+
+/**
+ * AOW-toets voor aanvrager en partner over de looptijd van de nieuwe lening
+ */
+function resolveAowToetsen(
+  aanvragers: {
+    geboortedatum_aanvrager: string;
+    heeft_partner: boolean;
+    geboortedatum_partner?: string;
+  },
+  looptijdMaanden: number
+): AowAanvragerToets[] {
+  const toetsen: AowAanvragerToets[] = [
+    {
+      rol: 'Aanvrager',
+      toets: toetsAow({
+        geboortedatum: aanvragers.geboortedatum_aanvrager,
+        looptijd_maanden: looptijdMaanden,
+      }),
+    },
+  ];
+  if (aanvragers.heeft_partner && aanvragers.geboortedatum_partner) {
+    toetsen.push({
+      rol: 'Partner',
+      toets: toetsAow({
+        geboortedatum: aanvragers.geboortedatum_partner,
+        looptijd_maanden: looptijdMaanden,
+      }),
+    });
   }
+  return toetsen;
+}
+
+/**
+ * Looptijd van de nieuwe lening uit de backendrespons; standaard 30 jaar
+ */
+function looptijdNieuweLening(data: any, fallback = 360): number {
+  const resultaat = normalizeResultList(data?.resultaat)[0] ?? data?.resultaat;
+  return (
+    sanitizeNumber(
+      resultaat?.gebruikte_hypotheekgegevens?.opzet_nieuwe_hypotheek?.[0]?.looptijd_maanden
+    ) ?? fallback
+  );
+}
+
+interface PensioenToets {
+  huidig: number | null;
+  // null als de rekenservice niet bereikbaar was
+  pensioen: number | null;
+}
+
+type PensioenInvoer = Pick<
+  BaseArguments,
+  'heeft_partner' | 'pensioeninkomen_aanvrager' | 'pensioeninkomen_partner'
+>;
+
+function heeftPensioeninkomen(args: PensioenInvoer): boolean {
+  return args.pensioeninkomen_aanvrager !== undefined || args.pensioeninkomen_partner !== undefined;
+}
+
+/**
+ * Aantal backend-calls voor de rate limiter: de pensioentoets is een tweede call
+ */
+function aantalBerekeningen(args: PensioenInvoer): number {
+  return heeftPensioeninkomen(args) ? 2 : 1;
+}
+
+/**
+ * Tweede berekening met het opgegeven pensioeninkomen in plaats van het
+ * huidige inkomen. Bij opzet wordt de nieuwe hypotheek vergeleken.
+ */
+async function toetsOpPensioeninkomen(
+  payload: any,
+  args: PensioenInvoer,
+  huidigeData: any,
+  opties: { sessionId?: string; opzet?: boolean } = {}
+): Promise<PensioenToets | undefined> {
+  if (!heeftPensioeninkomen(args)) {
+    return undefined;
+  }
+
+  const sleutel = opties.opzet ? 'aanvrager' : 'aanvragers';
+  const maximaal = (data: any) => {
+    const resultaat = normalizeResultList(data?.resultaat)[0] ?? data?.resultaat;
+    return opties.opzet
+      ? (sanitizeNumber(resultaat?.maximaal_bedrag) ?? extractOpzetBedragen(resultaat).finNieuwe)
+      : sanitizeNumber(resultaat?.maximaal_bedrag);
+  };
+  const pensioenPayload = {
+    ...payload,
+    [sleutel]: {
+      ...payload[sleutel],
+      inkomen_aanvrager: args.pensioeninkomen_aanvrager ?? payload[sleutel].inkomen_aanvrager,
+      inkomen_partner: args.heeft_partner
+        ? (args.pensioeninkomen_partner ?? payload[sleutel].inkomen_partner)
+        : 0,
+    },
+  };
+
+  try {
+    const { data } = await getApiClient().post<any>(
+      opties.opzet ? REPLIT_API_URL_OPZET : REPLIT_API_URL_BEREKENEN,
+      pensioenPayload,
+      { correlationId: opties.sessionId }
+    );
+    return { huidig: maximaal(huidigeData), pensioen: maximaal(data) };
+  } catch (error) {
+    if (!isCircuitOpenError(error)) {
+      throw error;
+    }
+    return { huidig: maximaal(huidigeData), pensioen: null };
+  }
+}
+
+function normalizeUitgebreidArgs<T extends UitgebreidArguments>(rawArgs: T): T {
+  return pasToetsinkomenToe(
+    rawArgs.is_doorstromer ? (normalizeDoorstromerArgs(rawArgs) as T) : rawArgs
+  );
+}
+
+function validateUitgebreidArgs(normalizedArgs: UitgebreidArguments) {
+  validateBaseArguments(normalizedArgs as BaseArguments);
+  if (normalizedArgs.is_doorstromer && normalizedArgs.bestaande_hypotheek) {
+    validateBestaandeHypotheek(normalizedArgs.bestaande_hypotheek);
+  }
+  validateOptionalWozWaarde(normalizedArgs.woz_waarde);
+  validateRestschuldFinanciering(normalizedArgs.restschuld_financiering);
+}
+
+function extractMaatwerk(args: UitgebreidArguments): any {
+  return (args as any).nieuwe_hypotheek ?? (args as any).nieuwe_lening;
+}
+
+function buildUitgebreidPayload(normalizedArgs: UitgebreidArguments): any {
+  let payload: any = {
+    aanvragers: mapAanvragers(normalizedArgs),
+  };
+
+  if (normalizedArgs.is_doorstromer && normalizedArgs.waarde_huidige_woning && normalizedArgs.bestaande_hypotheek) {
+    payload.bestaande_hypotheek = {
+      waarde_huidige_woning: normalizedArgs.waarde_huidige_woning,
+      leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
+    };
+    payload = verwerkRestschuld(
+      payload,
+      resolveRestschuld(normalizedArgs, hoogsteInkomen(normalizedArgs))
+    );
+  }
+
+  const nieuweLening = buildNieuweLeningPayload(extractMaatwerk(normalizedArgs));
+  if (nieuweLening) {
+    payload.nieuwe_lening = nieuweLening;
+  }
+
+  if (normalizedArgs.session_id) {
+    payload.session_id = normalizedArgs.session_id;
+  }
+
+  return payload;
+}
+
+async function handleBerekenUitgebreid(request: any): Promise<ToolResponse> {
+  const normalizedArgs = normalizeUitgebreidArgs(requireArguments<UitgebreidArguments>(request));
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateUitgebreidArgs(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id, aantalBerekeningen(normalizedArgs));
+
+  const payload = buildUitgebreidPayload(normalizedArgs);
+  const maatwerk = extractMaatwerk(normalizedArgs);
 
   const apiClient = getApiClient();
   const { data } = await apiClient.post(
@@ -619,9 +1544,139 @@ async function handleBerekenUitgebreid(request: any): Promise<ToolResponse> {
     payload,
     { correlationId: normalizedArgs.session_id }
   );
+  const pensioen = await toetsOpPensioeninkomen(payload, normalizedArgs, data, { sessionId: normalizedArgs.session_id });
 
   logger.info('Toolcall succesvol', { tool: 'bereken_hypotheek_uitgebreid' });
-  return successResponse(formatResponse(data, "bereken_hypotheek_uitgebreid"));
+  let text = formatResponse(data, 'bereken_hypotheek_uitgebreid', {
+    restschuld: normalizedArgs.is_doorstromer
+      ? resolveRestschuld(normalizedArgs, hoogsteInkomen(normalizedArgs))
+      : null,
+  });
+  if (normalizedArgs.toon_netto_maandlast) {
+    text += renderNettoVerrijking(data, {
+      inkomen: hoogsteInkomen(normalizedArgs),
+      wozWaarde: normalizedArgs.woz_waarde,
+      rente: sanitizeNumber(maatwerk?.rente) ?? undefined,
+    });
+  }
+  const looptijd = looptijdNieuweLening(
+    data,
+    sanitizeNumber(maatwerk?.looptijd_maanden) ?? undefined
+  );
+  text += renderToetsinkomen(normalizedArgs);
+  text += renderAowToets(resolveAowToetsen(normalizedArgs, looptijd), pensioen);
+  return successResponse(text);
+}
+
+/**
+ * Basisinvoer met de rente-, inkomens- en looptijdvariatie van één scenario
+ */
+function pasScenarioToe(
+  args: UitgebreidArguments,
+  scenario: GevoeligheidScenario
+): UitgebreidArguments {
+  const factor = 1 + scenario.inkomen_delta;
+  const maatwerk = { ...(extractMaatwerk(args) ?? {}) };
+  if (scenario.rente_delta !== 0) {
+    maatwerk.rente = maatwerk.rente + scenario.rente_delta;
+  }
+  if (scenario.looptijd_jaren !== undefined) {
+    maatwerk.looptijd_maanden = scenario.looptijd_jaren * 12;
+    // Alleen looptijd_maanden, zodat de basislooptijd in jaren niet meer meetelt
+    delete maatwerk.looptijd_jaren;
+  }
+
+  return {
+    ...args,
+    inkomen_aanvrager: Math.round(args.inkomen_aanvrager * factor),
+    inkomen_partner:
+      args.inkomen_partner !== undefined ? Math.round(args.inkomen_partner * factor) : undefined,
+    nieuwe_hypotheek: Object.keys(maatwerk).length > 0 ? maatwerk : undefined,
+    nieuwe_lening: undefined,
+  } as UitgebreidArguments;
+}
+
+interface GevoeligheidCel {
+  scenario: GevoeligheidScenario;
+  maximaal_bedrag: number | null;
+  maandlast: number | null;
+  fout?: string;
+}
+
+async function handleGevoeligheid(request: any): Promise<ToolResponse> {
+  const normalizedArgs = normalizeUitgebreidArgs(requireArguments<GevoeligheidArguments>(request));
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateUitgebreidArgs(normalizedArgs);
+  validateGevoeligheidArguments(normalizedArgs, MAX_GEVOELIGHEID_SCENARIOS);
+
+  const maatwerk = extractMaatwerk(normalizedArgs);
+  const basisLooptijdJaren =
+    sanitizeNumber(maatwerk?.looptijd_jaren) ??
+    (sanitizeNumber(maatwerk?.looptijd_maanden) ?? 360) / 12;
+  const scenarios = genereerScenarios(
+    {
+      rente: normalizedArgs.rente_variaties,
+      inkomen: normalizedArgs.inkomen_variaties,
+      looptijd_jaren: normalizedArgs.looptijden_jaren,
+    },
+    basisLooptijdJaren
+  );
+  const basisRente = sanitizeNumber(maatwerk?.rente);
+  scenarios.forEach((scenario, index) => {
+    if (basisRente !== null && basisRente + scenario.rente_delta <= 0) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `Scenario ${index + 1} (renteverschuiving ${formatPercentage(scenario.rente_delta)}) geeft een rente van ${formatPercentage(basisRente + scenario.rente_delta)}; de rente moet positief blijven`,
+        'rente_variaties',
+        scenario.rente_delta
+      );
+    }
+  });
+  // Elk scenario is een eigen backend-call
+  enforceRateLimit(normalizedArgs.session_id, scenarios.length);
+
+  const apiClient = getApiClient();
+  const cellen = await mapMetLimiet(
+    scenarios,
+    config.apiMaxConcurrency,
+    async (scenario): Promise<GevoeligheidCel> => {
+      try {
+        const payload = buildUitgebreidPayload(pasScenarioToe(normalizedArgs, scenario));
+        const { data } = await apiClient.post<any>(REPLIT_API_URL_BEREKENEN, payload, {
+          correlationId: normalizedArgs.session_id,
+        });
+        const resultaat = normalizeResultList(data?.resultaat)[0] ?? data?.resultaat;
+        return {
+          scenario,
+          maximaal_bedrag: sanitizeNumber(resultaat?.maximaal_bedrag),
+          maandlast: sanitizeNumber(resultaat?.bruto_maandlasten_nieuwe_lening),
+        };
+      } catch (error) {
+        return {
+          scenario,
+          maximaal_bedrag: null,
+          maandlast: null,
+          fout: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+  );
+
+  if (cellen.every((cel) => cel.fout !== undefined)) {
+    throw new APIError(ErrorCode.API_ERROR, `Geen enkel scenario berekend: ${cellen[0]?.fout}`);
+  }
+
+  logger.info('Toolcall succesvol', { tool: 'bereken_gevoeligheid', scenarios: scenarios.length });
+  return successResponse(
+    renderGevoeligheid(cellen, {
+      basisRente,
+      basisInkomen:
+        normalizedArgs.inkomen_aanvrager +
+        (normalizedArgs.heeft_partner ? (normalizedArgs.inkomen_partner ?? 0) : 0),
+      basisLooptijdJaren,
+    })
+  );
 }
 
 async function handleActueleRentes(request: any): Promise<ToolResponse> {
@@ -635,39 +1690,243 @@ async function handleActueleRentes(request: any): Promise<ToolResponse> {
   return successResponse(JSON.stringify(data, null, 2));
 }
 
-async function handleOpzetStarter(request: any): Promise<ToolResponse> {
-  const rawArgs = requireArguments<OpzetStarterArguments>(request);
-  const normalizedArgs = normalizeOpzetAanvragerShape(rawArgs) as OpzetStarterArguments;
-  const logger = createLogger(normalizedArgs.session_id);
+function berekenOverwaarde(waardeHuidigeWoning: number, leningdelen: Leningdeel[]): number {
+  return (
+    waardeHuidigeWoning - leningdelen.reduce((totaal, deel) => totaal + deel.huidige_schuld, 0)
+  );
+}
 
-  const aanvrager = requireOpzetAanvrager(normalizedArgs);
-  validateOpzetAanvrager(aanvrager);
-  enforceRateLimit(normalizedArgs.session_id);
+/**
+ * Gespecificeerde kosten koper, tenzij een vast kosten_percentage is opgegeven
+ */
+function resolveKostenKoper(
+  nieuweWoning: NieuweWoning,
+  aanvrager: OpzetAanvrager,
+  overwaarde = 0
+): KostenKoperResultaat | undefined {
+  if (!nieuweWoning || nieuweWoning.kosten_percentage !== undefined) {
+    return undefined;
+  }
+
+  const invoer = nieuweWoning.kosten_koper ?? {};
+  const kopers: Koper[] = [
+    {
+      geboortedatum: aanvrager.geboortedatum_aanvrager,
+      eerder_startersvrijstelling_gebruikt: invoer.startersvrijstelling_gebruikt_aanvrager,
+    },
+  ];
+  if (aanvrager.heeft_partner && aanvrager.geboortedatum_partner) {
+    kopers.push({
+      geboortedatum: aanvrager.geboortedatum_partner,
+      eerder_startersvrijstelling_gebruikt: invoer.startersvrijstelling_gebruikt_partner,
+    });
+  }
+
+  return berekenKostenKoper({
+    waarde_woning: nieuweWoning.waarde_woning,
+    kopers,
+    overige_financiering:
+      (nieuweWoning.bedrag_verbouwen ?? 0) + (nieuweWoning.bedrag_verduurzamen ?? 0),
+    eigen_inbreng: (aanvrager.eigen_vermogen ?? 0) + Math.max(0, overwaarde),
+    overrides: invoer,
+  });
+}
+
+/**
+ * Payload voor de nieuwe woning; extraKosten (zoals meegefinancierde
+ * boeterente) worden als deel van kosten_percentage meegestuurd
+ */
+function buildNieuweWoningPayload(
+  nieuweWoning: NieuweWoning,
+  kostenKoper?: KostenKoperResultaat,
+  extraKosten = 0
+) {
+  const kostenPercentage = kostenKoper?.percentage ?? nieuweWoning.kosten_percentage ?? 0.05;
+  return {
+    waarde_woning: nieuweWoning.waarde_woning,
+    bedrag_verbouwen: nieuweWoning.bedrag_verbouwen ?? 0,
+    bedrag_verduurzamen: nieuweWoning.bedrag_verduurzamen ?? 0,
+    kosten_percentage: kostenPercentage + extraKosten / nieuweWoning.waarde_woning,
+    energielabel: normalizeEnergielabel(nieuweWoning.energielabel || ''),
+  };
+}
+
+interface ActueleRentetabel {
+  tabel: Vergelijkingsrente[];
+  bron: string;
+}
+
+/**
+ * Actuele rentes met of zonder NHG uit de rentes-endpoint
+ */
+async function haalActueleRentetabel(
+  nhg?: boolean,
+  sessionId?: string
+): Promise<ActueleRentetabel> {
+  const apiClient = getApiClient();
+  const { data } = await apiClient.get<any>(REPLIT_API_URL_RENTES, { correlationId: sessionId });
+  return {
+    tabel: parseRentetabel(nhg ? data?.NHG : (data?.Niet_NHG ?? data?.NHG)),
+    bron: `actuele rentes ${nhg ? 'NHG' : 'zonder NHG'}${data?.datum ? ` (${data.datum})` : ''}`,
+  };
+}
+
+/**
+ * Vergelijkingsrente per leningdeel: opgegeven, of uit de actuele rentes
+ * voor de rentevaste periode die het best aansluit. Geef een eerder
+ * opgehaalde rentetabel mee om de endpoint niet opnieuw aan te roepen.
+ */
+async function resolveVergelijkingsrentes(
+  leningdelen: Leningdeel[],
+  opties: {
+    vergelijkingsrente?: number;
+    nhg?: boolean;
+    sessionId?: string;
+    actueel?: ActueleRentetabel;
+  }
+): Promise<{ rentes: number[]; bron: string }> {
+  if (opties.vergelijkingsrente !== undefined) {
+    return {
+      rentes: leningdelen.map(() => opties.vergelijkingsrente as number),
+      bron: 'opgegeven',
+    };
+  }
+
+  const { tabel, bron } = opties.actueel ?? (await haalActueleRentetabel(opties.nhg, opties.sessionId));
+  const rentes = leningdelen.map((deel) => kiesVergelijkingsrente(tabel, deel.rentevasteperiode_maanden));
+
+  if (rentes.some((rente) => rente === undefined)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Geen actuele rentes beschikbaar als vergelijkingsrente; geef vergelijkingsrente op',
+      'vergelijkingsrente'
+    );
+  }
+
+  return { rentes: rentes as number[], bron };
+}
 
+/**
+ * Geschatte hypotheek voor de nieuwe woning wanneer de respons geen bedrag bevat
+ */
+function schatOpzetHypotheek(
+  nieuweWoning: NieuweWoning,
+  aanvrager: OpzetAanvrager,
+  overwaarde = 0,
+  kostenKoper?: KostenKoperResultaat
+): number {
+  const kosten =
+    kostenKoper?.totaal ?? nieuweWoning.waarde_woning * (nieuweWoning.kosten_percentage ?? 0.05);
+  return Math.max(
+    0,
+    nieuweWoning.waarde_woning +
+      (nieuweWoning.bedrag_verbouwen ?? 0) +
+      (nieuweWoning.bedrag_verduurzamen ?? 0) +
+      kosten -
+      (aanvrager.eigen_vermogen ?? 0) -
+      Math.max(0, overwaarde)
+  );
+}
+
+function buildOpzetStarterPayload(
+  args: OpzetStarterArguments,
+  aanvrager: OpzetAanvrager,
+  kostenKoper?: KostenKoperResultaat
+): any {
   const payload: any = {
     aanvrager: mapOpzetAanvrager(aanvrager),
-    nieuwe_woning: {
-      waarde_woning: normalizedArgs.nieuwe_woning.waarde_woning,
-      bedrag_verbouwen: normalizedArgs.nieuwe_woning.bedrag_verbouwen ?? 0,
-      bedrag_verduurzamen: normalizedArgs.nieuwe_woning.bedrag_verduurzamen ?? 0,
-      kosten_percentage: normalizedArgs.nieuwe_woning.kosten_percentage ?? 0.05,
-      energielabel: normalizeEnergielabel(normalizedArgs.nieuwe_woning.energielabel || ''),
-    },
+    nieuwe_woning: buildNieuweWoningPayload(args.nieuwe_woning, kostenKoper),
   };
 
-  if (normalizedArgs.session_id) {
-    payload.session_id = normalizedArgs.session_id;
+  if (args.session_id) {
+    payload.session_id = args.session_id;
   }
 
+  return payload;
+}
+
+async function handleOpzetStarter(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<OpzetStarterArguments>(request);
+  const normalizedArgs = normalizeOpzetAanvragerShape(rawArgs) as OpzetStarterArguments;
+  const logger = createLogger(normalizedArgs.session_id);
+
+  const opgegevenAanvrager = requireOpzetAanvrager(normalizedArgs);
+  validateOpzetAanvrager(opgegevenAanvrager);
+  validateOptionalWozWaarde(normalizedArgs.woz_waarde);
+  validateKostenKoperInvoer(normalizedArgs.nieuwe_woning?.kosten_koper);
+  validateBouwdepot(normalizedArgs.nieuwe_woning);
+  validateSchenking(normalizedArgs.schenking);
+  validateFamilielening(normalizedArgs.familielening);
+  validateStarterslening(normalizedArgs.starterslening);
+  const startersleningRegels = normalizedArgs.starterslening
+    ? resolveStartersleningRegels(normalizedArgs.starterslening.gemeente)
+    : undefined;
+  enforceRateLimit(normalizedArgs.session_id, aantalBerekeningen(opgegevenAanvrager));
+
+  const { aanvrager, eigenGeld } = verwerkEigenGeld(normalizedArgs, opgegevenAanvrager);
+  const kostenKoper = resolveKostenKoper(normalizedArgs.nieuwe_woning, aanvrager);
+  const payload = buildOpzetStarterPayload(normalizedArgs, aanvrager, kostenKoper);
+
   const apiClient = getApiClient();
-  const { data } = await apiClient.post(
+  const { data } = await apiClient.post<any>(
     REPLIT_API_URL_OPZET,
     payload,
     { correlationId: normalizedArgs.session_id }
   );
+  const pensioen = await toetsOpPensioeninkomen(payload, aanvrager, data, {
+    sessionId: normalizedArgs.session_id,
+    opzet: true,
+  });
+
+  let starterslening: StartersleningResultaat | undefined;
+  if (startersleningRegels) {
+    const bedragen = extractOpzetBedragen(
+      normalizeResultList(data?.resultaat)[0] ?? data?.resultaat
+    );
+    starterslening = berekenStarterslening({
+      regels: startersleningRegels,
+      koopsom:
+        (bedragen.koopprijs ?? normalizedArgs.nieuwe_woning.waarde_woning) +
+        (bedragen.verbouwing ?? 0),
+      tekort: (bedragen.totaalBenodigd ?? 0) - (bedragen.finTotaal ?? 0),
+      gewenst_bedrag: normalizedArgs.starterslening?.bedrag,
+    });
+  }
 
   logger.info('Toolcall succesvol', { tool: 'opzet_hypotheek_starter' });
-  return successResponse(formatResponse(data, "opzet_hypotheek_starter"));
+  let text = formatResponse(data, 'opzet_hypotheek_starter', { eigenGeld, starterslening });
+  if (kostenKoper) {
+    text += renderKostenKoper(kostenKoper);
+  }
+  if (eigenGeld) {
+    text += renderEigenGeld(eigenGeld);
+  }
+  if (starterslening) {
+    text += renderStarterslening(starterslening);
+  }
+  const bouwdepot = resolveBouwdepot(normalizedArgs.nieuwe_woning, data);
+  if (bouwdepot) {
+    text += renderBouwdepot(bouwdepot);
+  }
+  text += renderToetsinkomen(aanvrager);
+  text += renderAowToets(resolveAowToetsen(aanvrager, looptijdNieuweLening(data)), pensioen);
+  if (normalizedArgs.toon_netto_maandlast) {
+    text += renderNettoVerrijking(data, {
+      inkomen: hoogsteInkomen(aanvrager),
+      wozWaarde: normalizedArgs.woz_waarde ?? normalizedArgs.nieuwe_woning.waarde_woning,
+    });
+  }
+  text += renderNhgHint(data, {
+    nieuweWoning: normalizedArgs.nieuwe_woning,
+    geschatteHypotheek: schatOpzetHypotheek(
+      normalizedArgs.nieuwe_woning,
+      aanvrager,
+      0,
+      kostenKoper
+    ),
+    nhgGevraagd: normalizedArgs.nieuwe_woning.kosten_koper?.nhg,
+  });
+  return successResponse(text);
 }
 
 async function handleOpzetDoorstromer(request: any): Promise<ToolResponse> {
@@ -675,64 +1934,209 @@ async function handleOpzetDoorstromer(request: any): Promise<ToolResponse> {
   const normalizedArgs = normalizeOpzetDoorstromerArgs(rawArgs) as OpzetDoorstromerArguments;
   const logger = createLogger(normalizedArgs.session_id);
 
-  const aanvrager = requireOpzetAanvrager(normalizedArgs);
-  validateOpzetAanvrager(aanvrager);
+  const opgegevenAanvrager = requireOpzetAanvrager(normalizedArgs);
+  validateOpzetAanvrager(opgegevenAanvrager);
+  validateOptionalWozWaarde(normalizedArgs.woz_waarde);
   validateBestaandeHypotheek(normalizedArgs.bestaande_hypotheek);
-  enforceRateLimit(normalizedArgs.session_id);
+  validateKostenKoperInvoer(normalizedArgs.nieuwe_woning?.kosten_koper);
+  validateBouwdepot(normalizedArgs.nieuwe_woning);
+  validateOptionalRente(normalizedArgs.vergelijkingsrente, 'vergelijkingsrente');
+  validateOptionalFractie(normalizedArgs.boetevrij_percentage, 'boetevrij_percentage');
+  validateRestschuldFinanciering(normalizedArgs.restschuld_financiering);
+  validateOverbrugging(normalizedArgs.overbrugging);
+  validateDubbeleLastenMaanden(normalizedArgs.dubbele_lasten_maanden);
+  validateSchenking(normalizedArgs.schenking);
+  validateFamilielening(normalizedArgs.familielening);
+  // Zonder vergelijkingsrente haalt de boeterente de actuele rentes op
+  const haaltRentesOp =
+    Boolean(normalizedArgs.boeterente_meefinancieren) &&
+    normalizedArgs.vergelijkingsrente === undefined;
+  enforceRateLimit(
+    normalizedArgs.session_id,
+    aantalBerekeningen(opgegevenAanvrager) + (haaltRentesOp ? 1 : 0)
+  );
 
-  const payload: any = {
-    aanvrager: mapOpzetAanvrager(aanvrager),
-    bestaande_hypotheek: {
-      waarde_huidige_woning: normalizedArgs.waarde_huidige_woning,
-      leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
-    },
-    nieuwe_woning: {
-      waarde_woning: normalizedArgs.nieuwe_woning.waarde_woning,
-      bedrag_verbouwen: normalizedArgs.nieuwe_woning.bedrag_verbouwen ?? 0,
-      bedrag_verduurzamen: normalizedArgs.nieuwe_woning.bedrag_verduurzamen ?? 0,
-      kosten_percentage: normalizedArgs.nieuwe_woning.kosten_percentage ?? 0.05,
-      energielabel: normalizeEnergielabel(normalizedArgs.nieuwe_woning.energielabel || ''),
+  const { aanvrager, eigenGeld } = verwerkEigenGeld(normalizedArgs, opgegevenAanvrager);
+
+  let boeterente: { resultaat: BoeterenteResultaat; bron: string } | undefined;
+  if (normalizedArgs.boeterente_meefinancieren) {
+    const leningdelen = normalizedArgs.bestaande_hypotheek.leningdelen;
+    const { rentes, bron } = await resolveVergelijkingsrentes(leningdelen, {
+      vergelijkingsrente: normalizedArgs.vergelijkingsrente,
+      nhg: normalizedArgs.nhg,
+      sessionId: normalizedArgs.session_id,
+    });
+    boeterente = {
+      resultaat: berekenBoeterentes(leningdelen, rentes, {
+        boetevrij_percentage: normalizedArgs.boetevrij_percentage,
+      }),
+      bron,
+    };
+  }
+
+  // Onder water: de restschuld wordt apart gefinancierd en de overwaarde is 0
+  const restschuld = resolveRestschuld(normalizedArgs, hoogsteInkomen(aanvrager));
+  const overwaarde = restschuld
+    ? 0
+    : berekenOverwaarde(
+        normalizedArgs.waarde_huidige_woning,
+        normalizedArgs.bestaande_hypotheek.leningdelen
+      );
+  const kostenKoper = resolveKostenKoper(normalizedArgs.nieuwe_woning, aanvrager, overwaarde);
+  const overbrugging = normalizedArgs.overbrugging
+    ? berekenOverbrugging({
+        verwachte_overwaarde: normalizedArgs.overbrugging.verwachte_overwaarde ?? overwaarde,
+        rente: normalizedArgs.overbrugging.rente,
+        looptijd_maanden: maandenTussen(
+          normalizedArgs.overbrugging.ingangsdatum
+            ? new Date(normalizedArgs.overbrugging.ingangsdatum)
+            : new Date(),
+          new Date(normalizedArgs.overbrugging.verwachte_verkoopdatum)
+        ),
+        bestaande_leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
+      })
+    : undefined;
+  const payload: any = verwerkRestschuld(
+    {
+      aanvrager: mapOpzetAanvrager(aanvrager),
+      bestaande_hypotheek: {
+        waarde_huidige_woning: normalizedArgs.waarde_huidige_woning,
+        leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
+      },
+      nieuwe_woning: buildNieuweWoningPayload(
+        normalizedArgs.nieuwe_woning,
+        kostenKoper,
+        boeterente?.resultaat.totaal_boeterente
+      ),
     },
-  };
+    restschuld
+  );
 
   if (normalizedArgs.session_id) {
     payload.session_id = normalizedArgs.session_id;
   }
 
   const apiClient = getApiClient();
-  const { data } = await apiClient.post(
+  const { data } = await apiClient.post<any>(
     REPLIT_API_URL_OPZET,
     payload,
     { correlationId: normalizedArgs.session_id }
   );
+  const pensioen = await toetsOpPensioeninkomen(payload, aanvrager, data, {
+    sessionId: normalizedArgs.session_id,
+    opzet: true,
+  });
 
   logger.info('Toolcall succesvol', { tool: 'opzet_hypotheek_doorstromer' });
-  return successResponse(formatResponse(data, "opzet_hypotheek_doorstromer"));
+  let text = formatResponse(data, 'opzet_hypotheek_doorstromer', { eigenGeld, restschuld });
+  if (kostenKoper) {
+    text += renderKostenKoper(kostenKoper);
+  }
+  if (eigenGeld) {
+    text += renderEigenGeld(eigenGeld);
+  }
+  if (boeterente) {
+    text += `${renderBoeterente(boeterente.resultaat, boeterente.bron)}\n`;
+    text += '➕ Boeterente is als extra kosten meegenomen in de financieringsbehoefte.\n\n';
+  }
+  const bouwdepot = resolveBouwdepot(normalizedArgs.nieuwe_woning, data);
+  if (bouwdepot) {
+    text += renderBouwdepot(bouwdepot);
+  }
+  text += renderToetsinkomen(aanvrager);
+  text += renderAowToets(resolveAowToetsen(aanvrager, looptijdNieuweLening(data)), pensioen);
+  const bedragen = extractOpzetBedragen(normalizeResultList(data?.resultaat)[0] ?? data?.resultaat);
+  if (overbrugging && normalizedArgs.overbrugging) {
+    text += `${renderOverbrugging(overbrugging, {
+      verkoopdatum: normalizedArgs.overbrugging.verwachte_verkoopdatum,
+      rente: normalizedArgs.overbrugging.rente,
+      nieuweMaandlast: bedragen.maandStraks,
+    })}\n\n`;
+  }
+  if (normalizedArgs.dubbele_lasten_maanden) {
+    const eigenVermogen = aanvrager.eigen_vermogen ?? 0;
+    const dubbeleLasten = berekenDubbeleWoonlasten({
+      maanden: normalizedArgs.dubbele_lasten_maanden,
+      bestaande_leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
+      nieuwe_maandlast: bedragen.maandStraks ?? 0,
+      overige_lasten_per_maand: overbrugging?.rente_per_maand,
+      buffer: eigenVermogen - (bedragen.finEigen ?? 0),
+    });
+    text += `${renderDubbeleWoonlasten(dubbeleLasten, {
+      eigenVermogen,
+      eigenInbreng: bedragen.finEigen,
+      nieuweMaandlastBekend: bedragen.maandStraks !== null,
+    })}\n\n`;
+  }
+  if (normalizedArgs.toon_netto_maandlast) {
+    text += renderNettoVerrijking(data, {
+      inkomen: hoogsteInkomen(aanvrager),
+      wozWaarde: normalizedArgs.woz_waarde ?? normalizedArgs.nieuwe_woning.waarde_woning,
+      bestaandeLeningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
+    });
+  }
+  text += renderNhgHint(data, {
+    nieuweWoning: normalizedArgs.nieuwe_woning,
+    geschatteHypotheek: schatOpzetHypotheek(
+      normalizedArgs.nieuwe_woning,
+      aanvrager,
+      overwaarde,
+      kostenKoper
+    ),
+    nhgGevraagd: normalizedArgs.nieuwe_woning.kosten_koper?.nhg,
+  });
+  return successResponse(text);
 }
 
-async function handleOpzetUitgebreid(request: any): Promise<ToolResponse> {
-  const rawArgs = requireArguments<OpzetUitgebreidArguments>(request);
-  const normalizedArgs = rawArgs.is_doorstromer
+function normalizeOpzetUitgebreidArgs(rawArgs: OpzetUitgebreidArguments): OpzetUitgebreidArguments {
+  return rawArgs.is_doorstromer
     ? (normalizeOpzetDoorstromerArgs(rawArgs) as OpzetUitgebreidArguments)
     : (normalizeOpzetAanvragerShape(rawArgs) as OpzetUitgebreidArguments);
-  const logger = createLogger(normalizedArgs.session_id);
+}
 
+function validateOpzetUitgebreidArgs(normalizedArgs: OpzetUitgebreidArguments): OpzetAanvrager {
   const aanvrager = requireOpzetAanvrager(normalizedArgs);
   validateOpzetAanvrager(aanvrager);
+  validateOptionalWozWaarde(normalizedArgs.woz_waarde);
   if (normalizedArgs.is_doorstromer && normalizedArgs.bestaande_hypotheek) {
     validateBestaandeHypotheek(normalizedArgs.bestaande_hypotheek);
   }
-  enforceRateLimit(normalizedArgs.session_id);
+  validateRestschuldFinanciering(normalizedArgs.restschuld_financiering);
+  validateKostenKoperInvoer(normalizedArgs.nieuwe_woning?.kosten_koper);
+  validateBouwdepot(normalizedArgs.nieuwe_woning);
+  validateSchenking(normalizedArgs.schenking);
+  validateFamilielening(normalizedArgs.familielening);
+  return aanvrager;
+}
 
-  const payload: any = {
+function resolveOpzetUitgebreidRestschuld(
+  normalizedArgs: OpzetUitgebreidArguments,
+  aanvrager: OpzetAanvrager
+): RestschuldFinanciering | null {
+  return normalizedArgs.is_doorstromer
+    ? resolveRestschuld(normalizedArgs, hoogsteInkomen(aanvrager))
+    : null;
+}
+
+function berekenOpzetUitgebreidOverwaarde(
+  normalizedArgs: OpzetUitgebreidArguments,
+  restschuld: RestschuldFinanciering | null
+): number {
+  // Een restschuld wordt apart gefinancierd: dan is er geen overwaarde
+  return normalizedArgs.is_doorstromer && normalizedArgs.waarde_huidige_woning && normalizedArgs.bestaande_hypotheek && !restschuld
+    ? berekenOverwaarde(normalizedArgs.waarde_huidige_woning, normalizedArgs.bestaande_hypotheek.leningdelen)
+    : 0;
+}
+
+function buildOpzetUitgebreidPayload(
+  normalizedArgs: OpzetUitgebreidArguments,
+  aanvrager: OpzetAanvrager,
+  kostenKoper?: KostenKoperResultaat,
+  restschuld: RestschuldFinanciering | null = null
+): any {
+  let payload: any = {
     aanvrager: mapOpzetAanvrager(aanvrager),
-    nieuwe_woning: {
-      waarde_woning: normalizedArgs.nieuwe_woning.waarde_woning,
-      bedrag_verbouwen: normalizedArgs.nieuwe_woning.bedrag_verbouwen ?? 0,
-      bedrag_verduurzamen: normalizedArgs.nieuwe_woning.bedrag_verduurzamen ?? 0,
-      kosten_percentage: normalizedArgs.nieuwe_woning.kosten_percentage ?? 0.05,
-      energielabel: normalizeEnergielabel(normalizedArgs.nieuwe_woning.energielabel || ''),
-    },
+    nieuwe_woning: buildNieuweWoningPayload(normalizedArgs.nieuwe_woning, kostenKoper),
   };
 
   if (normalizedArgs.is_doorstromer && normalizedArgs.waarde_huidige_woning && normalizedArgs.bestaande_hypotheek) {
@@ -740,10 +2144,10 @@ async function handleOpzetUitgebreid(request: any): Promise<ToolResponse> {
       waarde_huidige_woning: normalizedArgs.waarde_huidige_woning,
       leningdelen: normalizedArgs.bestaande_hypotheek.leningdelen,
     };
+    payload = verwerkRestschuld(payload, restschuld);
   }
 
-  const maatwerk = (normalizedArgs as any).nieuwe_hypotheek ?? (normalizedArgs as any).nieuwe_lening;
-  const nieuweLening = buildNieuweLeningPayload(maatwerk);
+  const nieuweLening = buildNieuweLeningPayload(extractOpzetMaatwerk(normalizedArgs));
   if (nieuweLening) {
     payload.nieuwe_lening = nieuweLening;
   }
@@ -752,379 +2156,1707 @@ async function handleOpzetUitgebreid(request: any): Promise<ToolResponse> {
     payload.session_id = normalizedArgs.session_id;
   }
 
+  return payload;
+}
+
+function extractOpzetMaatwerk(args: OpzetUitgebreidArguments): any {
+  return (args as any).nieuwe_hypotheek ?? (args as any).nieuwe_lening;
+}
+
+async function handleOpzetUitgebreid(request: any): Promise<ToolResponse> {
+  const normalizedArgs = normalizeOpzetUitgebreidArgs(
+    requireArguments<OpzetUitgebreidArguments>(request)
+  );
+  const logger = createLogger(normalizedArgs.session_id);
+
+  const { aanvrager, eigenGeld } = verwerkEigenGeld(
+    normalizedArgs,
+    validateOpzetUitgebreidArgs(normalizedArgs)
+  );
+  enforceRateLimit(normalizedArgs.session_id, aantalBerekeningen(aanvrager));
+
+  const restschuld = resolveOpzetUitgebreidRestschuld(normalizedArgs, aanvrager);
+  const overwaarde = berekenOpzetUitgebreidOverwaarde(normalizedArgs, restschuld);
+  const kostenKoper = resolveKostenKoper(normalizedArgs.nieuwe_woning, aanvrager, overwaarde);
+  const payload = buildOpzetUitgebreidPayload(normalizedArgs, aanvrager, kostenKoper, restschuld);
+  const maatwerk = extractOpzetMaatwerk(normalizedArgs);
+
   const apiClient = getApiClient();
   const { data } = await apiClient.post(
     REPLIT_API_URL_OPZET,
     payload,
     { correlationId: normalizedArgs.session_id }
   );
+  const pensioen = await toetsOpPensioeninkomen(payload, aanvrager, data, {
+    sessionId: normalizedArgs.session_id,
+    opzet: true,
+  });
 
   logger.info('Toolcall succesvol', { tool: 'opzet_hypotheek_uitgebreid' });
-  return successResponse(formatResponse(data, "opzet_hypotheek_uitgebreid"));
+  let text = formatResponse(data, 'opzet_hypotheek_uitgebreid', { eigenGeld, restschuld });
+  if (kostenKoper) {
+    text += renderKostenKoper(kostenKoper);
+  }
+  if (eigenGeld) {
+    text += renderEigenGeld(eigenGeld);
+  }
+  const bouwdepot = resolveBouwdepot(normalizedArgs.nieuwe_woning, data);
+  if (bouwdepot) {
+    text += renderBouwdepot(bouwdepot);
+  }
+  text += renderToetsinkomen(aanvrager);
+  text += renderAowToets(resolveAowToetsen(aanvrager, looptijdNieuweLening(data)), pensioen);
+  if (normalizedArgs.toon_netto_maandlast) {
+    text += renderNettoVerrijking(data, {
+      inkomen: hoogsteInkomen(aanvrager),
+      wozWaarde: normalizedArgs.woz_waarde ?? normalizedArgs.nieuwe_woning.waarde_woning,
+      bestaandeLeningdelen: payload.bestaande_hypotheek?.leningdelen,
+      rente: sanitizeNumber(maatwerk?.rente) ?? undefined,
+    });
+  }
+  text += renderNhgHint(data, {
+    nieuweWoning: normalizedArgs.nieuwe_woning,
+    geschatteHypotheek: schatOpzetHypotheek(
+      normalizedArgs.nieuwe_woning,
+      aanvrager,
+      overwaarde,
+      kostenKoper
+    ),
+    renteklassen: maatwerk?.renteklassen,
+    nhgGevraagd: maatwerk?.nhg ?? normalizedArgs.nieuwe_woning.kosten_koper?.nhg,
+  });
+  return successResponse(text);
 }
 
-const TOOL_HANDLERS: Record<string, ToolHandler> = {
-  bereken_hypotheek_starter: handleBerekenStarter,
-  bereken_hypotheek_doorstromer: handleBerekenDoorstromer,
-  bereken_hypotheek_uitgebreid: handleBerekenUitgebreid,
-  haal_actuele_rentes_op: handleActueleRentes,
-  opzet_hypotheek_starter: handleOpzetStarter,
-  opzet_hypotheek_doorstromer: handleOpzetDoorstromer,
-  opzet_hypotheek_uitgebreid: handleOpzetUitgebreid,
-};
+/**
+ * Financiering sluit wanneer de totale financiering het benodigde bedrag dekt
+ */
+function opzetSluit(bedragen: OpzetBedragen): boolean {
+  if (bedragen.finTotaal === null || bedragen.totaalBenodigd === null) {
+    throw new APIError(
+      ErrorCode.API_ERROR,
+      'Opzet-respons bevat geen totale financiering; benodigd inkomen is niet te bepalen'
+    );
+  }
+  return bedragen.finTotaal >= bedragen.totaalBenodigd - 1;
+}
 
-// Lijst met beschikbare tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      // Tool 1: Starters - Simpele berekening
-      {
-        name: "bereken_hypotheek_starter",
-        description: `Maximale hypotheek voor starters ZONDER concrete woning. Gebruik deze tool alleen wanneer de gebruiker zich oriënteert ("Wat kan ik lenen?") en er nog geen koopsom/adres bekend is. Zodra de gebruiker een specifiek huis of biedprijs noemt moet u overschakelen naar de opzet-hypotheek tools.`,
-        inputSchema: {
-          type: "object",
-          description: `Gebruik basisintakevelden; zie ${OPZET_GUIDE_URI} voor detaildefinities.`,
-          properties: {
-            ...baseIntakeProperties,
-            session_id: {
-              type: "string",
-              description: "Optioneel sessie-ID vanuit n8n (voor logging).",
-            },
-          },
-          required: baseIntakeRequired,
-        },
-      },
-      
-      // Tool 2: Doorstromers - Met bestaande hypotheek
-      {
-        name: "bereken_hypotheek_doorstromer",
-        description: `Maximale hypotheek voor doorstromers ZONDER concrete woning. Gebruik dit wanneer de gebruiker wil weten hoeveel ruimte er is om straks te verhuizen maar er nog geen koopsom of specifieke woning op tafel ligt. Zodra een concreet huis ter sprake komt schakelt u over op de opzet-hypotheek tools. Alle regels uit het doorstromerbeleid gelden ook voor de uitgebreide tool:
-${DOORSTROMER_OUTPUT_GUIDANCE}`,
-        inputSchema: {
-          type: "object",
-          description: `Gebruik basisintakevelden plus huidige woninginformatie; zie ${OPZET_GUIDE_URI} voor detaildefinities.`,
-          properties: {
-            ...baseIntakeProperties,
-            waarde_huidige_woning: {
-              type: "number",
-              description: "Huidige marktwaarde van de bestaande woning.",
-            },
-            bestaande_hypotheek: {
-              ...bestaandeHypotheekSchema,
-            },
-            session_id: {
-              type: "string",
-              description: "Optioneel sessie-ID vanuit n8n (voor logging).",
-            },
-          },
-          required: [
-            ...baseIntakeRequired,
-            "waarde_huidige_woning",
-            "bestaande_hypotheek",
-          ],
+// Maximaal aantal backend-calls per goal-seek (bereken_benodigd_inkomen, bereken_maximale_koopsom)
+const GOAL_SEEK_MAX_ITERATIES = 25;
+
+async function handleBenodigdInkomen(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<BenodigdInkomenArguments>(request);
+  const normalizedArgs = normalizeOpzetAanvragerShape(rawArgs) as BenodigdInkomenArguments;
+  const logger = createLogger(normalizedArgs.session_id);
+
+  const aanvrager = requireOpzetAanvrager(normalizedArgs);
+  validateOpzetAanvrager({
+    ...aanvrager,
+    inkomen_aanvrager: aanvrager.inkomen_aanvrager ?? 0,
+    inkomen_partner: aanvrager.heeft_partner
+      ? (aanvrager.inkomen_partner ?? 0)
+      : aanvrager.inkomen_partner,
+  });
+  validateKostenKoperInvoer(normalizedArgs.nieuwe_woning?.kosten_koper);
+  validateOptionalFractie(normalizedArgs.partner_aandeel, 'partner_aandeel');
+  validateOptionalBedrag(normalizedArgs.precisie, 'precisie', 10_000);
+  if (normalizedArgs.partner_aandeel !== undefined && !aanvrager.heeft_partner) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'partner_aandeel kan alleen gebruikt worden als heeft_partner true is',
+      'partner_aandeel'
+    );
+  }
+
+  const kostenKoper = resolveKostenKoper(normalizedArgs.nieuwe_woning, aanvrager);
+  const partnerVast = aanvrager.heeft_partner ? (aanvrager.inkomen_partner ?? 0) : 0;
+  const verdeel = (totaal: number) =>
+    normalizedArgs.partner_aandeel !== undefined
+      ? {
+          aanvrager: Math.round(totaal * (1 - normalizedArgs.partner_aandeel)),
+          partner: Math.round(totaal * normalizedArgs.partner_aandeel),
+        }
+      : { aanvrager: Math.max(0, Math.round(totaal - partnerVast)), partner: partnerVast };
+
+  // Elke iteratie is een backend-call: reserveer het hele budget vooraf
+  enforceRateLimit(normalizedArgs.session_id, GOAL_SEEK_MAX_ITERATIES);
+  const apiClient = getApiClient();
+  const zoekresultaat = await zoekMinimum(
+    {
+      ondergrens: normalizedArgs.partner_aandeel !== undefined ? 0 : partnerVast,
+      bovengrens: ValidationConstraints.INKOMEN.MAX,
+      precisie: normalizedArgs.precisie || 500,
+      maxIteraties: GOAL_SEEK_MAX_ITERATIES,
+    },
+    async (totaal) => {
+      const inkomen = verdeel(totaal);
+      const payload = buildOpzetStarterPayload(
+        normalizedArgs,
+        {
+          ...aanvrager,
+          inkomen_aanvrager: inkomen.aanvrager,
+          inkomen_partner: aanvrager.heeft_partner ? inkomen.partner : aanvrager.inkomen_partner,
         },
-      },
-      
-      // Tool 3: Uitgebreid - Alle parameters configureerbaar
-      {
-        name: "bereken_hypotheek_uitgebreid",
-        description: `Maximale hypotheek – uitgebreide variant. Gebruik dit alleen wanneer er nog GEEN concrete woning is, maar de gebruiker/adviseur expliciet met parameters wil spelen (bijv. andere rentevast-periodes, custom renteklassen, scenariovergelijkingen). Voor een concrete woning altijd de opzet-tools gebruiken. Zodra u dit tool voor een doorstromer inzet (is_doorstromer=true of bestaande_hypotheek ingevuld), gelden dezelfde regels als bij de standaard doorstromer-tool:
-${DOORSTROMER_OUTPUT_GUIDANCE}`,
-        inputSchema: {
-          type: "object",
-          description: `Alle velden zijn optioneel bovenop de basisintake; zie ${OPZET_GUIDE_URI} voor velduitleg en defaults.`,
-          properties: {
-            ...baseIntakeProperties,
-            is_doorstromer: {
-              type: "boolean",
-              description: "Geeft aan of de aanvrager een doorstromer is.",
-            },
-            waarde_huidige_woning: {
-              type: "number",
-              description: "Optionele huidige woningwaarde in euro's.",
-            },
-            bestaande_hypotheek: {
-              ...bestaandeHypotheekSchema,
-            },
-            nieuwe_woning: {
-              ...nieuweWoningSchema,
-            },
-            nieuwe_hypotheek: {
-              type: "object",
-              description: `Optionele maatwerk leningparameters (looptijd, rentevast, rente). Detailuitleg: ${OPZET_GUIDE_URI}.`,
-            },
-            nieuwe_lening: {
-              type: "object",
-              description: `Optionele structuur voor looptijd/rentevast/NHG en renteklassen (detailuitleg: ${OPZET_GUIDE_URI}).`,
-            },
-            session_id: {
-              type: "string",
-              description: "Optioneel sessie-ID vanuit n8n (voor logging).",
-            },
-          },
-          required: baseIntakeRequired,
+        kostenKoper
+      );
+      const { data } = await apiClient.post<any>(REPLIT_API_URL_OPZET, payload, {
+        correlationId: normalizedArgs.session_id,
+      });
+      const bedragen = extractOpzetBedragen(
+        normalizeResultList(data?.resultaat)[0] ?? data?.resultaat
+      );
+      return { geslaagd: opzetSluit(bedragen), uitkomst: bedragen };
+    }
+  );
+
+  logger.info('Toolcall succesvol', {
+    tool: 'bereken_benodigd_inkomen',
+    iteraties: zoekresultaat.iteraties,
+  });
+  return successResponse(
+    renderBenodigdInkomen(zoekresultaat, {
+      waardeWoning: normalizedArgs.nieuwe_woning.waarde_woning,
+      heeftPartner: aanvrager.heeft_partner,
+      partnerVast: normalizedArgs.partner_aandeel === undefined,
+      precisie: normalizedArgs.precisie || 500,
+      verdeel,
+    })
+  );
+}
+
+async function handleMaximaleKoopsom(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<MaximaleKoopsomArguments>(request);
+  const normalizedArgs = normalizeOpzetAanvragerShape(rawArgs) as MaximaleKoopsomArguments;
+  const logger = createLogger(normalizedArgs.session_id);
+
+  const aanvrager = requireOpzetAanvrager(normalizedArgs);
+  validateOpzetAanvrager(aanvrager);
+  const woningAannames = normalizedArgs.nieuwe_woning ?? {};
+  validateKostenKoperInvoer(woningAannames.kosten_koper);
+  validateOptionalBedrag(woningAannames.bedrag_verbouwen, 'nieuwe_woning.bedrag_verbouwen');
+  validateOptionalBedrag(woningAannames.bedrag_verduurzamen, 'nieuwe_woning.bedrag_verduurzamen');
+  validateOptionalBedrag(normalizedArgs.precisie, 'precisie', 25_000);
+
+  const precisie = normalizedArgs.precisie || 1000;
+  // Elke iteratie is een backend-call: reserveer het hele budget vooraf
+  enforceRateLimit(normalizedArgs.session_id, GOAL_SEEK_MAX_ITERATIES);
+  const apiClient = getApiClient();
+  const zoekresultaat = await zoekMaximum(
+    {
+      ondergrens: ValidationConstraints.WONING_WAARDE.MIN,
+      bovengrens: ValidationConstraints.WONING_WAARDE.MAX,
+      precisie,
+      maxIteraties: GOAL_SEEK_MAX_ITERATIES,
+    },
+    async (koopsom) => {
+      // Kosten koper hangen van de koopsom af en worden per stap opnieuw bepaald
+      const nieuweWoning: NieuweWoning = { ...woningAannames, waarde_woning: koopsom };
+      const kostenKoper = resolveKostenKoper(nieuweWoning, aanvrager);
+      const payload = buildOpzetStarterPayload(
+        { ...normalizedArgs, nieuwe_woning: nieuweWoning },
+        aanvrager,
+        kostenKoper
+      );
+      const { data } = await apiClient.post<any>(REPLIT_API_URL_OPZET, payload, {
+        correlationId: normalizedArgs.session_id,
+      });
+      const resultaat = normalizeResultList(data?.resultaat)[0] ?? data?.resultaat;
+      return {
+        geslaagd: opzetSluit(extractOpzetBedragen(resultaat)),
+        uitkomst: { resultaat, kostenKoper },
+      };
+    }
+  );
+
+  logger.info('Toolcall succesvol', {
+    tool: 'bereken_maximale_koopsom',
+    iteraties: zoekresultaat.iteraties,
+  });
+  return successResponse(
+    renderMaximaleKoopsom(zoekresultaat, {
+      eigenVermogen: aanvrager.eigen_vermogen ?? 0,
+      precisie,
+    })
+  );
+}
+
+/**
+ * Backend-verzoek voor één scenario; valideert de samengevoegde invoer zoals de onderliggende tool
+ */
+function bereidScenarioVoor(
+  soort: VergelijkSoort,
+  invoer: Record<string, unknown>,
+  sessionId?: string
+): { url: string; payload: any } {
+  if (soort === 'bereken') {
+    const normalizedArgs = normalizeUitgebreidArgs({
+      ...invoer,
+      session_id: sessionId,
+    } as unknown as UitgebreidArguments);
+    validateUitgebreidArgs(normalizedArgs);
+    return { url: REPLIT_API_URL_BEREKENEN, payload: buildUitgebreidPayload(normalizedArgs) };
+  }
+
+  const normalizedArgs = normalizeOpzetUitgebreidArgs({ ...invoer, session_id: sessionId } as unknown as OpzetUitgebreidArguments);
+  const { aanvrager } = verwerkEigenGeld(normalizedArgs, validateOpzetUitgebreidArgs(normalizedArgs));
+  const restschuld = resolveOpzetUitgebreidRestschuld(normalizedArgs, aanvrager);
+  const kostenKoper = resolveKostenKoper(
+    normalizedArgs.nieuwe_woning,
+    aanvrager,
+    berekenOpzetUitgebreidOverwaarde(normalizedArgs, restschuld)
+  );
+  return {
+    url: REPLIT_API_URL_OPZET,
+    payload: buildOpzetUitgebreidPayload(normalizedArgs, aanvrager, kostenKoper, restschuld),
+  };
+}
+
+async function handleVergelijkScenarios(request: any): Promise<ToolResponse> {
+  const args = requireArguments<VergelijkScenariosArguments>(request);
+  validateVergelijkScenariosArguments(args, MAX_VERGELIJK_SCENARIOS);
+  const sessionId = args.session_id ?? extractSessionId(args.basis);
+  const logger = createLogger(sessionId);
+
+  // Alle scenario's vooraf valideren, zodat een invoerfout niet pas na een deel van de backend-calls opvalt
+  const verzoeken = [{ naam: 'Basis', aanpassingen: {} }, ...args.scenarios].map((scenario) => {
+    const naam = scenario.naam.trim();
+    try {
+      return {
+        naam,
+        ...bereidScenarioVoor(
+          args.soort,
+          pasAanpassingenToe(args.basis, scenario.aanpassingen),
+          sessionId
+        ),
+      };
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(
+          error.code,
+          `Scenario "${naam}": ${error.message}`,
+          error.field,
+          error.value
+        );
+      }
+      throw error;
+    }
+  });
+  // Elk scenario (inclusief basis) is een eigen backend-call
+  enforceRateLimit(sessionId, verzoeken.length);
+
+  const apiClient = getApiClient();
+  const uitkomsten = await mapMetLimiet(
+    verzoeken,
+    config.apiMaxConcurrency,
+    async (verzoek): Promise<ScenarioUitkomst> => {
+      try {
+        const { data } = await apiClient.post<any>(verzoek.url, verzoek.payload, {
+          correlationId: sessionId,
+        });
+        const resultaat = normalizeResultList(data?.resultaat)[0] ?? data?.resultaat;
+        return { naam: verzoek.naam, kerncijfers: extractKerncijfers(resultaat, args.soort) };
+      } catch (error) {
+        return { naam: verzoek.naam, fout: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  if (uitkomsten[0].fout !== undefined) {
+    throw new APIError(ErrorCode.API_ERROR, `Basisscenario niet berekend: ${uitkomsten[0].fout}`);
+  }
+
+  logger.info('Toolcall succesvol', { tool: 'vergelijk_scenarios', scenarios: verzoeken.length });
+  return successResponse(renderScenarioVergelijking(uitkomsten, args.soort));
+}
+
+async function handleHurenKopen(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<HurenKopenArguments>(request);
+  const normalizedArgs = normalizeOpzetAanvragerShape(rawArgs) as HurenKopenArguments;
+  const logger = createLogger(normalizedArgs.session_id);
+
+  const aanvrager = requireOpzetAanvrager(normalizedArgs);
+  validateOpzetAanvrager(aanvrager);
+  validateKostenKoperInvoer(normalizedArgs.nieuwe_woning?.kosten_koper);
+  validateHurenKopenArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  const kostenKoper = resolveKostenKoper(normalizedArgs.nieuwe_woning, aanvrager);
+  const payload = buildOpzetStarterPayload(normalizedArgs, aanvrager, kostenKoper);
+
+  const apiClient = getApiClient();
+  const { data } = await apiClient.post<any>(REPLIT_API_URL_OPZET, payload, {
+    correlationId: normalizedArgs.session_id,
+  });
+  const resultaat = normalizeResultList(data?.resultaat)[0] ?? data?.resultaat;
+  const bedragen = extractOpzetBedragen(resultaat);
+  const gegevens = resultaat?.gebruikte_hypotheekgegevens?.opzet_nieuwe_hypotheek?.[0] ?? {};
+  const rente = sanitizeNumber(gegevens.rente);
+  if (bedragen.finNieuwe === null || rente === null) {
+    throw new APIError(
+      ErrorCode.API_ERROR,
+      'Opzet-respons bevat geen hypotheekbedrag of rente; huren en kopen zijn niet te vergelijken'
+    );
+  }
+
+  const looptijd = sanitizeNumber(gegevens.looptijd_maanden) ?? 360;
+  const vorm = String(gegevens.hypotheekvorm ?? '').toLowerCase();
+  const eigenGeld =
+    bedragen.finEigen ?? Math.max(0, (bedragen.totaalBenodigd ?? 0) - bedragen.finNieuwe);
+  const aannames = {
+    huurstijging: normalizedArgs.huurstijging ?? STANDAARD_HUREN_KOPEN_AANNAMES.huurstijging,
+    waardestijging: normalizedArgs.waardestijging ?? STANDAARD_HUREN_KOPEN_AANNAMES.waardestijging,
+    rendement: normalizedArgs.rendement ?? STANDAARD_HUREN_KOPEN_AANNAMES.rendement,
+    eigenaarslasten_percentage:
+      normalizedArgs.eigenaarslasten_percentage ??
+      STANDAARD_HUREN_KOPEN_AANNAMES.eigenaarslasten_percentage,
+    horizon_jaren: normalizedArgs.horizon_jaren ?? STANDAARD_HUREN_KOPEN_AANNAMES.horizon_jaren,
+  };
+  const vergelijking = vergelijkHurenKopen({
+    koopsom: normalizedArgs.nieuwe_woning.waarde_woning,
+    hypotheek: {
+      huidige_schuld: bedragen.finNieuwe,
+      huidige_rente: rente,
+      resterende_looptijd_in_maanden: looptijd,
+      rentevasteperiode_maanden: looptijd,
+      hypotheekvorm: isHypotheekvorm(vorm) ? vorm : 'annuiteit',
+    },
+    eigen_geld_ingebracht: eigenGeld,
+    eigen_vermogen: aanvrager.eigen_vermogen ?? 0,
+    huur_per_maand: normalizedArgs.huur_per_maand,
+    ...aannames,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'vergelijk_huren_kopen' });
+  return successResponse(
+    renderHurenKopen(vergelijking, {
+      koopsom: normalizedArgs.nieuwe_woning.waarde_woning,
+      hypotheek: bedragen.finNieuwe,
+      maandlast: bedragen.maandStraks,
+      kostenKoper: kostenKoper?.totaal ?? bedragen.kosten,
+      eigenGeld,
+      huurPerMaand: normalizedArgs.huur_per_maand,
+      ...aannames,
+    })
+  );
+}
+
+async function handleAflosschema(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<AflosschemaArguments>(request);
+  const normalizedArgs: AflosschemaArguments = {
+    ...rawArgs,
+    leningdelen: normalizeBestaandeHypotheek({ leningdelen: rawArgs.leningdelen }).leningdelen,
+  };
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateAflosschemaArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  const schema = berekenAflosschemas(normalizedArgs.leningdelen, {
+    weergave: normalizedArgs.weergave,
+    nieuweRente: normalizedArgs.nieuwe_rente,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'bereken_aflosschema' });
+  return successResponse(renderAflosschema(schema));
+}
+
+async function handleNettoMaandlast(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<NettoMaandlastArguments>(request);
+  const normalizedArgs: NettoMaandlastArguments = rawArgs.leningdelen
+    ? {
+        ...rawArgs,
+        leningdelen: normalizeBestaandeHypotheek({ leningdelen: rawArgs.leningdelen }).leningdelen,
+      }
+    : rawArgs;
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateNettoMaandlastArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  const looptijd = normalizedArgs.looptijd_maanden ?? 360;
+  const leningdelen: Leningdeel[] = normalizedArgs.leningdelen ?? [
+    {
+      huidige_schuld: normalizedArgs.hypotheekbedrag as number,
+      huidige_rente: normalizedArgs.rente as number,
+      resterende_looptijd_in_maanden: looptijd,
+      rentevasteperiode_maanden: looptijd,
+      hypotheekvorm: normalizedArgs.hypotheekvorm ?? 'annuiteit',
+    },
+  ];
+
+  const netto = berekenNettoMaandlastVoorLeningdelen(leningdelen, {
+    woz_waarde: normalizedArgs.woz_waarde,
+    inkomen: Math.max(normalizedArgs.inkomen_aanvrager, normalizedArgs.inkomen_partner ?? 0),
+    jaar: normalizedArgs.jaar,
+    aflossingsvrij_aftrekbaar: normalizedArgs.aflossingsvrij_aftrekbaar,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'bereken_netto_maandlast' });
+  return successResponse(renderNettoMaandlast(netto, normalizedArgs.woz_waarde));
+}
+
+async function handleNhg(request: any): Promise<ToolResponse> {
+  const normalizedArgs = requireArguments<NhgArguments>(request);
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateNhgArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  const verbouwen = normalizedArgs.bedrag_verbouwen ?? 0;
+  const verduurzamen = normalizedArgs.bedrag_verduurzamen ?? 0;
+  const hypotheekbedrag =
+    normalizedArgs.hypotheekbedrag ??
+    Math.max(
+      0,
+      normalizedArgs.waarde_woning +
+        verbouwen +
+        verduurzamen +
+        (normalizedArgs.kosten_koper ?? 0) -
+        (normalizedArgs.eigen_vermogen ?? 0)
+    );
+
+  const toets = toetsNhg({
+    hypotheekbedrag,
+    marktwaarde: normalizedArgs.waarde_woning + verbouwen + verduurzamen,
+    bedrag_verduurzamen: verduurzamen,
+    renteklassen: normalizedArgs.renteklassen,
+    jaar: normalizedArgs.jaar,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'controleer_nhg' });
+  return successResponse(renderNhgToets(toets));
+}
+
+async function handleBoeterente(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<BoeterenteArguments>(request);
+  const normalizedArgs: BoeterenteArguments = {
+    ...rawArgs,
+    leningdelen: normalizeBestaandeHypotheek({ leningdelen: rawArgs.leningdelen }).leningdelen,
+  };
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateBoeterenteArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  const { rentes, bron } = await resolveVergelijkingsrentes(normalizedArgs.leningdelen, {
+    vergelijkingsrente: normalizedArgs.vergelijkingsrente,
+    nhg: normalizedArgs.nhg,
+    sessionId: normalizedArgs.session_id,
+  });
+  const resultaat = berekenBoeterentes(normalizedArgs.leningdelen, rentes, {
+    boetevrij_percentage: normalizedArgs.boetevrij_percentage,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'bereken_boeterente' });
+  return successResponse(renderBoeterente(resultaat, bron));
+}
+
+async function handleRentemiddeling(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<RentemiddelingArguments>(request);
+  const [leningdeel] = normalizeBestaandeHypotheek({
+    leningdelen: [rawArgs.leningdeel],
+  }).leningdelen;
+  const normalizedArgs: RentemiddelingArguments = { ...rawArgs, leningdeel };
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateRentemiddelingArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  // Actuele rente voor de nieuwe rentevaste periode
+  const { rentes, bron } = await resolveVergelijkingsrentes(
+    [
+      {
+        ...leningdeel,
+        rentevasteperiode_maanden: normalizedArgs.nieuwe_rentevaste_periode_maanden,
+      },
+    ],
+    {
+      vergelijkingsrente: normalizedArgs.nieuwe_rente,
+      nhg: normalizedArgs.nhg,
+      sessionId: normalizedArgs.session_id,
+    }
+  );
+  const resultaat = berekenRentemiddeling({
+    leningdeel,
+    nieuwe_rente: rentes[0],
+    nieuwe_rentevast_maanden: normalizedArgs.nieuwe_rentevaste_periode_maanden,
+    renteopslag: normalizedArgs.renteopslag,
+    rente_na_afloop: normalizedArgs.rente_na_afloop,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'bereken_rentemiddeling' });
+  return successResponse(renderRentemiddeling(resultaat, bron));
+}
+
+async function handleOversluiten(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<OversluitenArguments>(request);
+  const normalizedArgs: OversluitenArguments = {
+    ...rawArgs,
+    leningdelen: normalizeBestaandeHypotheek({ leningdelen: rawArgs.leningdelen }).leningdelen,
+  };
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateOversluitenArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  const leningdelen = normalizedArgs.leningdelen;
+  const nieuwePeriode = normalizedArgs.nieuwe_rentevaste_periode_maanden ?? 120;
+  // Eén keer ophalen voor zowel de vergelijkingsrente als de nieuwe rente
+  const actueel =
+    normalizedArgs.vergelijkingsrente === undefined || normalizedArgs.nieuwe_rente === undefined
+      ? await haalActueleRentetabel(normalizedArgs.nhg, normalizedArgs.session_id)
+      : undefined;
+  const vergelijking = await resolveVergelijkingsrentes(leningdelen, {
+    vergelijkingsrente: normalizedArgs.vergelijkingsrente,
+    actueel,
+  });
+  // Actuele rente voor de nieuwe rentevaste periode
+  const nieuw = await resolveVergelijkingsrentes(
+    [{ ...leningdelen[0], rentevasteperiode_maanden: nieuwePeriode }],
+    {
+      vergelijkingsrente: normalizedArgs.nieuwe_rente,
+      actueel,
+    }
+  );
+
+  const boeterente = berekenBoeterentes(leningdelen, vergelijking.rentes, {
+    boetevrij_percentage: normalizedArgs.boetevrij_percentage,
+  });
+  const resultaat = berekenOversluiten({
+    leningdelen,
+    nieuwe_rente: nieuw.rentes[0],
+    nieuwe_rentevast_maanden: nieuwePeriode,
+    boeterente: boeterente.totaal_boeterente,
+    kosten: {
+      advieskosten: normalizedArgs.advieskosten,
+      notariskosten: normalizedArgs.notariskosten,
+      taxatiekosten: normalizedArgs.taxatiekosten,
+    },
+    kosten_meefinancieren: normalizedArgs.kosten_meefinancieren,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'bereken_oversluiten' });
+  return successResponse(
+    renderOversluiten(resultaat, {
+      nieuweRente: nieuw.rentes[0],
+      nieuwePeriode,
+      bronRente: nieuw.bron,
+      bronBoeterente: vergelijking.bron,
+    })
+  );
+}
+
+async function handleExtraAflossen(request: any): Promise<ToolResponse> {
+  const rawArgs = requireArguments<ExtraAflossenArguments>(request);
+  const normalizedArgs: ExtraAflossenArguments = {
+    ...rawArgs,
+    leningdelen: normalizeBestaandeHypotheek({ leningdelen: rawArgs.leningdelen }).leningdelen,
+  };
+  const logger = createLogger(normalizedArgs.session_id);
+
+  validateExtraAflossenArguments(normalizedArgs);
+  enforceRateLimit(normalizedArgs.session_id);
+
+  const resultaat = berekenExtraAflossen({
+    leningdelen: normalizedArgs.leningdelen,
+    eenmalig: normalizedArgs.eenmalig,
+    periodiek: normalizedArgs.periodiek,
+    frequentie: normalizedArgs.frequentie,
+    boetevrij_percentage: normalizedArgs.boetevrij_percentage,
+  });
+
+  logger.info('Toolcall succesvol', { tool: 'simuleer_extra_aflossen' });
+  return successResponse(renderExtraAflossen(resultaat, normalizedArgs));
+}
+
+async function handleRentevastAdvies(request: any): Promise<ToolResponse> {
+  const args = requireArguments<RentevastAdviesArguments>(request);
+  const logger = createLogger(args.session_id);
+
+  validateRentevastAdviesArguments(args);
+  enforceRateLimit(args.session_id);
+
+  const apiClient = getApiClient();
+  const { data } = await apiClient.get<any>(REPLIT_API_URL_RENTES, {
+    correlationId: args.session_id,
+  });
+  const rentes = selecteerRentes(args.nhg ? data?.NHG : (data?.Niet_NHG ?? data?.NHG), args.ltv);
+  if (rentes.length === 0) {
+    throw new APIError(
+      ErrorCode.API_ERROR,
+      `Rentes-respons bevat geen rentes ${args.nhg ? 'met' : 'zonder'} NHG voor deze LTV`
+    );
+  }
+
+  const looptijdMaanden = Math.round((args.looptijd_jaren ?? 30) * 12);
+  const adviezen = adviseerRentevastePeriode({
+    hypotheekbedrag: args.hypotheekbedrag,
+    looptijd_maanden: looptijdMaanden,
+    rentes,
+  });
+
+  logger.info('Toolcall succesvol', {
+    tool: 'advies_rentevaste_periode',
+    perioden: adviezen.length,
+  });
+  return successResponse(
+    renderRentevastAdvies(adviezen, {
+      hypotheekbedrag: args.hypotheekbedrag,
+      ltv: args.ltv,
+      nhg: args.nhg ?? false,
+      datum: typeof data?.datum === 'string' ? data.datum : undefined,
+    })
+  );
+}
+
+export const TOOL_HANDLERS: Record<string, ToolHandler> = {
+  bereken_hypotheek_starter: handleBerekenStarter,
+  bereken_hypotheek_doorstromer: handleBerekenDoorstromer,
+  bereken_hypotheek_uitgebreid: handleBerekenUitgebreid,
+  bereken_gevoeligheid: handleGevoeligheid,
+  bereken_benodigd_inkomen: handleBenodigdInkomen,
+  bereken_maximale_koopsom: handleMaximaleKoopsom,
+  vergelijk_scenarios: handleVergelijkScenarios,
+  advies_rentevaste_periode: handleRentevastAdvies,
+  bereken_oversluiten: handleOversluiten,
+  simuleer_extra_aflossen: handleExtraAflossen,
+  vergelijk_huren_kopen: handleHurenKopen,
+  haal_actuele_rentes_op: handleActueleRentes,
+  opzet_hypotheek_starter: handleOpzetStarter,
+  opzet_hypotheek_doorstromer: handleOpzetDoorstromer,
+  opzet_hypotheek_uitgebreid: handleOpzetUitgebreid,
+  bereken_aflosschema: handleAflosschema,
+  bereken_netto_maandlast: handleNettoMaandlast,
+  controleer_nhg: handleNhg,
+  bereken_boeterente: handleBoeterente,
+  bereken_rentemiddeling: handleRentemiddeling,
+};
+
+// Lijst met beschikbare tools
+const TOOL_DEFINITIONS = [
+  // Tool 1: Starters - Simpele berekening
+  {
+    name: 'bereken_hypotheek_starter',
+    description: `Maximale hypotheek voor starters ZONDER concrete woning. Gebruik deze tool alleen wanneer de gebruiker zich oriënteert ("Wat kan ik lenen?") en er nog geen koopsom/adres bekend is. Zodra de gebruiker een specifiek huis of biedprijs noemt moet u overschakelen naar de opzet-hypotheek tools.`,
+    inputSchema: {
+      type: 'object',
+      description: `Gebruik basisintakevelden; zie ${OPZET_GUIDE_URI} voor detaildefinities.`,
+      properties: {
+        ...baseIntakeProperties,
+        ...nettoMaandlastProperties,
+        ...pensioenProperties,
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
         },
       },
-      // Tool 4: Actuele rentes ophalen
-      {
-        name: "haal_actuele_rentes_op",
-        description: "Haalt actuele hypotheekrentes op per rentevaste periode. Output: overzicht met NHG- en niet-NHG-tarieven.",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
+      required: baseIntakeRequired,
+    },
+  },
+
+  // Tool 2: Doorstromers - Met bestaande hypotheek
+  {
+    name: 'bereken_hypotheek_doorstromer',
+    description: `Maximale hypotheek voor doorstromers ZONDER concrete woning. Gebruik dit wanneer de gebruiker wil weten hoeveel ruimte er is om straks te verhuizen maar er nog geen koopsom of specifieke woning op tafel ligt. Zodra een concreet huis ter sprake komt schakelt u over op de opzet-hypotheek tools. Alle regels uit het doorstromerbeleid gelden ook voor de uitgebreide tool:
+${DOORSTROMER_OUTPUT_GUIDANCE}`,
+    inputSchema: {
+      type: 'object',
+      description: `Gebruik basisintakevelden plus huidige woninginformatie; zie ${OPZET_GUIDE_URI} voor detaildefinities.`,
+      properties: {
+        ...baseIntakeProperties,
+        ...nettoMaandlastProperties,
+        ...pensioenProperties,
+        waarde_huidige_woning: {
+          type: 'number',
+          description: 'Huidige marktwaarde van de bestaande woning.',
+        },
+        bestaande_hypotheek: {
+          ...bestaandeHypotheekSchema,
+        },
+        restschuld_financiering: {
+          ...restschuldFinancieringSchema,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
         },
       },
-      
-      // Tool 5: Opzet hypotheek - Starters
-      {
-        name: "opzet_hypotheek_starter",
-        description: `Opzet-berekening voor starters met een CONCRETE woning. Gebruik dit zodra de gebruiker een huis/koopprijs noemt en wil weten “kan ik deze woning kopen, hoe ziet de financiering eruit?”. Voor louter oriëntatie zonder woning blijft u bij de maximale-hypotheek tools. Dit is de standaardvariant; kies opzet_hypotheek_uitgebreid wanneer de gebruiker expliciet scenario’s/leningdelen wil tweaken.`,
-        inputSchema: {
+      required: [...baseIntakeRequired, 'waarde_huidige_woning', 'bestaande_hypotheek'],
+    },
+  },
+
+  // Tool 3: Uitgebreid - Alle parameters configureerbaar
+  {
+    name: 'bereken_hypotheek_uitgebreid',
+    description: `Maximale hypotheek – uitgebreide variant. Gebruik dit alleen wanneer er nog GEEN concrete woning is, maar de gebruiker/adviseur expliciet met parameters wil spelen (bijv. andere rentevast-periodes, custom renteklassen, scenariovergelijkingen). Voor een concrete woning altijd de opzet-tools gebruiken. Zodra u dit tool voor een doorstromer inzet (is_doorstromer=true of bestaande_hypotheek ingevuld), gelden dezelfde regels als bij de standaard doorstromer-tool:
+${DOORSTROMER_OUTPUT_GUIDANCE}`,
+    inputSchema: {
+      type: 'object',
+      description: `Alle velden zijn optioneel bovenop de basisintake; zie ${OPZET_GUIDE_URI} voor velduitleg en defaults.`,
+      properties: {
+        ...baseIntakeProperties,
+        ...nettoMaandlastProperties,
+        ...pensioenProperties,
+        is_doorstromer: {
+          type: 'boolean',
+          description: 'Geeft aan of de aanvrager een doorstromer is.',
+        },
+        waarde_huidige_woning: {
+          type: 'number',
+          description: "Optionele huidige woningwaarde in euro's.",
+        },
+        bestaande_hypotheek: {
+          ...bestaandeHypotheekSchema,
+        },
+        restschuld_financiering: {
+          ...restschuldFinancieringSchema,
+        },
+        nieuwe_woning: {
+          ...nieuweWoningSchema,
+        },
+        nieuwe_hypotheek: {
+          type: "object",
+          description: `Optionele maatwerk leningparameters (looptijd, rentevast, rente). Detailuitleg: ${OPZET_GUIDE_URI}.`,
+        },
+        nieuwe_lening: {
           type: "object",
-          description: `Gebruik basisintake plus woninginfo; zie ${OPZET_GUIDE_URI} voor detailvelden en defaults.`,
+          description: `Optionele structuur voor looptijd/rentevast/NHG en renteklassen (detailuitleg: ${OPZET_GUIDE_URI}).`,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: baseIntakeRequired,
+    },
+  },
+  // Tool 4: Actuele rentes ophalen
+  {
+    name: 'haal_actuele_rentes_op',
+    description:
+      'Haalt actuele hypotheekrentes op per rentevaste periode. Output: overzicht met NHG- en niet-NHG-tarieven.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+
+  // Tool 5: Opzet hypotheek - Starters
+  {
+    name: 'opzet_hypotheek_starter',
+    description: `Opzet-berekening voor starters met een CONCRETE woning. Gebruik dit zodra de gebruiker een huis/koopprijs noemt en wil weten “kan ik deze woning kopen, hoe ziet de financiering eruit?”. Voor louter oriëntatie zonder woning blijft u bij de maximale-hypotheek tools. Dit is de standaardvariant; kies opzet_hypotheek_uitgebreid wanneer de gebruiker expliciet scenario’s/leningdelen wil tweaken.`,
+    inputSchema: {
+      type: 'object',
+      description: `Gebruik basisintake plus woninginfo; zie ${OPZET_GUIDE_URI} voor detailvelden en defaults.`,
+      properties: {
+        aanvrager: opzetAanvragerSchema,
+        ...eigenGeldProperties,
+        ...nettoMaandlastProperties,
+        nieuwe_woning: {
+          ...opzetNieuweWoningSchema,
+        },
+        starterslening: {
+          type: 'object',
+          description:
+            'Optionele Starterslening (SVn) van de gemeente. Vult het tekort tussen hypotheek plus eigen geld en het benodigde bedrag aan tot het gemeentelijke maximum; de eerste jaren rente- en aflossingsvrij.',
           properties: {
-            aanvrager: aanvragerSchema,
-            nieuwe_woning: {
-              ...nieuweWoningSchema,
+            gemeente: {
+              type: 'string',
+              description: 'Gemeente waar de woning staat (moet in de startersleningregels staan).',
             },
-            session_id: {
-              type: "string",
-              description: "Optioneel sessie-ID vanuit n8n (voor logging).",
+            bedrag: {
+              type: 'number',
+              description: 'Gewenst bedrag; standaard het volledige tekort tot het maximum.',
             },
           },
-          required: [
-            "aanvrager",
-            "nieuwe_woning",
-          ],
+          required: ['gemeente'],
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
         },
       },
-      // Tool 6: Opzet hypotheek - Doorstromers
-      {
-        name: "opzet_hypotheek_doorstromer",
-        description: `Opzet-berekening voor doorstromers met een CONCRETE nieuwe woning. Gebruik dit zodra er een koopprijs/verbouwing bekend is; hiermee ziet de gebruiker exact hoe bestaand en nieuw samenkomen. Voor algemene verhuis-oriëntatie zonder specifieke woning gebruikt u de maximale-hypotheek tools.
+      required: ['aanvrager', 'nieuwe_woning'],
+    },
+  },
+  // Tool 6: Opzet hypotheek - Doorstromers
+  {
+    name: 'opzet_hypotheek_doorstromer',
+    description: `Opzet-berekening voor doorstromers met een CONCRETE nieuwe woning. Gebruik dit zodra er een koopprijs/verbouwing bekend is; hiermee ziet de gebruiker exact hoe bestaand en nieuw samenkomen. Voor algemene verhuis-oriëntatie zonder specifieke woning gebruikt u de maximale-hypotheek tools.
 
 **Invoerbeleid bestaande hypotheek (verplicht expliciet vragen):**
 - Stel altijd de vraag: "Wilt u een snelle globale berekening (met een samenvatting van uw hypotheek) of een detailberekening waarbij u alle leningdelen invoert?"
 - Bij snelle globale berekening: laat de gebruiker één samenvattende set waarden geven (totale schuld, gemiddelde rente, resterende looptijd, optioneel huidige maandlast) en vul hiermee één leningdeel.
 - Bij detailberekening: laat de gebruiker alle leningdelen kopiëren/plakken (hoofdsom, rente, looptijd, rentevast, hypotheekvorm) en vul de leningdelen-array één-op-één.`,
-        inputSchema: {
-          type: "object",
-          description: `Gebruik basisintake, huidige woning en bestaande leningdelen; zie ${OPZET_GUIDE_URI} voor detailvelden en defaults.`,
+    inputSchema: {
+      type: 'object',
+      description: `Gebruik basisintake, huidige woning en bestaande leningdelen; zie ${OPZET_GUIDE_URI} voor detailvelden en defaults.`,
+      properties: {
+        aanvrager: opzetAanvragerSchema,
+        ...eigenGeldProperties,
+        ...nettoMaandlastProperties,
+        waarde_huidige_woning: {
+          type: 'number',
+          description: 'Marktwaarde van de huidige woning.',
+        },
+        bestaande_hypotheek: {
+          ...bestaandeHypotheekSchema,
+        },
+        restschuld_financiering: {
+          ...restschuldFinancieringSchema,
+        },
+        nieuwe_woning: {
+          ...opzetNieuweWoningSchema,
+        },
+        boeterente_meefinancieren: {
+          type: 'boolean',
+          description:
+            'Lost de bestaande leningdelen af en neemt de geschatte boeterente mee als extra kosten (zie bereken_boeterente).',
+          default: false,
+        },
+        vergelijkingsrente: {
+          type: 'number',
+          description:
+            'Optionele vergelijkingsrente voor de boeterente als decimaal; zonder dit veld worden de actuele rentes gebruikt.',
+        },
+        nhg: {
+          type: 'boolean',
+          description:
+            'De bestaande hypotheek heeft NHG: gebruik de actuele NHG-rentes als vergelijkingsrente voor de boeterente.',
+          default: false,
+        },
+        boetevrij_percentage: {
+          type: 'number',
+          description:
+            'Boetevrije aflossingsruimte van de bestaande hypotheek als decimaal van de schuld.',
+          default: 0.1,
+        },
+        overbrugging: {
+          type: 'object',
+          description: `Optioneel overbruggingskrediet wanneer de nieuwe woning vóór de verkoop van de huidige woning wordt gekocht (maximaal ${ValidationConstraints.OVERBRUGGING.MAX_MAANDEN} maanden). Voegt kredietbedrag, rente en dubbele lasten tijdens de overbrugging toe aan de output.`,
           properties: {
-            aanvrager: aanvragerSchema,
-            waarde_huidige_woning: {
-              type: "number",
-              description: "Marktwaarde van de huidige woning.",
+            verwachte_verkoopdatum: {
+              type: 'string',
+              description:
+                'Verwachte datum van verkoop (overdracht) van de huidige woning, YYYY-MM-DD.',
             },
-            bestaande_hypotheek: {
-              ...bestaandeHypotheekSchema,
+            rente: {
+              type: 'number',
+              description: 'Jaarrente van het overbruggingskrediet als decimaal (bijv. 0.055).',
             },
-            nieuwe_woning: {
-              ...nieuweWoningSchema,
+            verwachte_overwaarde: {
+              type: 'number',
+              description:
+                'Verwachte overwaarde na verkoop; standaard waarde_huidige_woning min de bestaande schuld.',
             },
-            session_id: {
-              type: "string",
-              description: "Optioneel sessie-ID vanuit n8n (voor logging).",
+            ingangsdatum: {
+              type: 'string',
+              description: 'Datum van aankoop van de nieuwe woning, YYYY-MM-DD; standaard vandaag.',
             },
           },
-          required: [
-            "aanvrager",
-            "waarde_huidige_woning",
-            "bestaande_hypotheek",
-            "nieuwe_woning",
-          ],
+          required: ['verwachte_verkoopdatum', 'rente'],
+        },
+        dubbele_lasten_maanden: {
+          type: 'number',
+          description: `Optioneel stressscenario: aantal maanden (1-${ValidationConstraints.OVERBRUGGING.MAX_MAANDEN}) dat de bestaande maandlast (plus eventuele overbruggingsrente) bovenop de nieuwe maandlast komt. Toont het benodigde bedrag en of het resterende eigen_vermogen dit dekt.`,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
         },
       },
-      // Tool 7: Opzet hypotheek - Uitgebreid
-      {
-        name: "opzet_hypotheek_uitgebreid",
-        description: `GEAVANCEERDE opzet hypotheek berekening met VOLLEDIGE controle over alle parameters. Gebruik deze variant alleen wanneer er een concrete woning is én de gebruiker/adviseur expliciet scenario’s wil tweaken (andere rentes, looptijden, specifieke nieuwe leningdelen). Voor snelle beantwoording zonder maatwerk blijft u bij opzet_hypotheek_starter of opzet_hypotheek_doorstromer.
-  
+      required: ['aanvrager', 'waarde_huidige_woning', 'bestaande_hypotheek', 'nieuwe_woning'],
+    },
+  },
+  // Tool 7: Opzet hypotheek - Uitgebreid
+  {
+    name: 'opzet_hypotheek_uitgebreid',
+    description: `GEAVANCEERDE opzet hypotheek berekening met VOLLEDIGE controle over alle parameters. Gebruik deze variant alleen wanneer er een concrete woning is én de gebruiker/adviseur expliciet scenario’s wil tweaken (andere rentes, looptijden, specifieke nieuwe leningdelen). Voor snelle beantwoording zonder maatwerk blijft u bij opzet_hypotheek_starter of opzet_hypotheek_doorstromer.
+
   **Output bevat alles van de starter/doorstromer tools, plus:**
   - Mogelijkheid om elk leningdeel handmatig te definiëren
   - Custom rentepercentages, looptijden en rentevast periodes
   - NHG, energielabel en verbouwing/duurzaamheidsbudget in één scenario
   - Volledige balans check en praktische toelichtingen
-  
+
   Gebruik deze tool alleen wanneer afwijkende parameters nodig zijn; anders de specifieke starter/doorstromer varianten gebruiken.
 
 **Doorstromer invoerbeleid:**
 - Vraag óók hier: "Wilt u een snelle globale berekening (met een samenvatting van uw hypotheek) of een detailberekening waarbij u alle leningdelen invoert?"
 - Snelle route → één samenvattend leningdeel (totale schuld, gemiddelde rente/looptijd, optionele maandlast).
 - Detailroute → volledige lijst leningdelen met de exacte waarden per deel. Kopieer deze rechtstreeks in de leningdelen array.`,
-        inputSchema: {
+    inputSchema: {
+      type: 'object',
+      properties: {
+        aanvrager: opzetAanvragerSchema,
+        ...eigenGeldProperties,
+        ...nettoMaandlastProperties,
+        is_doorstromer: {
+          type: 'boolean',
+          description: 'Is dit een doorstromer met bestaande woning en hypotheek?',
+        },
+        waarde_huidige_woning: {
+          type: 'number',
+          description: "OPTIONEEL - Alleen voor doorstromers: huidige woningwaarde in euro's",
+        },
+        restschuld_financiering: {
+          ...restschuldFinancieringSchema,
+        },
+        bestaande_hypotheek: {
           type: "object",
+          description: "OPTIONEEL - Alleen voor doorstromers: gegevens van de bestaande hypotheek.",
           properties: {
-            aanvrager: aanvragerSchema,
-            is_doorstromer: {
-              type: "boolean",
-              description: "Is dit een doorstromer met bestaande woning en hypotheek?",
-            },
-            waarde_huidige_woning: {
-              type: "number",
-              description: "OPTIONEEL - Alleen voor doorstromers: huidige woningwaarde in euro's",
-            },
-            bestaande_hypotheek: {
-              type: "object",
-              description: "OPTIONEEL - Alleen voor doorstromers: gegevens van de bestaande hypotheek.",
-              properties: {
-                leningdelen: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      huidige_schuld: {
-                        type: "number",
-                        description: "Restschuld in euro's",
-                      },
-                      huidige_rente: {
-                        type: "number",
-                        description: "Rente als decimaal (bijv. 0.041 voor 4.1%)",
-                      },
-                      resterende_looptijd_in_maanden: {
-                        type: "number",
-                        description: "Resterende looptijd in MAANDEN",
-                      },
-                      rentevasteperiode_maanden: {
-                        type: "number",
-                        description: "Resterende rentevaste periode in MAANDEN",
-                      },
-                      hypotheekvorm: {
-                        type: "string",
-                        description: "Type hypotheek",
-                        enum: ["annuiteit", "lineair", "aflossingsvrij"],
-                      },
-                    },
-                    required: ["huidige_schuld", "huidige_rente", "resterende_looptijd_in_maanden", "rentevasteperiode_maanden", "hypotheekvorm"],
+            leningdelen: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  huidige_schuld: {
+                    type: 'number',
+                    description: "Restschuld in euro's",
+                  },
+                  huidige_rente: {
+                    type: 'number',
+                    description: 'Rente als decimaal (bijv. 0.041 voor 4.1%)',
+                  },
+                  resterende_looptijd_in_maanden: {
+                    type: 'number',
+                    description: 'Resterende looptijd in MAANDEN',
+                  },
+                  rentevasteperiode_maanden: {
+                    type: 'number',
+                    description: 'Resterende rentevaste periode in MAANDEN',
+                  },
+                  hypotheekvorm: {
+                    type: 'string',
+                    description: 'Type hypotheek',
+                    enum: ['annuiteit', 'lineair', 'aflossingsvrij'],
                   },
                 },
+                required: [
+                  'huidige_schuld',
+                  'huidige_rente',
+                  'resterende_looptijd_in_maanden',
+                  'rentevasteperiode_maanden',
+                  'hypotheekvorm',
+                ],
               },
-              required: ["leningdelen"],
             },
-            nieuwe_woning: {
-              type: "object",
-              description: "Gegevens van de nieuwe woning die gekocht wordt",
-              properties: {
-                waarde_woning: {
-                  type: "number",
-                  description: "Koopsom van de nieuwe woning in euro's",
-                },
-                bedrag_verbouwen: {
-                  type: "number",
-                  description: "OPTIONEEL - Geschatte kosten voor verbouwing/meerwerk in euro's.",
-                  default: 0,
-                },
-                bedrag_verduurzamen: {
-                  type: "number",
-                  description: "OPTIONEEL - Geschatte kosten voor verduurzaming in euro's.",
-                  default: 0,
-                },
-                kosten_percentage: {
-                  type: "number",
-                  description: "OPTIONEEL - Koperkosten als decimaal (bijv. 0.05 voor 5%). Standaard: 0.05",
-                  default: 0.05,
-                },
-                energielabel: {
-                  type: "string",
-                  description: "OPTIONEEL - Energielabel van de nieuwe woning.",
-                  enum: ["A++++ (met garantie)", "A++++", "A+++", "A++", "A+", "A", "B", "C", "D", "E", "F", "G"],
-                },
-              },
-              required: ["waarde_woning"],
+          },
+          required: ['leningdelen'],
+        },
+        nieuwe_woning: {
+          type: 'object',
+          description: 'Gegevens van de nieuwe woning die gekocht wordt',
+          properties: {
+            waarde_woning: {
+              type: 'number',
+              description: "Koopsom van de nieuwe woning in euro's",
             },
-            nieuwe_lening: {
-              type: "object",
-              description: "OPTIONEEL - Specifieke parameters voor de nieuwe lening. Gebruik deze sectie om looptijd, rentevast periode, NHG of renteklassen aan te passen.",
-              properties: {
-                looptijd_jaren: {
-                  type: "number",
-                  description: "Looptijd van de hypotheek in JAREN. Standaard: 30 jaar. Voorbeelden: 20, 25, 30",
-                  default: 30,
-                },
-                rentevast_periode_jaren: {
-                  type: "number",
-                  description: "Rentevaste periode in JAREN. Standaard: 10 jaar. Voorbeelden: 5, 10, 15, 20",
-                  default: 10,
-                },
-                nhg: {
-                  type: "boolean",
-                  description: "Nationale Hypotheek Garantie aanvragen? Standaard: false",
-                  default: false,
-                },
-                renteklassen: {
-                  type: "array",
-                  description: "OPTIONEEL - Custom renteklassen met specifieke LTV-grenzen en rentepercentages. Alleen invullen als je specifieke renteklassen wilt definiëren.",
-                  items: {
-                    type: "object",
-                    properties: {
-                      naam: {
-                        type: "string",
-                        description: "Naam van de renteklasse (bijv. 'NHG 0-200', 'Niet-NHG 75-90')",
-                      },
-                      lowerbound_ltv_pct: {
-                        type: "number",
-                        description: "Ondergrens LTV in procenten (bijv. 0.0, 75.0)",
-                      },
-                      higherbound_ltv_pct: {
-                        type: "number",
-                        description: "Bovengrens LTV in procenten (bijv. 75.0, 200.0)",
-                      },
-                      nhg: {
-                        type: "boolean",
-                        description: "Is dit een NHG renteklasse?",
-                      },
-                      rente_jaarlijks_pct: {
-                        type: "number",
-                        description: "Rentepercentage als getal (bijv. 3.2 voor 3.2%, 4.0 voor 4.0%)",
-                      },
-                    },
-                    required: ["naam", "lowerbound_ltv_pct", "higherbound_ltv_pct", "nhg", "rente_jaarlijks_pct"],
+            bedrag_verbouwen: {
+              type: 'number',
+              description: "OPTIONEEL - Geschatte kosten voor verbouwing/meerwerk in euro's.",
+              default: 0,
+            },
+            bedrag_verduurzamen: {
+              type: 'number',
+              description: "OPTIONEEL - Geschatte kosten voor verduurzaming in euro's.",
+              default: 0,
+            },
+            kosten_percentage: {
+              type: 'number',
+              description:
+                'OPTIONEEL - Koperkosten als decimaal (bijv. 0.05 voor 5%). Standaard: 0.05',
+              default: 0.05,
+            },
+            energielabel: {
+              type: 'string',
+              description: 'OPTIONEEL - Energielabel van de nieuwe woning.',
+              enum: [
+                'A++++ (met garantie)',
+                'A++++',
+                'A+++',
+                'A++',
+                'A+',
+                'A',
+                'B',
+                'C',
+                'D',
+                'E',
+                'F',
+                'G',
+              ],
+            },
+            bouwdepot: bouwdepotSchema,
+          },
+          required: ['waarde_woning'],
+        },
+        nieuwe_lening: {
+          type: 'object',
+          description:
+            'OPTIONEEL - Specifieke parameters voor de nieuwe lening. Gebruik deze sectie om looptijd, rentevast periode, NHG of renteklassen aan te passen.',
+          properties: {
+            looptijd_jaren: {
+              type: 'number',
+              description:
+                'Looptijd van de hypotheek in JAREN. Standaard: 30 jaar. Voorbeelden: 20, 25, 30',
+              default: 30,
+            },
+            rentevast_periode_jaren: {
+              type: 'number',
+              description:
+                'Rentevaste periode in JAREN. Standaard: 10 jaar. Voorbeelden: 5, 10, 15, 20',
+              default: 10,
+            },
+            nhg: {
+              type: 'boolean',
+              description: 'Nationale Hypotheek Garantie aanvragen? Standaard: false',
+              default: false,
+            },
+            renteklassen: {
+              type: 'array',
+              description:
+                'OPTIONEEL - Custom renteklassen met specifieke LTV-grenzen en rentepercentages. Alleen invullen als je specifieke renteklassen wilt definiëren.',
+              items: {
+                type: 'object',
+                properties: {
+                  naam: {
+                    type: 'string',
+                    description: "Naam van de renteklasse (bijv. 'NHG 0-200', 'Niet-NHG 75-90')",
+                  },
+                  lowerbound_ltv_pct: {
+                    type: 'number',
+                    description: 'Ondergrens LTV in procenten (bijv. 0.0, 75.0)',
+                  },
+                  higherbound_ltv_pct: {
+                    type: 'number',
+                    description: 'Bovengrens LTV in procenten (bijv. 75.0, 200.0)',
+                  },
+                  nhg: {
+                    type: 'boolean',
+                    description: 'Is dit een NHG renteklasse?',
+                  },
+                  rente_jaarlijks_pct: {
+                    type: 'number',
+                    description: 'Rentepercentage als getal (bijv. 3.2 voor 3.2%, 4.0 voor 4.0%)',
                   },
                 },
+                required: [
+                  'naam',
+                  'lowerbound_ltv_pct',
+                  'higherbound_ltv_pct',
+                  'nhg',
+                  'rente_jaarlijks_pct',
+                ],
               },
             },
-            session_id: {
-              type: "string",
-              description: "OPTIONEEL - Sessie ID voor het traceren van de conversatie. Haal deze waarde uit de n8n chat trigger: 'When chat message received' -> sessionId variabele.",
-            },
           },
-          required: [
-            "aanvrager",
-            "nieuwe_woning",
-          ],
+        },
+        session_id: {
+          type: 'string',
+          description:
+            "OPTIONEEL - Sessie ID voor het traceren van de conversatie. Haal deze waarde uit de n8n chat trigger: 'When chat message received' -> sessionId variabele.",
         },
       },
-    ],
-  };
-});
-
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-  resources: listResources(),
-}));
-
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
-  contents: [readResource(request.params.uri)],
-}));
-
-server.setRequestHandler(ListPromptsRequestSchema, async () => ({
-  prompts: listPrompts(),
-}));
-
-server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-  const args = request.params.arguments ? { ...request.params.arguments } : undefined;
-  const prompt = getPrompt(request.params.name, args as Record<string, unknown> | undefined);
-  return {
-    description: prompt.description,
-    messages: prompt.messages,
-  };
-});
-
-const DOORSTROMER_BLOCK_WIDTH = 41;
-
-function normalizeResultList(resultaatField: any): any[] {
-  if (!resultaatField) {
-    return [];
+      required: ['aanvrager', 'nieuwe_woning'],
+    },
+  },
+  // Tool 8: Aflosschema per leningdeel
+  {
+    name: 'bereken_aflosschema',
+    description:
+      'Aflosschema per leningdeel: rente, aflossing en restschuld per maand of per jaar voor annuïteit, lineair en aflossingsvrij. Na afloop van de rentevaste periode wordt optioneel gerekend met een aangenomen nieuwe rente. Gebruik dit om te laten zien hoe de schuld zich in de tijd ontwikkelt.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        leningdelen: {
+          ...bestaandeHypotheekSchema.properties.leningdelen,
+          description: 'Leningdelen (zelfde velden als bestaande_hypotheek.leningdelen).',
+        },
+        weergave: {
+          type: 'string',
+          description: 'Schema per maand of per jaar.',
+          enum: ['maand', 'jaar'],
+          default: 'jaar',
+        },
+        nieuwe_rente: {
+          type: 'number',
+          description:
+            'Optionele aangenomen rente na de rentevaste periode als decimaal (bijv. 0.045).',
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['leningdelen'],
+    },
+  },
+  // Tool 9: Netto maandlast
+  {
+    name: 'bereken_netto_maandlast',
+    description:
+      'Netto maandlast na hypotheekrenteaftrek: past het aftrektarief van het jaar, het eigenwoningforfait over de WOZ-waarde en de Wet Hillen toe. Geef leningdelen óf hypotheekbedrag + rente op. Gebruik dit wanneer de gebruiker vraagt wat er netto per maand betaald wordt.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inkomen_aanvrager: {
+          type: 'number',
+          description: "Bruto jaarinkomen hoofdaanvrager in euro's.",
+        },
+        inkomen_partner: {
+          type: 'number',
+          description:
+            'Optioneel partnerinkomen; de aftrek wordt toegerekend aan het hoogste inkomen.',
+        },
+        woz_waarde: {
+          type: 'number',
+          description: "WOZ-waarde (of verwachte woningwaarde) in euro's.",
+        },
+        leningdelen: {
+          ...bestaandeHypotheekSchema.properties.leningdelen,
+          description: 'Optionele leningdelen (zelfde velden als bestaande_hypotheek.leningdelen).',
+        },
+        hypotheekbedrag: {
+          type: 'number',
+          description: "Hypotheekbedrag in euro's wanneer geen leningdelen worden opgegeven.",
+        },
+        rente: {
+          type: 'number',
+          description: 'Rente als decimaal (bijv. 0.04) bij hypotheekbedrag.',
+        },
+        looptijd_maanden: {
+          type: 'number',
+          description: 'Looptijd in maanden bij hypotheekbedrag.',
+          default: 360,
+        },
+        hypotheekvorm: {
+          type: 'string',
+          description: 'Hypotheekvorm bij hypotheekbedrag.',
+          enum: ['annuiteit', 'lineair', 'aflossingsvrij'],
+          default: 'annuiteit',
+        },
+        jaar: {
+          type: 'number',
+          description: 'Optioneel belastingjaar (standaard het huidige jaar).',
+        },
+        aflossingsvrij_aftrekbaar: {
+          type: 'boolean',
+          description: 'Aflossingsvrije delen vallen onder overgangsrecht (afgesloten vóór 2013).',
+          default: false,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['inkomen_aanvrager', 'woz_waarde'],
+    },
+  },
+  // Tool 10: NHG-toets
+  {
+    name: 'controleer_nhg',
+    description:
+      'Toetst of een financiering in aanmerking komt voor Nationale Hypotheek Garantie: kostengrens van het jaar (inclusief verhoging voor energiebesparende voorzieningen), borgtochtprovisie en de renteklasse die van toepassing is. Geef hypotheekbedrag op, of laat het schatten uit koopsom, verbouwing, verduurzaming, kosten koper en eigen vermogen.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        waarde_woning: {
+          type: 'number',
+          description: "Koopsom of marktwaarde van de woning in euro's.",
+        },
+        bedrag_verbouwen: {
+          type: 'number',
+          description: 'Optionele verbouwingskosten; verhogen de marktwaarde na verbouwing.',
+        },
+        bedrag_verduurzamen: {
+          type: 'number',
+          description:
+            'Optionele kosten voor energiebesparende voorzieningen; verhogen de kostengrens met maximaal 6%.',
+        },
+        kosten_koper: {
+          type: 'number',
+          description:
+            "Optionele kosten koper in euro's (alleen voor de schatting van het hypotheekbedrag).",
+        },
+        eigen_vermogen: {
+          type: 'number',
+          description: 'Optioneel eigen geld (alleen voor de schatting van het hypotheekbedrag).',
+        },
+        hypotheekbedrag: {
+          type: 'number',
+          description:
+            'Optioneel gewenst hypotheekbedrag; zonder dit veld wordt het bedrag geschat.',
+        },
+        renteklassen: {
+          type: 'array',
+          description:
+            'Optionele renteklassen van de geldverstrekker om de passende klasse en rente te kiezen.',
+          items: {
+            type: 'object',
+            properties: {
+              naam: { type: 'string' },
+              lowerbound_ltv_pct: { type: 'number' },
+              higherbound_ltv_pct: { type: 'number' },
+              nhg: { type: 'boolean' },
+              rente_jaarlijks_pct: { type: 'number' },
+            },
+            required: [
+              'naam',
+              'lowerbound_ltv_pct',
+              'higherbound_ltv_pct',
+              'nhg',
+              'rente_jaarlijks_pct',
+            ],
+          },
+        },
+        jaar: {
+          type: 'number',
+          description: 'Optioneel jaar van de kostengrens (standaard het huidige jaar).',
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['waarde_woning'],
+    },
+  },
+  // Tool 11: Boeterente bij vervroegd aflossen
+  {
+    name: 'bereken_boeterente',
+    description:
+      'Schat de boeterente per leningdeel bij volledig aflossen (bijv. bij verhuizen) volgens de AFM-standaard: contante waarde van het renteverschil over de resterende rentevaste periode, na aftrek van de boetevrije aflossingsruimte (standaard 10%). Zonder vergelijkingsrente worden de actuele rentes opgehaald.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        leningdelen: {
+          ...bestaandeHypotheekSchema.properties.leningdelen,
+          description:
+            'Bestaande leningdelen (zelfde velden als bestaande_hypotheek.leningdelen); rentevasteperiode_maanden is de resterende rentevaste periode.',
+        },
+        vergelijkingsrente: {
+          type: 'number',
+          description:
+            'Optionele vergelijkingsrente als decimaal (bijv. 0.037). Zonder dit veld wordt per leningdeel de actuele rente voor de best passende rentevaste periode gebruikt.',
+        },
+        nhg: {
+          type: 'boolean',
+          description: 'Gebruik de actuele NHG-rentes als vergelijkingsrente.',
+          default: false,
+        },
+        boetevrij_percentage: {
+          type: 'number',
+          description: 'Boetevrije aflossingsruimte als decimaal van de schuld.',
+          default: 0.1,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['leningdelen'],
+    },
+  },
+  // Tool 12: Rentemiddeling
+  {
+    name: 'bereken_rentemiddeling',
+    description:
+      'Rekent uit of rentemiddeling loont voor één leningdeel: middelrente (gewogen gemiddelde van huidige en actuele rente plus opslag), nieuwe maandlast, break-even moment en het totale renteverschil ten opzichte van wachten tot het einde van de rentevaste periode. Zonder nieuwe_rente wordt de actuele rente opgehaald.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        leningdeel: {
+          ...bestaandeHypotheekSchema.properties.leningdelen.items,
+          description:
+            'Het leningdeel dat gemiddeld wordt; rentevasteperiode_maanden is de resterende rentevaste periode.',
+        },
+        nieuwe_rentevaste_periode_maanden: {
+          type: 'number',
+          description:
+            'Nieuwe rentevaste periode in maanden vanaf nu (minimaal de resterende rentevaste periode).',
+        },
+        nieuwe_rente: {
+          type: 'number',
+          description:
+            'Optionele actuele rente voor de nieuwe rentevaste periode als decimaal; zonder dit veld wordt de actuele rente opgehaald.',
+        },
+        renteopslag: {
+          type: 'number',
+          description:
+            'Optionele opslag van de geldverstrekker op de middelrente als decimaal (bijv. 0.0015).',
+          default: 0,
+        },
+        rente_na_afloop: {
+          type: 'number',
+          description:
+            'Verwachte rente na afloop van de huidige rentevaste periode bij wachten; standaard de actuele rente.',
+        },
+        nhg: {
+          type: 'boolean',
+          description: 'Gebruik de actuele NHG-rentes.',
+          default: false,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['leningdeel', 'nieuwe_rentevaste_periode_maanden'],
+    },
+  },
+  // Tool 13: Gevoeligheidsanalyse maximale hypotheek
+  {
+    name: 'bereken_gevoeligheid',
+    description: `Gevoeligheidsanalyse op de maximale hypotheek: neemt dezelfde invoer als bereken_hypotheek_uitgebreid plus variaties in rente, inkomen en looptijd, rekent alle combinaties door (maximaal ${MAX_GEVOELIGHEID_SCENARIOS}) en geeft een compact raster met maximale hypotheek en maandlast per combinatie. Gebruik dit in plaats van herhaalde losse berekeningen.`,
+    inputSchema: {
+      type: 'object',
+      description: `Basisinvoer zoals bereken_hypotheek_uitgebreid; zie ${OPZET_GUIDE_URI} voor velduitleg.`,
+      properties: {
+        ...baseIntakeProperties,
+        is_doorstromer: {
+          type: 'boolean',
+          description: 'Geeft aan of de aanvrager een doorstromer is.',
+        },
+        waarde_huidige_woning: {
+          type: 'number',
+          description: "Optionele huidige woningwaarde in euro's.",
+        },
+        bestaande_hypotheek: {
+          ...bestaandeHypotheekSchema,
+        },
+        nieuwe_hypotheek: {
+          type: 'object',
+          description:
+            'Optionele maatwerk leningparameters; rente (decimaal) is verplicht bij rente_variaties.',
+        },
+        rente_variaties: {
+          type: 'array',
+          items: { type: 'number' },
+          description:
+            'Renteverschuivingen als decimaal ten opzichte van nieuwe_hypotheek.rente, bijv. [-0.01, 0, 0.01].',
+        },
+        inkomen_variaties: {
+          type: 'array',
+          items: { type: 'number' },
+          description:
+            'Relatieve inkomensverschuivingen, bijv. [-0.1, 0, 0.1] voor ±10% (geldt voor beide aanvragers).',
+        },
+        looptijden_jaren: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Looptijden in jaren, bijv. [20, 25, 30].',
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: baseIntakeRequired,
+    },
+  },
+  // Tool 14: Benodigd inkomen voor een woning
+  {
+    name: 'bereken_benodigd_inkomen',
+    description:
+      'Beantwoordt "hoeveel moeten we verdienen om deze woning te kopen?": zoekt binair naar het minimale bruto jaarinkomen waarbij de opzet voor de woning (zoals opzet_hypotheek_starter) rond komt. Geeft het inkomen, de verdeling over aanvrager en partner en het aantal gebruikte berekeningen terug.',
+    inputSchema: {
+      type: 'object',
+      description: `Zelfde invoer als opzet_hypotheek_starter; inkomen_aanvrager mag ontbreken. Zie ${OPZET_GUIDE_URI}.`,
+      properties: {
+        aanvrager: aanvragerSchema,
+        nieuwe_woning: {
+          ...nieuweWoningSchema,
+        },
+        partner_aandeel: {
+          type: 'number',
+          description:
+            'Optioneel deel (0-1) van het totale inkomen dat de partner verdient. Zonder dit veld blijft inkomen_partner vast en wordt alleen het inkomen van de aanvrager gezocht.',
+        },
+        precisie: {
+          type: 'number',
+          description: "Nauwkeurigheid van het gezochte inkomen in euro's.",
+          default: 500,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['aanvrager', 'nieuwe_woning'],
+    },
+  },
+  // Tool 15: Maximale koopsom inclusief eigen geld
+  {
+    name: 'bereken_maximale_koopsom',
+    description:
+      'Beantwoordt "wat is de duurste woning die we kunnen kopen?": zoekt binair naar de hoogste koopsom waarbij de opzet (zoals opzet_hypotheek_starter) met hypotheek en eigen_vermogen nog rond komt, inclusief kosten koper en verbouwing. Geeft de koopsom en de bijbehorende financieringsopzet terug.',
+    inputSchema: {
+      type: 'object',
+      description: `Zelfde aanvrager als opzet_hypotheek_starter; nieuwe_woning bevat alleen aannames voor kosten en verbouwing. Zie ${OPZET_GUIDE_URI}.`,
+      properties: {
+        aanvrager: {
+          ...aanvragerSchema,
+        },
+        nieuwe_woning: {
+          ...nieuweWoningSchema,
+          description:
+            'Optionele aannames voor de woning (verbouwing, verduurzaming, kosten koper, energielabel); de koopsom wordt gezocht.',
+          required: [],
+        },
+        precisie: {
+          type: 'number',
+          description: "Nauwkeurigheid van de gezochte koopsom in euro's.",
+          default: 1000,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['aanvrager'],
+    },
+  },
+  // Tool 16: Scenariovergelijking
+  {
+    name: 'vergelijk_scenarios',
+    description:
+      'Vergelijkt varianten voor één klant naast elkaar, bijv. 10 vs 20 jaar rentevast of met vs zonder NHG. Neemt een basisinvoer van bereken_hypotheek_uitgebreid (soort "bereken") of opzet_hypotheek_uitgebreid (soort "opzet") plus benoemde aanpassingen, rekent alle scenario\'s door en toont een tabel met maximale hypotheek, maandlast, totale rente en NHG waarin de verschillen met de basis zijn gemarkeerd.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        soort: {
+          type: 'string',
+          enum: ['bereken', 'opzet'],
+          description:
+            '"bereken" = invoer zoals bereken_hypotheek_uitgebreid, "opzet" = invoer zoals opzet_hypotheek_uitgebreid.',
+        },
+        basis: {
+          type: 'object',
+          description: 'Volledige invoer van de gekozen tool; dit is het basisscenario.',
+        },
+        scenarios: {
+          type: 'array',
+          description: `Maximaal ${MAX_VERGELIJK_SCENARIOS} varianten op de basis.`,
+          items: {
+            type: 'object',
+            properties: {
+              naam: {
+                type: 'string',
+                description: 'Korte naam van het scenario, bijv. "20 jaar vast".',
+              },
+              aanpassingen: {
+                type: 'object',
+                description:
+                  'Velden die over de basis heen gelegd worden; geneste objecten worden samengevoegd, bijv. { "nieuwe_hypotheek": { "rentevast_periode_jaren": 20 } }.',
+              },
+            },
+            required: ['naam', 'aanpassingen'],
+          },
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['soort', 'basis', 'scenarios'],
+    },
+  },
+  // Tool 17: Rentevaste periode advies op actuele rentes
+  {
+    name: 'advies_rentevaste_periode',
+    description:
+      'Helpt kiezen tussen rentevaste periodes: haalt de actuele rentes op, kiest per rentevaste periode de rente die past bij LTV en NHG, en toont per periode de maandlast en de break-even rentestijging waarboven een kortere periode duurder uitvalt dan direct langer vastzetten.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        hypotheekbedrag: {
+          type: 'number',
+          description: "Hypotheekbedrag in euro's.",
+        },
+        ltv: {
+          type: 'number',
+          description: 'Loan-to-value als decimaal (hypotheek / marktwaarde), bijv. 0.85.',
+        },
+        nhg: {
+          type: 'boolean',
+          description: 'Gebruik de NHG-rentes.',
+          default: false,
+        },
+        looptijd_jaren: {
+          type: 'number',
+          description: 'Looptijd van de hypotheek in jaren (annuïtair).',
+          default: 30,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['hypotheekbedrag', 'ltv'],
+    },
+  },
+  // Tool 18: Oversluiten van een bestaande hypotheek
+  {
+    name: 'bereken_oversluiten',
+    description:
+      'Rekent uit of oversluiten naar een lagere rente loont zonder te verhuizen: boeterente (AFM-methode), advies-, notaris- en taxatiekosten, de nieuwe maandlast, de break-even maand en het netto voordeel over de resterende rentevaste periode. Rentes komen uit haal_actuele_rentes_op tenzij opgegeven.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        leningdelen: {
+          ...bestaandeHypotheekSchema.properties.leningdelen,
+        },
+        nieuwe_rentevaste_periode_maanden: {
+          type: 'number',
+          description: 'Rentevaste periode van de nieuwe hypotheek in maanden.',
+          default: 120,
+        },
+        nieuwe_rente: {
+          type: 'number',
+          description:
+            'Optionele nieuwe rente als decimaal. Laat leeg om de actuele rente voor de nieuwe rentevaste periode te gebruiken.',
+        },
+        vergelijkingsrente: {
+          type: 'number',
+          description:
+            'Optionele vergelijkingsrente voor de boeterente als decimaal. Laat leeg om de actuele rentes te gebruiken.',
+        },
+        nhg: {
+          type: 'boolean',
+          description: 'Gebruik de NHG-rentes.',
+          default: false,
+        },
+        boetevrij_percentage: {
+          type: 'number',
+          description: 'Deel van de schuld dat per jaar boetevrij afgelost mag worden (decimaal).',
+          default: 0.1,
+        },
+        advieskosten: {
+          type: 'number',
+          description: 'Advies- en bemiddelingskosten (standaard € 3.000).',
+        },
+        notariskosten: {
+          type: 'number',
+          description: 'Notariskosten hypotheekakte (standaard € 1.000).',
+        },
+        taxatiekosten: {
+          type: 'number',
+          description: 'Taxatiekosten (standaard € 850).',
+        },
+        kosten_meefinancieren: {
+          type: 'boolean',
+          description:
+            'Financier boeterente en kosten mee in de nieuwe hypotheek in plaats van ze uit eigen geld te betalen.',
+          default: false,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['leningdelen'],
+    },
+  },
+  // Tool 19: Extra aflossen
+  {
+    name: 'simuleer_extra_aflossen',
+    description:
+      'Simuleert een eenmalige en/of periodieke extra aflossing op bestaande leningdelen binnen de boetevrije ruimte en vergelijkt "lagere maandlast" met "kortere looptijd": maandlast, totale rente, besparing en einddatum ten opzichte van niet extra aflossen.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        leningdelen: {
+          ...bestaandeHypotheekSchema.properties.leningdelen,
+        },
+        eenmalig: {
+          type: 'number',
+          description: "Eenmalige extra aflossing in euro's.",
+        },
+        periodiek: {
+          type: 'number',
+          description: "Periodieke extra aflossing in euro's per maand of per jaar.",
+        },
+        frequentie: {
+          type: 'string',
+          enum: ['maand', 'jaar'],
+          description: 'Frequentie van de periodieke extra aflossing.',
+          default: 'maand',
+        },
+        boetevrij_percentage: {
+          type: 'number',
+          description: 'Deel van de schuld dat per jaar boetevrij afgelost mag worden (decimaal).',
+          default: 0.1,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['leningdelen'],
+    },
+  },
+  // Tool 20: Huren versus kopen
+  {
+    name: 'vergelijk_huren_kopen',
+    description:
+      'Beantwoordt "blijf ik huren of ga ik kopen?": rekent de opzet voor de woning door (zoals opzet_hypotheek_starter) en vergelijkt jaar voor jaar het vermogen bij kopen (woningwaarde min restschuld plus belegd eigen geld) met blijven huren, met huurstijging, waardestijging en alternatief rendement op eigen geld.',
+    inputSchema: {
+      type: 'object',
+      description: `Zelfde invoer als opzet_hypotheek_starter plus de huur en aannames. Zie ${OPZET_GUIDE_URI}.`,
+      properties: {
+        aanvrager: {
+          ...aanvragerSchema,
+        },
+        nieuwe_woning: {
+          ...nieuweWoningSchema,
+        },
+        huur_per_maand: {
+          type: 'number',
+          description: "Huidige kale huur per maand in euro's.",
+        },
+        huurstijging: {
+          type: 'number',
+          description: 'Jaarlijkse huurstijging als decimaal.',
+          default: STANDAARD_HUREN_KOPEN_AANNAMES.huurstijging,
+        },
+        waardestijging: {
+          type: 'number',
+          description: 'Jaarlijkse waardestijging van de woning als decimaal.',
+          default: STANDAARD_HUREN_KOPEN_AANNAMES.waardestijging,
+        },
+        rendement: {
+          type: 'number',
+          description: 'Jaarlijks rendement op belegd of gespaard eigen geld als decimaal.',
+          default: STANDAARD_HUREN_KOPEN_AANNAMES.rendement,
+        },
+        eigenaarslasten_percentage: {
+          type: 'number',
+          description:
+            'Onderhoud, opstalverzekering en gemeentelijke lasten per jaar als fractie van de woningwaarde.',
+          default: STANDAARD_HUREN_KOPEN_AANNAMES.eigenaarslasten_percentage,
+        },
+        horizon_jaren: {
+          type: 'number',
+          description: 'Aantal jaren dat vergeleken wordt.',
+          default: STANDAARD_HUREN_KOPEN_AANNAMES.horizon_jaren,
+        },
+        session_id: {
+          type: 'string',
+          description: 'Optioneel sessie-ID vanuit n8n (voor logging).',
+        },
+      },
+      required: ['aanvrager', 'nieuwe_woning', 'huur_per_maand'],
+    },
+  },
+];
+
+const DOORSTROMER_BLOCK_WIDTH = 41;
+
+function normalizeResultList(resultaatField: any): any[] {
+  if (!resultaatField) {
+    return [];
   }
   if (Array.isArray(resultaatField)) {
     return resultaatField;
@@ -1149,213 +3881,1634 @@ function sanitizeNumber(value: any): number | null {
   return null;
 }
 
-function formatEuro(
-  value: number | null,
-  options: Intl.NumberFormatOptions = { minimumFractionDigits: 0, maximumFractionDigits: 0 }
-): string {
-  if (value === null) {
-    return "n.v.t.";
-  }
-  return `€ ${value.toLocaleString("nl-NL", options)}`;
+function formatEuro(
+  value: number | null,
+  options: Intl.NumberFormatOptions = { minimumFractionDigits: 0, maximumFractionDigits: 0 }
+): string {
+  if (value === null) {
+    return "n.v.t.";
+  }
+  return `€ ${value.toLocaleString("nl-NL", options)}`;
+}
+
+interface DoorstromerBudget {
+  budget: number;
+  overwaarde: number | null;
+  huidigeSchuld: number | null;
+  extraLeencapaciteit: number | null;
+  maandlastNu: number | null;
+  maandlastStraks: number | null;
+  maandlastVerschil: number | null;
+}
+
+/**
+ * Woningbudget van een doorstromer-resultaat, ongeacht de veldnaamvariant van de backend
+ */
+function extractDoorstromerBudget(resultaat: any): DoorstromerBudget | null {
+  if (!resultaat || typeof resultaat !== "object") {
+    return null;
+  }
+
+  const budget = sanitizeNumber(
+    resultaat.max_woningbudget ??
+      resultaat.max_woning_budget ??
+      resultaat.maximaal_woningbudget ??
+      resultaat.woningbudget ??
+      resultaat.maximaal_bedrag
+  );
+  if (budget === null) {
+    return null;
+  }
+
+  const overwaarde = sanitizeNumber(
+    resultaat.overwaarde_bedrag ??
+      resultaat.overwaarde ??
+      resultaat.maximaal_woningbudget_onderdelen?.overwaarde_huidige_woning ??
+      resultaat.Financiering?.Overwaarde ??
+      resultaat.bestaande_situatie?.overwaarde
+  );
+  const huidigeSchuld = sanitizeNumber(
+    resultaat.huidige_hypotheek_schuld ??
+      resultaat.maximaal_woningbudget_onderdelen?.Bestaande_hypotheek_mee_te_nemen ??
+      resultaat.bestaande_situatie?.totale_restschuld ??
+      resultaat.Financiering?.Bestaande_hypotheek?.Totaal_schuld
+  );
+  const extraLeencapaciteit = sanitizeNumber(
+    resultaat.extra_leencapaciteit ??
+      resultaat.extra_leencapaciteit_bedrag ??
+      resultaat.maximaal_woningbudget_onderdelen?.max_extra_lening
+  );
+  const maandlastNu = sanitizeNumber(
+    resultaat.maandlast_nu ??
+      resultaat.bestaande_situatie?.huidige_maandlast ??
+      resultaat.Maandlasten?.Bestaande_hypotheek ??
+      resultaat.Maandlasten?.Bestaande_hypotheek_maandlast
+  );
+  const maandlastStraks = sanitizeNumber(
+    resultaat.maandlast_straks ??
+      resultaat.Maandlasten?.Totaal ??
+      resultaat.Maandlasten?.Totaal_maandlast ??
+      resultaat.bruto_maandlasten_nieuwe_lening
+  );
+  const maandlastVerschil = sanitizeNumber(
+    resultaat.verschil_maandlast ??
+      resultaat.Maandlasten?.Verschil ??
+      resultaat.Maandlasten?.Verschil_maandlast
+  );
+
+  return {
+    budget,
+    overwaarde,
+    huidigeSchuld,
+    extraLeencapaciteit,
+    maandlastNu,
+    maandlastStraks,
+    maandlastVerschil,
+  };
+}
+
+function renderDoorstromerBudgetBlock(
+  resultaat: any,
+  restschuld?: RestschuldFinanciering | null
+): string | null {
+  const bedragen = extractDoorstromerBudget(resultaat);
+  if (!bedragen) {
+    return null;
+  }
+  const {
+    budget,
+    overwaarde,
+    huidigeSchuld,
+    extraLeencapaciteit,
+    maandlastNu,
+    maandlastStraks,
+    maandlastVerschil,
+  } = bedragen;
+
+  const horizontal = (edge: "top" | "mid" | "bottom") =>
+    `${edge === "top" ? "┌" : edge === "bottom" ? "└" : "├"}${"─".repeat(
+      DOORSTROMER_BLOCK_WIDTH
+    )}${edge === "top" ? "┐" : edge === "bottom" ? "┘" : "┤"}`;
+  const emptyLine = () => `│${" ".repeat(DOORSTROMER_BLOCK_WIDTH)}│`;
+  const line = (text: string) => {
+    const trimmed = text.length > DOORSTROMER_BLOCK_WIDTH ? text.slice(0, DOORSTROMER_BLOCK_WIDTH) : text;
+    return `│${trimmed.padEnd(DOORSTROMER_BLOCK_WIDTH, " ")}│`;
+  };
+  const monthly = (value: number | null) =>
+    value === null ? "n.v.t." : `${formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} / maand`;
+  const diffText =
+    maandlastVerschil === null
+      ? "n.v.t."
+      : `${maandlastVerschil > 0 ? "+" : maandlastVerschil < 0 ? "-" : ""}${formatEuro(
+          Math.abs(maandlastVerschil),
+          { minimumFractionDigits: 0, maximumFractionDigits: 0 }
+        )} / maand`;
+  const budgetLine = formatEuro(budget, { minimumFractionDigits: 0, maximumFractionDigits: 0 }).padStart(20, " ");
+
+  return [
+    horizontal("top"),
+    line("  🎯 Uw woningbudget"),
+    horizontal("mid"),
+    line("  U kunt op zoek naar een woning tot:"),
+    emptyLine(),
+    line(`         ${budgetLine}`),
+    line("         ─────────"),
+    emptyLine(),
+    line("  💡 Dit bedrag bestaat uit:"),
+    line(`  • Overwaarde huidige woning:  ${formatEuro(overwaarde)}`),
+    line(`  • Huidige hypotheekschuld:    ${formatEuro(huidigeSchuld)}`),
+    line(`  • Extra leencapaciteit:       ${formatEuro(extraLeencapaciteit)}`),
+    ...(restschuld ? renderRestschuldRegels(restschuld, horizontal, line) : []),
+    horizontal("mid"),
+    line("  📊 Uw nieuwe maandlast"),
+    horizontal("mid"),
+    line(`  Nu:      ${monthly(maandlastNu)}`),
+    line(`  Straks:  ${monthly(maandlastStraks)}`),
+    ...(restschuld ? [line(`  + restschuld: ${monthly(restschuld.bruto_maandlast)}`)] : []),
+    line("  ------------------------------"),
+    line(`  Verschil: ${diffText}`),
+    horizontal("bottom"),
+  ].join("\n");
+}
+
+/**
+ * Regels voor de aparte restschuldfinanciering binnen het woningbudgetblok
+ */
+function renderRestschuldRegels(
+  restschuld: RestschuldFinanciering,
+  horizontal: (edge: 'top' | 'mid' | 'bottom') => string,
+  line: (text: string) => string
+): string[] {
+  const euro = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const aftrek =
+    restschuld.rente_aftrekbaar && restschuld.aftrekbaar_tot
+      ? `ja, tot ${restschuld.aftrekbaar_tot.toLocaleDateString('nl-NL')}`
+      : 'nee (box 3)';
+
+  return [
+    horizontal('mid'),
+    line('  📉 Restschuld (apart gefinancierd)'),
+    horizontal('mid'),
+    line(`  Bedrag:   ${euro(restschuld.restschuld)}`),
+    line(
+      `  Rente:    ${formatPercentage(restschuld.rente)} over ${restschuld.looptijd_maanden / 12} jaar`
+    ),
+    line(`  Bruto:    ${euro(restschuld.bruto_maandlast)} / maand`),
+    line(`  Netto:    ${euro(restschuld.netto_maandlast)} / maand`),
+    line(`  Aftrek:   ${aftrek}`),
+    line(`  Rente totaal: ${euro(restschuld.totale_rente)}`),
+    line('  Maandlast telt mee als verplichting.'),
+  ];
+}
+
+interface OpzetBedragen {
+  koopprijs: number | null;
+  verbouwing: number | null;
+  verduurzaming: number | null;
+  kosten: number | null;
+  totaalBenodigd: number | null;
+  finBestaand: number | null;
+  finNieuwe: number | null;
+  finOverwaarde: number | null;
+  finEigen: number | null;
+  finTotaal: number | null;
+  maandNu: number | null;
+  maandStraks: number | null;
+  maandVerschil: number | null;
+}
+
+/**
+ * Bedragen uit een opzet-resultaat, ongeacht de veldnaamvariant van de backend
+ */
+function extractOpzetBedragen(resultaat: any): OpzetBedragen {
+  const benodigd = resultaat?.Benodigd_bedrag ?? {};
+  const financiering = resultaat?.Financiering ?? {};
+  const maandlasten = resultaat?.Maandlasten ?? {};
+
+  const koopprijs = sanitizeNumber(benodigd.Woning_koopsom);
+  const verbouwing = sanitizeNumber(benodigd.Verbouwingskosten_meerwerk);
+  const verduurzaming = sanitizeNumber(benodigd.Verduurzamingskosten);
+  const kosten = sanitizeNumber(benodigd.Kosten);
+  const totaalBenodigd = sanitizeNumber(
+    benodigd.Totaal_benodigd ??
+      ((koopprijs || 0) + (verbouwing || 0) + (verduurzaming || 0) + (kosten || 0))
+  );
+
+  const maandNu = sanitizeNumber(
+    maandlasten.Bestaande_hypotheek ?? maandlasten.Bestaande_hypotheek_maandlast
+  );
+  const maandStraks = sanitizeNumber(
+    maandlasten.Totaal ??
+      maandlasten.Totaal_maandlast ??
+      maandlasten.Nieuwe_hypotheek_maandlast ??
+      resultaat?.bruto_maandlasten_nieuwe_lening
+  );
+
+  return {
+    koopprijs,
+    verbouwing,
+    verduurzaming,
+    kosten,
+    totaalBenodigd,
+    finBestaand: sanitizeNumber(
+      financiering.Bestaande_hypotheek_mee_te_nemen ??
+        financiering.Bestaande_hypotheek?.Totaal_schuld
+    ),
+    finNieuwe: sanitizeNumber(financiering.Nieuwe_hypotheek ?? financiering.Hypotheek),
+    finOverwaarde: sanitizeNumber(financiering.Overwaarde),
+    finEigen: sanitizeNumber(financiering.Eigen_geld),
+    finTotaal: sanitizeNumber(financiering.Totaal_financiering),
+    maandNu,
+    maandStraks,
+    maandVerschil: sanitizeNumber(
+      maandlasten.Verschil ??
+        maandlasten.Verschil_maandlast ??
+        (maandStraks !== null && maandNu !== null ? maandStraks - maandNu : null)
+    ),
+  };
+}
+
+/**
+ * Kerncijfers voor een scenariovergelijking uit een bereken- of opzet-resultaat
+ */
+function extractKerncijfers(resultaat: any, soort: VergelijkSoort): ScenarioKerncijfers {
+  const gegevens = resultaat?.gebruikte_hypotheekgegevens ?? {};
+  const leningdata = gegevens.opzet_nieuwe_hypotheek?.[0] ?? {};
+  const budget = extractDoorstromerBudget(resultaat);
+
+  let maximaalBedrag: number | null;
+  let maandlast: number | null;
+  if (soort === 'opzet') {
+    const bedragen = extractOpzetBedragen(resultaat);
+    maximaalBedrag = bedragen.finNieuwe;
+    maandlast = bedragen.maandStraks;
+  } else {
+    maximaalBedrag = sanitizeNumber(resultaat?.maximaal_bedrag);
+    maandlast =
+      sanitizeNumber(resultaat?.bruto_maandlasten_nieuwe_lening) ?? budget?.maandlastStraks ?? null;
+  }
+
+  // Totale rente alleen voor de nieuwe lening en bij gelijkblijvende rente
+  const rente = sanitizeNumber(leningdata.rente);
+  const looptijd = sanitizeNumber(leningdata.looptijd_maanden) ?? 360;
+  const vorm = String(leningdata.hypotheekvorm ?? '').toLowerCase();
+  const totaalRente =
+    maximaalBedrag !== null && rente !== null
+      ? berekenAflosschema(
+          {
+            huidige_schuld: maximaalBedrag,
+            huidige_rente: rente,
+            resterende_looptijd_in_maanden: looptijd,
+            rentevasteperiode_maanden: looptijd,
+            hypotheekvorm: isHypotheekvorm(vorm) ? vorm : 'annuiteit',
+          },
+          { weergave: 'jaar' }
+        ).totaal_rente
+      : null;
+
+  return {
+    maximaal_bedrag: maximaalBedrag,
+    woningbudget: soort === 'bereken' ? (budget?.budget ?? null) : null,
+    maandlast,
+    totaal_rente: totaalRente,
+    nhg: typeof gegevens.nhg_toegepast === 'boolean' ? gegevens.nhg_toegepast : null,
+  };
+}
+
+function renderOpzetSummary(
+  resultaat: any,
+  isDoorstromer: boolean,
+  aanvulling: OpzetAanvulling = {}
+): string {
+  const { eigenGeld, starterslening } = aanvulling;
+  const format0 = (value: number | null) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const monthlyText = (value: number | null) =>
+    value === null
+      ? 'n.v.t.'
+      : `${formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} / maand`;
+
+  const {
+    koopprijs,
+    verbouwing,
+    verduurzaming,
+    kosten,
+    totaalBenodigd,
+    finBestaand,
+    finNieuwe,
+    finOverwaarde,
+    finEigen,
+    finTotaal,
+    maandNu,
+    maandStraks,
+    maandVerschil,
+  } = extractOpzetBedragen(resultaat);
+
+  const diffText =
+    maandVerschil === null
+      ? 'n.v.t.'
+      : `${maandVerschil > 0 ? '+' : maandVerschil < 0 ? '-' : ''}${formatEuro(Math.abs(maandVerschil), {
+          minimumFractionDigits: 0,
+          maximumFractionDigits: 0,
+        })} / maand`;
+
+  const lines: string[] = [];
+  lines.push(`💰 Vraagprijs woning: ${format0(koopprijs)}`);
+  lines.push('═══════════════════════════════════');
+  lines.push('');
+  lines.push('BENODIGD BEDRAG:');
+  lines.push(`├─ Koopprijs: ${format0(koopprijs)}`);
+  if (kosten !== null && kosten !== 0) {
+    lines.push(`├─ Kosten: ${format0(kosten)}`);
+  }
+  if (verbouwing !== null && verbouwing !== 0) {
+    lines.push(`├─ Verbouwing: ${format0(verbouwing)}`);
+  }
+  if (verduurzaming !== null && verduurzaming !== 0) {
+    lines.push(`├─ Verduurzaming: ${format0(verduurzaming)}`);
+  }
+  lines.push(`└─ TOTAAL NODIG: ${format0(totaalBenodigd)}`);
+
+  lines.push('');
+  lines.push('FINANCIERING:');
+  if (isDoorstromer && finBestaand !== null) {
+    lines.push(`├─ Bestaande hypotheek: ${format0(finBestaand)}`);
+  }
+  if (finNieuwe !== null) {
+    lines.push(`├─ Nieuwe hypotheek: ${format0(finNieuwe)}`);
+  }
+  if (finOverwaarde !== null) {
+    lines.push(`├─ Overwaarde: ${format0(finOverwaarde)}`);
+  }
+  if (finEigen !== null && eigenGeld) {
+    // Eerst eigen spaargeld, dan de schenking en als laatste de familielening
+    const uitEigen = Math.min(finEigen, eigenGeld.eigenVermogen);
+    const uitSchenking = Math.min(finEigen - uitEigen, eigenGeld.schenking?.netto ?? 0);
+    const uitLening = finEigen - uitEigen - uitSchenking;
+    lines.push(`├─ Eigen geld: ${format0(uitEigen)}`);
+    if (eigenGeld.schenking) {
+      lines.push(`├─ Schenking: ${format0(uitSchenking)}`);
+    }
+    if (eigenGeld.familielening) {
+      lines.push(`├─ Familielening: ${format0(uitLening)}`);
+    }
+  } else if (finEigen !== null) {
+    lines.push(`├─ Eigen geld: ${format0(finEigen)}`);
+  }
+  if (starterslening && starterslening.bedrag > 0) {
+    lines.push(`├─ Starterslening: ${format0(starterslening.bedrag)}`);
+    lines.push(`└─ Totaal: ${format0((finTotaal ?? 0) + starterslening.bedrag)}`);
+  } else {
+    lines.push(`└─ Totaal: ${format0(finTotaal)}`);
+  }
+
+  lines.push('');
+  lines.push('📊 Uw nieuwe maandlast');
+  lines.push(`Nu:      ${monthlyText(maandNu)}`);
+  lines.push(`Straks:  ${monthlyText(maandStraks)}`);
+  if (eigenGeld?.familielening) {
+    lines.push(`+ Familielening: ${monthlyText(eigenGeld.familielening.maandlast)}`);
+  }
+  if (starterslening && starterslening.bedrag > 0) {
+    lines.push(
+      `+ Starterslening: ${monthlyText(starterslening.maandlast_rentevrij)} (eerste ${rentevrijePeriode(starterslening)}), daarna ${monthlyText(starterslening.maandlast_na_rentevrij)}`
+    );
+  }
+  lines.push('──────────────────────────────');
+  lines.push(`Verschil: ${diffText}`);
+
+  return lines.join('\n');
+}
+
+function renderAflosschemaTabel(
+  regels: AflosschemaRegel[],
+  weergave: AflosschemaWeergave
+): string[] {
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const periodeLabel = weergave === 'jaar' ? 'Jaar' : 'Maand';
+  const renteLabel = weergave === 'jaar' ? 'Rente (jaar)' : 'Rente';
+  const aflossingLabel = weergave === 'jaar' ? 'Aflossing (jaar)' : 'Aflossing';
+
+  const lines: string[] = [];
+  lines.push(
+    `| ${periodeLabel} | Rente % | Maandlast | ${renteLabel} | ${aflossingLabel} | Restschuld |`
+  );
+  lines.push('|---:|---:|---:|---:|---:|---:|');
+  regels.forEach((regel) => {
+    lines.push(
+      `| ${regel.periode} | ${(regel.rente_percentage * 100).toFixed(2)}% | ${format2(regel.bruto_maandlast)} | ${format2(regel.rente)} | ${format2(regel.aflossing)} | ${format2(regel.restschuld)} |`
+    );
+  });
+  return lines;
+}
+
+function renderAflosschema(schema: GecombineerdAflosschema): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+  const lines: string[] = [];
+  lines.push(`📅 **AFLOSSCHEMA PER ${schema.weergave === 'jaar' ? 'JAAR' : 'MAAND'}**`);
+  lines.push('');
+
+  schema.leningdelen.forEach((deel, index) => {
+    lines.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    lines.push(`📊 **Leningdeel ${index + 1}** – ${deel.hypotheekvorm}, ${format0(deel.hoofdsom)}`);
+    lines.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    if (deel.renteherziening_na_maanden !== undefined && deel.rente_na_herziening !== undefined) {
+      lines.push(
+        `🔒 Renteherziening na ${deel.renteherziening_na_maanden} maanden naar ${(deel.rente_na_herziening * 100).toFixed(2)}% (aanname)`
+      );
+    }
+    lines.push(`• Totaal rente: ${format0(deel.totaal_rente)}`);
+    lines.push(`• Totaal aflossing: ${format0(deel.totaal_aflossing)}`);
+    if (deel.eindrestschuld > 0) {
+      lines.push(`• Restschuld einde looptijd: ${format0(deel.eindrestschuld)}`);
+    }
+    lines.push('');
+    lines.push(...renderAflosschemaTabel(deel.regels, schema.weergave));
+    lines.push('');
+  });
+
+  if (schema.leningdelen.length > 1) {
+    lines.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    lines.push('📊 **Totaal alle leningdelen**');
+    lines.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    lines.push(`• Totaal rente: ${format0(schema.totaal_rente)}`);
+    lines.push(`• Totaal aflossing: ${format0(schema.totaal_aflossing)}`);
+    lines.push('');
+    lines.push(...renderAflosschemaTabel(schema.totaal, schema.weergave));
+    lines.push('');
+  }
+
+  lines.push(
+    'ℹ️ Bruto bedragen zonder hypotheekrenteaftrek. Een rente na de rentevaste periode is een aanname, geen toezegging.'
+  );
+
+  return lines.join('\n');
+}
+
+function renderKostenKoper(kosten: KostenKoperResultaat): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const vrijstelling: Record<KostenKoperResultaat['startersvrijstelling'], string> = {
+    volledig: ' (startersvrijstelling)',
+    gedeeltelijk: ' (startersvrijstelling voor één koper)',
+    geen: '',
+  };
+
+  const lines: string[] = [];
+  lines.push(`🧾 **KOSTEN KOPER (${kosten.jaar})**`);
+  lines.push(
+    `├─ Overdrachtsbelasting: ${format0(kosten.overdrachtsbelasting)}${vrijstelling[kosten.startersvrijstelling]}`
+  );
+  lines.push(`├─ Notaris: ${format0(kosten.notariskosten)}`);
+  lines.push(`├─ Taxatie: ${format0(kosten.taxatiekosten)}`);
+  lines.push(`├─ Advies: ${format0(kosten.advieskosten)}`);
+  if (kosten.nhg_provisie > 0) {
+    lines.push(`├─ NHG-borgtochtprovisie: ${format0(kosten.nhg_provisie)}`);
+  }
+  lines.push(
+    `└─ Totaal: ${format0(kosten.totaal)} (${formatPercentage(kosten.percentage, 1)} van de koopsom)`
+  );
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function renderEigenGeld(eigenGeld: OpzetEigenGeld): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const vrijstelling: Record<SchenkingResultaat['vrijstelling_soort'], string> = {
+    jaarlijks: 'jaarlijkse vrijstelling',
+    eenmalig_verhoogd: 'eenmalig verhoogde vrijstelling',
+    eigen_woning: 'verhoogde vrijstelling eigen woning',
+  };
+
+  const lines: string[] = [];
+  lines.push('🎁 **EIGEN GELD**');
+  lines.push(`├─ Eigen vermogen: ${format0(eigenGeld.eigenVermogen)}`);
+  const { schenking, familielening } = eigenGeld;
+  if (schenking) {
+    lines.push(`├─ Schenking (${schenking.jaar}): ${format0(schenking.bedrag)}`);
+    lines.push(
+      `│  ├─ ${vrijstelling[schenking.vrijstelling_soort]}: ${format0(schenking.vrijstelling)}`
+    );
+    lines.push(`│  ├─ Schenkbelasting: ${format0(schenking.schenkbelasting)}`);
+    lines.push(`│  └─ Netto beschikbaar: ${format0(schenking.netto)}`);
+  }
+  if (familielening) {
+    lines.push(
+      `├─ Familielening: ${format0(familielening.bedrag)} tegen ${formatPercentage(familielening.rente)} over ${familielening.looptijd_maanden / 12} jaar`
+    );
+    lines.push(
+      `│  ├─ Maandlast: ${format2(familielening.maandlast)} (telt mee als verplichting in de toets)`
+    );
+    lines.push(`│  └─ Totale rente: ${format0(familielening.totale_rente)}`);
+  }
+  lines.push(
+    `└─ Totaal: ${format0(eigenGeld.eigenVermogen + (schenking?.netto ?? 0) + (familielening?.bedrag ?? 0))}`
+  );
+  if (schenking && schenking.jaar < schenking.peiljaar) {
+    lines.push(
+      `⚠️ Schenkbelasting ${schenking.peiljaar} nog niet bekend; berekend met de vrijstellingen en tarieven van ${schenking.jaar}.`
+    );
+  }
+  if (schenking?.opmerking) {
+    lines.push(`⚠️ ${schenking.opmerking}.`);
+  }
+  if (familielening) {
+    lines.push(
+      'ℹ️ Leg de familielening vast in een notariële of onderhandse akte en betaal de rente en aflossing echt; alleen dan is de rente als eigenwoningschuld aftrekbaar.'
+    );
+  }
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function renderToetsinkomen(aanvragers: InkomenVelden): string {
+  const afleidingen = [
+    { rol: 'Aanvrager', bron: aanvragers.inkomensbron_aanvrager },
+    {
+      rol: 'Partner',
+      bron: aanvragers.heeft_partner ? aanvragers.inkomensbron_partner : undefined,
+    },
+  ].flatMap(({ rol, bron }) => (bron ? [{ rol, afleiding: bepaalToetsinkomen(bron) }] : []));
+  if (afleidingen.length === 0) {
+    return '';
+  }
+
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const soortLabel: Record<InkomensbronSoort, string> = {
+    zzp: 'winst uit onderneming',
+    flex: 'flexibel inkomen',
+    ibl: 'IBL',
+    perspectiefverklaring: 'perspectiefverklaring',
+  };
+
+  const lines: string[] = [];
+  lines.push('🧾 **TOETSINKOMEN**');
+  lines.push('═══════════════════════════════════');
+  afleidingen.forEach(({ rol, afleiding }, index) => {
+    const laatste = index === afleidingen.length - 1;
+    const sub = laatste ? '   ' : '│  ';
+    lines.push(
+      `${laatste ? '└─' : '├─'} ${rol} (${soortLabel[afleiding.soort]}): ${format0(afleiding.toetsinkomen)}`
+    );
+    if (afleiding.gemiddelde !== undefined && afleiding.laatste_jaar !== undefined) {
+      lines.push(`${sub}├─ Gemiddelde: ${format0(afleiding.gemiddelde)}`);
+      lines.push(`${sub}├─ Laatste jaar: ${format0(afleiding.laatste_jaar)}`);
+    }
+    lines.push(`${sub}└─ ${afleiding.toelichting}`);
+  });
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function renderAowToets(toetsen: AowAanvragerToets[], pensioen?: PensioenToets): string {
+  const relevant = toetsen.some(
+    ({ toets }) => toets.maanden_na_aow > 0 || toets.pensioentoets_nodig
+  );
+  if (!relevant && !pensioen) {
+    return '';
+  }
+
+  const format0 = (value: number | null) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const jarenMaanden = (maanden: number) =>
+    `${Math.floor(maanden / 12)} jaar${maanden % 12 ? ` en ${maanden % 12} maanden` : ''}`;
+
+  const lines: string[] = [];
+  lines.push('👴 **TOETS OP PENSIOENLEEFTIJD**');
+  lines.push('═══════════════════════════════════');
+  toetsen.forEach(({ rol, toets }, index) => {
+    const tak = index === toetsen.length - 1 && !pensioen ? '└─' : '├─';
+    const leeftijd = `AOW-leeftijd ${jarenMaanden(toets.aow_leeftijd.jaren * 12 + toets.aow_leeftijd.maanden)}${toets.vastgesteld ? '' : ' (nog niet vastgesteld)'}`;
+    const aow =
+      toets.maanden_tot_aow > 0
+        ? `AOW over ${jarenMaanden(toets.maanden_tot_aow)}`
+        : 'AOW-leeftijd bereikt';
+    const looptijd =
+      toets.maanden_na_aow > 0
+        ? `lening loopt nog ${jarenMaanden(toets.maanden_na_aow)} door na AOW`
+        : 'lening eindigt vóór AOW';
+    lines.push(`${tak} ${rol}: ${aow} (${leeftijd}); ${looptijd}`);
+  });
+
+  if (pensioen) {
+    const bedragen = [pensioen.huidig, pensioen.pensioen].filter(
+      (bedrag): bedrag is number => bedrag !== null
+    );
+    lines.push(`├─ Maximaal op huidig inkomen: ${format0(pensioen.huidig)}`);
+    lines.push(
+      `├─ Maximaal op pensioeninkomen: ${pensioen.pensioen === null ? 'niet beschikbaar (rekenservice onbereikbaar)' : format0(pensioen.pensioen)}`
+    );
+    lines.push(
+      `└─ Leidend (laagste van beide): ${format0(bedragen.length > 0 ? Math.min(...bedragen) : null)}`
+    );
+    if (
+      pensioen.huidig !== null &&
+      pensioen.pensioen !== null &&
+      pensioen.pensioen < pensioen.huidig
+    ) {
+      lines.push('⚠️ Het inkomen na pensionering beperkt de maximale hypotheek.');
+    }
+  } else if (toetsen.some(({ toets }) => toets.pensioentoets_nodig)) {
+    lines.push(
+      '⚠️ AOW binnen tien jaar: geldverstrekkers toetsen ook op het inkomen na pensionering. Vraag naar het verwachte pensioeninkomen (AOW plus aanvullend pensioen) en reken met pensioeninkomen_aanvrager/pensioeninkomen_partner.'
+    );
+  } else {
+    lines.push(
+      'ℹ️ De lening loopt door na de AOW-leeftijd; het inkomen daalt dan meestal. Bespreek aflossen vóór pensionering of een toets op het verwachte pensioeninkomen.'
+    );
+  }
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function renderBouwdepot(bouwdepot: BouwdepotResultaat): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const nieuwbouw = bouwdepot.soort === 'nieuwbouw';
+
+  const lines: string[] = [];
+  lines.push(`🏗️ **BOUWDEPOT ${nieuwbouw ? 'NIEUWBOUW' : 'VERBOUWING'}**`);
+  lines.push('═══════════════════════════════════');
+  lines.push(`├─ ${nieuwbouw ? 'Aanneemsom' : 'Bouwbedrag'}: ${format0(bouwdepot.bouwbedrag)}`);
+  if (bouwdepot.betaald_bij_transport > 0) {
+    lines.push(`├─ Vervallen termijnen bij transport: ${format0(bouwdepot.betaald_bij_transport)}`);
+    lines.push(`├─ Bouwrente ontwikkelaar (eenmalig): ${format0(bouwdepot.bouwrente)}`);
+  }
+  lines.push(`├─ Depot bij transport: ${format0(bouwdepot.depot_bij_transport)}`);
+  lines.push(`├─ Bouwperiode: ${bouwdepot.bouwperiode_maanden} maanden`);
+  lines.push(
+    `├─ Netto maandlast tijdens de bouw: gemiddeld ${format2(bouwdepot.gemiddelde_netto_maandlast)}`
+  );
+  lines.push(`├─ Maandlast na oplevering: ${format2(bouwdepot.maandlast_na_oplevering)}`);
+  lines.push(`└─ Ontvangen depotrente: ${format0(bouwdepot.totale_depotrente)}`);
+
+  if (bouwdepot.maanden.length > 0) {
+    lines.push('');
+    lines.push('| Maand | Uitbetaling | Depot | Bruto maandlast | Depotrente | Netto maandlast |');
+    lines.push('|---:|---:|---:|---:|---:|---:|');
+    bouwdepot.maanden.forEach((regel) => {
+      lines.push(
+        `| ${regel.maand} | ${format0(regel.uitbetaling)} | ${format0(regel.depot_saldo)} | ${format2(regel.bruto_maandlast)} | ${format2(regel.depotrente)} | ${format2(regel.netto_maandlast)} |`
+      );
+    });
+  }
+  lines.push('');
+  lines.push(
+    'ℹ️ De hypotheek loopt vanaf transport over het volle bedrag; de depotrente over het nog niet uitbetaalde deel verlaagt de maandlast tijdens de bouw.'
+  );
+  if (bouwdepot.bouwrente > 0) {
+    lines.push(
+      '⚠️ De bouwrente over vóór transport vervallen termijnen komt bovenop de kosten koper en is niet meegenomen in de opzet.'
+    );
+  }
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function rentevrijePeriode(starterslening: StartersleningResultaat): string {
+  const maanden = starterslening.rentevrije_maanden;
+  return maanden % 12 === 0 ? `${maanden / 12} jaar` : `${maanden} maanden`;
+}
+
+function renderStarterslening(starterslening: StartersleningResultaat): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const aflosJaren = (starterslening.looptijd_maanden - starterslening.rentevrije_maanden) / 12;
+
+  const lines: string[] = [];
+  lines.push(`🔑 **STARTERSLENING ${starterslening.gemeente.toUpperCase()}**`);
+  lines.push('═══════════════════════════════════');
+  lines.push(`├─ Maximaal in ${starterslening.gemeente}: ${format0(starterslening.maximaal)}`);
+  lines.push(`├─ Starterslening: ${format0(starterslening.bedrag)}`);
+  lines.push(
+    `├─ Eerste ${rentevrijePeriode(starterslening)}: rente- en aflossingsvrij (${format2(starterslening.maandlast_rentevrij)} / maand)`
+  );
+  lines.push(
+    `├─ Daarna: ${format2(starterslening.maandlast_na_rentevrij)} / maand tegen ${formatPercentage(starterslening.rente)} over ${Number(aflosJaren.toFixed(1))} jaar`
+  );
+  lines.push(`└─ Resterend tekort: ${format0(starterslening.resterend_tekort)}`);
+  if (starterslening.reden) {
+    lines.push(`⚠️ ${starterslening.reden}.`);
+  }
+  if (starterslening.bedrag > 0) {
+    lines.push(
+      'ℹ️ Na de rentevrije periode toetst SVn opnieuw of de maandlast draagbaar is; zo niet, dan blijft (een deel van) de lening langer rentevrij.'
+    );
+  }
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function formatPercentage(value: number, decimals = 2): string {
+  return `${(value * 100).toLocaleString('nl-NL', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}%`;
+}
+
+/**
+ * Eigen woning wordt toegerekend aan de partner met het hoogste inkomen
+ */
+function hoogsteInkomen(aanvragers: {
+  inkomen_aanvrager: number;
+  heeft_partner: boolean;
+  inkomen_partner?: number;
+}): number {
+  return Math.max(
+    aanvragers.inkomen_aanvrager,
+    aanvragers.heeft_partner ? (aanvragers.inkomen_partner ?? 0) : 0
+  );
+}
+
+function renderNettoMaandlast(netto: NettoMaandlastResultaat, wozWaarde: number): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const lines: string[] = [];
+  lines.push(`💶 **NETTO MAANDLAST (${netto.jaar})**`);
+  lines.push('═══════════════════════════════════');
+  lines.push(`Bruto maandlast:  ${format2(netto.bruto_maandlast)}`);
+  lines.push(`Fiscaal voordeel: ${format2(netto.fiscaal_voordeel_pm)}`);
+  lines.push('──────────────────────────────');
+  lines.push(`Netto maandlast:  ${format2(netto.netto_maandlast)}`);
+  lines.push('');
+  lines.push('BEREKENING (EERSTE JAAR):');
+  lines.push(`├─ Aftrekbare rente: ${format0(netto.aftrekbare_rente_jaar)}`);
+  lines.push(
+    `├─ Eigenwoningforfait (WOZ ${format0(wozWaarde)}): ${format0(netto.eigenwoningforfait)}`
+  );
+  if (netto.hillen_aftrek > 0) {
+    lines.push(`├─ Aftrek Wet Hillen: ${format0(netto.hillen_aftrek)}`);
+  }
+  lines.push(`├─ Saldo eigen woning: ${format0(netto.saldo_eigen_woning)}`);
+  lines.push(`└─ Tarief: ${formatPercentage(netto.tarief)}`);
+  lines.push('');
+  lines.push(
+    'ℹ️ Indicatie op basis van de rente in het eerste jaar; de netto maandlast stijgt naarmate u aflost en de renteaftrek daalt.'
+  );
+
+  return lines.join('\n');
+}
+
+interface NettoVerrijkingContext {
+  inkomen: number;
+  wozWaarde?: number;
+  // Meegenomen bestaande leningdelen (doorstromer)
+  bestaandeLeningdelen?: Leningdeel[];
+  // Fallback wanneer de respons geen rente bevat
+  rente?: number;
+}
+
+/**
+ * Netto maandlast per resultaat, afgeleid uit de backend respons
+ */
+function renderNettoVerrijking(data: any, context: NettoVerrijkingContext): string {
+  const resultaten = normalizeResultList(data?.resultaat);
+  const lijst = resultaten.length > 0 ? resultaten : data?.resultaat ? [data.resultaat] : [];
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const bestaande = context.bestaandeLeningdelen ?? [];
+
+  const lines: string[] = ['💶 **NETTO MAANDLAST (indicatie)**'];
+  let wozProxy = false;
+  let jaar: number | undefined;
+
+  lijst.forEach((resultaat: any, index: number) => {
+    const label =
+      lijst.length > 1 ? `${resultaat.resultaat_omschrijving || `Scenario ${index + 1}`}: ` : '';
+    const gegevens = resultaat?.gebruikte_hypotheekgegevens?.opzet_nieuwe_hypotheek?.[0] ?? {};
+    const financiering = resultaat?.Financiering ?? {};
+    const maandlasten = resultaat?.Maandlasten ?? {};
+
+    const bedrag = sanitizeNumber(
+      resultaat?.maximaal_bedrag ?? financiering.Nieuwe_hypotheek ?? financiering.Hypotheek
+    );
+    const rente = sanitizeNumber(gegevens.rente) ?? context.rente ?? null;
+    if (bedrag === null || rente === null) {
+      lines.push(`• ${label}niet te bepalen (hypotheekbedrag of rente ontbreekt in de respons)`);
+      return;
+    }
+
+    const looptijd = sanitizeNumber(gegevens.looptijd_maanden) ?? 360;
+    const vorm = String(gegevens.hypotheekvorm ?? '').toLowerCase();
+    const leningdelen: Leningdeel[] = [
+      {
+        huidige_schuld: bedrag,
+        huidige_rente: rente,
+        resterende_looptijd_in_maanden: looptijd,
+        rentevasteperiode_maanden: looptijd,
+        hypotheekvorm: isHypotheekvorm(vorm) ? vorm : 'annuiteit',
+      },
+      ...bestaande,
+    ];
+
+    // Met bestaande leningdelen is alleen het totaal van de respons bruikbaar
+    const bruto = sanitizeNumber(
+      bestaande.length > 0
+        ? (maandlasten.Totaal ?? maandlasten.Totaal_maandlast)
+        : (resultaat?.bruto_maandlasten_nieuwe_lening ?? maandlasten.Totaal)
+    );
+
+    const koopsom = sanitizeNumber(resultaat?.Benodigd_bedrag?.Woning_koopsom);
+    const wozWaarde = context.wozWaarde ?? koopsom ?? bedrag;
+    if (context.wozWaarde === undefined && koopsom === null) {
+      wozProxy = true;
+    }
+
+    const netto = berekenNettoMaandlastVoorLeningdelen(leningdelen, {
+      woz_waarde: wozWaarde,
+      inkomen: context.inkomen,
+      bruto_maandlast: bruto ?? undefined,
+    });
+    jaar = netto.jaar;
+
+    lines.push(
+      `• ${label}bruto ${format2(netto.bruto_maandlast)} → netto ${format2(netto.netto_maandlast)} / maand (fiscaal voordeel ${format2(netto.fiscaal_voordeel_pm)}, tarief ${formatPercentage(netto.tarief)})`
+    );
+  });
+
+  if (lijst.length === 0) {
+    lines.push('• niet te bepalen (geen resultaat ontvangen)');
+  }
+  if (wozProxy) {
+    lines.push('• WOZ-waarde onbekend: eigenwoningforfait berekend over het hypotheekbedrag.');
+  }
+  lines.push(
+    `ℹ️ Indicatie${jaar ? ` ${jaar}` : ''}: hypotheekrenteaftrek over de rente van het eerste jaar, eigenwoningforfait en Wet Hillen.`
+  );
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function renderBoeterente(resultaat: BoeterenteResultaat, bron: string): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+  const lines: string[] = [];
+  lines.push('💸 **BOETERENTE (indicatie)**');
+  lines.push('═══════════════════════════════════');
+  lines.push(`Vergelijkingsrente: ${bron}`);
+
+  resultaat.leningdelen.forEach((deel, index) => {
+    lines.push('');
+    lines.push(
+      `Leningdeel ${index + 1}: ${format0(deel.huidige_schuld)} tegen ${formatPercentage(deel.contractrente)}, nog ${deel.resterende_rentevast_maanden} maanden rentevast`
+    );
+    lines.push(`├─ Vergelijkingsrente: ${formatPercentage(deel.vergelijkingsrente)}`);
+    lines.push(`├─ Boetevrij aflossen: ${format0(deel.boetevrij_bedrag)}`);
+    lines.push(`├─ Boetegrondslag: ${format0(deel.boetegrondslag)}`);
+    lines.push(
+      `└─ Boeterente: ${format0(deel.boeterente)}${deel.reden ? ` (${deel.reden.toLowerCase()})` : ''}`
+    );
+  });
+
+  lines.push('');
+  lines.push('──────────────────────────────');
+  lines.push(`Totaal boeterente: ${format0(resultaat.totaal_boeterente)}`);
+  lines.push('');
+  lines.push(
+    'ℹ️ AFM-standaardmethode: contante waarde van het renteverschil over de resterende rentevaste periode. Bij verkoop van de woning is aflossen bij veel geldverstrekkers boetevrij; controleer de voorwaarden.'
+  );
+
+  return lines.join('\n');
+}
+
+interface BenodigdInkomenContext {
+  waardeWoning: number;
+  heeftPartner: boolean;
+  // Partnerinkomen is niet meegezocht
+  partnerVast: boolean;
+  precisie: number;
+  verdeel: (totaal: number) => { aanvrager: number; partner: number };
+}
+
+function renderBenodigdInkomen(
+  zoekresultaat: GoalSeekResultaat<OpzetBedragen>,
+  context: BenodigdInkomenContext
+): string {
+  const format0 = (value: number | null) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+  const lines: string[] = [];
+  lines.push('🎯 **BENODIGD INKOMEN**');
+  lines.push('═══════════════════════════════════');
+  lines.push(`Woning: ${format0(context.waardeWoning)}`);
+  if (!zoekresultaat.gevonden || zoekresultaat.waarde === undefined || !zoekresultaat.uitkomst) {
+    lines.push('');
+    lines.push(
+      `❌ Ook met een inkomen van ${format0(ValidationConstraints.INKOMEN.MAX)} sluit de financiering niet (bijv. door leeftijd, verplichtingen of te weinig eigen geld).`
+    );
+  } else {
+    const inkomen = context.verdeel(zoekresultaat.waarde);
+    const bedragen = zoekresultaat.uitkomst;
+    lines.push('');
+    lines.push(
+      `Minimaal bruto jaarinkomen: ${format0(inkomen.aanvrager + (context.heeftPartner ? inkomen.partner : 0))}`
+    );
+    if (context.heeftPartner) {
+      lines.push(`├─ Aanvrager: ${format0(inkomen.aanvrager)}`);
+      lines.push(`└─ Partner: ${format0(inkomen.partner)}${context.partnerVast ? ' (vast)' : ''}`);
+    }
+    lines.push('');
+    lines.push('BIJ DIT INKOMEN:');
+    lines.push(`├─ Totaal nodig: ${format0(bedragen.totaalBenodigd)}`);
+    lines.push(`├─ Hypotheek: ${format0(bedragen.finNieuwe)}`);
+    lines.push(
+      `└─ Maandlast: ${bedragen.maandStraks === null ? 'n.v.t.' : `${format0(bedragen.maandStraks)} / maand`}`
+    );
+  }
+  lines.push('');
+  lines.push(
+    `ℹ️ Gevonden in ${zoekresultaat.iteraties} berekeningen (binair zoeken, precisie ${format0(context.precisie)}).`
+  );
+
+  return lines.join('\n');
+}
+
+interface MaximaleKoopsomUitkomst {
+  resultaat: any;
+  kostenKoper?: KostenKoperResultaat;
+}
+
+interface MaximaleKoopsomContext {
+  eigenVermogen: number;
+  precisie: number;
+}
+
+function renderMaximaleKoopsom(
+  zoekresultaat: GoalSeekResultaat<MaximaleKoopsomUitkomst>,
+  context: MaximaleKoopsomContext
+): string {
+  const format0 = (value: number | null) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+  const lines: string[] = [];
+  lines.push('🏡 **MAXIMALE KOOPSOM**');
+  lines.push('═══════════════════════════════════');
+  if (!zoekresultaat.gevonden || zoekresultaat.waarde === undefined || !zoekresultaat.uitkomst) {
+    lines.push(
+      `❌ Ook bij een koopsom van ${format0(ValidationConstraints.WONING_WAARDE.MIN)} sluit de financiering niet (bijv. door inkomen, leeftijd of verplichtingen).`
+    );
+    lines.push('');
+    lines.push(`ℹ️ Eigen geld meegenomen: ${format0(context.eigenVermogen)}.`);
+    return lines.join('\n');
+  }
+
+  const opBovengrens = zoekresultaat.waarde >= ValidationConstraints.WONING_WAARDE.MAX;
+  lines.push(
+    `Hoogste koopsom: ${format0(zoekresultaat.waarde)}${opBovengrens ? ' of meer (hoogste toetsbare koopsom)' : ''}`
+  );
+  lines.push(`Eigen geld meegenomen: ${format0(context.eigenVermogen)}`);
+  lines.push('');
+  lines.push(renderOpzetSummary(zoekresultaat.uitkomst.resultaat, false));
+
+  let text = `${lines.join('\n')}\n\n`;
+  if (zoekresultaat.uitkomst.kostenKoper) {
+    text += renderKostenKoper(zoekresultaat.uitkomst.kostenKoper);
+  }
+  text += `ℹ️ Gevonden in ${zoekresultaat.iteraties} berekeningen (binair zoeken, precisie ${format0(context.precisie)}).`;
+  return text;
+}
+
+interface ScenarioUitkomst {
+  naam: string;
+  kerncijfers?: ScenarioKerncijfers;
+  fout?: string;
+}
+
+function renderScenarioVergelijking(uitkomsten: ScenarioUitkomst[], soort: VergelijkSoort): string {
+  const format0 = (value: number | null) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const basis = uitkomsten[0].kerncijfers as ScenarioKerncijfers;
+  const berekend = uitkomsten
+    .slice(1)
+    .filter((uitkomst) => uitkomst.kerncijfers)
+    .map((uitkomst) => uitkomst.kerncijfers as ScenarioKerncijfers);
+  const verschillen = bepaalVerschillen(basis, berekend);
+  const toonBudget =
+    basis.woningbudget !== null || berekend.some((cijfers) => cijfers.woningbudget !== null);
+
+  // Afwijkingen van de basis vet, bedragen met het verschil erbij
+  const bedragCel = (
+    cijfers: ScenarioKerncijfers,
+    veld: 'maximaal_bedrag' | 'woningbudget' | 'maandlast' | 'totaal_rente'
+  ) => {
+    const waarde = cijfers[veld];
+    if (cijfers === basis || !wijktAf(basis, cijfers, veld)) {
+      return format0(waarde);
+    }
+    const referentie = basis[veld];
+    const delta =
+      waarde !== null && referentie !== null
+        ? ` (${waarde > referentie ? '+' : '−'}${format0(Math.abs(waarde - referentie))})`
+        : '';
+    return `**${format0(waarde)}**${delta}`;
+  };
+  const nhgCel = (cijfers: ScenarioKerncijfers) => {
+    const tekst = cijfers.nhg === null ? 'n.v.t.' : cijfers.nhg ? 'Ja' : 'Nee';
+    return cijfers !== basis && wijktAf(basis, cijfers, 'nhg') ? `**${tekst}**` : tekst;
+  };
+
+  const lines: string[] = [];
+  lines.push(
+    `⚖️ **SCENARIOVERGELIJKING** (${uitkomsten.length} scenario's, ${soort === 'opzet' ? 'financieringsopzet' : 'maximale hypotheek'})`
+  );
+  lines.push('');
+  lines.push(
+    `| Scenario | ${soort === 'opzet' ? 'Hypotheek' : 'Max. hypotheek'} |${toonBudget ? ' Woningbudget |' : ''} Maandlast | Totaal rente | NHG |`
+  );
+  lines.push(`|---|---|${toonBudget ? '---|' : ''}---|---|---|`);
+
+  uitkomsten.forEach((uitkomst, index) => {
+    const naam = index === 0 ? `★ ${uitkomst.naam}` : uitkomst.naam;
+    if (!uitkomst.kerncijfers) {
+      lines.push(`| ${naam} | ❌ niet berekend |${toonBudget ? ' – |' : ''} – | – | – |`);
+      return;
+    }
+    const cijfers = uitkomst.kerncijfers;
+    lines.push(
+      `| ${naam} | ${bedragCel(cijfers, 'maximaal_bedrag')} |${toonBudget ? ` ${bedragCel(cijfers, 'woningbudget')} |` : ''} ${bedragCel(cijfers, 'maandlast')} | ${bedragCel(cijfers, 'totaal_rente')} | ${nhgCel(cijfers)} |`
+    );
+  });
+
+  const labels: Record<string, string> = {
+    maximaal_bedrag: soort === 'opzet' ? 'hypotheek' : 'maximale hypotheek',
+    woningbudget: 'woningbudget',
+    maandlast: 'maandlast',
+    totaal_rente: 'totaal rente',
+    nhg: 'NHG',
+  };
+  lines.push('');
+  lines.push(
+    verschillen.length > 0
+      ? `🔍 Verschillen ten opzichte van de basis: ${verschillen.map((veld) => labels[veld]).join(', ')}.`
+      : '🔍 Geen verschillen ten opzichte van de basis.'
+  );
+
+  const fouten = uitkomsten.filter((uitkomst) => uitkomst.fout !== undefined);
+  if (fouten.length > 0) {
+    lines.push('');
+    fouten.forEach((uitkomst) => lines.push(`⚠️ ${uitkomst.naam}: ${uitkomst.fout}`));
+  }
+
+  lines.push('');
+  lines.push(
+    'ℹ️ ★ = basis. Totaal rente is indicatief: over de volledige looptijd bij gelijkblijvende rente, alleen voor de nieuwe lening.'
+  );
+
+  return lines.join('\n');
+}
+
+interface GevoeligheidContext {
+  basisRente: number | null;
+  basisInkomen: number;
+  basisLooptijdJaren: number;
+}
+
+function renderGevoeligheid(cellen: GevoeligheidCel[], context: GevoeligheidContext): string {
+  const format0 = (value: number | null) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const delta = (value: number, tekst: string) =>
+    value === 0 ? '' : ` (${value > 0 ? '+' : '−'}${tekst})`;
+
+  const lines: string[] = [];
+  lines.push(`📊 **GEVOELIGHEIDSANALYSE** (${cellen.length} scenario's)`);
+  lines.push('');
+  lines.push('| | Rente | Inkomen | Looptijd | Max. hypotheek | Maandlast |');
+  lines.push('|---|---|---|---|---|---|');
+
+  for (const cel of cellen) {
+    const { scenario } = cel;
+    const rente =
+      context.basisRente !== null
+        ? `${formatPercentage(context.basisRente + scenario.rente_delta)}${delta(scenario.rente_delta, formatPercentage(Math.abs(scenario.rente_delta)))}`
+        : 'basis';
+    const inkomen = `${format0(context.basisInkomen * (1 + scenario.inkomen_delta))}${delta(scenario.inkomen_delta, formatPercentage(Math.abs(scenario.inkomen_delta), 0))}`;
+    const looptijd = `${scenario.looptijd_jaren ?? context.basisLooptijdJaren} jaar`;
+    const uitkomst = cel.fout
+      ? '❌ niet berekend | –'
+      : `${format0(cel.maximaal_bedrag)} | ${format0(cel.maandlast)}`;
+    lines.push(
+      `| ${scenario.is_basis ? '★' : ''} | ${rente} | ${inkomen} | ${looptijd} | ${uitkomst} |`
+    );
+  }
+
+  lines.push('');
+  lines.push('★ = basisscenario. Inkomen is het totale toetsinkomen van aanvrager(s).');
+  const mislukt = cellen.filter((cel) => cel.fout).length;
+  if (mislukt > 0) {
+    lines.push(`⚠️ ${mislukt} scenario('s) konden niet worden berekend.`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderRentemiddeling(resultaat: RentemiddelingResultaat, bron: string): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const jaren = (maanden: number) =>
+    `${(maanden / 12).toLocaleString('nl-NL', { maximumFractionDigits: 1 })} jaar`;
+
+  const lines: string[] = [];
+  lines.push('🔀 **RENTEMIDDELING**');
+  lines.push('═══════════════════════════════════');
+  lines.push(
+    `Huidige rente:  ${formatPercentage(resultaat.huidige_rente)} (nog ${resultaat.resterende_rentevast_maanden} maanden vast)`
+  );
+  lines.push(`Actuele rente:  ${formatPercentage(resultaat.nieuwe_rente)} (${bron})`);
+  if (resultaat.renteopslag > 0) {
+    lines.push(`Renteopslag:    ${formatPercentage(resultaat.renteopslag)}`);
+  }
+  lines.push(
+    `Middelrente:    ${formatPercentage(resultaat.middelrente)} voor ${jaren(resultaat.horizon_maanden)}`
+  );
+  lines.push('');
+  lines.push('MAANDLAST:');
+  lines.push(`├─ Nu: ${format2(resultaat.huidige_maandlast)}`);
+  lines.push(`├─ Na middelen: ${format2(resultaat.nieuwe_maandlast)}`);
+  lines.push(
+    `└─ Verschil: ${resultaat.maandlast_verschil > 0 ? '+' : ''}${format2(resultaat.maandlast_verschil)}`
+  );
+  lines.push('');
+  lines.push(`TOTALE RENTE OVER ${jaren(resultaat.horizon_maanden).toUpperCase()}:`);
+  lines.push(`├─ Middelen: ${format0(resultaat.totale_rente_middelen)}`);
+  lines.push(
+    `├─ Wachten (daarna ${formatPercentage(resultaat.rente_na_afloop)}): ${format0(resultaat.totale_rente_wachten)}`
+  );
+  lines.push(
+    `└─ ${resultaat.kostenverschil >= 0 ? 'Voordeel' : 'Nadeel'} middelen: ${format0(Math.abs(resultaat.kostenverschil))}`
+  );
+  lines.push('');
+  if (resultaat.break_even_maand !== undefined) {
+    lines.push(
+      `⚖️ Break-even na ${resultaat.break_even_maand} maanden: daarna is wachten cumulatief goedkoper dan middelen.`
+    );
+  } else if (resultaat.kostenverschil > 0) {
+    lines.push('⚖️ Middelen blijft over de hele rentevaste periode voordeliger dan wachten.');
+  }
+  if (resultaat.reden) {
+    lines.push(`⚠️ ${resultaat.reden}.`);
+  }
+  lines.push(
+    "ℹ️ Middelen loont vooral als de rente na afloop hoger wordt verwacht dan nu; vul rente_na_afloop in om scenario's te vergelijken."
+  );
+
+  return lines.join('\n');
+}
+
+interface OversluitenContext {
+  nieuweRente: number;
+  nieuwePeriode: number;
+  bronRente: string;
+  bronBoeterente: string;
+}
+
+function renderOversluiten(resultaat: OversluitenResultaat, context: OversluitenContext): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const jaren = (maanden: number) =>
+    `${(maanden / 12).toLocaleString('nl-NL', { maximumFractionDigits: 1 })} jaar`;
+  const { kosten } = resultaat;
+
+  const lines: string[] = [];
+  lines.push('🔁 **OVERSLUITEN**');
+  lines.push('═══════════════════════════════════');
+  lines.push(`Huidige schuld: ${format0(resultaat.huidige_schuld)}`);
+  lines.push(
+    `Nieuwe rente:   ${formatPercentage(context.nieuweRente)} voor ${jaren(context.nieuwePeriode)} (${context.bronRente})`
+  );
+  lines.push('');
+  lines.push('EENMALIGE KOSTEN:');
+  lines.push(
+    `├─ Boeterente: ${format0(kosten.boeterente)} (vergelijkingsrente ${context.bronBoeterente})`
+  );
+  lines.push(`├─ Advies: ${format0(kosten.advieskosten)}`);
+  lines.push(`├─ Notaris: ${format0(kosten.notariskosten)}`);
+  lines.push(`├─ Taxatie: ${format0(kosten.taxatiekosten)}`);
+  lines.push(
+    `└─ Totaal: ${format0(kosten.totaal)}${resultaat.kosten_meegefinancierd ? ` (meegefinancierd, nieuwe hypotheek ${format0(resultaat.nieuwe_hoofdsom)})` : ' (uit eigen geld)'}`
+  );
+  lines.push('');
+  lines.push('MAANDLAST:');
+  lines.push(`├─ Nu: ${format2(resultaat.huidige_maandlast)}`);
+  lines.push(`├─ Na oversluiten: ${format2(resultaat.nieuwe_maandlast)}`);
+  lines.push(
+    `└─ Verschil: ${resultaat.maandlast_verschil > 0 ? '+' : ''}${format2(resultaat.maandlast_verschil)}`
+  );
+  lines.push('');
+  lines.push(`OVER DE RESTERENDE RENTEVASTE PERIODE (${jaren(resultaat.horizon_maanden)}):`);
+  lines.push(
+    `└─ Netto ${resultaat.netto_voordeel >= 0 ? 'voordeel' : 'nadeel'}: ${format0(Math.abs(resultaat.netto_voordeel))}`
+  );
+  lines.push('');
+  if (resultaat.break_even_maand !== undefined) {
+    lines.push(
+      `⚖️ Break-even na ${resultaat.break_even_maand} maanden: daarna levert oversluiten netto op.`
+    );
+  }
+  if (resultaat.reden) {
+    lines.push(`⚠️ ${resultaat.reden}.`);
+  }
+  lines.push(
+    'ℹ️ Netto voordeel = bespaarde maandlasten min eenmalige kosten en min een eventueel hogere restschuld. Fiscale aftrek van boeterente en kosten is niet meegenomen.'
+  );
+
+  return lines.join('\n');
+}
+
+function renderExtraAflossen(
+  resultaat: ExtraAflossenResultaat,
+  args: ExtraAflossenArguments
+): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const einddatum = (maanden: number) => {
+    const datum = new Date();
+    datum.setMonth(datum.getMonth() + maanden);
+    return datum.toLocaleDateString('nl-NL', { month: 'long', year: 'numeric' });
+  };
+  const looptijd = (maanden: number) =>
+    `${Math.floor(maanden / 12)} jaar${maanden % 12 > 0 ? ` en ${maanden % 12} mnd` : ''} (${einddatum(maanden)})`;
+  const basis = resultaat.zonder_extra;
+
+  const plan: string[] = [];
+  if (args.eenmalig) {
+    plan.push(`${format0(args.eenmalig)} eenmalig`);
+  }
+  if (args.periodiek) {
+    plan.push(`${format0(args.periodiek)} per ${args.frequentie ?? 'maand'}`);
+  }
+
+  const scenario = (titel: string, uitkomst: ExtraAflosScenario, laatste: boolean) => {
+    const tak = laatste ? '   ' : '│  ';
+    return [
+      `${laatste ? '└─' : '├─'} ${titel}`,
+      `${tak}├─ Maandlast: ${format2(uitkomst.maandlast_na_aflossing)}`,
+      `${tak}├─ Totale rente: ${format0(uitkomst.totale_rente)} (besparing ${format0(basis.totale_rente - uitkomst.totale_rente)})`,
+      `${tak}└─ Afgelost na: ${looptijd(uitkomst.looptijd_maanden)}`,
+    ];
+  };
+
+  const lines: string[] = [];
+  lines.push('💸 **EXTRA AFLOSSEN**');
+  lines.push('═══════════════════════════════════');
+  lines.push(`Extra aflossing: ${plan.join(' + ')}`);
+  lines.push('');
+  lines.push('ZONDER EXTRA AFLOSSEN:');
+  lines.push(`├─ Maandlast: ${format2(basis.maandlast_start)}`);
+  lines.push(`├─ Totale rente: ${format0(basis.totale_rente)}`);
+  lines.push(`└─ Afgelost na: ${looptijd(basis.looptijd_maanden)}`);
+  lines.push('');
+  lines.push('MET EXTRA AFLOSSEN:');
+  lines.push(...scenario('Lagere maandlast (looptijd gelijk)', resultaat.lagere_maandlast, false));
+  lines.push(...scenario('Kortere looptijd (maandlast gelijk)', resultaat.kortere_looptijd, true));
+  lines.push('');
+  const nietBoetevrij = Math.max(
+    resultaat.lagere_maandlast.niet_boetevrij,
+    resultaat.kortere_looptijd.niet_boetevrij
+  );
+  if (nietBoetevrij > 0) {
+    lines.push(
+      `⚠️ ${format0(nietBoetevrij)} viel buiten de boetevrije ruimte (${formatPercentage(args.boetevrij_percentage ?? STANDAARD_BOETEVRIJ_PERCENTAGE, 0)} per jaar binnen de rentevaste periode) en is niet afgelost.`
+    );
+  }
+  lines.push(
+    'ℹ️ Extra aflossingen gaan eerst naar het leningdeel met de hoogste rente. De rente blijft gelijk over de looptijd; het effect op de hypotheekrenteaftrek is niet meegenomen.'
+  );
+
+  return lines.join('\n');
+}
+
+interface OverbruggingContext {
+  verkoopdatum: string;
+  rente: number;
+  nieuweMaandlast: number | null;
+}
+
+function renderOverbrugging(
+  resultaat: OverbruggingResultaat,
+  context: OverbruggingContext
+): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const verkoop = new Date(context.verkoopdatum).toLocaleDateString('nl-NL', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+
+  const lines: string[] = [];
+  lines.push('🌉 **OVERBRUGGINGSKREDIET**');
+  lines.push('═══════════════════════════════════');
+  lines.push(`Overbrugging: ${resultaat.looptijd_maanden} maanden (verwachte verkoop ${verkoop})`);
+  lines.push(`├─ Krediet (verwachte overwaarde): ${format0(resultaat.krediet)}`);
+  lines.push(`├─ Rente: ${formatPercentage(context.rente)} (aflossingsvrij)`);
+  lines.push(`└─ Rente per maand: ${format2(resultaat.rente_per_maand)}`);
+  lines.push('');
+  lines.push('DUBBELE LASTEN PER MAAND TIJDENS DE OVERBRUGGING:');
+  lines.push(`├─ Bestaande hypotheek: ${format2(resultaat.bestaande_maandlast)}`);
+  lines.push(`├─ Rente overbrugging: ${format2(resultaat.rente_per_maand)}`);
+  if (context.nieuweMaandlast !== null) {
+    lines.push(`├─ Extra bovenop nieuwe maandlast: ${format2(resultaat.dubbele_lasten_per_maand)}`);
+    lines.push(
+      `└─ Totaal inclusief nieuwe hypotheek: ${format2(resultaat.dubbele_lasten_per_maand + context.nieuweMaandlast)}`
+    );
+  } else {
+    lines.push(`└─ Extra bovenop nieuwe maandlast: ${format2(resultaat.dubbele_lasten_per_maand)}`);
+  }
+  lines.push('');
+  lines.push(
+    `Totaal over ${resultaat.looptijd_maanden} maanden: ${format0(resultaat.totale_dubbele_lasten)} (waarvan ${format0(resultaat.totale_rente)} overbruggingsrente)`
+  );
+  if (resultaat.reden) {
+    lines.push(`⚠️ ${resultaat.reden}.`);
+  }
+  lines.push(
+    'ℹ️ Het krediet wordt bij verkoop uit de opbrengst afgelost. Valt de verkoop later of lager uit, dan lopen de dubbele lasten door.'
+  );
+
+  return lines.join('\n');
+}
+
+interface DubbeleWoonlastenContext {
+  eigenVermogen: number;
+  eigenInbreng: number | null;
+  nieuweMaandlastBekend: boolean;
 }
 
-function renderDoorstromerBudgetBlock(resultaat: any): string | null {
-  if (!resultaat || typeof resultaat !== "object") {
-    return null;
-  }
+function renderDubbeleWoonlasten(
+  resultaat: DubbeleWoonlastenResultaat,
+  context: DubbeleWoonlastenContext
+): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
-  const budget = sanitizeNumber(
-    resultaat.max_woningbudget ??
-      resultaat.max_woning_budget ??
-      resultaat.maximaal_woningbudget ??
-      resultaat.woningbudget ??
-      resultaat.maximaal_bedrag
+  const lines: string[] = [];
+  lines.push(`🏘️ **STRESSSCENARIO DUBBELE WOONLASTEN** (${resultaat.maanden} maanden)`);
+  lines.push('═══════════════════════════════════');
+  lines.push('PER MAAND:');
+  lines.push(
+    `├─ Nieuwe hypotheek: ${context.nieuweMaandlastBekend ? format2(resultaat.nieuwe_maandlast) : 'onbekend'}`
   );
-  if (budget === null) {
-    return null;
+  lines.push(`├─ Bestaande hypotheek: ${format2(resultaat.bestaande_maandlast)}`);
+  if (resultaat.extra_per_maand !== resultaat.bestaande_maandlast) {
+    lines.push(
+      `├─ Rente overbrugging: ${format2(resultaat.extra_per_maand - resultaat.bestaande_maandlast)}`
+    );
   }
-
-  const overwaarde = sanitizeNumber(
-    resultaat.overwaarde_bedrag ??
-      resultaat.overwaarde ??
-      resultaat.maximaal_woningbudget_onderdelen?.overwaarde_huidige_woning ??
-      resultaat.Financiering?.Overwaarde ??
-      resultaat.bestaande_situatie?.overwaarde
-  );
-  const huidigeSchuld = sanitizeNumber(
-    resultaat.huidige_hypotheek_schuld ??
-      resultaat.maximaal_woningbudget_onderdelen?.Bestaande_hypotheek_mee_te_nemen ??
-      resultaat.bestaande_situatie?.totale_restschuld ??
-      resultaat.Financiering?.Bestaande_hypotheek?.Totaal_schuld
-  );
-  const extraLeencapaciteit = sanitizeNumber(
-    resultaat.extra_leencapaciteit ??
-      resultaat.extra_leencapaciteit_bedrag ??
-      resultaat.maximaal_woningbudget_onderdelen?.max_extra_lening
-  );
-  const maandlastNu = sanitizeNumber(
-    resultaat.maandlast_nu ??
-      resultaat.bestaande_situatie?.huidige_maandlast ??
-      resultaat.Maandlasten?.Bestaande_hypotheek ??
-      resultaat.Maandlasten?.Bestaande_hypotheek_maandlast
+  lines.push(`└─ Totaal: ${format2(resultaat.totale_maandlast)}`);
+  lines.push('');
+  lines.push(`OVER ${resultaat.maanden} MAANDEN:`);
+  lines.push(`├─ Totaal woonlasten: ${format0(resultaat.totaal_benodigd)}`);
+  lines.push(`└─ Waarvan dubbele lasten: ${format0(resultaat.extra_totaal)}`);
+  lines.push('');
+  lines.push(
+    `Buffer na aankoop: ${format0(resultaat.buffer)} (eigen vermogen ${format0(context.eigenVermogen)}${context.eigenInbreng !== null ? ` min ${format0(context.eigenInbreng)} eigen inbreng` : ''})`
   );
-  const maandlastStraks = sanitizeNumber(
-    resultaat.maandlast_straks ??
-      resultaat.Maandlasten?.Totaal ??
-      resultaat.Maandlasten?.Totaal_maandlast ??
-      resultaat.bruto_maandlasten_nieuwe_lening
+  lines.push(
+    resultaat.buffer_toereikend
+      ? `✅ De buffer dekt de dubbele lasten van ${resultaat.maanden} maanden.`
+      : `❌ De buffer dekt ${resultaat.maanden_gedekt} van de ${resultaat.maanden} maanden; tekort ${format0(resultaat.tekort)}.`
   );
-  const maandlastVerschil = sanitizeNumber(
-    resultaat.verschil_maandlast ??
-      resultaat.Maandlasten?.Verschil ??
-      resultaat.Maandlasten?.Verschil_maandlast
+  lines.push(
+    'ℹ️ De nieuwe maandlast wordt uit het inkomen betaald; de buffer is getoetst aan alleen de dubbele lasten.'
   );
 
-  const horizontal = (edge: "top" | "mid" | "bottom") =>
-    `${edge === "top" ? "┌" : edge === "bottom" ? "└" : "├"}${"─".repeat(
-      DOORSTROMER_BLOCK_WIDTH
-    )}${edge === "top" ? "┐" : edge === "bottom" ? "┘" : "┤"}`;
-  const emptyLine = () => `│${" ".repeat(DOORSTROMER_BLOCK_WIDTH)}│`;
-  const line = (text: string) => {
-    const trimmed = text.length > DOORSTROMER_BLOCK_WIDTH ? text.slice(0, DOORSTROMER_BLOCK_WIDTH) : text;
-    return `│${trimmed.padEnd(DOORSTROMER_BLOCK_WIDTH, " ")}│`;
-  };
-  const monthly = (value: number | null) =>
-    value === null ? "n.v.t." : `${formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} / maand`;
-  const diffText =
-    maandlastVerschil === null
-      ? "n.v.t."
-      : `${maandlastVerschil > 0 ? "+" : maandlastVerschil < 0 ? "-" : ""}${formatEuro(
-          Math.abs(maandlastVerschil),
-          { minimumFractionDigits: 0, maximumFractionDigits: 0 }
-        )} / maand`;
-  const budgetLine = formatEuro(budget, { minimumFractionDigits: 0, maximumFractionDigits: 0 }).padStart(20, " ");
-
-  return [
-    horizontal("top"),
-    line("  🎯 Uw woningbudget"),
-    horizontal("mid"),
-    line("  U kunt op zoek naar een woning tot:"),
-    emptyLine(),
-    line(`         ${budgetLine}`),
-    line("         ─────────"),
-    emptyLine(),
-    line("  💡 Dit bedrag bestaat uit:"),
-    line(`  • Overwaarde huidige woning:  ${formatEuro(overwaarde)}`),
-    line(`  • Huidige hypotheekschuld:    ${formatEuro(huidigeSchuld)}`),
-    line(`  • Extra leencapaciteit:       ${formatEuro(extraLeencapaciteit)}`),
-    horizontal("mid"),
-    line("  📊 Uw nieuwe maandlast"),
-    horizontal("mid"),
-    line(`  Nu:      ${monthly(maandlastNu)}`),
-    line(`  Straks:  ${monthly(maandlastStraks)}`),
-    line("  ------------------------------"),
-    line(`  Verschil: ${diffText}`),
-    horizontal("bottom"),
-  ].join("\n");
+  return lines.join('\n');
 }
 
-function renderOpzetSummary(resultaat: any, isDoorstromer: boolean): string {
-  const benodigd = resultaat?.Benodigd_bedrag ?? {};
-  const financiering = resultaat?.Financiering ?? {};
-  const maandlasten = resultaat?.Maandlasten ?? {};
+interface HurenKopenContext {
+  koopsom: number;
+  hypotheek: number;
+  maandlast: number | null;
+  kostenKoper: number | null;
+  eigenGeld: number;
+  huurPerMaand: number;
+  huurstijging: number;
+  waardestijging: number;
+  rendement: number;
+  eigenaarslasten_percentage: number;
+  horizon_jaren: number;
+}
 
+function renderHurenKopen(vergelijking: HurenKopenResultaat, context: HurenKopenContext): string {
   const format0 = (value: number | null) =>
     formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
-  const monthlyText = (value: number | null) =>
-    value === null
-      ? 'n.v.t.'
-      : `${formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} / maand`;
-
-  const koopprijs = sanitizeNumber(benodigd.Woning_koopsom);
-  const verbouwing = sanitizeNumber(benodigd.Verbouwingskosten_meerwerk);
-  const verduurzaming = sanitizeNumber(benodigd.Verduurzamingskosten);
-  const kosten = sanitizeNumber(benodigd.Kosten);
-  const totaalBenodigd = sanitizeNumber(
-    benodigd.Totaal_benodigd ??
-      ((koopprijs || 0) + (verbouwing || 0) + (verduurzaming || 0) + (kosten || 0))
-  );
+  const laatste = vergelijking.jaren[vergelijking.jaren.length - 1];
 
-  const finBestaand = sanitizeNumber(
-    financiering.Bestaande_hypotheek_mee_te_nemen ??
-      financiering.Bestaande_hypotheek?.Totaal_schuld
+  const lines: string[] = [];
+  lines.push(`🏠 **HUREN VS KOPEN** (${context.horizon_jaren} jaar)`);
+  lines.push('═══════════════════════════════════');
+  lines.push(
+    `Kopen: ${format0(context.koopsom)} met ${format0(context.hypotheek)} hypotheek (${context.maandlast === null ? 'maandlast n.v.t.' : `${format0(context.maandlast)} / maand bruto`})`
   );
-  const finNieuwe = sanitizeNumber(financiering.Nieuwe_hypotheek ?? financiering.Hypotheek);
-  const finOverwaarde = sanitizeNumber(financiering.Overwaarde);
-  const finEigen = sanitizeNumber(financiering.Eigen_geld);
-  const finTotaal = sanitizeNumber(financiering.Totaal_financiering);
-
-  const maandNu = sanitizeNumber(
-    maandlasten.Bestaande_hypotheek ?? maandlasten.Bestaande_hypotheek_maandlast
+  lines.push(`├─ Kosten koper: ${format0(context.kostenKoper)}`);
+  lines.push(`└─ Eigen geld in de woning: ${format0(context.eigenGeld)}`);
+  lines.push(`Huren: ${format0(context.huurPerMaand)} / maand`);
+  lines.push('');
+  lines.push('AANNAMES:');
+  lines.push(`├─ Huurstijging: ${formatPercentage(context.huurstijging, 1)} per jaar`);
+  lines.push(`├─ Waardestijging woning: ${formatPercentage(context.waardestijging, 1)} per jaar`);
+  lines.push(`├─ Rendement eigen geld: ${formatPercentage(context.rendement, 1)} per jaar`);
+  lines.push(
+    `└─ Eigenaarslasten: ${formatPercentage(context.eigenaarslasten_percentage, 1)} van de woningwaarde per jaar`
   );
-  const maandStraks = sanitizeNumber(
-    maandlasten.Totaal ??
-      maandlasten.Totaal_maandlast ??
-      maandlasten.Nieuwe_hypotheek_maandlast ??
-      resultaat.bruto_maandlasten_nieuwe_lening
+  lines.push('');
+  lines.push(
+    '| Jaar | Woonlasten kopen | Woonlasten huren | Vermogen kopen | Vermogen huren | Verschil |'
   );
-  const maandVerschil = sanitizeNumber(
-    maandlasten.Verschil ??
-      maandlasten.Verschil_maandlast ??
-      (maandStraks !== null && maandNu !== null ? maandStraks - maandNu : null)
+  lines.push('|---|---|---|---|---|---|');
+  for (const jaar of vergelijking.jaren) {
+    lines.push(
+      `| ${jaar.jaar} | ${format0(jaar.woonlasten_kopen)} | ${format0(jaar.woonlasten_huren)} | ${format0(jaar.vermogen_kopen)} | ${format0(jaar.vermogen_huren)} | ${jaar.verschil >= 0 ? '+' : '−'}${format0(Math.abs(jaar.verschil))} |`
+    );
+  }
+  lines.push('');
+  if (laatste) {
+    lines.push(
+      laatste.verschil >= 0
+        ? `✅ Na ${laatste.jaar} jaar levert kopen ${format0(laatste.verschil)} meer vermogen op${vergelijking.omslagjaar !== undefined ? ` (kopen wint vanaf jaar ${vergelijking.omslagjaar})` : ''}.`
+        : `❌ Na ${laatste.jaar} jaar levert blijven huren ${format0(Math.abs(laatste.verschil))} meer vermogen op.`
+    );
+  }
+  lines.push(
+    'ℹ️ Wie per jaar goedkoper uit is, belegt het verschil. Bruto woonlasten; hypotheekrenteaftrek, eigenwoningforfait en verkoopkosten zijn niet meegenomen.'
   );
 
-  const diffText =
-    maandVerschil === null
-      ? 'n.v.t.'
-      : `${maandVerschil > 0 ? '+' : maandVerschil < 0 ? '-' : ''}${formatEuro(Math.abs(maandVerschil), {
-          minimumFractionDigits: 0,
-          maximumFractionDigits: 0,
-        })} / maand`;
+  return lines.join('\n');
+}
+
+interface RentevastAdviesContext {
+  hypotheekbedrag: number;
+  ltv: number;
+  nhg: boolean;
+  datum?: string;
+}
+
+function renderRentevastAdvies(
+  adviezen: RentevastPeriodeAdvies[],
+  context: RentevastAdviesContext
+): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const format2 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const jaren = (maanden: number) =>
+    `${(maanden / 12).toLocaleString('nl-NL', { maximumFractionDigits: 1 })} jaar`;
 
   const lines: string[] = [];
-  lines.push(`💰 Vraagprijs woning: ${format0(koopprijs)}`);
+  lines.push('🔒 **RENTEVASTE PERIODE ADVIES**');
   lines.push('═══════════════════════════════════');
-  lines.push('');
-  lines.push('BENODIGD BEDRAG:');
-  lines.push(`├─ Koopprijs: ${format0(koopprijs)}`);
-  if (kosten !== null && kosten !== 0) {
-    lines.push(`├─ Kosten: ${format0(kosten)}`);
-  }
-  if (verbouwing !== null && verbouwing !== 0) {
-    lines.push(`├─ Verbouwing: ${format0(verbouwing)}`);
+  lines.push(
+    `Hypotheek: ${format0(context.hypotheekbedrag)} · LTV ${formatPercentage(context.ltv, 0)} · ${context.nhg ? 'met' : 'zonder'} NHG`
+  );
+  if (context.datum) {
+    lines.push(`Rentes van: ${context.datum}`);
   }
-  if (verduurzaming !== null && verduurzaming !== 0) {
-    lines.push(`├─ Verduurzaming: ${format0(verduurzaming)}`);
+  lines.push('');
+  lines.push('| Rentevast | Rente | Maandlast | Break-even stijging |');
+  lines.push('|---|---|---|---|');
+  for (const advies of adviezen) {
+    let breakEven = '–';
+    if (advies.vergeleken_met_maanden !== undefined) {
+      breakEven =
+        advies.break_even_stijging === undefined
+          ? `> 15%-punt t.o.v. ${jaren(advies.vergeleken_met_maanden)}`
+          : advies.break_even_stijging === 0
+            ? `nu al duurder dan ${jaren(advies.vergeleken_met_maanden)}`
+            : `+${formatPercentage(advies.break_even_stijging)}-punt t.o.v. ${jaren(advies.vergeleken_met_maanden)}`;
+    }
+    lines.push(
+      `| ${jaren(advies.rentevast_maanden)} | ${formatPercentage(advies.rente)} | ${format2(advies.maandlast)} | ${breakEven} |`
+    );
   }
-  lines.push(`└─ TOTAAL NODIG: ${format0(totaalBenodigd)}`);
+  lines.push('');
+  lines.push(
+    'ℹ️ Break-even stijging: als de rente bij herziening na de kortere periode meer dan dit stijgt, betaalt u over de langere periode meer rente dan wanneer u direct langer vastzet.'
+  );
+
+  return lines.join('\n');
+}
 
+function renderNhgToets(toets: NhgToets): string {
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+  const lines: string[] = [];
+  lines.push(`🛡️ **NHG-TOETS (${toets.jaar})**`);
+  lines.push('═══════════════════════════════════');
+  lines.push(
+    toets.komt_in_aanmerking ? '✅ Komt in aanmerking voor NHG' : `❌ Geen NHG: ${toets.reden}`
+  );
   lines.push('');
-  lines.push('FINANCIERING:');
-  if (isDoorstromer && finBestaand !== null) {
-    lines.push(`├─ Bestaande hypotheek: ${format0(finBestaand)}`);
-  }
-  if (finNieuwe !== null) {
-    lines.push(`├─ Nieuwe hypotheek: ${format0(finNieuwe)}`);
-  }
-  if (finOverwaarde !== null) {
-    lines.push(`├─ Overwaarde: ${format0(finOverwaarde)}`);
-  }
-  if (finEigen !== null) {
-    lines.push(`├─ Eigen geld: ${format0(finEigen)}`);
+  lines.push(`├─ Hypotheekbedrag: ${format0(toets.hypotheekbedrag)}`);
+  lines.push(`├─ Kostengrens: ${format0(toets.kostengrens)}`);
+  if (toets.energiebesparing_opslag > 0) {
+    lines.push(`├─ Verhoging energiebesparing: ${format0(toets.energiebesparing_opslag)}`);
+    lines.push(`├─ Effectieve kostengrens: ${format0(toets.effectieve_kostengrens)}`);
   }
-  lines.push(`└─ Totaal: ${format0(finTotaal)}`);
-
+  lines.push(`├─ Loan-to-value: ${formatPercentage(toets.ltv, 1)}`);
+  lines.push(
+    `├─ Borgtochtprovisie: ${toets.komt_in_aanmerking ? format0(toets.borgtochtprovisie) : 'n.v.t.'}`
+  );
+  lines.push(
+    `└─ Renteklasse: ${toets.renteklasse}${toets.renteklasse_rente_pct !== undefined ? ` (${toets.renteklasse_rente_pct.toLocaleString('nl-NL')}%)` : ''}`
+  );
   lines.push('');
-  lines.push('📊 Uw nieuwe maandlast');
-  lines.push(`Nu:      ${monthlyText(maandNu)}`);
-  lines.push(`Straks:  ${monthlyText(maandStraks)}`);
-  lines.push('──────────────────────────────');
-  lines.push(`Verschil: ${diffText}`);
+  lines.push(
+    'ℹ️ De borgtochtprovisie wordt eenmalig betaald en is als financieringskost aftrekbaar.'
+  );
 
   return lines.join('\n');
 }
 
+interface NhgHintContext {
+  nieuweWoning: NieuweWoning;
+  // Gebruikt wanneer de respons geen hypotheekbedrag bevat
+  geschatteHypotheek: number;
+  renteklassen?: Renteklasse[];
+  // NHG expliciet gevraagd via kosten_koper.nhg of nieuwe_lening.nhg
+  nhgGevraagd?: boolean;
+}
+
+/**
+ * Korte NHG-hint onder een opzet, op basis van de hypotheek voor de nieuwe woning
+ */
+function renderNhgHint(data: any, context: NhgHintContext): string {
+  const resultaten = normalizeResultList(data?.resultaat);
+  const { finNieuwe, finBestaand } = extractOpzetBedragen(resultaten[0] ?? data?.resultaat);
+  const format0 = (value: number) =>
+    formatEuro(value, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+  // Meegenomen bestaande schuld valt onder dezelfde NHG-toets
+  const hypotheekbedrag =
+    finNieuwe !== null ? finNieuwe + (finBestaand ?? 0) : context.geschatteHypotheek;
+
+  const woning = context.nieuweWoning;
+  const toets = toetsNhg({
+    hypotheekbedrag,
+    marktwaarde:
+      woning.waarde_woning + (woning.bedrag_verbouwen ?? 0) + (woning.bedrag_verduurzamen ?? 0),
+    bedrag_verduurzamen: woning.bedrag_verduurzamen,
+    renteklassen: context.renteklassen,
+  });
+
+  const lines: string[] = [`🛡️ **NHG (${toets.jaar})**`];
+  if (toets.komt_in_aanmerking) {
+    lines.push(
+      `• Hypotheek ${format0(toets.hypotheekbedrag)} valt binnen de kostengrens van ${format0(toets.effectieve_kostengrens)}: NHG mogelijk.`
+    );
+    lines.push(`• Borgtochtprovisie: ${format0(toets.borgtochtprovisie)} (eenmalig).`);
+  } else {
+    lines.push(
+      `• Hypotheek ${format0(toets.hypotheekbedrag)} valt boven de kostengrens van ${format0(toets.effectieve_kostengrens)}: geen NHG.`
+    );
+    if (context.nhgGevraagd) {
+      lines.push('• ⚠️ NHG is gevraagd maar niet mogelijk; reken met de renteklasse zonder NHG.');
+    }
+  }
+  lines.push(
+    `• Renteklasse: ${toets.renteklasse}${finNieuwe === null ? ' (op basis van een geschat hypotheekbedrag)' : ''}.`
+  );
+
+  return `${lines.join('\n')}\n\n`;
+}
+
 // Functie om response mooi te formatteren
-function formatResponse(data: any, toolName: string): string {
+interface FormatContext extends OpzetAanvulling {
+  restschuld?: RestschuldFinanciering | null;
+}
+
+function formatResponse(data: any, toolName: string, context: FormatContext = {}): string {
   let output = "";
   const resultaten = normalizeResultList(data?.resultaat);
 
+  if (data?.offline) {
+    output +=
+      '⚠️ **INDICATIEF / OFFLINE** — schatting zonder rekenservice met vereenvoudigde woonquotes in plaats van de officiële Nibud-tabellen, niet geschikt als definitief advies.\n\n';
+  }
+
   if (toolName === "bereken_hypotheek_starter") {
     output += "🏠 **HYPOTHEEKBEREKENING VOOR STARTER**\n\n";
     
@@ -1382,6 +5535,10 @@ function formatResponse(data: any, toolName: string): string {
         output += `🛡️ **NHG:** ${resultaat.gebruikte_hypotheekgegevens?.nhg_toegepast ? 'Ja' : 'Nee'}\n\n`;
       });
     }
+
+    if (data.extra_informatie?.disclaimers?.length) {
+      output += `ℹ️ **Disclaimers:**\n${data.extra_informatie.disclaimers.map((line: string) => `• ${line}`).join('\n')}\n\n`;
+    }
     
     // Voeg energielabel info toe als beschikbaar
     if (data.energielabel_verschil) {
@@ -1406,7 +5563,7 @@ function formatResponse(data: any, toolName: string): string {
         output += `📊 **${scenario}**\n`;
         output += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-        const doorstromerBlock = renderDoorstromerBudgetBlock(resultaat);
+        const doorstromerBlock = renderDoorstromerBudgetBlock(resultaat, context.restschuld);
         if (doorstromerBlock) {
           output += `${doorstromerBlock}\n\n`;
           const aanvullende: string[] = [];
@@ -1429,6 +5586,9 @@ function formatResponse(data: any, toolName: string): string {
           output += `💰 **Maximale nieuwe hypotheek:** €${resultaat.maximaal_bedrag?.toLocaleString('nl-NL') || 'N/A'}\n`;
           output += `📈 **Nieuwe maandlast:** €${resultaat.bruto_maandlasten_nieuwe_lening?.toLocaleString('nl-NL', {minimumFractionDigits: 2, maximumFractionDigits: 2}) || 'N/A'}\n`;
           output += `💵 **Overwaarde:** €${resultaat.overwaarde?.toLocaleString('nl-NL') || 'N/A'}\n`;
+          if (context.restschuld) {
+            output += `📉 **Restschuld:** ${formatEuro(context.restschuld.restschuld)} apart gefinancierd, ${formatEuro(context.restschuld.bruto_maandlast)} bruto per maand\n`;
+          }
 
           if (hypotheekData) {
             output += `🏦 **Hypotheekvorm:** ${hypotheekData.hypotheekvorm || 'N/A'}\n`;
@@ -1475,7 +5635,7 @@ function formatResponse(data: any, toolName: string): string {
       resultaten.forEach((resultaat: any, index: number) => {
         const scenario = resultaat.resultaat_omschrijving || `Scenario ${index + 1}`;
         const hypotheekData = resultaat.gebruikte_hypotheekgegevens?.opzet_nieuwe_hypotheek?.[0];
-        const doorstromerBlock = renderDoorstromerBudgetBlock(resultaat);
+        const doorstromerBlock = renderDoorstromerBudgetBlock(resultaat, context.restschuld);
         
         output += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
         output += `📊 **${scenario}**\n`;
@@ -1543,14 +5703,18 @@ function formatResponse(data: any, toolName: string): string {
           const scenario = resultaat.resultaat_omschrijving || `Scenario ${index + 1}`;
           output += `📊 **${scenario}**\n`;
         }
-        output += `${renderOpzetSummary(resultaat, isDoorstromer)}\n\n`;
+        output += `${renderOpzetSummary(resultaat, isDoorstromer, context)}\n\n`;
       });
     } else if (data.resultaat) {
-      output += `${renderOpzetSummary(data.resultaat, isDoorstromer)}\n\n`;
+      output += `${renderOpzetSummary(data.resultaat, isDoorstromer, context)}\n\n`;
     } else {
       output += 'Geen resultaat ontvangen van de API.\n\n';
     }
 
+    if (context.restschuld) {
+      output += `📉 **Restschuld:** ${formatEuro(context.restschuld.restschuld)} apart gefinancierd, ${formatEuro(context.restschuld.bruto_maandlast)} bruto per maand (telt mee als verplichting; geen overwaarde)\n\n`;
+    }
+
     if (data.extra_informatie?.disclaimers?.length) {
       output += `⚠️ **DISCLAIMERS**\n`;
       output += `${data.extra_informatie.disclaimers.map((line: string) => `• ${line}`).join('\n')}\n\n`;
@@ -1565,7 +5729,7 @@ function formatResponse(data: any, toolName: string): string {
 }
 
 // Handler voor tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function handleCallTool(request: any, extra?: { sessionId?: string }) {
   const startTime = Date.now();
   const toolName = request.params?.name ?? 'unknown_tool';
   const handler = TOOL_HANDLERS[toolName];
@@ -1579,7 +5743,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 
   try {
-    const response = await handler(request);
+    const response = await metTransportSessie(extra?.sessionId, () => handler(request));
     recordToolCall(toolName, Date.now() - startTime, true);
     return response;
   } catch (error) {
@@ -1589,17 +5753,162 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
     return errorResponse(error, sessionId);
   }
-});
+}
+
+/**
+ * Bouw een MCP server instantie met alle tools, resources en prompts.
+ * Stdio gebruikt één instantie; de HTTP transport maakt er één per sessie.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'hypotheek-berekening-server',
+      version: config.serverVersion,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOL_DEFINITIONS,
+  }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listResources(),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [readResource(request.params.uri)],
+  }));
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const args = request.params.arguments ? { ...request.params.arguments } : undefined;
+    const prompt = getPrompt(request.params.name, args as Record<string, unknown> | undefined);
+    return {
+      description: prompt.description,
+      messages: prompt.messages,
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+
+  return server;
+}
+
+/**
+ * Bepaal de transportmodus: CLI (`--transport=http`, `--transport http` of `--http`)
+ * gaat voor op de MCP_TRANSPORT environment variabele.
+ */
+function resolveTransportMode(argv: string[], fallback: TransportMode): TransportMode {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--http') {
+      return 'http';
+    }
+    if (arg === '--stdio') {
+      return 'stdio';
+    }
+    const value = arg.startsWith('--transport=')
+      ? arg.slice('--transport='.length)
+      : arg === '--transport'
+        ? argv[i + 1]
+        : undefined;
+    if (value === 'http' || value === 'stdio') {
+      return value;
+    }
+    if (value !== undefined) {
+      throw new ValidationError(
+        ErrorCode.CONFIGURATION_ERROR,
+        `Onbekende transportmodus: ${value}. Toegestaan: stdio, http`,
+        'transport',
+        value
+      );
+    }
+  }
+  return fallback;
+}
+
+// Start de server met stdio of Streamable HTTP transport
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+/**
+ * Sluit de listeners netjes af bij SIGTERM/SIGINT (bijv. bij een container stop)
+ */
+function registreerAfsluiten(httpServer?: McpHttpServer, opsServer?: HttpServer) {
+  let bezig = false;
+  const afsluiten = (signaal: NodeJS.Signals) => {
+    if (bezig) return;
+    bezig = true;
+    console.error(`${signaal} ontvangen, server wordt afgesloten...`);
+
+    // Forceer exit als openstaande verbindingen niet op tijd sluiten
+    setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+    Promise.all([
+      httpServer?.stop(),
+      opsServer && new Promise<void>((resolve) => opsServer.close(() => resolve())),
+    ])
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error('Afsluiten mislukt:', error);
+        process.exit(1);
+      });
+  };
+
+  process.once('SIGTERM', afsluiten);
+  process.once('SIGINT', afsluiten);
+}
 
-// Start de server met stdio transport
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error(`Hypotheek MCP Server v${config.serverVersion} klaar voor gebruik (stdio).`);
+  const mode = resolveTransportMode(process.argv.slice(2), config.mcpTransport);
+
+  let httpServer: McpHttpServer | undefined;
+  if (mode === 'http') {
+    httpServer = new McpHttpServer({
+      port: config.httpPort,
+      host: config.httpHost,
+      path: config.httpPath,
+      sessionIdleTimeoutMs: config.httpSessionIdleTimeoutMs,
+      maxSessions: config.httpMaxSessions,
+      allowedHosts: config.httpAllowedHosts,
+      allowedOrigins: config.httpAllowedOrigins,
+      createServer,
+      fallbackHandler: handleOpsRequest,
+    });
+    await httpServer.start();
+    console.error(
+      `Hypotheek MCP Server v${config.serverVersion} klaar voor gebruik (Streamable HTTP op http://${config.httpHost}:${config.httpPort}${config.httpPath}).`
+    );
+  } else {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+    console.error(`Hypotheek MCP Server v${config.serverVersion} klaar voor gebruik (stdio).`);
+  }
+
+  // Losse listener voor probes/metrics (in HTTP-modus draaien ze ook op de MCP poort)
+  let opsServer: HttpServer | undefined;
+  if (config.healthPort !== undefined) {
+    opsServer = await startOpsServer(config.healthPort, config.httpHost);
+    console.error(`Health- en metrics-endpoints beschikbaar op poort ${config.healthPort}.`);
+  }
+  if (httpServer || opsServer) {
+    registreerAfsluiten(httpServer, opsServer);
+  }
   console.error(`Beschikbare tools: ${Object.keys(TOOL_HANDLERS).join(', ')}`);
 }
 
-main().catch((error) => {
-  console.error("Server error:", error);
-  process.exit(1);
-});
+// In tests wordt de module geïmporteerd zonder de server te starten
+if (config.nodeEnv !== 'test') {
+  main().catch((error) => {
+    console.error('Server error:', error);
+    process.exit(1);
+  });
+}
@@ -6,8 +6,10 @@
  * - Sliding window algorithm
  * - Configurable limits
  * - Automatic cleanup
+ * - Over HTTP per transportsessie in plaats van per session_id argument
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { getConfig } from '../config/index.js';
 import { createLogger } from '../utils/logger.js';
 import { APIError, ErrorCode } from '../types/index.js';
@@ -50,9 +52,9 @@ export class RateLimiter {
   }
   
   /**
-   * Check of request toegestaan is
+   * Check of request toegestaan is; aantal = aantal backend-calls dat het request kost
    */
-  checkLimit(sessionId: string): RateLimitInfo {
+  checkLimit(sessionId: string, aantal = 1): RateLimitInfo {
     const now = Date.now();
     const limit = this.config.rateLimitPerSession;
     
@@ -73,34 +75,38 @@ export class RateLimiter {
     
     // Check limit
     const current = entry.requests.length;
-    const allowed = current < limit;
+    const allowed = current + aantal <= limit;
     
     if (allowed) {
-      // Add deze request
-      entry.requests.push(now);
+      // Add deze request(s)
+      for (let i = 0; i < aantal; i++) {
+        entry.requests.push(now);
+      }
       
       this.logger.debug('Rate limit check passed', {
         session_id: sessionId,
-        current: current + 1,
+        current: current + aantal,
         limit
       });
       
       return {
         allowed: true,
-        current: current + 1,
+        current: current + aantal,
         limit,
         resetAt: now + this.WINDOW_MS
       };
     }
     
-    // Rate limit exceeded
-    const oldestRequest = Math.min(...entry.requests);
-    const resetAt = oldestRequest + this.WINDOW_MS;
+    // Rate limit exceeded: wacht tot genoeg oude requests buiten het window vallen
+    const vrijTeMaken = current + aantal - limit;
+    const gesorteerd = [...entry.requests].sort((a, b) => a - b);
+    const resetAt = (gesorteerd[vrijTeMaken - 1] ?? now) + this.WINDOW_MS;
     const retryAfter = resetAt - now;
     
     this.logger.warn('Rate limit exceeded', {
       session_id: sessionId,
       current,
+      requested: aantal,
       limit,
       retry_after_ms: retryAfter
     });
@@ -117,8 +123,8 @@ export class RateLimiter {
   /**
    * Enforce rate limit - throws error if exceeded
    */
-  enforce(sessionId: string): void {
-    const info = this.checkLimit(sessionId);
+  enforce(sessionId: string, aantal = 1): void {
+    const info = this.checkLimit(sessionId, aantal);
     
     if (!info.allowed) {
       throw new APIError(
@@ -249,6 +255,9 @@ export class RateLimiter {
 
 let limiterInstance: RateLimiter | null = null;
 
+// MCP transportsessie (Mcp-Session-Id) van de lopende toolcall
+const transportSessie = new AsyncLocalStorage<string>();
+
 /**
  * Get rate limiter (singleton)
  */
@@ -270,12 +279,22 @@ export function resetRateLimiter(): void {
 }
 
 /**
- * Helper functie om rate limiter te gebruiken in tool handlers
+ * Voer een toolcall uit binnen een MCP transportsessie; de rate limit telt dan
+ * per transportsessie, zodat clients zonder session_id geen budget delen
+ */
+export function metTransportSessie<T>(mcpSessionId: string | undefined, fn: () => T): T {
+  return mcpSessionId ? transportSessie.run(mcpSessionId, fn) : fn();
+}
+
+/**
+ * Helper functie om rate limiter te gebruiken in tool handlers; geef bij
+ * meerdere backend-calls binnen één toolcall het aantal calls mee
  */
-export function enforceRateLimit(sessionId?: string): void {
-  // Gebruik een default session ID als geen session_id gegeven
-  const effectiveSessionId = sessionId || 'default';
+export function enforceRateLimit(sessionId?: string, aantal = 1): void {
+  // Transportsessie gaat voor; anders session_id of een default session ID
+  const mcpSessionId = transportSessie.getStore();
+  const effectiveSessionId = mcpSessionId ? `mcp:${mcpSessionId}` : sessionId || 'default';
   
   const limiter = getRateLimiter();
-  limiter.enforce(effectiveSessionId);
+  limiter.enforce(effectiveSessionId, aantal);
 }
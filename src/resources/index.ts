@@ -429,7 +429,20 @@ function buildQuickReference(): string {
 | Concrete woning (starter) | \`opzet_hypotheek_starter\` | Laat financieringsmix en maandlast zien voor specifiek huis |
 | Concrete woning (doorstromer) | \`opzet_hypotheek_doorstromer\` | Combineert overwaarde, nieuwe woning en leningdelen |
 | Concrete woning + maatwerk | \`opzet_hypotheek_uitgebreid\` | Voor renteklassen/custom looptijd/maatwerkleningdelen |
-| Alleen rentestanden nodig | \`haal_actuele_rentes_op\` | Toont actuele top-5 rentes |`;
+| Alleen rentestanden nodig | \`haal_actuele_rentes_op\` | Toont actuele top-5 rentes |
+| Verloop schuld over de tijd | \`bereken_aflosschema\` | Rente, aflossing en restschuld per leningdeel, incl. renteherziening |
+| Wat betaal ik netto? | \`bereken_netto_maandlast\` of \`toon_netto_maandlast: true\` | Hypotheekrenteaftrek, eigenwoningforfait en Wet Hillen per jaar |
+| Kan ik NHG krijgen? | \`controleer_nhg\` | Opzet-tools tonen ook automatisch een NHG-hint |
+| Moet ik boeterente betalen? | \`bereken_boeterente\` | Optioneel meefinancieren via \`boeterente_meefinancieren\` in opzet doorstromer |
+| Loont rentemiddeling? | \`bereken_rentemiddeling\` | Middelrente, break-even en kostenverschil t.o.v. wachten |
+| Wat als rente/inkomen/looptijd anders is? | \`bereken_gevoeligheid\` | Eén call in plaats van herhaalde uitgebreide berekeningen |
+| Hoeveel moet ik verdienen voor deze woning? | \`bereken_benodigd_inkomen\` | Zoekt het minimale inkomen via de opzet-berekening |
+| Wat is de duurste woning die ik kan kopen? | \`bereken_maximale_koopsom\` | Zoekt de hoogste koopsom incl. eigen geld via de opzet-berekening |
+| Vergelijk 10 en 20 jaar vast / met en zonder NHG | \`vergelijk_scenarios\` | Basisinvoer van een uitgebreide tool plus benoemde aanpassingen |
+| Hoe lang zet ik de rente vast? | \`advies_rentevaste_periode\` | Actuele rente en maandlast per periode voor bedrag, LTV en NHG |
+| Loont oversluiten zonder te verhuizen? | \`bereken_oversluiten\` | Boeterente + kosten tegen maandlastbesparing, met break-even maand |
+| Moet ik extra aflossen? | \`simuleer_extra_aflossen\` | Lagere maandlast vs kortere looptijd, binnen de boetevrije ruimte |
+| Huren of kopen? | \`vergelijk_huren_kopen\` | Vermogen per jaar bij kopen vs blijven huren |`;
 
   const formatTableRows = FORMAT_RULES.map(rule => `| ${rule.parameter} | ${rule.format} | ${rule.good} | ${rule.bad} |`).join('\n');
   const formatTable = `| Parameter | Format | ✅ Goed | ❌ Fout |
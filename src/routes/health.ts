@@ -314,7 +314,7 @@ export function resetHealthChecker(): void {
 
 /**
  * Express-compatible health endpoint handler
- * (Not used in MCP stdio mode, but useful if deployed with HTTP transport)
+ * (Served via src/routes/ops-server.ts)
  */
 export async function healthHandler(req: any, res: any): Promise<void> {
   const checker = getHealthChecker();
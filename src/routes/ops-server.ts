@@ -0,0 +1,165 @@
+/**
+ * Operationele HTTP endpoints
+ *
+ * Lichtgewicht node:http listener voor Kubernetes probes en Prometheus:
+ * - GET /health  → volledige health check
+ * - GET /ready   → readiness probe
+ * - GET /live    → liveness probe
+ * - GET /metrics → Prometheus tekstformaat (of JSON via ?format=json)
+ *
+ * De bestaande handlers zijn Express-compatible geschreven; deze module
+ * levert een minimale req/res adapter zodat ze zonder Express draaien.
+ */
+
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from 'node:http';
+
+import { createLogger } from '../utils/logger.js';
+import { healthHandler, livenessHandler, readinessHandler } from './health.js';
+import { metricsHandler } from '../metrics/exporter.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface OpsRequest {
+  path: string;
+  query: Record<string, string>;
+}
+
+export interface OpsResponse {
+  status(code: number): OpsResponse;
+  json(body: unknown): void;
+  setHeader(name: string, value: string): void;
+  send(body: string): void;
+}
+
+type OpsHandler = (req: OpsRequest, res: OpsResponse) => void | Promise<void>;
+
+// ==============================================================================
+// ROUTES
+// ==============================================================================
+
+const OPS_ROUTES: Record<string, OpsHandler> = {
+  '/health': healthHandler,
+  '/ready': readinessHandler,
+  '/live': livenessHandler,
+  '/metrics': metricsHandler,
+};
+
+// ==============================================================================
+// ADAPTERS
+// ==============================================================================
+
+/**
+ * Maak een Express-achtig request object
+ */
+function toOpsRequest(req: IncomingMessage): OpsRequest {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  return {
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+}
+
+/**
+ * Wrap een node ServerResponse in een Express-achtige response
+ */
+function toOpsResponse(res: ServerResponse): OpsResponse {
+  let statusCode = 200;
+
+  const adapter: OpsResponse = {
+    status(code: number) {
+      statusCode = code;
+      return adapter;
+    },
+    json(body: unknown) {
+      res.statusCode = statusCode;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    },
+    setHeader(name: string, value: string) {
+      res.setHeader(name, value);
+    },
+    send(body: string) {
+      res.statusCode = statusCode;
+      res.end(body);
+    },
+  };
+
+  return adapter;
+}
+
+// ==============================================================================
+// REQUEST HANDLING
+// ==============================================================================
+
+/**
+ * Verwerk een operationeel endpoint. Geeft false terug wanneer het pad
+ * geen ops-route is, zodat een andere listener het request kan afhandelen.
+ */
+export async function handleOpsRequest(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<boolean> {
+  const opsRequest = toOpsRequest(req);
+  const handler = OPS_ROUTES[opsRequest.path];
+
+  if (!handler) {
+    return false;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' });
+    res.end();
+    return true;
+  }
+
+  await handler(opsRequest, toOpsResponse(res));
+  return true;
+}
+
+/**
+ * Start een losse listener voor de operationele endpoints
+ */
+export async function startOpsServer(port: number, host: string): Promise<HttpServer> {
+  const logger = createLogger();
+
+  const server = createHttpServer((req, res) => {
+    handleOpsRequest(req, res)
+      .then((handled) => {
+        if (!handled) {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Not found' }));
+        }
+      })
+      .catch((error) => {
+        logger.error('Ops endpoint failed', error, { url: req.url });
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  logger.info('Ops endpoints gestart', {
+    host,
+    port: address && typeof address === 'object' ? address.port : port,
+    routes: Object.keys(OPS_ROUTES),
+  });
+
+  return server;
+}
@@ -0,0 +1,416 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Serveert de MCP server via het Streamable HTTP protocol zodat één
+ * langlopende deployment meerdere agents tegelijk kan bedienen.
+ *
+ * Features:
+ * - Eén MCP server + transport per sessie (Mcp-Session-Id header)
+ * - POST voor requests, GET voor server-sent events, DELETE om te sluiten
+ * - Automatische cleanup van inactieve sessies
+ * - Maximaal aantal gelijktijdige sessies
+ * - DNS-rebinding bescherming via toegestane Host- en Origin-headers
+ */
+
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { createLogger } from '../utils/logger.js';
+
+// ==============================================================================
+// TYPES
+// ==============================================================================
+
+export interface McpHttpServerOptions {
+  port: number;
+  host: string;
+  path: string;
+  sessionIdleTimeoutMs: number;
+  // Maximaal aantal gelijktijdige sessies (default 100)
+  maxSessions?: number;
+  // Toegestane Host-headers (default localhost en 127.0.0.1 op de gebonden poort)
+  allowedHosts?: string[];
+  // Toegestane Origin-headers; zonder lijst wordt de Origin niet gecontroleerd
+  allowedOrigins?: string[];
+  createServer: () => Server;
+  // Optionele handler voor overige paden (bijv. /health); true = afgehandeld
+  fallbackHandler?: (req: IncomingMessage, res: ServerResponse) => Promise<boolean>;
+}
+
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastSeenAt: number;
+}
+
+// ==============================================================================
+// CONSTANTS
+// ==============================================================================
+
+const SESSION_HEADER = 'mcp-session-id';
+const MAX_BODY_BYTES = 1_048_576; // 1 MB
+const DEFAULT_MAX_SESSIONS = 100;
+
+// JSON-RPC error codes
+const JSONRPC_PARSE_ERROR = -32700;
+const JSONRPC_INVALID_REQUEST = -32600;
+const JSONRPC_INTERNAL_ERROR = -32603;
+
+// ==============================================================================
+// HELPERS
+// ==============================================================================
+
+/**
+ * Stuur een JSON-RPC error response
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string
+): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Lees en parse de JSON body van een request
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RangeError(`Request body groter dan ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+function isInitializeBody(body: unknown): boolean {
+  if (Array.isArray(body)) {
+    return body.some((message) => isInitializeRequest(message));
+  }
+  return isInitializeRequest(body);
+}
+
+// ==============================================================================
+// HTTP SERVER
+// ==============================================================================
+
+export class McpHttpServer {
+  private logger = createLogger();
+  private options: McpHttpServerOptions;
+  private sessions = new Map<string, SessionEntry>();
+  // Initialize requests die nog geen sessie-ID hebben
+  private pendingSessions = 0;
+  private httpServer: HttpServer | null = null;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  // Cleanup interval (every minute)
+  private readonly CLEANUP_INTERVAL_MS = 60_000;
+
+  constructor(options: McpHttpServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start de HTTP listener
+   */
+  async start(): Promise<void> {
+    if (this.httpServer) return;
+
+    const httpServer = createHttpServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.logger.error('HTTP request handling failed', error);
+        sendJsonRpcError(res, 500, JSONRPC_INTERNAL_ERROR, 'Internal server error');
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.startCleanup();
+
+    this.logger.info('Streamable HTTP transport gestart', {
+      host: this.options.host,
+      port: this.getPort(),
+      path: this.options.path,
+    });
+  }
+
+  /**
+   * Stop de listener en sluit alle sessies
+   */
+  async stop(): Promise<void> {
+    this.stopCleanup();
+
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      await this.closeSession(sessionId);
+    }
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      const gesloten = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      // Keep-alive verbindingen zonder lopend request houden close() anders open
+      httpServer.closeIdleConnections();
+      await gesloten;
+    }
+  }
+
+  /**
+   * Daadwerkelijk gebonden poort (handig bij port 0 in tests)
+   */
+  getPort(): number | undefined {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  /**
+   * Host-headers waarop de MCP endpoint antwoordt
+   */
+  private resolveAllowedHosts(): string[] {
+    if (this.options.allowedHosts) {
+      return this.options.allowedHosts;
+    }
+    const port = this.getPort() ?? this.options.port;
+    return [`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`];
+  }
+
+  /**
+   * Aantal actieve sessies
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Route een inkomend HTTP request
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== this.options.path) {
+      if (this.options.fallbackHandler && (await this.options.fallbackHandler(req, res))) {
+        return;
+      }
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    const headerValue = req.headers[SESSION_HEADER];
+    const sessionId = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+
+    if (req.method === 'POST') {
+      await this.handlePost(req, res, sessionId);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const entry = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (!entry) {
+        sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          JSONRPC_INVALID_REQUEST,
+          'Ongeldige of ontbrekende sessie-ID'
+        );
+        return;
+      }
+      entry.lastSeenAt = Date.now();
+      await entry.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' });
+    res.end();
+  }
+
+  /**
+   * Verwerk een POST: bestaande sessie of nieuwe initialize
+   */
+  private async handlePost(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId?: string
+  ): Promise<void> {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      const tooLarge = error instanceof RangeError;
+      sendJsonRpcError(
+        res,
+        tooLarge ? 413 : 400,
+        JSONRPC_PARSE_ERROR,
+        tooLarge ? 'Request body te groot' : 'Ongeldige JSON body'
+      );
+      return;
+    }
+
+    if (sessionId) {
+      const entry = this.sessions.get(sessionId);
+      if (!entry) {
+        sendJsonRpcError(res, 404, JSONRPC_INVALID_REQUEST, 'Sessie niet gevonden of verlopen');
+        return;
+      }
+      entry.lastSeenAt = Date.now();
+      await entry.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeBody(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        JSONRPC_INVALID_REQUEST,
+        'Geen sessie-ID: eerste request moet een initialize zijn'
+      );
+      return;
+    }
+
+    const maxSessions = this.options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    if (this.sessions.size + this.pendingSessions >= maxSessions) {
+      this.logger.warn('Maximaal aantal MCP sessies bereikt', { max_sessions: maxSessions });
+      sendJsonRpcError(
+        res,
+        503,
+        JSONRPC_INVALID_REQUEST,
+        'Maximaal aantal sessies bereikt, probeer het later opnieuw'
+      );
+      return;
+    }
+
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.resolveAllowedHosts(),
+      allowedOrigins: this.options.allowedOrigins,
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, { transport, server, lastSeenAt: Date.now() });
+        this.logger.info('MCP sessie gestart', {
+          mcp_session_id: newSessionId,
+          active_sessions: this.sessions.size,
+        });
+      },
+    });
+
+    transport.onclose = () => {
+      const closedId = transport.sessionId;
+      if (closedId && this.sessions.delete(closedId)) {
+        this.logger.info('MCP sessie gesloten', {
+          mcp_session_id: closedId,
+          active_sessions: this.sessions.size,
+        });
+      }
+    };
+
+    this.pendingSessions++;
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      this.pendingSessions--;
+      // Initialize mislukt: zonder sessie wordt deze server nooit meer opgeruimd
+      if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+        await server.close().catch((error) => {
+          this.logger.warn('Sluiten MCP server zonder sessie mislukt', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+    }
+  }
+
+  /**
+   * Sluit een sessie en de bijbehorende MCP server
+   */
+  private async closeSession(sessionId: string): Promise<void> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+
+    this.sessions.delete(sessionId);
+    try {
+      await entry.server.close();
+    } catch (error) {
+      this.logger.warn('Sluiten MCP sessie mislukt', {
+        mcp_session_id: sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Cleanup inactieve sessies
+   */
+  private async cleanup(): Promise<void> {
+    const staleThreshold = Date.now() - this.options.sessionIdleTimeoutMs;
+
+    let removed = 0;
+    for (const [sessionId, entry] of Array.from(this.sessions.entries())) {
+      if (entry.lastSeenAt < staleThreshold) {
+        await this.closeSession(sessionId);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.debug('Cleaned up idle MCP sessions', {
+        removed,
+        remaining: this.sessions.size,
+      });
+    }
+  }
+
+  /**
+   * Start automatic cleanup
+   */
+  private startCleanup(): void {
+    if (this.cleanupInterval) return;
+
+    this.cleanupInterval = setInterval(() => {
+      void this.cleanup();
+    }, this.CLEANUP_INTERVAL_MS);
+
+    // Allow process to exit
+    if (this.cleanupInterval.unref) {
+      this.cleanupInterval.unref();
+    }
+  }
+
+  /**
+   * Stop cleanup
+   */
+  private stopCleanup(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+}
@@ -105,8 +105,55 @@ export const ValidationConstraints = {
     MIN: 0,
     MAX: 50_000,
   },
+  OVERBRUGGING: {
+    MAX_MAANDEN: 24,
+  },
+  BOUWDEPOT: {
+    MAX_MAANDEN: 24,
+  },
 } as const;
 
+// ==============================================================================
+// DOMAIN TYPES
+// ==============================================================================
+
+/**
+ * Bestaand leningdeel zoals aangeleverd in bestaande_hypotheek.leningdelen
+ */
+export interface Leningdeel {
+  huidige_schuld: number;
+  huidige_rente: number;
+  resterende_looptijd_in_maanden: number;
+  rentevasteperiode_maanden: number;
+  hypotheekvorm: string;
+}
+
+/**
+ * Renteklasse zoals aangeleverd in nieuwe_lening.renteklassen (LTV-grenzen en rente in procenten)
+ */
+export interface Renteklasse {
+  naam: string;
+  lowerbound_ltv_pct: number;
+  higherbound_ltv_pct: number;
+  nhg: boolean;
+  rente_jaarlijks_pct: number;
+}
+
+/**
+ * Startersleningregels van een gemeente zoals ingelezen uit STARTERSLENING_REGELS_PATH
+ */
+export interface StartersleningRegels {
+  gemeente: string;
+  max_bedrag: number;
+  // Hoogste koopsom (inclusief verbouwing) waarvoor de gemeente een starterslening verstrekt
+  max_koopsom?: number;
+  // Maximaal deel van de koopsom als decimaal
+  max_percentage_koopsom?: number;
+  rente: number;
+  looptijd_maanden: number;
+  rentevrije_maanden: number;
+}
+
 // ==============================================================================
 // ERROR TYPES
 // ==============================================================================
@@ -0,0 +1,30 @@
+/**
+ * Begrensde parallelliteit
+ *
+ * Voert async taken uit met een maximum aantal gelijktijdige taken, zodat
+ * een toolcall die meerdere backend-calls doet de API niet overspoelt.
+ */
+
+/**
+ * Map over items met maximaal `limiet` gelijktijdige taken; de volgorde van
+ * de resultaten komt overeen met de volgorde van de items
+ */
+export async function mapMetLimiet<T, R>(
+  items: T[],
+  limiet: number,
+  taak: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const resultaten = new Array<R>(items.length);
+  let volgende = 0;
+
+  const werker = async (): Promise<void> => {
+    while (volgende < items.length) {
+      const index = volgende++;
+      resultaten[index] = await taak(items[index], index);
+    }
+  };
+
+  const aantalWerkers = Math.min(Math.max(1, Math.floor(limiet)), items.length);
+  await Promise.all(Array.from({ length: aantalWerkers }, werker));
+  return resultaten;
+}
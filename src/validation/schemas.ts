@@ -12,7 +12,8 @@ import {
   ValidationConstraints,
   ErrorCode,
   ValidationError,
-  calculateAge
+  calculateAge,
+  normalizeHypotheekvorm,
 } from '../types/index.js';
 
 // ==============================================================================
@@ -105,7 +106,7 @@ export function validateBaseArguments(args: unknown): void {
   if (typeof input.inkomen_aanvrager !== 'number') {
     throw new ValidationError(
       ErrorCode.INVALID_INPUT,
-      'inkomen_aanvrager moet een getal zijn',
+      'inkomen_aanvrager moet een getal zijn (of geef inkomensbron_aanvrager op)',
       'inkomen_aanvrager',
       input.inkomen_aanvrager
     );
@@ -200,6 +201,18 @@ export function validateBaseArguments(args: unknown): void {
       );
     }
   }
+
+  // Valideer pensioeninkomen voor de toets op pensioenleeftijd
+  validateOptionalBedrag(
+    input.pensioeninkomen_aanvrager,
+    'pensioeninkomen_aanvrager',
+    ValidationConstraints.INKOMEN.MAX
+  );
+  validateOptionalBedrag(
+    input.pensioeninkomen_partner,
+    'pensioeninkomen_partner',
+    ValidationConstraints.INKOMEN.MAX
+  );
 }
 
 /**
@@ -364,3 +377,1279 @@ export function validateDoorstromerArguments(args: unknown): void {
   
   validateBestaandeHypotheek(input.bestaande_hypotheek);
 }
+
+/**
+ * Valideer een optionele rente (decimaal, bijv. 0.042 voor 4.2%)
+ */
+export function validateOptionalRente(value: unknown, field: string): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een getal zijn (decimaal, bijv. 0.042 voor 4.2%)`,
+      field,
+      value
+    );
+  }
+
+  if (value < ValidationConstraints.RENTE.MIN || value > ValidationConstraints.RENTE.MAX) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet tussen ${ValidationConstraints.RENTE.MIN} en ${ValidationConstraints.RENTE.MAX} liggen (0.042 voor 4.2%)`,
+      field,
+      value
+    );
+  }
+}
+
+/**
+ * Valideer aflosschema arguments
+ */
+export function validateAflosschemaArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  validateBestaandeHypotheek({ leningdelen: input.leningdelen });
+
+  if (input.weergave !== undefined && input.weergave !== 'maand' && input.weergave !== 'jaar') {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'weergave moet "maand" of "jaar" zijn',
+      'weergave',
+      input.weergave
+    );
+  }
+
+  validateOptionalRente(input.nieuwe_rente, 'nieuwe_rente');
+}
+
+/**
+ * Valideer een optionele WOZ-waarde
+ */
+export function validateOptionalWozWaarde(value: unknown, field: string = 'woz_waarde'): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een getal zijn`,
+      field,
+      value
+    );
+  }
+
+  if (
+    value < ValidationConstraints.WONING_WAARDE.MIN ||
+    value > ValidationConstraints.WONING_WAARDE.MAX
+  ) {
+    throw new ValidationError(
+      ErrorCode.WONING_VALUE_OUT_OF_RANGE,
+      `${field} moet tussen €${ValidationConstraints.WONING_WAARDE.MIN.toLocaleString('nl-NL')} en €${ValidationConstraints.WONING_WAARDE.MAX.toLocaleString('nl-NL')} liggen`,
+      field,
+      value
+    );
+  }
+}
+
+/**
+ * Valideer netto maandlast arguments
+ */
+export function validateNettoMaandlastArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  if (
+    typeof input.inkomen_aanvrager !== 'number' ||
+    input.inkomen_aanvrager < ValidationConstraints.INKOMEN.MIN ||
+    input.inkomen_aanvrager > ValidationConstraints.INKOMEN.MAX
+  ) {
+    throw new ValidationError(
+      ErrorCode.INCOME_OUT_OF_RANGE,
+      `Inkomen aanvrager moet tussen €${ValidationConstraints.INKOMEN.MIN} en €${ValidationConstraints.INKOMEN.MAX} liggen`,
+      'inkomen_aanvrager',
+      input.inkomen_aanvrager
+    );
+  }
+
+  if (
+    input.inkomen_partner !== undefined &&
+    (typeof input.inkomen_partner !== 'number' ||
+      input.inkomen_partner < ValidationConstraints.INKOMEN.MIN ||
+      input.inkomen_partner > ValidationConstraints.INKOMEN.MAX)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INCOME_OUT_OF_RANGE,
+      `Inkomen partner moet tussen €${ValidationConstraints.INKOMEN.MIN} en €${ValidationConstraints.INKOMEN.MAX} liggen`,
+      'inkomen_partner',
+      input.inkomen_partner
+    );
+  }
+
+  if (input.woz_waarde === undefined) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'woz_waarde is verplicht voor de netto maandlast',
+      'woz_waarde'
+    );
+  }
+  validateOptionalWozWaarde(input.woz_waarde);
+
+  if (input.leningdelen !== undefined) {
+    validateBestaandeHypotheek({ leningdelen: input.leningdelen });
+    return;
+  }
+
+  if (typeof input.hypotheekbedrag !== 'number' || input.hypotheekbedrag <= 0) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Geef leningdelen of een positief hypotheekbedrag met rente op',
+      'hypotheekbedrag',
+      input.hypotheekbedrag
+    );
+  }
+
+  if (input.rente === undefined) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'rente is verplicht naast hypotheekbedrag',
+      'rente'
+    );
+  }
+  validateOptionalRente(input.rente, 'rente');
+
+  if (
+    input.looptijd_maanden !== undefined &&
+    (typeof input.looptijd_maanden !== 'number' ||
+      input.looptijd_maanden < ValidationConstraints.LOOPTIJD.MIN_MAANDEN ||
+      input.looptijd_maanden > ValidationConstraints.LOOPTIJD.MAX_MAANDEN)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `looptijd_maanden moet tussen ${ValidationConstraints.LOOPTIJD.MIN_MAANDEN} en ${ValidationConstraints.LOOPTIJD.MAX_MAANDEN} liggen`,
+      'looptijd_maanden',
+      input.looptijd_maanden
+    );
+  }
+
+  if (input.hypotheekvorm !== undefined) {
+    normalizeHypotheekvorm(String(input.hypotheekvorm));
+  }
+}
+
+/**
+ * Valideer optionele kosten koper invoer (nieuwe_woning.kosten_koper)
+ */
+export function validateKostenKoperInvoer(value: unknown): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'kosten_koper moet een object zijn',
+      'nieuwe_woning.kosten_koper'
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+
+  for (const field of ['notariskosten', 'taxatiekosten', 'advieskosten']) {
+    const bedrag = input[field];
+    if (
+      bedrag !== undefined &&
+      (typeof bedrag !== 'number' || !Number.isFinite(bedrag) || bedrag < 0 || bedrag > 100_000)
+    ) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${field} moet tussen €0 en €100.000 liggen`,
+        `nieuwe_woning.kosten_koper.${field}`,
+        bedrag
+      );
+    }
+  }
+
+  for (const field of [
+    'nhg',
+    'startersvrijstelling_gebruikt_aanvrager',
+    'startersvrijstelling_gebruikt_partner',
+  ]) {
+    if (input[field] !== undefined && typeof input[field] !== 'boolean') {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${field} moet een boolean zijn`,
+        `nieuwe_woning.kosten_koper.${field}`,
+        input[field]
+      );
+    }
+  }
+}
+
+/**
+ * Valideer een optioneel niet-negatief bedrag
+ */
+export function validateOptionalBedrag(
+  value: unknown,
+  field: string,
+  max: number = ValidationConstraints.WONING_WAARDE.MAX
+): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een bedrag tussen €0 en €${max.toLocaleString('nl-NL')} zijn`,
+      field,
+      value
+    );
+  }
+}
+
+/**
+ * Valideer NHG-toets arguments
+ */
+export function validateNhgArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  if (
+    typeof input.waarde_woning !== 'number' ||
+    input.waarde_woning < ValidationConstraints.WONING_WAARDE.MIN ||
+    input.waarde_woning > ValidationConstraints.WONING_WAARDE.MAX
+  ) {
+    throw new ValidationError(
+      ErrorCode.WONING_VALUE_OUT_OF_RANGE,
+      `waarde_woning moet tussen €${ValidationConstraints.WONING_WAARDE.MIN.toLocaleString('nl-NL')} en €${ValidationConstraints.WONING_WAARDE.MAX.toLocaleString('nl-NL')} liggen`,
+      'waarde_woning',
+      input.waarde_woning
+    );
+  }
+
+  const bedragVelden = [
+    'hypotheekbedrag',
+    'bedrag_verbouwen',
+    'bedrag_verduurzamen',
+    'kosten_koper',
+    'eigen_vermogen',
+  ];
+  for (const field of bedragVelden) {
+    validateOptionalBedrag(input[field], field);
+  }
+
+  if (input.renteklassen !== undefined && !Array.isArray(input.renteklassen)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'renteklassen moet een array zijn',
+      'renteklassen'
+    );
+  }
+}
+
+/**
+ * Valideer een optionele fractie tussen 0 en 1
+ */
+export function validateOptionalFractie(value: unknown, field: string): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een decimaal tussen 0 en 1 zijn (0.1 voor 10%)`,
+      field,
+      value
+    );
+  }
+}
+
+/**
+ * Valideer boeterente arguments
+ */
+export function validateBoeterenteArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  validateBestaandeHypotheek({ leningdelen: input.leningdelen });
+  validateOptionalRente(input.vergelijkingsrente, 'vergelijkingsrente');
+  validateOptionalFractie(input.boetevrij_percentage, 'boetevrij_percentage');
+}
+
+/**
+ * Valideer rentemiddeling arguments
+ */
+export function validateRentemiddelingArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  validateBestaandeHypotheek({ leningdelen: [input.leningdeel] });
+  const leningdeel = input.leningdeel as Record<string, number>;
+
+  const nieuwePeriode = input.nieuwe_rentevaste_periode_maanden;
+  if (
+    typeof nieuwePeriode !== 'number' ||
+    !Number.isInteger(nieuwePeriode) ||
+    nieuwePeriode < ValidationConstraints.LOOPTIJD.MIN_MAANDEN ||
+    nieuwePeriode > ValidationConstraints.LOOPTIJD.MAX_MAANDEN
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `nieuwe_rentevaste_periode_maanden moet een geheel getal tussen ${ValidationConstraints.LOOPTIJD.MIN_MAANDEN} en ${ValidationConstraints.LOOPTIJD.MAX_MAANDEN} zijn`,
+      'nieuwe_rentevaste_periode_maanden',
+      nieuwePeriode
+    );
+  }
+
+  if (nieuwePeriode < leningdeel.rentevasteperiode_maanden) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'nieuwe_rentevaste_periode_maanden moet minimaal gelijk zijn aan de resterende rentevaste periode',
+      'nieuwe_rentevaste_periode_maanden',
+      nieuwePeriode
+    );
+  }
+
+  if (nieuwePeriode > leningdeel.resterende_looptijd_in_maanden) {
+    throw new ValidationError(
+      ErrorCode.RENTEVAST_EXCEEDS_LOOPTIJD,
+      'nieuwe_rentevaste_periode_maanden mag niet langer zijn dan de resterende looptijd',
+      'nieuwe_rentevaste_periode_maanden',
+      nieuwePeriode
+    );
+  }
+
+  validateOptionalRente(input.nieuwe_rente, 'nieuwe_rente');
+  validateOptionalRente(input.renteopslag, 'renteopslag');
+  validateOptionalRente(input.rente_na_afloop, 'rente_na_afloop');
+}
+
+function validateOptionalGetallenlijst(
+  value: unknown,
+  field: string,
+  min: number,
+  max: number,
+  omschrijving: string
+): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (
+    !Array.isArray(value) ||
+    value.some(
+      (item) => typeof item !== 'number' || !Number.isFinite(item) || item < min || item > max
+    )
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een lijst met ${omschrijving} tussen ${min} en ${max} zijn`,
+      field,
+      value
+    );
+  }
+}
+
+/**
+ * Valideer gevoeligheidsanalyse arguments (bovenop de basisintake)
+ */
+export function validateGevoeligheidArguments(args: unknown, maxScenarios: number): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  validateOptionalGetallenlijst(
+    input.rente_variaties,
+    'rente_variaties',
+    -0.05,
+    0.05,
+    'renteverschuivingen (decimaal)'
+  );
+  validateOptionalGetallenlijst(
+    input.inkomen_variaties,
+    'inkomen_variaties',
+    -0.9,
+    1,
+    'inkomensverschuivingen (decimaal)'
+  );
+  validateOptionalGetallenlijst(
+    input.looptijden_jaren,
+    'looptijden_jaren',
+    ValidationConstraints.LOOPTIJD.MIN_MAANDEN / 12,
+    ValidationConstraints.LOOPTIJD.MAX_MAANDEN / 12,
+    'looptijden in jaren'
+  );
+
+  const aantal = (lijst: unknown) =>
+    Array.isArray(lijst) && lijst.length > 0 ? new Set(lijst).size : 1;
+  const scenarios =
+    aantal(input.rente_variaties) *
+    aantal(input.inkomen_variaties) *
+    aantal(input.looptijden_jaren);
+  if (scenarios > maxScenarios) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `Maximaal ${maxScenarios} combinaties per analyse (nu ${scenarios})`,
+      'variaties',
+      scenarios
+    );
+  }
+
+  const renteVariaties = Array.isArray(input.rente_variaties) ? input.rente_variaties : [];
+  const maatwerk = (input.nieuwe_hypotheek ?? input.nieuwe_lening) as
+    Record<string, unknown> | undefined;
+  if (renteVariaties.some((delta) => delta !== 0) && typeof maatwerk?.rente !== 'number') {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'rente_variaties vereist een basisrente in nieuwe_hypotheek.rente',
+      'nieuwe_hypotheek.rente'
+    );
+  }
+}
+
+/**
+ * Valideer de scenariolijst van een scenariovergelijking
+ */
+export function validateVergelijkScenariosArguments(args: unknown, maxScenarios: number): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  if (input.soort !== 'bereken' && input.soort !== 'opzet') {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'soort moet "bereken" of "opzet" zijn',
+      'soort',
+      input.soort
+    );
+  }
+
+  if (typeof input.basis !== 'object' || input.basis === null || Array.isArray(input.basis)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'basis moet een object met de invoer van de berekening zijn',
+      'basis'
+    );
+  }
+
+  if (
+    !Array.isArray(input.scenarios) ||
+    input.scenarios.length === 0 ||
+    input.scenarios.length > maxScenarios
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `scenarios moet een lijst met 1 tot ${maxScenarios} scenario's zijn`,
+      'scenarios',
+      Array.isArray(input.scenarios) ? input.scenarios.length : input.scenarios
+    );
+  }
+
+  const namen = new Set<string>();
+  input.scenarios.forEach((scenario: unknown, index: number) => {
+    const item = scenario as Record<string, unknown> | null;
+    const naam = typeof item?.naam === 'string' ? item.naam.trim() : '';
+    if (!naam) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `scenarios[${index}].naam is verplicht`,
+        `scenarios[${index}].naam`
+      );
+    }
+    if (namen.has(naam) || naam.toLowerCase() === 'basis') {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `Scenarionaam "${naam}" komt meerdere keren voor`,
+        `scenarios[${index}].naam`,
+        naam
+      );
+    }
+    namen.add(naam);
+    if (
+      typeof item?.aanpassingen !== 'object' ||
+      item.aanpassingen === null ||
+      Array.isArray(item.aanpassingen)
+    ) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `scenarios[${index}].aanpassingen moet een object zijn`,
+        `scenarios[${index}].aanpassingen`
+      );
+    }
+  });
+}
+
+/**
+ * Valideer rentevaste periode advies arguments
+ */
+export function validateRentevastAdviesArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  if (
+    typeof input.hypotheekbedrag !== 'number' ||
+    input.hypotheekbedrag <= 0 ||
+    input.hypotheekbedrag > ValidationConstraints.WONING_WAARDE.MAX
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `hypotheekbedrag moet tussen €0 en €${ValidationConstraints.WONING_WAARDE.MAX.toLocaleString('nl-NL')} liggen`,
+      'hypotheekbedrag',
+      input.hypotheekbedrag
+    );
+  }
+
+  // LTV boven 100% alleen met verduurzaming (maximaal 106%)
+  if (
+    typeof input.ltv !== 'number' ||
+    !Number.isFinite(input.ltv) ||
+    input.ltv <= 0 ||
+    input.ltv > 1.06
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'ltv moet een decimaal tussen 0 en 1,06 zijn (bijv. 0.85 voor 85%)',
+      'ltv',
+      input.ltv
+    );
+  }
+
+  if (input.nhg !== undefined && typeof input.nhg !== 'boolean') {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'nhg moet true of false zijn',
+      'nhg',
+      input.nhg
+    );
+  }
+
+  if (
+    input.looptijd_jaren !== undefined &&
+    (typeof input.looptijd_jaren !== 'number' ||
+      input.looptijd_jaren < 1 ||
+      input.looptijd_jaren * 12 > ValidationConstraints.LOOPTIJD.MAX_MAANDEN)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `looptijd_jaren moet tussen 1 en ${ValidationConstraints.LOOPTIJD.MAX_MAANDEN / 12} liggen`,
+      'looptijd_jaren',
+      input.looptijd_jaren
+    );
+  }
+}
+
+/**
+ * Valideer oversluiten arguments
+ */
+export function validateOversluitenArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  validateBestaandeHypotheek({ leningdelen: input.leningdelen });
+  validateOptionalRente(input.nieuwe_rente, 'nieuwe_rente');
+  validateOptionalRente(input.vergelijkingsrente, 'vergelijkingsrente');
+  validateOptionalFractie(input.boetevrij_percentage, 'boetevrij_percentage');
+  for (const field of ['advieskosten', 'notariskosten', 'taxatiekosten']) {
+    validateOptionalBedrag(input[field], field, 25_000);
+  }
+
+  const nieuwePeriode = input.nieuwe_rentevaste_periode_maanden;
+  if (
+    nieuwePeriode !== undefined &&
+    (typeof nieuwePeriode !== 'number' ||
+      !Number.isInteger(nieuwePeriode) ||
+      nieuwePeriode < ValidationConstraints.LOOPTIJD.MIN_MAANDEN ||
+      nieuwePeriode > ValidationConstraints.LOOPTIJD.MAX_MAANDEN)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `nieuwe_rentevaste_periode_maanden moet een geheel getal tussen ${ValidationConstraints.LOOPTIJD.MIN_MAANDEN} en ${ValidationConstraints.LOOPTIJD.MAX_MAANDEN} zijn`,
+      'nieuwe_rentevaste_periode_maanden',
+      nieuwePeriode
+    );
+  }
+}
+
+/**
+ * Valideer extra aflossen arguments
+ */
+export function validateExtraAflossenArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  validateBestaandeHypotheek({ leningdelen: input.leningdelen });
+  validateOptionalBedrag(input.eenmalig, 'eenmalig');
+  validateOptionalBedrag(input.periodiek, 'periodiek');
+  validateOptionalFractie(input.boetevrij_percentage, 'boetevrij_percentage');
+
+  if (!input.eenmalig && !input.periodiek) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Geef een eenmalige en/of periodieke extra aflossing op',
+      'eenmalig'
+    );
+  }
+
+  if (
+    input.frequentie !== undefined &&
+    input.frequentie !== 'maand' &&
+    input.frequentie !== 'jaar'
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'frequentie moet "maand" of "jaar" zijn',
+      'frequentie',
+      input.frequentie
+    );
+  }
+}
+
+/**
+ * Valideer de aannames van een huren-versus-kopen vergelijking
+ */
+export function validateHurenKopenArguments(args: unknown): void {
+  if (typeof args !== 'object' || args === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'Arguments moet een object zijn',
+      'arguments'
+    );
+  }
+
+  const input = args as Record<string, unknown>;
+
+  if (
+    typeof input.huur_per_maand !== 'number' ||
+    input.huur_per_maand <= 0 ||
+    input.huur_per_maand > 20_000
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'huur_per_maand moet tussen €0 en €20.000 liggen',
+      'huur_per_maand',
+      input.huur_per_maand
+    );
+  }
+
+  for (const field of ['huurstijging', 'waardestijging', 'rendement']) {
+    const value = input[field];
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' || !Number.isFinite(value) || value < -0.2 || value > 0.2)
+    ) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${field} moet een decimaal tussen -0,2 en 0,2 zijn (bijv. 0.03 voor 3%)`,
+        field,
+        value
+      );
+    }
+  }
+
+  const eigenaarslasten = input.eigenaarslasten_percentage;
+  if (
+    eigenaarslasten !== undefined &&
+    (typeof eigenaarslasten !== 'number' || eigenaarslasten < 0 || eigenaarslasten > 0.05)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      'eigenaarslasten_percentage moet een decimaal tussen 0 en 0,05 zijn',
+      'eigenaarslasten_percentage',
+      eigenaarslasten
+    );
+  }
+
+  const horizon = input.horizon_jaren;
+  if (
+    horizon !== undefined &&
+    (typeof horizon !== 'number' ||
+      !Number.isInteger(horizon) ||
+      horizon < 1 ||
+      horizon > ValidationConstraints.LOOPTIJD.MAX_MAANDEN / 12)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `horizon_jaren moet een geheel getal tussen 1 en ${ValidationConstraints.LOOPTIJD.MAX_MAANDEN / 12} zijn`,
+      'horizon_jaren',
+      horizon
+    );
+  }
+}
+
+function parseOptionalDatum(value: unknown, field: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date =
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(value) : undefined;
+  if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new ValidationError(
+      ErrorCode.INVALID_DATE_FORMAT,
+      `${field} moet een geldige datum in YYYY-MM-DD formaat zijn`,
+      field,
+      value
+    );
+  }
+  return date;
+}
+
+/**
+ * Valideer de gegevens van een overbruggingskrediet
+ */
+export function validateOverbrugging(value: unknown, field: string = 'overbrugging'): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een object zijn`,
+      field,
+      value
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+  const verkoopdatum = parseOptionalDatum(
+    input.verwachte_verkoopdatum,
+    `${field}.verwachte_verkoopdatum`
+  );
+  if (!verkoopdatum) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.verwachte_verkoopdatum is verplicht`,
+      `${field}.verwachte_verkoopdatum`
+    );
+  }
+
+  if (input.rente === undefined) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.rente is verplicht`,
+      `${field}.rente`
+    );
+  }
+  validateOptionalRente(input.rente, `${field}.rente`);
+  validateOptionalBedrag(input.verwachte_overwaarde, `${field}.verwachte_overwaarde`);
+
+  const ingangsdatum =
+    parseOptionalDatum(input.ingangsdatum, `${field}.ingangsdatum`) ?? new Date();
+  const grens = new Date(ingangsdatum);
+  grens.setUTCMonth(grens.getUTCMonth() + ValidationConstraints.OVERBRUGGING.MAX_MAANDEN);
+  if (verkoopdatum <= ingangsdatum || verkoopdatum > grens) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.verwachte_verkoopdatum moet na de ingangsdatum en binnen ${ValidationConstraints.OVERBRUGGING.MAX_MAANDEN} maanden liggen`,
+      `${field}.verwachte_verkoopdatum`,
+      input.verwachte_verkoopdatum
+    );
+  }
+}
+
+/**
+ * Valideer het aantal maanden van het stressscenario dubbele woonlasten
+ */
+export function validateDubbeleLastenMaanden(
+  value: unknown,
+  field: string = 'dubbele_lasten_maanden'
+): void {
+  if (value === undefined) {
+    return;
+  }
+
+  const max = ValidationConstraints.OVERBRUGGING.MAX_MAANDEN;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een geheel aantal maanden tussen 1 en ${max} zijn`,
+      field,
+      value
+    );
+  }
+}
+
+/**
+ * Valideer de aannames voor financiering van een restschuld
+ */
+export function validateRestschuldFinanciering(
+  value: unknown,
+  field: string = 'restschuld_financiering'
+): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een object zijn`,
+      field,
+      value
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+  validateOptionalRente(input.rente, `${field}.rente`);
+
+  const maxJaren = ValidationConstraints.LOOPTIJD.MAX_MAANDEN / 12;
+  if (
+    input.looptijd_jaren !== undefined &&
+    (typeof input.looptijd_jaren !== 'number' ||
+      !Number.isInteger(input.looptijd_jaren) ||
+      input.looptijd_jaren < 1 ||
+      input.looptijd_jaren > maxJaren)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.looptijd_jaren moet een geheel getal tussen 1 en ${maxJaren} zijn`,
+      `${field}.looptijd_jaren`,
+      input.looptijd_jaren
+    );
+  }
+
+  parseOptionalDatum(input.verkoopdatum, `${field}.verkoopdatum`);
+}
+
+/**
+ * Valideer een schenking als deel van het eigen geld
+ */
+export function validateSchenking(value: unknown, field: string = 'schenking'): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een object zijn`,
+      field,
+      value
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+  if (typeof input.bedrag !== 'number' || input.bedrag <= 0) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.bedrag moet groter dan €0 zijn`,
+      `${field}.bedrag`,
+      input.bedrag
+    );
+  }
+  validateOptionalBedrag(input.bedrag, `${field}.bedrag`);
+
+  if (input.relatie !== undefined && input.relatie !== 'ouder' && input.relatie !== 'overig') {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.relatie moet 'ouder' of 'overig' zijn`,
+      `${field}.relatie`,
+      input.relatie
+    );
+  }
+
+  if (
+    input.verhoogde_vrijstelling !== undefined &&
+    typeof input.verhoogde_vrijstelling !== 'boolean'
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.verhoogde_vrijstelling moet true of false zijn`,
+      `${field}.verhoogde_vrijstelling`,
+      input.verhoogde_vrijstelling
+    );
+  }
+}
+
+/**
+ * Valideer een onderhandse lening van familie (familiebank)
+ */
+export function validateFamilielening(value: unknown, field: string = 'familielening'): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een object zijn`,
+      field,
+      value
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+  if (typeof input.bedrag !== 'number' || input.bedrag <= 0) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.bedrag moet groter dan €0 zijn`,
+      `${field}.bedrag`,
+      input.bedrag
+    );
+  }
+  validateOptionalBedrag(input.bedrag, `${field}.bedrag`);
+
+  if (input.rente === undefined) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.rente is verplicht`,
+      `${field}.rente`
+    );
+  }
+  validateOptionalRente(input.rente, `${field}.rente`);
+
+  const maxJaren = ValidationConstraints.LOOPTIJD.MAX_MAANDEN / 12;
+  if (
+    typeof input.looptijd_jaren !== 'number' ||
+    !Number.isInteger(input.looptijd_jaren) ||
+    input.looptijd_jaren < 1 ||
+    input.looptijd_jaren > maxJaren
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.looptijd_jaren moet een geheel getal tussen 1 en ${maxJaren} zijn`,
+      `${field}.looptijd_jaren`,
+      input.looptijd_jaren
+    );
+  }
+}
+
+/**
+ * Valideert de starterslening-invoer; de regels per gemeente komen uit de configuratie
+ */
+export function validateStarterslening(value: unknown, field: string = 'starterslening'): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een object zijn`,
+      field,
+      value
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+  if (typeof input.gemeente !== 'string' || input.gemeente.trim() === '') {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.gemeente is verplicht`,
+      `${field}.gemeente`,
+      input.gemeente
+    );
+  }
+
+  if (input.bedrag !== undefined && (typeof input.bedrag !== 'number' || input.bedrag <= 0)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.bedrag moet groter dan €0 zijn`,
+      `${field}.bedrag`,
+      input.bedrag
+    );
+  }
+  validateOptionalBedrag(input.bedrag, `${field}.bedrag`);
+}
+
+/**
+ * Valideert nieuwe_woning.bouwdepot; verbouwing vraagt verbouwings- of
+ * verduurzamingskosten, nieuwbouw een aanneemsom binnen de koopsom
+ */
+export function validateBouwdepot(
+  nieuweWoning: unknown,
+  field: string = 'nieuwe_woning.bouwdepot'
+): void {
+  if (typeof nieuweWoning !== 'object' || nieuweWoning === null) {
+    return;
+  }
+
+  const woning = nieuweWoning as Record<string, unknown>;
+  const value = woning.bouwdepot;
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een object zijn`,
+      field,
+      value
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+  const soort = input.soort ?? 'verbouwing';
+  if (soort !== 'verbouwing' && soort !== 'nieuwbouw') {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.soort moet 'verbouwing' of 'nieuwbouw' zijn`,
+      `${field}.soort`,
+      input.soort
+    );
+  }
+
+  if (soort === 'verbouwing') {
+    const bouwbedrag =
+      Number(woning.bedrag_verbouwen ?? 0) + Number(woning.bedrag_verduurzamen ?? 0);
+    if (!(bouwbedrag > 0)) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        'Een bouwdepot voor verbouwing vraagt bedrag_verbouwen of bedrag_verduurzamen',
+        field
+      );
+    }
+  } else {
+    if (typeof input.aanneemsom !== 'number' || input.aanneemsom <= 0) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${field}.aanneemsom is verplicht bij nieuwbouw`,
+        `${field}.aanneemsom`,
+        input.aanneemsom
+      );
+    }
+    if (typeof woning.waarde_woning === 'number' && input.aanneemsom > woning.waarde_woning) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${field}.aanneemsom kan niet hoger zijn dan de koopsom`,
+        `${field}.aanneemsom`,
+        input.aanneemsom
+      );
+    }
+  }
+
+  validateOptionalRente(input.depotrente, `${field}.depotrente`);
+  validateOptionalRente(input.bouwrente, `${field}.bouwrente`);
+
+  const max = ValidationConstraints.BOUWDEPOT.MAX_MAANDEN;
+  if (
+    input.bouwperiode_maanden !== undefined &&
+    (typeof input.bouwperiode_maanden !== 'number' ||
+      !Number.isInteger(input.bouwperiode_maanden) ||
+      input.bouwperiode_maanden < 1 ||
+      input.bouwperiode_maanden > max)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.bouwperiode_maanden moet een geheel aantal maanden tussen 1 en ${max} zijn`,
+      `${field}.bouwperiode_maanden`,
+      input.bouwperiode_maanden
+    );
+  }
+  if (
+    input.start_bouw_maanden !== undefined &&
+    (typeof input.start_bouw_maanden !== 'number' ||
+      !Number.isInteger(input.start_bouw_maanden) ||
+      Math.abs(input.start_bouw_maanden) > max)
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.start_bouw_maanden moet een geheel aantal maanden tussen -${max} en ${max} zijn`,
+      `${field}.start_bouw_maanden`,
+      input.start_bouw_maanden
+    );
+  }
+
+  if (input.termijnen === undefined) {
+    return;
+  }
+  if (!Array.isArray(input.termijnen) || input.termijnen.length === 0) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field}.termijnen moet een niet-lege lijst zijn`,
+      `${field}.termijnen`,
+      input.termijnen
+    );
+  }
+
+  let totaal = 0;
+  input.termijnen.forEach((termijn: unknown, index: number) => {
+    const termijnField = `${field}.termijnen[${index}]`;
+    const regel = (typeof termijn === 'object' && termijn !== null ? termijn : {}) as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof regel.maand !== 'number' ||
+      !Number.isInteger(regel.maand) ||
+      Math.abs(regel.maand) > max
+    ) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${termijnField}.maand moet een geheel aantal maanden tussen -${max} en ${max} zijn`,
+        `${termijnField}.maand`,
+        regel.maand
+      );
+    }
+    if (typeof regel.percentage !== 'number' || regel.percentage <= 0) {
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${termijnField}.percentage moet groter dan 0 zijn`,
+        `${termijnField}.percentage`,
+        regel.percentage
+      );
+    }
+    validateOptionalFractie(regel.percentage, `${termijnField}.percentage`);
+    totaal += regel.percentage;
+  });
+
+  if (Math.abs(totaal - 1) > 0.001) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `De termijnen in ${field}.termijnen moeten samen 100% (1.0) zijn`,
+      `${field}.termijnen`,
+      totaal
+    );
+  }
+}
+
+/**
+ * Valideert een inkomensbron (zzp, flex, ibl of perspectiefverklaring) waaruit
+ * het toetsinkomen wordt afgeleid
+ */
+export function validateInkomensbron(value: unknown, field: string): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new ValidationError(
+      ErrorCode.INVALID_INPUT,
+      `${field} moet een object zijn`,
+      field,
+      value
+    );
+  }
+
+  const input = value as Record<string, unknown>;
+  const max = ValidationConstraints.INKOMEN.MAX;
+  switch (input.soort) {
+    case 'zzp':
+    case 'flex': {
+      const veld = input.soort === 'zzp' ? 'winst_per_jaar' : 'inkomen_per_jaar';
+      const bedragen = input[veld];
+      if (!Array.isArray(bedragen) || bedragen.length < 3) {
+        throw new ValidationError(
+          ErrorCode.INVALID_INPUT,
+          `${field}.${veld} moet de bedragen van minimaal de laatste drie jaar bevatten (oudste jaar eerst)`,
+          `${field}.${veld}`,
+          bedragen
+        );
+      }
+      // Winst kan negatief zijn (verliesjaar); een flexinkomen niet
+      const min = input.soort === 'zzp' ? -max : 0;
+      bedragen.forEach((bedrag: unknown, index: number) => {
+        if (
+          typeof bedrag !== 'number' ||
+          !Number.isFinite(bedrag) ||
+          bedrag < min ||
+          bedrag > max
+        ) {
+          throw new ValidationError(
+            ErrorCode.INCOME_OUT_OF_RANGE,
+            `${field}.${veld}[${index}] moet een bedrag tussen €${min.toLocaleString('nl-NL')} en €${max.toLocaleString('nl-NL')} zijn`,
+            `${field}.${veld}[${index}]`,
+            bedrag
+          );
+        }
+      });
+      return;
+    }
+    case 'ibl':
+    case 'perspectiefverklaring': {
+      const veld = input.soort === 'ibl' ? 'toetsinkomen' : 'jaarinkomen';
+      if (input[veld] === undefined) {
+        throw new ValidationError(
+          ErrorCode.INVALID_INPUT,
+          `${field}.${veld} is verplicht`,
+          `${field}.${veld}`
+        );
+      }
+      validateOptionalBedrag(input[veld], `${field}.${veld}`, max);
+      return;
+    }
+    default:
+      throw new ValidationError(
+        ErrorCode.INVALID_INPUT,
+        `${field}.soort moet 'zzp', 'flex', 'ibl' of 'perspectiefverklaring' zijn`,
+        `${field}.soort`,
+        input.soort
+      );
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import { berekenAflosschema, berekenAflosschemas } from '../../src/calculations/aflosschema.js';
+import { annuiteitMaandlast } from '../../src/calculations/financieel.js';
+import { Leningdeel } from '../../src/types/index.js';
+
+const leningdeel = (overrides: Partial<Leningdeel> = {}): Leningdeel => ({
+  huidige_schuld: 240_000,
+  huidige_rente: 0.04,
+  resterende_looptijd_in_maanden: 360,
+  rentevasteperiode_maanden: 120,
+  hypotheekvorm: 'annuiteit',
+  ...overrides,
+});
+
+describe('Aflosschema', () => {
+  it('pays off an annuity completely with a constant maandlast', () => {
+    const schema = berekenAflosschema(leningdeel(), { weergave: 'maand' });
+    const verwacht = annuiteitMaandlast(240_000, 0.04, 360);
+
+    expect(schema.regels).toHaveLength(360);
+    expect(schema.regels[0].bruto_maandlast).toBeCloseTo(verwacht, 2);
+    expect(schema.regels[0].rente).toBe(800);
+    expect(schema.regels[359].restschuld).toBe(0);
+    expect(schema.totaal_aflossing).toBe(240_000);
+  });
+
+  it('aggregates months into years', () => {
+    const schema = berekenAflosschema(leningdeel(), { weergave: 'jaar' });
+    const maanden = berekenAflosschema(leningdeel(), { weergave: 'maand' });
+    const renteJaar1 = maanden.regels.slice(0, 12).reduce((som, regel) => som + regel.rente, 0);
+
+    expect(schema.regels).toHaveLength(30);
+    expect(schema.regels[0].rente).toBeCloseTo(renteJaar1, 1);
+    expect(schema.regels[0].restschuld).toBe(maanden.regels[11].restschuld);
+  });
+
+  it('uses a fixed aflossing for lineair', () => {
+    const schema = berekenAflosschema(leningdeel({ hypotheekvorm: 'lineair' }), {
+      weergave: 'maand',
+    });
+
+    expect(schema.regels[0].aflossing).toBeCloseTo(666.67, 2);
+    expect(schema.regels[0].bruto_maandlast).toBeCloseTo(1466.67, 2);
+    expect(schema.regels[359].restschuld).toBe(0);
+  });
+
+  it('keeps the full debt for aflossingsvrij', () => {
+    const schema = berekenAflosschema(leningdeel({ hypotheekvorm: 'aflossingsvrij' }));
+
+    expect(schema.totaal_aflossing).toBe(0);
+    expect(schema.eindrestschuld).toBe(240_000);
+    expect(schema.regels[29].restschuld).toBe(240_000);
+  });
+
+  it('resets the annuity at the end of the rentevaste periode', () => {
+    const schema = berekenAflosschema(leningdeel(), { weergave: 'maand', nieuweRente: 0.06 });
+    const restschuld = schema.regels[119].restschuld;
+
+    expect(schema.renteherziening_na_maanden).toBe(120);
+    expect(schema.regels[120].rente_percentage).toBe(0.06);
+    expect(schema.regels[120].bruto_maandlast).toBeCloseTo(
+      annuiteitMaandlast(restschuld, 0.06, 240),
+      1
+    );
+    expect(schema.regels[359].restschuld).toBe(0);
+  });
+
+  it('ignores the new rate when the rentevaste periode covers the full looptijd', () => {
+    const schema = berekenAflosschema(leningdeel({ rentevasteperiode_maanden: 360 }), {
+      nieuweRente: 0.06,
+    });
+
+    expect(schema.renteherziening_na_maanden).toBeUndefined();
+    expect(schema.regels[29].rente_percentage).toBe(0.04);
+  });
+
+  it('combines leningdelen with different looptijden into one total', () => {
+    const schema = berekenAflosschemas([
+      leningdeel({
+        huidige_schuld: 100_000,
+        resterende_looptijd_in_maanden: 120,
+        rentevasteperiode_maanden: 60,
+      }),
+      leningdeel({ huidige_schuld: 50_000, hypotheekvorm: 'aflossingsvrij' }),
+    ]);
+
+    expect(schema.leningdelen).toHaveLength(2);
+    expect(schema.totaal).toHaveLength(30);
+    expect(schema.totaal[9].restschuld).toBe(50_000);
+    expect(schema.totaal[15].restschuld).toBe(50_000);
+    expect(schema.totaal_aflossing).toBe(100_000);
+  });
+});
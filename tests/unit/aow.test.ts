@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { bepaalAowDatum, toetsAow } from '../../src/calculations/aow.js';
+
+const peildatum = new Date('2026-01-01T00:00:00Z');
+
+describe('AOW-datum', () => {
+  it('uses 67 for someone reaching that age in 2027', () => {
+    const { datum, leeftijd, vastgesteld } = bepaalAowDatum('1960-06-15');
+
+    expect(leeftijd).toEqual({ jaren: 67, maanden: 0 });
+    expect(datum.toISOString().slice(0, 10)).toBe('2027-06-15');
+    expect(vastgesteld).toBe(true);
+  });
+
+  it('uses 67 and 3 months from 2028', () => {
+    const { datum, leeftijd } = bepaalAowDatum('1961-06-15');
+
+    expect(leeftijd).toEqual({ jaren: 67, maanden: 3 });
+    expect(datum.toISOString().slice(0, 10)).toBe('2028-09-15');
+  });
+
+  it('follows the transition years', () => {
+    expect(bepaalAowDatum('1955-10-10').leeftijd).toEqual({ jaren: 66, maanden: 7 });
+    expect(bepaalAowDatum('1956-09-10').leeftijd).toEqual({ jaren: 66, maanden: 10 });
+  });
+
+  it('marks AOW-leeftijden after the last vastgesteld year', () => {
+    const { leeftijd, vastgesteld } = bepaalAowDatum('1990-01-01');
+
+    expect(leeftijd).toEqual({ jaren: 67, maanden: 3 });
+    expect(vastgesteld).toBe(false);
+  });
+});
+
+describe('AOW-toets', () => {
+  it('flags a loan that runs past the AOW-datum', () => {
+    const toets = toetsAow({ geboortedatum: '1970-01-01', looptijd_maanden: 360, peildatum });
+
+    expect(toets.aow_datum).toBe('2037-04-01');
+    expect(toets.maanden_tot_aow).toBe(135);
+    expect(toets.maanden_na_aow).toBe(225);
+    expect(toets.pensioentoets_nodig).toBe(false);
+  });
+
+  it('requires a pensioentoets when AOW is within ten years', () => {
+    const toets = toetsAow({ geboortedatum: '1965-06-15', looptijd_maanden: 360, peildatum });
+
+    expect(toets.maanden_tot_aow).toBeLessThanOrEqual(120);
+    expect(toets.pensioentoets_nodig).toBe(true);
+  });
+
+  it('does not flag a loan ending before AOW', () => {
+    const toets = toetsAow({ geboortedatum: '1995-01-01', looptijd_maanden: 360, peildatum });
+
+    expect(toets.maanden_na_aow).toBe(0);
+    expect(toets.pensioentoets_nodig).toBe(false);
+  });
+});
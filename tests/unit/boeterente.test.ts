@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  berekenBoeterente,
+  berekenBoeterentes,
+  kiesVergelijkingsrente,
+  parseRentetabel,
+} from '../../src/calculations/boeterente.js';
+import { Leningdeel } from '../../src/types/index.js';
+
+const leningdeel = (overrides: Partial<Leningdeel> = {}): Leningdeel => ({
+  huidige_schuld: 200_000,
+  huidige_rente: 0.05,
+  resterende_looptijd_in_maanden: 240,
+  rentevasteperiode_maanden: 12,
+  hypotheekvorm: 'aflossingsvrij',
+  ...overrides,
+});
+
+describe('Boeterente', () => {
+  it('discounts the renteverschil over the boetegrondslag at the contractrente', () => {
+    const resultaat = berekenBoeterente(leningdeel(), 0.04);
+    const maandelijks = (180_000 * 0.01) / 12;
+    let verwacht = 0;
+    for (let maand = 1; maand <= 12; maand++) {
+      verwacht += maandelijks / Math.pow(1 + 0.05 / 12, maand);
+    }
+
+    expect(resultaat.boetevrij_bedrag).toBe(20_000);
+    expect(resultaat.boetegrondslag).toBe(180_000);
+    expect(resultaat.boeterente).toBeCloseTo(verwacht, 2);
+  });
+
+  it('charges less on an annuity because the saldo decreases', () => {
+    const aflossingsvrij = berekenBoeterente(leningdeel({ rentevasteperiode_maanden: 60 }), 0.03);
+    const annuiteit = berekenBoeterente(
+      leningdeel({ rentevasteperiode_maanden: 60, hypotheekvorm: 'annuiteit' }),
+      0.03
+    );
+
+    expect(annuiteit.boeterente).toBeGreaterThan(0);
+    expect(annuiteit.boeterente).toBeLessThan(aflossingsvrij.boeterente);
+  });
+
+  it('is zero when the vergelijkingsrente is higher or the rente is variabel', () => {
+    expect(berekenBoeterente(leningdeel(), 0.06).boeterente).toBe(0);
+    expect(berekenBoeterente(leningdeel({ rentevasteperiode_maanden: 0 }), 0.02).boeterente).toBe(
+      0
+    );
+  });
+
+  it('honours a custom boetevrij percentage and sums per leningdeel', () => {
+    const resultaat = berekenBoeterentes([leningdeel(), leningdeel()], [0.04, 0.06], {
+      boetevrij_percentage: 0.2,
+    });
+
+    expect(resultaat.totaal_boetevrij).toBe(80_000);
+    expect(resultaat.leningdelen[1].boeterente).toBe(0);
+    expect(resultaat.totaal_boeterente).toBe(resultaat.leningdelen[0].boeterente);
+  });
+
+  it('picks the closest rentevaste periode from the actuele rentes', () => {
+    const tabel = parseRentetabel({ '5_jaar': 3.15, '10_jaar': 3.45, '20_jaar': 3.89, datum: 'x' });
+
+    expect(tabel.map((rente) => rente.rentevast_maanden)).toEqual([60, 120, 240]);
+    expect(kiesVergelijkingsrente(tabel, 100)).toBeCloseTo(0.0345, 10);
+    expect(kiesVergelijkingsrente(tabel, 90)).toBeCloseTo(0.0315, 10);
+    expect(kiesVergelijkingsrente([], 90)).toBeUndefined();
+  });
+});
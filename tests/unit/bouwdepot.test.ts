@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  STANDAARD_NIEUWBOUW_TERMIJNEN,
+  berekenBouwdepot,
+  standaardTermijnen,
+} from '../../src/calculations/bouwdepot.js';
+
+describe('Standaard termijnen', () => {
+  it('pays a verbouwing out in equal monthly termijnen', () => {
+    const termijnen = standaardTermijnen('verbouwing', 4);
+
+    expect(termijnen.map((termijn) => termijn.maand)).toEqual([1, 2, 3, 4]);
+    termijnen.forEach((termijn) => expect(termijn.percentage).toBeCloseTo(0.25, 10));
+  });
+
+  it('spreads the nieuwbouw schema from start bouw to oplevering', () => {
+    const termijnen = standaardTermijnen('nieuwbouw', 14);
+    const totaal = termijnen.reduce((som, termijn) => som + termijn.percentage, 0);
+
+    expect(termijnen).toHaveLength(STANDAARD_NIEUWBOUW_TERMIJNEN.length);
+    expect(termijnen[0].maand).toBe(0);
+    expect(termijnen[termijnen.length - 1].maand).toBe(14);
+    expect(totaal).toBeCloseTo(1, 10);
+  });
+
+  it('shifts the schema when the bouw started before transport', () => {
+    const termijnen = standaardTermijnen('nieuwbouw', 14, -4);
+
+    expect(termijnen[0].maand).toBe(-4);
+    expect(termijnen[termijnen.length - 1].maand).toBe(10);
+  });
+});
+
+describe('Bouwdepot', () => {
+  it('lowers the netto maandlast with depotrente until the depot is empty', () => {
+    const resultaat = berekenBouwdepot({
+      soort: 'verbouwing',
+      bouwbedrag: 40_000,
+      termijnen: standaardTermijnen('verbouwing', 4),
+      bruto_maandlast: 1_500,
+      depotrente: 0.036,
+      bouwrente: 0.04,
+    });
+
+    expect(resultaat.depot_bij_transport).toBe(40_000);
+    expect(resultaat.bouwperiode_maanden).toBe(4);
+    expect(resultaat.maanden.map((regel) => regel.depot_saldo)).toEqual([
+      30_000, 20_000, 10_000, 0,
+    ]);
+    expect(resultaat.maanden[0].depotrente).toBeCloseTo(90, 2);
+    expect(resultaat.maanden[0].netto_maandlast).toBeCloseTo(1_410, 2);
+    expect(resultaat.maanden[3].netto_maandlast).toBe(1_500);
+    expect(resultaat.totale_depotrente).toBeCloseTo(180, 2);
+    expect(resultaat.gemiddelde_netto_maandlast).toBeCloseTo(1_455, 2);
+    expect(resultaat.maandlast_na_oplevering).toBe(1_500);
+    expect(resultaat.bouwrente).toBe(0);
+  });
+
+  it('pays vervallen nieuwbouw termijnen at transport and charges bouwrente over them', () => {
+    const resultaat = berekenBouwdepot({
+      soort: 'nieuwbouw',
+      bouwbedrag: 300_000,
+      termijnen: [
+        { maand: -3, percentage: 0.1 },
+        { maand: 0, percentage: 0.2 },
+        { maand: 2, percentage: 0.3 },
+        { maand: 5, percentage: 0.4 },
+      ],
+      bruto_maandlast: 2_000,
+      depotrente: 0.04,
+      bouwrente: 0.06,
+    });
+
+    expect(resultaat.betaald_bij_transport).toBe(90_000);
+    expect(resultaat.depot_bij_transport).toBe(210_000);
+    expect(resultaat.bouwrente).toBeCloseTo((30_000 * 0.06 * 3) / 12, 2);
+    expect(resultaat.bouwperiode_maanden).toBe(5);
+    expect(resultaat.maanden[0].depot_saldo).toBe(210_000);
+    expect(resultaat.maanden[1].uitbetaling).toBe(90_000);
+    expect(resultaat.maanden[1].depot_saldo).toBe(120_000);
+    expect(resultaat.maanden[4].depot_saldo).toBe(0);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { mapMetLimiet } from '../../src/utils/concurrency.js';
+
+describe('mapMetLimiet', () => {
+  it('never runs more tasks at once than the limit and keeps the order', async () => {
+    let actief = 0;
+    let piek = 0;
+
+    const resultaten = await mapMetLimiet([5, 1, 4, 2, 3], 2, async (waarde) => {
+      actief++;
+      piek = Math.max(piek, actief);
+      await new Promise((resolve) => setTimeout(resolve, waarde));
+      actief--;
+      return waarde * 10;
+    });
+
+    expect(piek).toBe(2);
+    expect(resultaten).toEqual([50, 10, 40, 20, 30]);
+  });
+
+  it('handles an empty list', async () => {
+    await expect(mapMetLimiet([], 3, async (waarde) => waarde)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig } from '../../src/config/index.js';
+import { ErrorCode, ValidationError } from '../../src/types/index.js';
+
+describe('Startersleningregels', () => {
+  let map: string;
+
+  beforeAll(() => {
+    map = mkdtempSync(join(tmpdir(), 'starterslening-'));
+  });
+
+  afterAll(() => {
+    rmSync(map, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.STARTERSLENING_REGELS_PATH;
+  });
+
+  function metRegels(inhoud: string): void {
+    const pad = join(map, 'regels.json');
+    writeFileSync(pad, inhoud);
+    process.env.STARTERSLENING_REGELS_PATH = pad;
+  }
+
+  function configFout(): ValidationError {
+    try {
+      loadConfig();
+    } catch (error) {
+      return error as ValidationError;
+    }
+    throw new Error('loadConfig gaf geen fout');
+  }
+
+  it('has no regels without STARTERSLENING_REGELS_PATH', () => {
+    expect(loadConfig().startersleningRegels).toEqual([]);
+  });
+
+  it('parses the regels and fills in the default looptijden', () => {
+    metRegels(
+      JSON.stringify([
+        { gemeente: 'Utrecht', max_bedrag: 40_000, max_koopsom: 435_000, rente: 0.02 },
+      ])
+    );
+
+    expect(loadConfig().startersleningRegels).toEqual([
+      {
+        gemeente: 'Utrecht',
+        max_bedrag: 40_000,
+        max_koopsom: 435_000,
+        rente: 0.02,
+        looptijd_maanden: 360,
+        rentevrije_maanden: 36,
+      },
+    ]);
+  });
+
+  it('requires rentevrije_maanden to be shorter than looptijd_maanden', () => {
+    metRegels(
+      JSON.stringify([
+        {
+          gemeente: 'Utrecht',
+          max_bedrag: 40_000,
+          rente: 0.02,
+          looptijd_maanden: 120,
+          rentevrije_maanden: 120,
+        },
+      ])
+    );
+
+    const fout = configFout();
+    expect(fout).toBeInstanceOf(ValidationError);
+    expect(fout.code).toBe(ErrorCode.CONFIGURATION_ERROR);
+    expect(fout.message).toContain('rentevrije_maanden moet korter zijn dan looptijd_maanden');
+  });
+
+  it('reports the location of an invalid field', () => {
+    metRegels(JSON.stringify([{ gemeente: 'Utrecht', max_bedrag: -1, rente: 0.02 }]));
+
+    const fout = configFout();
+    expect(fout.code).toBe(ErrorCode.CONFIGURATION_ERROR);
+    expect(fout.message).toContain('(0.max_bedrag)');
+  });
+
+  it('rejects a file that is not valid JSON', () => {
+    metRegels('{ geen json');
+
+    const fout = configFout();
+    expect(fout.code).toBe(ErrorCode.CONFIGURATION_ERROR);
+    expect(fout.field).toBe('STARTERSLENING_REGELS_PATH');
+  });
+
+  it('rejects a missing file', () => {
+    process.env.STARTERSLENING_REGELS_PATH = join(map, 'bestaat-niet.json');
+
+    expect(configFout().code).toBe(ErrorCode.CONFIGURATION_ERROR);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  berekenFamilielening,
+  berekenSchenking,
+  getSchenkParameters,
+} from '../../src/calculations/eigen-geld.js';
+import { annuiteitMaandlast } from '../../src/calculations/financieel.js';
+
+const peildatum = new Date('2025-06-01');
+
+describe('Schenking', () => {
+  it('stays tax free within the jaarlijkse vrijstelling', () => {
+    const resultaat = berekenSchenking({
+      bedrag: 5_000,
+      relatie: 'ouder',
+      geboortedatum_ontvanger: '1995-01-01',
+      peildatum,
+    });
+
+    expect(resultaat.vrijstelling_soort).toBe('jaarlijks');
+    expect(resultaat.schenkbelasting).toBe(0);
+    expect(resultaat.netto).toBe(5_000);
+  });
+
+  it('applies the eenmalig verhoogde vrijstelling for a child between 18 and 40', () => {
+    const parameters = getSchenkParameters(2025);
+    const resultaat = berekenSchenking({
+      bedrag: 50_000,
+      relatie: 'ouder',
+      geboortedatum_ontvanger: '1995-01-01',
+      verhoogde_vrijstelling: true,
+      peildatum,
+    });
+
+    expect(resultaat.vrijstelling_soort).toBe('eenmalig_verhoogd');
+    expect(resultaat.vrijstelling).toBe(parameters.vrijstellingEenmaligKind);
+    expect(resultaat.schenkbelasting).toBe(
+      Math.round((50_000 - parameters.vrijstellingEenmaligKind) * 0.1)
+    );
+    expect(resultaat.netto).toBe(50_000 - resultaat.schenkbelasting);
+  });
+
+  it('only offers the verhoogde vrijstelling eigen woning up to 2023', () => {
+    const invoer = {
+      bedrag: 25_000,
+      relatie: 'overig' as const,
+      geboortedatum_ontvanger: '1995-01-01',
+      verhoogde_vrijstelling: true,
+    };
+
+    const in2023 = berekenSchenking({ ...invoer, peildatum: new Date('2023-06-01') });
+    expect(in2023.vrijstelling_soort).toBe('eigen_woning');
+    expect(in2023.schenkbelasting).toBe(0);
+
+    const in2025 = berekenSchenking({ ...invoer, peildatum });
+    expect(in2025.vrijstelling_soort).toBe('jaarlijks');
+    expect(in2025.schenkbelasting).toBe(Math.round((25_000 - 2_690) * 0.3));
+    expect(in2025.opmerking).toMatch(/afgeschaft/);
+  });
+
+  it('refuses the verhoogde vrijstelling from age 40', () => {
+    const resultaat = berekenSchenking({
+      bedrag: 30_000,
+      relatie: 'ouder',
+      geboortedatum_ontvanger: '1985-01-01',
+      verhoogde_vrijstelling: true,
+      peildatum,
+    });
+
+    expect(resultaat.vrijstelling_soort).toBe('jaarlijks');
+    expect(resultaat.opmerking).toMatch(/tussen 18 en 40/);
+  });
+
+  it('uses the high tariff above the tariefgrens', () => {
+    const parameters = getSchenkParameters(2025);
+    const resultaat = berekenSchenking({
+      bedrag: 300_000,
+      relatie: 'ouder',
+      geboortedatum_ontvanger: '1995-01-01',
+      peildatum,
+    });
+    const belastbaar = 300_000 - parameters.vrijstellingKind;
+
+    expect(resultaat.schenkbelasting).toBe(
+      Math.round(parameters.tariefgrens * 0.1 + (belastbaar - parameters.tariefgrens) * 0.2)
+    );
+  });
+
+  it('reports the earlier table year for a year without a table', () => {
+    const resultaat = berekenSchenking({
+      bedrag: 5_000,
+      relatie: 'ouder',
+      geboortedatum_ontvanger: '1995-01-01',
+      peildatum: new Date('2026-06-01'),
+    });
+
+    expect(resultaat.jaar).toBe(2025);
+    expect(resultaat.peiljaar).toBe(2026);
+  });
+});
+
+describe('Familielening', () => {
+  it('computes the annuitaire maandlast and totale rente', () => {
+    const resultaat = berekenFamilielening({ bedrag: 40_000, rente: 0.03, looptijd_maanden: 240 });
+    const maandlast = annuiteitMaandlast(40_000, 0.03, 240);
+
+    expect(resultaat.maandlast).toBeCloseTo(maandlast, 2);
+    expect(resultaat.totale_rente).toBeCloseTo(maandlast * 240 - 40_000, 1);
+  });
+});
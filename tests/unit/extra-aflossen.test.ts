@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { berekenExtraAflossen } from '../../src/calculations/extra-aflossen.js';
+import { Leningdeel } from '../../src/types/index.js';
+
+const deel: Leningdeel = {
+  huidige_schuld: 200_000,
+  huidige_rente: 0.04,
+  resterende_looptijd_in_maanden: 240,
+  rentevasteperiode_maanden: 120,
+  hypotheekvorm: 'annuiteit',
+};
+
+describe('Extra aflossen', () => {
+  it('keeps the looptijd but lowers the maandlast, or keeps the maandlast and ends earlier', () => {
+    const resultaat = berekenExtraAflossen({ leningdelen: [deel], eenmalig: 20_000 });
+
+    expect(resultaat.zonder_extra.looptijd_maanden).toBe(240);
+    expect(resultaat.zonder_extra.extra_afgelost).toBe(0);
+
+    expect(resultaat.lagere_maandlast.looptijd_maanden).toBe(240);
+    expect(resultaat.lagere_maandlast.maandlast_na_aflossing).toBeLessThan(
+      resultaat.zonder_extra.maandlast_start
+    );
+
+    expect(resultaat.kortere_looptijd.looptijd_maanden).toBeLessThan(240);
+    expect(resultaat.kortere_looptijd.maandlast_na_aflossing).toBeCloseTo(
+      resultaat.zonder_extra.maandlast_start,
+      2
+    );
+
+    // Kortere looptijd bespaart meer rente dan lagere maandlast
+    expect(resultaat.kortere_looptijd.totale_rente).toBeLessThan(
+      resultaat.lagere_maandlast.totale_rente
+    );
+    expect(resultaat.lagere_maandlast.totale_rente).toBeLessThan(
+      resultaat.zonder_extra.totale_rente
+    );
+  });
+
+  it('caps the extra repayment at the boetevrije ruimte within the rentevaste periode', () => {
+    const resultaat = berekenExtraAflossen({ leningdelen: [deel], eenmalig: 50_000 });
+
+    expect(resultaat.lagere_maandlast.extra_afgelost).toBe(20_000);
+    expect(resultaat.lagere_maandlast.niet_boetevrij).toBe(30_000);
+
+    const variabel = berekenExtraAflossen({
+      leningdelen: [{ ...deel, rentevasteperiode_maanden: 0 }],
+      eenmalig: 50_000,
+    });
+    expect(variabel.lagere_maandlast.extra_afgelost).toBe(50_000);
+    expect(variabel.lagere_maandlast.niet_boetevrij).toBe(0);
+  });
+
+  it('repays the most expensive leningdeel first', () => {
+    const goedkoop = { ...deel, huidige_schuld: 100_000, huidige_rente: 0.02 };
+    const duur = { ...deel, huidige_schuld: 100_000, huidige_rente: 0.05 };
+    const resultaat = berekenExtraAflossen({ leningdelen: [goedkoop, duur], eenmalig: 10_000 });
+    const alleenDuur = berekenExtraAflossen({ leningdelen: [duur], eenmalig: 10_000 });
+    const alleenGoedkoop = berekenExtraAflossen({ leningdelen: [goedkoop], eenmalig: 10_000 });
+
+    expect(resultaat.lagere_maandlast.totale_rente).toBeCloseTo(
+      alleenDuur.lagere_maandlast.totale_rente + alleenGoedkoop.zonder_extra.totale_rente,
+      2
+    );
+  });
+
+  it('applies yearly periodic repayments once per year', () => {
+    const resultaat = berekenExtraAflossen({
+      leningdelen: [{ ...deel, rentevasteperiode_maanden: 0 }],
+      periodiek: 1_000,
+      frequentie: 'jaar',
+    });
+
+    expect(resultaat.kortere_looptijd.extra_afgelost % 1_000).toBe(0);
+    expect(resultaat.kortere_looptijd.extra_afgelost).toBeLessThanOrEqual(20_000);
+    expect(resultaat.kortere_looptijd.looptijd_maanden).toBeLessThan(240);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { genereerScenarios } from '../../src/calculations/gevoeligheid.js';
+
+describe('Gevoeligheidsanalyse', () => {
+  it('combines rente, inkomen and looptijd variaties', () => {
+    const scenarios = genereerScenarios(
+      { rente: [-0.01, 0, 0.01], inkomen: [-0.1, 0, 0.1], looptijd_jaren: [20, 30] },
+      30
+    );
+
+    expect(scenarios).toHaveLength(18);
+    expect(scenarios.filter((scenario) => scenario.is_basis)).toEqual([
+      { rente_delta: 0, inkomen_delta: 0, looptijd_jaren: 30, is_basis: true },
+    ]);
+  });
+
+  it('falls back to the basisinvoer for missing variaties and drops duplicates', () => {
+    const scenarios = genereerScenarios({ rente: [0.01, 0.01] });
+
+    expect(scenarios).toEqual([
+      { rente_delta: 0.01, inkomen_delta: 0, looptijd_jaren: undefined, is_basis: false },
+    ]);
+  });
+});
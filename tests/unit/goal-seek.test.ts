@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { zoekMaximum, zoekMinimum } from '../../src/calculations/goal-seek.js';
+
+const opties = { ondergrens: 0, bovengrens: 1_000_000, precisie: 500, maxIteraties: 25 };
+
+describe('Goal-seek', () => {
+  it('finds the smallest passing value within the precisie', async () => {
+    const geteste: number[] = [];
+    const resultaat = await zoekMinimum(opties, async (inkomen) => {
+      geteste.push(inkomen);
+      return { geslaagd: inkomen >= 78_321, uitkomst: inkomen };
+    });
+
+    expect(resultaat.gevonden).toBe(true);
+    expect(resultaat.waarde).toBeGreaterThanOrEqual(78_321);
+    expect(resultaat.waarde! - 78_321).toBeLessThan(500);
+    expect(resultaat.uitkomst).toBe(resultaat.waarde);
+    expect(resultaat.iteraties).toBe(geteste.length);
+    expect(resultaat.iteraties).toBeLessThanOrEqual(13);
+  });
+
+  it('reports when even the bovengrens does not pass', async () => {
+    const resultaat = await zoekMinimum(opties, async () => ({ geslaagd: false, uitkomst: null }));
+
+    expect(resultaat).toEqual({ gevonden: false, iteraties: 1 });
+  });
+
+  it('stops at maxIteraties', async () => {
+    const resultaat = await zoekMinimum({ ...opties, maxIteraties: 3 }, async (inkomen) => ({
+      geslaagd: inkomen >= 50_000,
+      uitkomst: inkomen,
+    }));
+
+    expect(resultaat.iteraties).toBe(3);
+    expect(resultaat.waarde).toBe(250_000);
+  });
+
+  it('finds the largest passing value within the precisie', async () => {
+    const maxOpties = {
+      ondergrens: 50_000,
+      bovengrens: 5_000_000,
+      precisie: 1000,
+      maxIteraties: 25,
+    };
+    const geteste: number[] = [];
+    const resultaat = await zoekMaximum(maxOpties, async (koopsom) => {
+      geteste.push(koopsom);
+      return { geslaagd: koopsom <= 412_345, uitkomst: koopsom };
+    });
+
+    expect(resultaat.gevonden).toBe(true);
+    expect(resultaat.waarde).toBeLessThanOrEqual(412_345);
+    expect(412_345 - resultaat.waarde!).toBeLessThan(1000);
+    expect(resultaat.waarde! % 1000).toBe(0);
+    expect(resultaat.uitkomst).toBe(resultaat.waarde);
+    expect(resultaat.iteraties).toBe(geteste.length);
+  });
+
+  it('returns the bovengrens when the toets passes there', async () => {
+    const geteste: number[] = [];
+    const resultaat = await zoekMaximum(opties, async (waarde) => {
+      geteste.push(waarde);
+      return { geslaagd: true, uitkomst: waarde };
+    });
+
+    expect(resultaat).toEqual({
+      gevonden: true,
+      waarde: opties.bovengrens,
+      uitkomst: opties.bovengrens,
+      iteraties: 2,
+    });
+    expect(geteste).toEqual([opties.ondergrens, opties.bovengrens]);
+  });
+
+  it('reports when even the ondergrens does not pass for a maximum', async () => {
+    const resultaat = await zoekMaximum(opties, async () => ({ geslaagd: false, uitkomst: null }));
+
+    expect(resultaat).toEqual({ gevonden: false, iteraties: 1 });
+  });
+});
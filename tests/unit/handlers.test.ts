@@ -0,0 +1,322 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { TOOL_HANDLERS } from '../../src/index.js';
+import { ApiClient } from '../../src/api/client.js';
+import { getCircuitBreaker, resetCircuitBreaker } from '../../src/middleware/circuit-breaker.js';
+import { getRateLimiter, resetRateLimiter } from '../../src/middleware/rate-limiter.js';
+
+const leningdelen = [
+  {
+    huidige_schuld: 320_000,
+    huidige_rente: 0.025,
+    resterende_looptijd_in_maanden: 300,
+    rentevasteperiode_maanden: 60,
+    hypotheekvorm: 'annuiteit',
+  },
+];
+
+let requests: { url: string; body: any }[];
+
+/**
+ * Backend die het woningbudget opbouwt uit overwaarde, bestaande schuld en
+ * een extra leencapaciteit die daalt met de verplichtingen
+ */
+function backendResponse(body: any): unknown {
+  if (!body) {
+    // GET van de actuele rentes
+    return { datum: '2026-10-01', NHG: { '5_jaar': '3.5' }, Niet_NHG: { '5_jaar': '3.8' } };
+  }
+  if (body.aanvrager) {
+    // Opzet: de nieuwe hypotheek volgt uit het inkomen
+    const hypotheek = body.aanvrager.inkomen_aanvrager * 4.5;
+    return {
+      resultaat: [
+        {
+          Financiering: { Nieuwe_hypotheek: hypotheek, Totaal_financiering: hypotheek },
+          Maandlasten: { Totaal: 1_500 },
+        },
+      ],
+    };
+  }
+  if (!body.bestaande_hypotheek) {
+    return {
+      resultaat: [
+        {
+          maximaal_bedrag: body.aanvragers.inkomen_aanvrager * 4.5,
+          bruto_maandlasten_nieuwe_lening: 1_500,
+        },
+      ],
+    };
+  }
+  const schuld = body.bestaande_hypotheek.leningdelen.reduce(
+    (totaal: number, deel: { huidige_schuld: number }) => totaal + deel.huidige_schuld,
+    0
+  );
+  const overwaarde = body.bestaande_hypotheek.waarde_huidige_woning - schuld;
+  const extra = 150_000 - Math.round(body.aanvragers.verplichtingen_pm * 100);
+  return {
+    resultaat: [
+      {
+        woningbudget: overwaarde + schuld + extra,
+        overwaarde_bedrag: overwaarde,
+        huidige_hypotheek_schuld: schuld,
+        extra_leencapaciteit: extra,
+        maandlast_nu: 1_300,
+        maandlast_straks: 1_900,
+        verschil_maandlast: 600,
+      },
+    ],
+  };
+}
+
+function bedrag(text: string, label: string): number {
+  const regels = text.split('\n');
+  // Het budget staat op de eerste regel met een bedrag na het label
+  const start = regels.findIndex((line) => line.includes(label));
+  const regel = regels.slice(start).find((line) => /€/.test(line));
+  const match = start >= 0 ? regel?.match(/-?€ ?[\d.]+/) : undefined;
+  if (!match) {
+    throw new Error(`Geen bedrag gevonden voor ${label}`);
+  }
+  return Number(match[0].replace(/[€ .]/g, ''));
+}
+
+beforeEach(() => {
+  requests = [];
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    requests.push({ url: String(url), body });
+    return new Response(JSON.stringify(backendResponse(body)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  resetRateLimiter();
+  resetCircuitBreaker();
+});
+
+describe('bereken_hypotheek_doorstromer met restschuld', () => {
+  const args = {
+    inkomen_aanvrager: 70_000,
+    geboortedatum_aanvrager: '1985-04-01',
+    heeft_partner: false,
+    verplichtingen_pm: 100,
+    waarde_huidige_woning: 300_000,
+    bestaande_hypotheek: { leningdelen },
+    restschuld_financiering: { rente: 0.06, looptijd_jaren: 15 },
+  };
+
+  it('sends overwaarde 0 and adds the restschuld maandlast to the verplichtingen', async () => {
+    await TOOL_HANDLERS.bereken_hypotheek_doorstromer({ params: { arguments: args } });
+
+    const { body } = requests[0];
+    expect(body.bestaande_hypotheek.waarde_huidige_woning).toBe(320_000);
+    // 20.000 over 15 jaar tegen 6%
+    expect(body.aanvragers.verplichtingen_pm).toBeCloseTo(100 + 168.77, 2);
+  });
+
+  it('shows budget items that add up to the woningbudget', async () => {
+    const response = await TOOL_HANDLERS.bereken_hypotheek_doorstromer({
+      params: { arguments: args },
+    });
+    const text = response.content[0].text;
+
+    const budget = bedrag(text, 'U kunt op zoek naar een woning tot:');
+    const overwaarde = bedrag(text, 'Overwaarde huidige woning');
+    const schuld = bedrag(text, 'Huidige hypotheekschuld');
+    const extra = bedrag(text, 'Extra leencapaciteit');
+
+    expect(overwaarde).toBe(0);
+    expect(overwaarde + schuld + extra).toBe(budget);
+    expect(text).not.toContain('Restschuld huidige woning');
+    expect(text).toContain('Restschuld (apart gefinancierd)');
+  });
+});
+
+describe('opzet_hypotheek_starter met pensioeninkomen', () => {
+  const args = {
+    aanvrager: {
+      inkomen_aanvrager: 80_000,
+      geboortedatum_aanvrager: '1963-06-01',
+      heeft_partner: false,
+      pensioeninkomen_aanvrager: 40_000,
+    },
+    nieuwe_woning: { waarde_woning: 350_000, energielabel: 'B' },
+    session_id: 'opzet-pensioen',
+  };
+
+  it('recalculates the opzet on the pensioeninkomen and shows the lower amount', async () => {
+    const response = await TOOL_HANDLERS.opzet_hypotheek_starter({ params: { arguments: args } });
+    const text = response.content[0].text;
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].body.aanvrager.inkomen_aanvrager).toBe(80_000);
+    expect(requests[1].body.aanvrager.inkomen_aanvrager).toBe(40_000);
+    expect(requests[1].url).toBe(requests[0].url);
+    expect(bedrag(text, 'Leidend (laagste van beide)')).toBe(180_000);
+  });
+
+  it('counts the second call against the rate limit', async () => {
+    await TOOL_HANDLERS.opzet_hypotheek_starter({ params: { arguments: args } });
+
+    expect(getRateLimiter().checkLimit('opzet-pensioen', 0).current).toBe(2);
+  });
+});
+
+describe('opzet_hypotheek_starter met inkomensbron', () => {
+  const aanvrager = {
+    geboortedatum_aanvrager: '1990-03-01',
+    heeft_partner: false,
+    inkomensbron_aanvrager: { soort: 'zzp', winst_per_jaar: [40_000, 50_000, 60_000] },
+  };
+  const nieuwe_woning = { waarde_woning: 350_000, energielabel: 'B' };
+
+  it('sends the derived toetsinkomen without inkomen_aanvrager', async () => {
+    await TOOL_HANDLERS.opzet_hypotheek_starter({
+      params: { arguments: { aanvrager, nieuwe_woning } },
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body.aanvrager.inkomen_aanvrager).toBe(50_000);
+  });
+
+  it('still requires an inkomen when no inkomensbron is given', async () => {
+    const { inkomensbron_aanvrager: _bron, ...zonderInkomen } = aanvrager;
+
+    await expect(
+      TOOL_HANDLERS.opzet_hypotheek_starter({
+        params: { arguments: { aanvrager: zonderInkomen, nieuwe_woning } },
+      })
+    ).rejects.toThrow('inkomensbron_aanvrager');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('opzet_hypotheek_doorstromer met restschuld', () => {
+  const args = {
+    aanvrager: {
+      inkomen_aanvrager: 70_000,
+      geboortedatum_aanvrager: '1985-04-01',
+      heeft_partner: false,
+      verplichtingen_pm: 100,
+    },
+    waarde_huidige_woning: 300_000,
+    bestaande_hypotheek: { leningdelen },
+    restschuld_financiering: { rente: 0.06, looptijd_jaren: 15 },
+    nieuwe_woning: { waarde_woning: 400_000, energielabel: 'B' },
+  };
+
+  it('sends overwaarde 0 and adds the restschuld maandlast to the verplichtingen', async () => {
+    const response = await TOOL_HANDLERS.opzet_hypotheek_doorstromer({
+      params: { arguments: args },
+    });
+
+    const { body } = requests[0];
+    expect(body.bestaande_hypotheek.waarde_huidige_woning).toBe(320_000);
+    // 20.000 over 15 jaar tegen 6%
+    expect(body.aanvrager.verplichtingen_pm).toBeCloseTo(100 + 168.77, 2);
+    expect(response.content[0].text).toContain('apart gefinancierd');
+  });
+});
+
+describe('opzet_hypotheek_doorstromer met boeterente', () => {
+  const args = {
+    aanvrager: {
+      inkomen_aanvrager: 70_000,
+      geboortedatum_aanvrager: '1985-04-01',
+      heeft_partner: false,
+    },
+    waarde_huidige_woning: 450_000,
+    bestaande_hypotheek: { leningdelen },
+    boeterente_meefinancieren: true,
+    nieuwe_woning: { waarde_woning: 500_000, energielabel: 'B' },
+    session_id: 'opzet-boeterente',
+  };
+
+  it('counts the rentes call against the rate limit', async () => {
+    await TOOL_HANDLERS.opzet_hypotheek_doorstromer({ params: { arguments: args } });
+
+    expect(requests).toHaveLength(2);
+    expect(getRateLimiter().checkLimit('opzet-boeterente', 0).current).toBe(2);
+  });
+
+  it('does not count a rentes call when the vergelijkingsrente is given', async () => {
+    await TOOL_HANDLERS.opzet_hypotheek_doorstromer({
+      params: { arguments: { ...args, vergelijkingsrente: 0.04 } },
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(getRateLimiter().checkLimit('opzet-boeterente', 0).current).toBe(1);
+  });
+});
+
+describe('bereken_gevoeligheid', () => {
+  const args = {
+    inkomen_aanvrager: 60_000,
+    geboortedatum_aanvrager: '1990-03-01',
+    heeft_partner: false,
+    nieuwe_hypotheek: { rente: 0.03, looptijd_jaren: 30 },
+  };
+
+  it('rejects a renteverschuiving that makes the rente negative', async () => {
+    await expect(
+      TOOL_HANDLERS.bereken_gevoeligheid({
+        params: { arguments: { ...args, rente_variaties: [0, -0.05] } },
+      })
+    ).rejects.toThrow('Scenario 2');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('sends only looptijd_maanden for a looptijd scenario', async () => {
+    await TOOL_HANDLERS.bereken_gevoeligheid({
+      params: { arguments: { ...args, looptijden_jaren: [20] } },
+    });
+
+    expect(requests[0].body.nieuwe_lening.looptijd_maanden).toBe(240);
+  });
+});
+
+describe('offline fallback', () => {
+  beforeEach(() => {
+    getCircuitBreaker().forceOpen();
+    // Geen wachttijd tussen de retries op de open circuit breaker
+    jest.spyOn(ApiClient.prototype as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  it('marks the starter result as an estimate with simplified woonquotes', async () => {
+    const response = await TOOL_HANDLERS.bereken_hypotheek_starter({
+      params: {
+        arguments: {
+          inkomen_aanvrager: 60_000,
+          geboortedatum_aanvrager: '1990-03-01',
+          heeft_partner: false,
+        },
+      },
+    });
+
+    expect(requests).toHaveLength(0);
+    expect(response.content[0].text).toContain('INDICATIEF / OFFLINE');
+    expect(response.content[0].text).toContain('vereenvoudigde woonquotes');
+  });
+
+  it('marks the doorstromer result as an estimate with simplified woonquotes', async () => {
+    const response = await TOOL_HANDLERS.bereken_hypotheek_doorstromer({
+      params: {
+        arguments: {
+          inkomen_aanvrager: 70_000,
+          geboortedatum_aanvrager: '1985-04-01',
+          heeft_partner: false,
+          waarde_huidige_woning: 450_000,
+          bestaande_hypotheek: { leningdelen },
+        },
+      },
+    });
+
+    expect(requests).toHaveLength(0);
+    expect(response.content[0].text).toContain('INDICATIEF / OFFLINE');
+    expect(response.content[0].text).toContain('vereenvoudigde woonquotes');
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { request } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpHttpServer } from '../../src/transport/http.js';
+
+const ACCEPT = 'application/json, text/event-stream';
+
+function createTestServer(): Server {
+  const server = new Server(
+    { name: 'test-server', version: '0.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'ping', inputSchema: { type: 'object' as const, properties: {} } }],
+  }));
+  return server;
+}
+
+function initializeBody(id: number) {
+  return {
+    jsonrpc: '2.0',
+    id,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'jest', version: '1.0.0' },
+    },
+  };
+}
+
+/**
+ * POST een initialize met een eigen Host-header (fetch staat dat niet toe)
+ */
+function postMetHost(url: string, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: { Host: host, 'Content-Type': 'application/json', Accept: ACCEPT },
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on('error', reject);
+    req.end(JSON.stringify(initializeBody(1)));
+  });
+}
+
+async function readJsonRpc(response: Response): Promise<any> {
+  const text = await response.text();
+  if ((response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+    const dataLine = text.split('\n').find((line) => line.startsWith('data: '));
+    return dataLine ? JSON.parse(dataLine.slice('data: '.length)) : undefined;
+  }
+  return JSON.parse(text);
+}
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    httpServer = new McpHttpServer({
+      port: 0,
+      host: '127.0.0.1',
+      path: '/mcp',
+      sessionIdleTimeoutMs: 60_000,
+      createServer: createTestServer,
+    });
+    await httpServer.start();
+    baseUrl = `http://127.0.0.1:${httpServer.getPort()}/mcp`;
+  });
+
+  afterAll(async () => {
+    await httpServer.stop();
+  });
+
+  async function initialize(id: number): Promise<string> {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: ACCEPT },
+      body: JSON.stringify(initializeBody(id)),
+    });
+    expect(response.status).toBe(200);
+    const sessionId = response.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    const message = await readJsonRpc(response);
+    expect(message.result.serverInfo.name).toBe('test-server');
+    return sessionId as string;
+  }
+
+  it('creates a separate session per initialize request', async () => {
+    const first = await initialize(1);
+    const second = await initialize(2);
+
+    expect(first).not.toBe(second);
+    expect(httpServer.getSessionCount()).toBeGreaterThanOrEqual(2);
+  });
+
+  it('routes follow-up requests to the session server', async () => {
+    const sessionId = await initialize(1);
+
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: ACCEPT,
+        'mcp-session-id': sessionId,
+        'mcp-protocol-version': '2025-03-26',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(200);
+    const message = await readJsonRpc(response);
+    expect(message.result.tools[0].name).toBe('ping');
+  });
+
+  it('rejects non-initialize requests without a session', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: ACCEPT },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 for unknown sessions and paths', async () => {
+    const unknownSession = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: ACCEPT, 'mcp-session-id': 'nope' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+    });
+    expect(unknownSession.status).toBe(404);
+
+    const unknownPath = await fetch(baseUrl.replace('/mcp', '/other'));
+    expect(unknownPath.status).toBe(404);
+  });
+
+  it('rejects requests with a foreign Host header (DNS rebinding)', async () => {
+    const before = httpServer.getSessionCount();
+
+    expect(await postMetHost(baseUrl, 'evil.example')).toBe(403);
+    expect(await postMetHost(baseUrl, `localhost:${httpServer.getPort()}`)).toBe(200);
+    expect(httpServer.getSessionCount()).toBe(before + 1);
+  });
+
+  it('closes a session on DELETE', async () => {
+    const sessionId = await initialize(1);
+    const before = httpServer.getSessionCount();
+
+    const response = await fetch(baseUrl, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(httpServer.getSessionCount()).toBe(before - 1);
+  });
+});
+
+describe('McpHttpServer session limits', () => {
+  let httpServer: McpHttpServer;
+  let baseUrl: string;
+  let closedServers = 0;
+
+  beforeAll(async () => {
+    httpServer = new McpHttpServer({
+      port: 0,
+      host: '127.0.0.1',
+      path: '/mcp',
+      sessionIdleTimeoutMs: 60_000,
+      maxSessions: 1,
+      createServer: () => {
+        const server = createTestServer();
+        server.onclose = () => {
+          closedServers++;
+        };
+        return server;
+      },
+    });
+    await httpServer.start();
+    baseUrl = `http://127.0.0.1:${httpServer.getPort()}/mcp`;
+  });
+
+  afterAll(async () => {
+    await httpServer.stop();
+  });
+
+  function postInitialize(accept: string): Promise<Response> {
+    return fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: accept },
+      body: JSON.stringify(initializeBody(1)),
+    });
+  }
+
+  it('closes the server when initialize does not create a session', async () => {
+    const response = await postInitialize('application/json');
+
+    expect(response.status).toBe(406);
+    expect(httpServer.getSessionCount()).toBe(0);
+    expect(closedServers).toBe(1);
+  });
+
+  it('rejects new sessions above maxSessions', async () => {
+    const first = await postInitialize(ACCEPT);
+    await first.text();
+    expect(first.status).toBe(200);
+
+    const second = await postInitialize(ACCEPT);
+    expect(second.status).toBe(503);
+    expect(httpServer.getSessionCount()).toBe(1);
+  });
+});
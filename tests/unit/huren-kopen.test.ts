@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  HurenKopenInput,
+  STANDAARD_HUREN_KOPEN_AANNAMES,
+  vergelijkHurenKopen,
+} from '../../src/calculations/huren-kopen.js';
+
+const basis: HurenKopenInput = {
+  koopsom: 400_000,
+  hypotheek: {
+    huidige_schuld: 400_000,
+    huidige_rente: 0.04,
+    resterende_looptijd_in_maanden: 360,
+    rentevasteperiode_maanden: 360,
+    hypotheekvorm: 'annuiteit',
+  },
+  eigen_geld_ingebracht: 20_000,
+  eigen_vermogen: 30_000,
+  huur_per_maand: 1_500,
+  ...STANDAARD_HUREN_KOPEN_AANNAMES,
+};
+
+describe('Huren versus kopen', () => {
+  it('produces one row per year of the horizon with a declining restschuld', () => {
+    const resultaat = vergelijkHurenKopen(basis);
+
+    expect(resultaat.jaren).toHaveLength(10);
+    expect(resultaat.jaren[0].restschuld).toBeLessThan(400_000);
+    expect(resultaat.jaren[9].restschuld).toBeLessThan(resultaat.jaren[0].restschuld);
+    expect(resultaat.jaren[0].woningwaarde).toBeCloseTo(408_000, 2);
+    expect(resultaat.jaren[0].woonlasten_huren).toBeCloseTo(18_000, 2);
+    expect(resultaat.jaren[1].woonlasten_huren).toBeCloseTo(18_540, 2);
+  });
+
+  it('lets the huurder invest the difference when kopen is more expensive', () => {
+    const jaar = vergelijkHurenKopen({ ...basis, rendement: 0 }).jaren[0];
+
+    expect(jaar.woonlasten_kopen).toBeGreaterThan(jaar.woonlasten_huren);
+    expect(jaar.vermogen_huren).toBeCloseTo(
+      30_000 + jaar.woonlasten_kopen - jaar.woonlasten_huren,
+      1
+    );
+    expect(jaar.vermogen_kopen).toBeCloseTo(jaar.woningwaarde - jaar.restschuld + 10_000, 1);
+    expect(jaar.verschil).toBeCloseTo(jaar.vermogen_kopen - jaar.vermogen_huren, 1);
+  });
+
+  it('reports the first year in which kopen catches up', () => {
+    const duur = vergelijkHurenKopen({ ...basis, huur_per_maand: 2_000, horizon_jaren: 15 });
+    expect(duur.omslagjaar).toBeDefined();
+    expect(duur.jaren[duur.omslagjaar! - 1].verschil).toBeGreaterThanOrEqual(0);
+    if (duur.omslagjaar! > 1) {
+      expect(duur.jaren[duur.omslagjaar! - 2].verschil).toBeLessThan(0);
+    }
+
+    const goedkoop = vergelijkHurenKopen({ ...basis, huur_per_maand: 500, waardestijging: -0.02 });
+    expect(goedkoop.omslagjaar).toBeUndefined();
+  });
+});
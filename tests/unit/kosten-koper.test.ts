@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  STANDAARD_BIJKOMENDE_KOSTEN,
+  berekenKostenKoper,
+  berekenOverdrachtsbelasting,
+  getKostenKoperParameters,
+  heeftStartersvrijstelling,
+} from '../../src/calculations/kosten-koper.js';
+
+const peildatum = new Date('2025-06-01');
+const parameters = getKostenKoperParameters(2025);
+const starter = { geboortedatum: '1995-01-01' };
+const ouder = { geboortedatum: '1980-01-01' };
+
+describe('Kosten koper', () => {
+  it('grants the startersvrijstelling below 35 and under the woningwaardegrens', () => {
+    expect(heeftStartersvrijstelling(starter, 400_000, parameters, peildatum)).toBe(true);
+    expect(heeftStartersvrijstelling(ouder, 400_000, parameters, peildatum)).toBe(false);
+    expect(heeftStartersvrijstelling(starter, 530_000, parameters, peildatum)).toBe(false);
+    expect(
+      heeftStartersvrijstelling(
+        { ...starter, eerder_startersvrijstelling_gebruikt: true },
+        400_000,
+        parameters,
+        peildatum
+      )
+    ).toBe(false);
+  });
+
+  it('applies the vrijstelling per koper on equal shares', () => {
+    expect(berekenOverdrachtsbelasting(400_000, [starter], parameters, peildatum).bedrag).toBe(0);
+    expect(berekenOverdrachtsbelasting(400_000, [ouder], parameters, peildatum).bedrag).toBe(8_000);
+    expect(
+      berekenOverdrachtsbelasting(400_000, [starter, ouder], parameters, peildatum).bedrag
+    ).toBe(4_000);
+  });
+
+  it('itemises the kosten and derives the kosten_percentage', () => {
+    const kosten = berekenKostenKoper({ waarde_woning: 400_000, kopers: [ouder], peildatum });
+    const verwacht =
+      8_000 +
+      STANDAARD_BIJKOMENDE_KOSTEN.notariskosten +
+      STANDAARD_BIJKOMENDE_KOSTEN.taxatiekosten +
+      STANDAARD_BIJKOMENDE_KOSTEN.advieskosten;
+
+    expect(kosten.startersvrijstelling).toBe('geen');
+    expect(kosten.nhg_provisie).toBe(0);
+    expect(kosten.totaal).toBe(verwacht);
+    expect(kosten.percentage).toBeCloseTo(verwacht / 400_000, 10);
+  });
+
+  it('uses overrides and includes the financed NHG provisie', () => {
+    const kosten = berekenKostenKoper({
+      waarde_woning: 300_000,
+      kopers: [starter],
+      eigen_inbreng: 10_000,
+      overrides: { notariskosten: 1_500, taxatiekosten: 700, advieskosten: 2_500, nhg: true },
+      peildatum,
+    });
+    const basis = 300_000 + 1_500 + 700 + 2_500 - 10_000;
+
+    expect(kosten.startersvrijstelling).toBe('volledig');
+    expect(kosten.nhg_provisie).toBeCloseTo((basis / 0.996) * 0.004, 2);
+    expect(kosten.totaal).toBeCloseTo(4_700 + kosten.nhg_provisie, 2);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  berekenEigenwoningforfait,
+  berekenNettoMaandlast,
+  berekenNettoMaandlastVoorLeningdelen,
+  getFiscaleParameters,
+  marginaalTarief,
+} from '../../src/calculations/netto-maandlast.js';
+
+describe('Netto maandlast', () => {
+  const parameters2025 = getFiscaleParameters(2025);
+
+  it('calculates the eigenwoningforfait per bracket and above the villagrens', () => {
+    expect(berekenEigenwoningforfait(40_000, parameters2025)).toBe(80);
+    expect(berekenEigenwoningforfait(400_000, parameters2025)).toBeCloseTo(1_400, 2);
+    expect(berekenEigenwoningforfait(1_510_000, parameters2025)).toBeCloseTo(
+      4_585 + 200_000 * 0.0235,
+      2
+    );
+  });
+
+  it('returns the marginal box 1 rate', () => {
+    expect(marginaalTarief(30_000, parameters2025)).toBe(0.3582);
+    expect(marginaalTarief(60_000, parameters2025)).toBe(0.3748);
+    expect(marginaalTarief(120_000, parameters2025)).toBe(0.495);
+  });
+
+  it('caps the deduction at the aftrektarief for high incomes', () => {
+    const netto = berekenNettoMaandlast({
+      bruto_maandlast: 1_500,
+      aftrekbare_rente_jaar: 12_000,
+      woz_waarde: 400_000,
+      inkomen: 120_000,
+      jaar: 2025,
+    });
+
+    expect(netto.tarief).toBe(0.3748);
+    expect(netto.saldo_eigen_woning).toBe(-10_600);
+    expect(netto.fiscaal_voordeel_jaar).toBeCloseTo(3_972.88, 2);
+    expect(netto.netto_maandlast).toBeCloseTo(1_500 - 3_972.88 / 12, 2);
+  });
+
+  it('applies the Hillen phase-out when the forfait exceeds the rente', () => {
+    const netto = berekenNettoMaandlast({
+      bruto_maandlast: 200,
+      aftrekbare_rente_jaar: 400,
+      woz_waarde: 400_000,
+      inkomen: 50_000,
+      jaar: 2025,
+    });
+
+    expect(netto.hillen_aftrek).toBeCloseTo(1_000 * 0.76667, 2);
+    expect(netto.saldo_eigen_woning).toBeCloseTo(233.33, 2);
+    expect(netto.netto_maandlast).toBeGreaterThan(200);
+  });
+
+  it('falls back to the most recent year for future years', () => {
+    expect(getFiscaleParameters(2099).jaar).toBe(2026);
+  });
+
+  it('excludes aflossingsvrije leningdelen unless overgangsrecht applies', () => {
+    const leningdelen = [
+      {
+        huidige_schuld: 100_000,
+        huidige_rente: 0.04,
+        resterende_looptijd_in_maanden: 360,
+        rentevasteperiode_maanden: 120,
+        hypotheekvorm: 'aflossingsvrij',
+      },
+    ];
+
+    const zonder = berekenNettoMaandlastVoorLeningdelen(leningdelen, {
+      woz_waarde: 300_000,
+      inkomen: 60_000,
+      jaar: 2025,
+    });
+    const met = berekenNettoMaandlastVoorLeningdelen(leningdelen, {
+      woz_waarde: 300_000,
+      inkomen: 60_000,
+      jaar: 2025,
+      aflossingsvrij_aftrekbaar: true,
+    });
+
+    expect(zonder.aftrekbare_rente_jaar).toBe(0);
+    expect(zonder.bruto_maandlast).toBeCloseTo(333.33, 2);
+    expect(met.aftrekbare_rente_jaar).toBe(4_000);
+    expect(met.netto_maandlast).toBeLessThan(zonder.netto_maandlast);
+  });
+});
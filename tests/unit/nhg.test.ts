@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  bepaalRenteklasse,
+  berekenEffectieveKostengrens,
+  getNhgParameters,
+  toetsNhg,
+} from '../../src/calculations/nhg.js';
+
+const renteklassen = [
+  {
+    naam: 'NHG',
+    lowerbound_ltv_pct: 0,
+    higherbound_ltv_pct: 100,
+    nhg: true,
+    rente_jaarlijks_pct: 3.6,
+  },
+  {
+    naam: 'LTV ≤ 80%',
+    lowerbound_ltv_pct: 0,
+    higherbound_ltv_pct: 80,
+    nhg: false,
+    rente_jaarlijks_pct: 3.8,
+  },
+  {
+    naam: 'LTV ≤ 100%',
+    lowerbound_ltv_pct: 80,
+    higherbound_ltv_pct: 100,
+    nhg: false,
+    rente_jaarlijks_pct: 4.1,
+  },
+];
+
+describe('NHG', () => {
+  it('raises the kostengrens for energiebesparende voorzieningen up to the cap', () => {
+    const parameters = getNhgParameters(2025);
+
+    expect(berekenEffectieveKostengrens(parameters, 10_000)).toEqual({
+      grens: 480_000,
+      opslag: 10_000,
+    });
+    expect(berekenEffectieveKostengrens(parameters, 50_000).grens).toBeCloseTo(498_200, 2);
+  });
+
+  it('uses the lower borgtochtprovisie from 2025', () => {
+    expect(getNhgParameters(2024).provisie).toBe(0.006);
+    expect(getNhgParameters(2025).provisie).toBe(0.004);
+    expect(getNhgParameters(2026)).toMatchObject({ kostengrens: 470_000, provisie: 0.004 });
+  });
+
+  it('qualifies below the kostengrens and charges the borgtochtprovisie', () => {
+    const toets = toetsNhg({ hypotheekbedrag: 400_000, marktwaarde: 420_000, jaar: 2025 });
+
+    expect(toets.komt_in_aanmerking).toBe(true);
+    expect(toets.borgtochtprovisie).toBe(1_600);
+    expect(toets.renteklasse).toBe('NHG');
+  });
+
+  it('rejects above the kostengrens unless the verduurzaming lifts it', () => {
+    const zonder = toetsNhg({ hypotheekbedrag: 480_000, marktwaarde: 500_000, jaar: 2025 });
+    const met = toetsNhg({
+      hypotheekbedrag: 480_000,
+      marktwaarde: 500_000,
+      bedrag_verduurzamen: 15_000,
+      jaar: 2025,
+    });
+
+    expect(zonder.komt_in_aanmerking).toBe(false);
+    expect(zonder.borgtochtprovisie).toBe(0);
+    expect(zonder.renteklasse).toBe('LTV ≤ 100%');
+    expect(met.komt_in_aanmerking).toBe(true);
+    expect(met.effectieve_kostengrens).toBe(485_000);
+  });
+
+  it('picks the matching renteklasse from the supplied table', () => {
+    expect(bepaalRenteklasse(0.75, false, renteklassen)).toEqual({
+      naam: 'LTV ≤ 80%',
+      rente_pct: 3.8,
+    });
+    expect(bepaalRenteklasse(0.95, true, renteklassen)).toEqual({ naam: 'NHG', rente_pct: 3.6 });
+    expect(bepaalRenteklasse(0.55, false)).toEqual({ naam: 'LTV ≤ 60%' });
+  });
+
+  it('uses the kostengrens of the requested year', () => {
+    expect(
+      toetsNhg({ hypotheekbedrag: 450_000, marktwaarde: 460_000, jaar: 2024 }).komt_in_aanmerking
+    ).toBe(false);
+    expect(
+      toetsNhg({ hypotheekbedrag: 450_000, marktwaarde: 460_000, jaar: 2025 }).komt_in_aanmerking
+    ).toBe(true);
+  });
+});
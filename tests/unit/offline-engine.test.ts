@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  AFM_TOETSRENTE,
+  OFFLINE_LABEL,
+  bepaalToetsinkomen,
+  bepaalToetsrente,
+  bepaalWoonquote,
+  berekenOfflineDoorstromer,
+  berekenOfflineMaximaleHypotheek,
+  berekenOfflineStarter,
+  getWoonquoteTabel,
+} from '../../src/calculations/offline-engine.js';
+import { annuiteitMaandlast } from '../../src/calculations/financieel.js';
+
+describe('Offline engine', () => {
+  it('applies the AFM toetsrente for rentevast shorter than 10 years', () => {
+    expect(bepaalToetsrente(0.035, 60)).toBe(AFM_TOETSRENTE);
+    expect(bepaalToetsrente(0.035, 120)).toBe(0.035);
+    expect(bepaalToetsrente(0.06, 12)).toBe(0.06);
+  });
+
+  it('picks the most recent table not after the requested year', () => {
+    expect(getWoonquoteTabel(2025).jaar).toBe(2025);
+    expect(getWoonquoteTabel(2030).jaar).toBe(2025);
+    expect(getWoonquoteTabel(2010).jaar).toBe(2024);
+  });
+
+  it('weighs the partner income with the partner factor of the table', () => {
+    const aanvragers = { inkomen_aanvrager: 40_000, heeft_partner: true, inkomen_partner: 60_000 };
+
+    expect(bepaalToetsinkomen(aanvragers, getWoonquoteTabel(2025))).toBe(100_000);
+    expect(bepaalToetsinkomen(aanvragers, getWoonquoteTabel(2024))).toBe(96_000);
+  });
+
+  it('looks up the woonquote by income and rente bracket', () => {
+    const tabel = getWoonquoteTabel(2025);
+
+    expect(bepaalWoonquote(tabel, 55_000, 0.045)).toBe(0.28);
+    expect(bepaalWoonquote(tabel, 250_000, 0.08)).toBe(0.355);
+  });
+
+  it('derives the maximale hypotheek from the maximale maandlast at the toetsrente', () => {
+    const berekening = berekenOfflineMaximaleHypotheek(
+      { inkomen_aanvrager: 60_000, heeft_partner: false, verplichtingen_pm: 100 },
+      { rente: 0.04, rentevastMaanden: 120, looptijdMaanden: 360, jaar: 2025 }
+    );
+
+    expect(berekening.woonquote).toBe(0.29);
+    expect(berekening.maximale_maandlast).toBe(1350);
+    expect(annuiteitMaandlast(berekening.maximaal_bedrag, 0.04, 360)).toBeCloseTo(1350, 0);
+  });
+
+  it('never returns a negative amount when obligations exceed the woonquote', () => {
+    const berekening = berekenOfflineMaximaleHypotheek({
+      inkomen_aanvrager: 20_000,
+      heeft_partner: false,
+      verplichtingen_pm: 5_000,
+    });
+
+    expect(berekening.maximaal_bedrag).toBe(0);
+  });
+
+  it('flags starter results as offline and adds disclaimers', () => {
+    const data = berekenOfflineStarter({ inkomen_aanvrager: 50_000, heeft_partner: false });
+
+    expect(data.offline).toBe(true);
+    expect(data.resultaat[0].resultaat_omschrijving).toBe(OFFLINE_LABEL);
+    expect(data.extra_informatie.disclaimers[0]).toContain('INDICATIEVE');
+  });
+
+  it('adds overwaarde and current maandlast for doorstromers', () => {
+    const data = berekenOfflineDoorstromer(
+      { inkomen_aanvrager: 80_000, heeft_partner: false },
+      400_000,
+      [
+        {
+          huidige_schuld: 200_000,
+          huidige_rente: 0.02,
+          resterende_looptijd_in_maanden: 240,
+          rentevasteperiode_maanden: 60,
+          hypotheekvorm: 'aflossingsvrij',
+        },
+      ]
+    );
+    const resultaat = data.resultaat[0];
+
+    expect(resultaat.overwaarde_bedrag).toBe(200_000);
+    expect(resultaat.maandlast_nu).toBeCloseTo(333.33, 2);
+    expect(resultaat.max_woningbudget).toBe(resultaat.maximaal_bedrag + 200_000);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import type { Server as HttpServer } from 'node:http';
+import { startOpsServer } from '../../src/routes/ops-server.js';
+import { recordToolCall } from '../../src/metrics/exporter.js';
+
+describe('Ops endpoints', () => {
+  let server: HttpServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startOpsServer(0, '127.0.0.1');
+    const address = server.address();
+    const port = address && typeof address === 'object' ? address.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('serves the liveness probe', async () => {
+    const response = await fetch(`${baseUrl}/live`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'alive' });
+  });
+
+  it('serves the readiness probe', async () => {
+    const response = await fetch(`${baseUrl}/ready`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ready' });
+  });
+
+  it('exports metrics in Prometheus text format', async () => {
+    recordToolCall('bereken_hypotheek_starter', 120, true);
+
+    const response = await fetch(`${baseUrl}/metrics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(body).toContain('# TYPE hypotheek_tool_calls_total counter');
+    expect(body).toContain('tool="bereken_hypotheek_starter"');
+  });
+
+  it('exports metrics as JSON with ?format=json', async () => {
+    const response = await fetch(`${baseUrl}/metrics?format=json`);
+    const body = (await response.json()) as Record<string, any>;
+
+    expect(response.status).toBe(200);
+    expect(body.metrics).toHaveProperty('hypotheek_process_uptime_seconds');
+  });
+
+  it('returns 404 for unknown paths and 405 for other methods', async () => {
+    expect((await fetch(`${baseUrl}/unknown`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/live`, { method: 'POST' })).status).toBe(405);
+  });
+});
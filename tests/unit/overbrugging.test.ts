@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  berekenDubbeleWoonlasten,
+  berekenOverbrugging,
+  maandenTussen,
+} from '../../src/calculations/overbrugging.js';
+import { totaleMaandlast } from '../../src/calculations/financieel.js';
+import { Leningdeel } from '../../src/types/index.js';
+
+const deel: Leningdeel = {
+  huidige_schuld: 200_000,
+  huidige_rente: 0.03,
+  resterende_looptijd_in_maanden: 240,
+  rentevasteperiode_maanden: 60,
+  hypotheekvorm: 'annuiteit',
+};
+
+describe('Overbruggingskrediet', () => {
+  it('counts started months between purchase and sale', () => {
+    expect(maandenTussen(new Date('2025-03-01'), new Date('2025-09-01'))).toBe(6);
+    expect(maandenTussen(new Date('2025-03-01'), new Date('2025-09-15'))).toBe(7);
+    expect(maandenTussen(new Date('2025-03-15'), new Date('2025-04-01'))).toBe(1);
+    expect(maandenTussen(new Date('2025-03-01'), new Date('2025-02-01'))).toBe(0);
+  });
+
+  it('charges interest-only rente on the overwaarde on top of the existing maandlast', () => {
+    const resultaat = berekenOverbrugging({
+      verwachte_overwaarde: 150_000,
+      rente: 0.06,
+      looptijd_maanden: 6,
+      bestaande_leningdelen: [deel],
+    });
+    const bestaand = totaleMaandlast([deel]);
+
+    expect(resultaat.krediet).toBe(150_000);
+    expect(resultaat.rente_per_maand).toBeCloseTo(750, 2);
+    expect(resultaat.bestaande_maandlast).toBeCloseTo(bestaand, 2);
+    expect(resultaat.dubbele_lasten_per_maand).toBeCloseTo(bestaand + 750, 2);
+    expect(resultaat.totale_rente).toBeCloseTo(4_500, 2);
+    expect(resultaat.totale_dubbele_lasten).toBeCloseTo((bestaand + 750) * 6, 1);
+    expect(resultaat.reden).toBeUndefined();
+  });
+
+  it('needs no krediet without overwaarde but keeps the existing lasten', () => {
+    const resultaat = berekenOverbrugging({
+      verwachte_overwaarde: -10_000,
+      rente: 0.06,
+      looptijd_maanden: 3,
+      bestaande_leningdelen: [deel],
+    });
+
+    expect(resultaat.krediet).toBe(0);
+    expect(resultaat.rente_per_maand).toBe(0);
+    expect(resultaat.dubbele_lasten_per_maand).toBeGreaterThan(0);
+    expect(resultaat.reden).toBeDefined();
+  });
+});
+
+describe('Dubbele woonlasten', () => {
+  const bestaand = totaleMaandlast([deel]);
+
+  it('adds the existing maandlast and overbruggingsrente on top of the new maandlast', () => {
+    const resultaat = berekenDubbeleWoonlasten({
+      maanden: 6,
+      bestaande_leningdelen: [deel],
+      nieuwe_maandlast: 2_000,
+      overige_lasten_per_maand: 500,
+      buffer: 50_000,
+    });
+
+    expect(resultaat.extra_per_maand).toBeCloseTo(bestaand + 500, 2);
+    expect(resultaat.totale_maandlast).toBeCloseTo(2_000 + bestaand + 500, 2);
+    expect(resultaat.extra_totaal).toBeCloseTo((bestaand + 500) * 6, 1);
+    expect(resultaat.totaal_benodigd).toBeCloseTo((2_000 + bestaand + 500) * 6, 1);
+    expect(resultaat.buffer_toereikend).toBe(true);
+    expect(resultaat.tekort).toBe(0);
+    expect(resultaat.maanden_gedekt).toBe(6);
+  });
+
+  it('reports the shortfall and covered months when the buffer is too small', () => {
+    const resultaat = berekenDubbeleWoonlasten({
+      maanden: 12,
+      bestaande_leningdelen: [deel],
+      nieuwe_maandlast: 2_000,
+      buffer: bestaand * 4.5,
+    });
+
+    expect(resultaat.buffer_toereikend).toBe(false);
+    expect(resultaat.maanden_gedekt).toBe(4);
+    expect(resultaat.tekort).toBeCloseTo(bestaand * 7.5, 1);
+  });
+
+  it('treats a negative buffer as no buffer', () => {
+    const resultaat = berekenDubbeleWoonlasten({
+      maanden: 3,
+      bestaande_leningdelen: [deel],
+      nieuwe_maandlast: 2_000,
+      buffer: -5_000,
+    });
+
+    expect(resultaat.buffer).toBe(0);
+    expect(resultaat.maanden_gedekt).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  berekenOversluiten,
+  STANDAARD_OVERSLUITKOSTEN,
+} from '../../src/calculations/oversluiten.js';
+import { Leningdeel } from '../../src/types/index.js';
+
+const deel: Leningdeel = {
+  huidige_schuld: 300_000,
+  huidige_rente: 0.05,
+  resterende_looptijd_in_maanden: 300,
+  rentevasteperiode_maanden: 60,
+  hypotheekvorm: 'annuiteit',
+};
+
+describe('Oversluiten', () => {
+  it('uses the default costs and compares over the remaining rentevaste periode', () => {
+    const resultaat = berekenOversluiten({
+      leningdelen: [deel],
+      nieuwe_rente: 0.035,
+      nieuwe_rentevast_maanden: 120,
+      boeterente: 10_000,
+    });
+
+    expect(resultaat.kosten.totaal).toBe(
+      10_000 +
+        STANDAARD_OVERSLUITKOSTEN.advieskosten +
+        STANDAARD_OVERSLUITKOSTEN.notariskosten +
+        STANDAARD_OVERSLUITKOSTEN.taxatiekosten
+    );
+    expect(resultaat.horizon_maanden).toBe(60);
+    expect(resultaat.maandlast_verschil).toBeLessThan(0);
+    expect(resultaat.break_even_maand).toBeGreaterThan(1);
+    expect(resultaat.break_even_maand).toBeLessThanOrEqual(60);
+    expect(resultaat.netto_voordeel).toBeGreaterThan(0);
+    expect(resultaat.reden).toBeUndefined();
+  });
+
+  it('counts financed costs through a higher restschuld instead of upfront', () => {
+    const invoer = {
+      leningdelen: [deel],
+      nieuwe_rente: 0.035,
+      nieuwe_rentevast_maanden: 120,
+      boeterente: 10_000,
+    };
+    const eigenGeld = berekenOversluiten(invoer);
+    const meegefinancierd = berekenOversluiten({ ...invoer, kosten_meefinancieren: true });
+
+    expect(meegefinancierd.nieuwe_hoofdsom).toBeCloseTo(300_000 + eigenGeld.kosten.totaal, 2);
+    expect(meegefinancierd.nieuwe_maandlast).toBeGreaterThan(eigenGeld.nieuwe_maandlast);
+    // Over dezelfde horizon ongeveer gelijk; meefinancieren kost alleen rente over de kosten
+    expect(meegefinancierd.netto_voordeel).toBeLessThan(eigenGeld.netto_voordeel);
+    expect(eigenGeld.netto_voordeel - meegefinancierd.netto_voordeel).toBeLessThan(3_000);
+  });
+
+  it('explains when the new rate is not lower', () => {
+    const resultaat = berekenOversluiten({
+      leningdelen: [deel],
+      nieuwe_rente: 0.055,
+      nieuwe_rentevast_maanden: 120,
+      boeterente: 0,
+    });
+
+    expect(resultaat.break_even_maand).toBeUndefined();
+    expect(resultaat.netto_voordeel).toBeLessThan(0);
+    expect(resultaat.reden).toMatch(/niet lager/);
+  });
+
+  it('uses the new rentevaste periode as horizon when the old one has ended', () => {
+    const resultaat = berekenOversluiten({
+      leningdelen: [{ ...deel, rentevasteperiode_maanden: 0 }],
+      nieuwe_rente: 0.045,
+      nieuwe_rentevast_maanden: 120,
+      boeterente: 0,
+    });
+
+    expect(resultaat.horizon_maanden).toBe(120);
+  });
+});
@@ -1,5 +1,11 @@
-import { describe, it, expect, beforeEach } from '@jest/globals';
-import { RateLimiter } from '../../src/middleware/rate-limiter.js';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  RateLimiter,
+  enforceRateLimit,
+  getRateLimiter,
+  metTransportSessie,
+  resetRateLimiter,
+} from '../../src/middleware/rate-limiter.js';
 import { ErrorCode } from '../../src/types/index.js';
 
 describe('RateLimiter', () => {
@@ -41,6 +47,49 @@ describe('RateLimiter', () => {
     });
   });
 
+  describe('Multiple backend calls', () => {
+    it('should charge every backend call of one request', () => {
+      const info = limiter.checkLimit('test-session', 27);
+      expect(info.allowed).toBe(true);
+      expect(info.current).toBe(27);
+      expect(limiter.getStats('test-session')?.current).toBe(27);
+    });
+
+    it('should block a request that does not fit in the remaining budget', () => {
+      limiter.checkLimit('test-session', 90);
+
+      const info = limiter.checkLimit('test-session', 11);
+      expect(info.allowed).toBe(false);
+      expect(info.retryAfter).toBeGreaterThan(0);
+      expect(limiter.checkLimit('test-session', 10).allowed).toBe(true);
+    });
+
+    it('should throw a rate limit error from enforce', () => {
+      limiter.checkLimit('test-session', 95);
+
+      expect(() => limiter.enforce('test-session', 6)).toThrow(
+        expect.objectContaining({ code: ErrorCode.API_RATE_LIMIT })
+      );
+    });
+  });
+
+  describe('Transport sessions', () => {
+    afterEach(() => {
+      resetRateLimiter();
+    });
+
+    it('should charge the MCP transport session instead of the session_id argument', () => {
+      metTransportSessie('transport-1', () => enforceRateLimit(undefined, 100));
+
+      // Een andere transportsessie zonder session_id heeft een eigen budget
+      expect(() => metTransportSessie('transport-2', () => enforceRateLimit())).not.toThrow();
+      expect(() => metTransportSessie('transport-1', () => enforceRateLimit('eigen-id'))).toThrow(
+        expect.objectContaining({ code: ErrorCode.API_RATE_LIMIT })
+      );
+      expect(getRateLimiter().checkLimit('default', 0).current).toBe(0);
+    });
+  });
+
   describe('Sliding Window', () => {
     it('should reset after window expires', async () => {
       // TODO: implement with mocked timers or by exposing internals
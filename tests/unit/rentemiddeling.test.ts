@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  berekenMiddelrente,
+  berekenRentemiddeling,
+} from '../../src/calculations/rentemiddeling.js';
+import { Leningdeel } from '../../src/types/index.js';
+
+const leningdeel: Leningdeel = {
+  huidige_schuld: 200_000,
+  huidige_rente: 0.05,
+  resterende_looptijd_in_maanden: 240,
+  rentevasteperiode_maanden: 36,
+  hypotheekvorm: 'aflossingsvrij',
+};
+
+describe('Rentemiddeling', () => {
+  it('weighs the huidige and actuele rente by time and adds the opslag', () => {
+    expect(berekenMiddelrente(0.05, 36, 0.035, 120)).toBeCloseTo(0.0395, 10);
+    expect(berekenMiddelrente(0.05, 36, 0.035, 120, 0.002)).toBeCloseTo(0.0415, 10);
+  });
+
+  it('lowers the maandlast and breaks even when the rente stays flat', () => {
+    const resultaat = berekenRentemiddeling({
+      leningdeel,
+      nieuwe_rente: 0.035,
+      nieuwe_rentevast_maanden: 120,
+      renteopslag: 0.002,
+    });
+
+    expect(resultaat.nieuwe_maandlast).toBeCloseTo((200_000 * 0.0415) / 12, 2);
+    expect(resultaat.maandlast_verschil).toBeLessThan(0);
+    expect(resultaat.kostenverschil).toBeCloseTo(-0.002 * 200_000 * 10, -1);
+    expect(resultaat.break_even_maand).toBeGreaterThan(36);
+    expect(resultaat.break_even_maand).toBeLessThanOrEqual(120);
+  });
+
+  it('pays off when the rente after the rentevaste periode is expected to rise', () => {
+    const resultaat = berekenRentemiddeling({
+      leningdeel,
+      nieuwe_rente: 0.035,
+      nieuwe_rentevast_maanden: 120,
+      rente_na_afloop: 0.045,
+    });
+
+    expect(resultaat.kostenverschil).toBeCloseTo(0.01 * 200_000 * 7, -1);
+    expect(resultaat.break_even_maand).toBeUndefined();
+  });
+
+  it('flags rentemiddeling when the actuele rente is not lower', () => {
+    const resultaat = berekenRentemiddeling({
+      leningdeel,
+      nieuwe_rente: 0.055,
+      nieuwe_rentevast_maanden: 120,
+    });
+
+    expect(resultaat.reden).toBe('Actuele rente is niet lager dan de huidige rente');
+  });
+});
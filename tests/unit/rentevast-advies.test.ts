@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  adviseerRentevastePeriode,
+  berekenBreakEvenStijging,
+  selecteerRentes,
+} from '../../src/calculations/rentevast-advies.js';
+
+const input = {
+  hypotheekbedrag: 300_000,
+  looptijd_maanden: 360,
+  rentes: [
+    { rentevast_maanden: 60, rente: 0.035 },
+    { rentevast_maanden: 120, rente: 0.038 },
+  ],
+};
+
+describe('Rentevaste periode advies', () => {
+  it('reads flat and rate tables tiered by LTV', () => {
+    expect(selecteerRentes({ '10_jaar': 3.45, '5_jaar': '3.15', datum: 'x' }, 0.8)).toEqual([
+      { rentevast_maanden: 60, rente: 0.0315 },
+      { rentevast_maanden: 120, rente: 0.0345 },
+    ]);
+
+    const staffel = { '10_jaar': { '60': 3.4, ltv_80: 3.6, '100': 3.9 } };
+    expect(selecteerRentes(staffel, 0.6)[0].rente).toBeCloseTo(0.034);
+    expect(selecteerRentes(staffel, 0.75)[0].rente).toBeCloseTo(0.036);
+    expect(selecteerRentes(staffel, 0.95)[0].rente).toBeCloseTo(0.039);
+    expect(selecteerRentes(staffel, 1.05)).toEqual([]);
+  });
+
+  it('finds the rate increase at which the shorter period costs as much', () => {
+    const stijging = berekenBreakEvenStijging(input, input.rentes[0], input.rentes[1])!;
+
+    // Halverwege de langere periode moet de rente ruim twee keer het verschil stijgen
+    expect(stijging).toBeGreaterThan(0.006);
+    expect(stijging).toBeLessThan(0.008);
+  });
+
+  it('reports zero when the shorter period is not cheaper', () => {
+    const kort = { rentevast_maanden: 60, rente: 0.04 };
+    expect(berekenBreakEvenStijging(input, kort, input.rentes[1])).toBe(0);
+  });
+
+  it('returns maandlast per periode and compares with the next longer one', () => {
+    const adviezen = adviseerRentevastePeriode({
+      ...input,
+      rentes: [...input.rentes, { rentevast_maanden: 480, rente: 0.045 }],
+    });
+
+    expect(adviezen).toHaveLength(2);
+    expect(adviezen[0].maandlast).toBeCloseTo(1347.13, 1);
+    expect(adviezen[0].vergeleken_met_maanden).toBe(120);
+    expect(adviezen[1].vergeleken_met_maanden).toBeUndefined();
+    expect(adviezen[1].break_even_stijging).toBeUndefined();
+  });
+});
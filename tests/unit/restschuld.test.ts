@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  STANDAARD_RESTSCHULD_FINANCIERING,
+  aftrekbaarTot,
+  bepaalRestschuld,
+  berekenRestschuldFinanciering,
+} from '../../src/calculations/restschuld.js';
+import { annuiteitMaandlast } from '../../src/calculations/financieel.js';
+import { Leningdeel } from '../../src/types/index.js';
+
+const delen: Leningdeel[] = [
+  {
+    huidige_schuld: 200_000,
+    huidige_rente: 0.04,
+    resterende_looptijd_in_maanden: 240,
+    rentevasteperiode_maanden: 60,
+    hypotheekvorm: 'annuiteit',
+  },
+  {
+    huidige_schuld: 60_000,
+    huidige_rente: 0.045,
+    resterende_looptijd_in_maanden: 240,
+    rentevasteperiode_maanden: 60,
+    hypotheekvorm: 'aflossingsvrij',
+  },
+];
+
+describe('Restschuld', () => {
+  it('detects the shortfall when the woning is under water', () => {
+    expect(bepaalRestschuld(240_000, delen)).toBe(20_000);
+    expect(bepaalRestschuld(300_000, delen)).toBe(0);
+    expect(
+      berekenRestschuldFinanciering({
+        waarde_huidige_woning: 300_000,
+        leningdelen: delen,
+        inkomen: 60_000,
+      })
+    ).toBeNull();
+  });
+
+  it('finances the restschuld as an annuity with the default assumptions', () => {
+    const resultaat = berekenRestschuldFinanciering({
+      waarde_huidige_woning: 240_000,
+      leningdelen: delen,
+      inkomen: 60_000,
+      peildatum: new Date('2025-06-01'),
+    })!;
+
+    expect(resultaat.restschuld).toBe(20_000);
+    expect(resultaat.rente).toBe(STANDAARD_RESTSCHULD_FINANCIERING.rente);
+    expect(resultaat.looptijd_maanden).toBe(STANDAARD_RESTSCHULD_FINANCIERING.looptijd_maanden);
+    expect(resultaat.bruto_maandlast).toBeCloseTo(annuiteitMaandlast(20_000, 0.06, 180), 2);
+    expect(resultaat.totale_rente).toBeCloseTo(resultaat.bruto_maandlast * 180 - 20_000, 0);
+  });
+
+  it('only deducts the rente for sales between 2012 and 2017, for at most 15 years', () => {
+    expect(aftrekbaarTot(new Date('2012-10-28'))).toBeUndefined();
+    expect(aftrekbaarTot(new Date('2018-01-01'))).toBeUndefined();
+    expect(aftrekbaarTot(new Date('2016-05-01'))?.toISOString().slice(0, 10)).toBe('2031-05-01');
+
+    const nu = berekenRestschuldFinanciering({
+      waarde_huidige_woning: 240_000,
+      leningdelen: delen,
+      inkomen: 60_000,
+      peildatum: new Date('2025-06-01'),
+    })!;
+    expect(nu.rente_aftrekbaar).toBe(false);
+    expect(nu.netto_maandlast).toBe(nu.bruto_maandlast);
+
+    const oud = berekenRestschuldFinanciering({
+      waarde_huidige_woning: 240_000,
+      leningdelen: delen,
+      rente: 0.05,
+      looptijd_maanden: 120,
+      verkoopdatum: new Date('2016-05-01'),
+      inkomen: 60_000,
+      peildatum: new Date('2025-06-01'),
+    })!;
+    expect(oud.rente_aftrekbaar).toBe(true);
+    expect(oud.tarief).toBeGreaterThan(0);
+    expect(oud.netto_maandlast).toBeLessThan(oud.bruto_maandlast);
+    expect(oud.fiscaal_voordeel_pm).toBeCloseTo(oud.bruto_maandlast - oud.netto_maandlast, 1);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ScenarioKerncijfers,
+  bepaalVerschillen,
+  pasAanpassingenToe,
+  wijktAf,
+} from '../../src/calculations/scenario-vergelijking.js';
+
+const basis: ScenarioKerncijfers = {
+  maximaal_bedrag: 300_000,
+  woningbudget: null,
+  maandlast: 1_350,
+  totaal_rente: 185_000,
+  nhg: false,
+};
+
+describe('Scenariovergelijking', () => {
+  it('merges nested objects and replaces lists and values', () => {
+    const invoer = {
+      inkomen_aanvrager: 60_000,
+      nieuwe_hypotheek: { rente: 0.04, rentevast_periode_jaren: 10, renteklassen: [{ naam: 'a' }] },
+    };
+    const resultaat = pasAanpassingenToe(invoer, {
+      nieuwe_hypotheek: { rentevast_periode_jaren: 20, renteklassen: [] },
+    });
+
+    expect(resultaat).toEqual({
+      inkomen_aanvrager: 60_000,
+      nieuwe_hypotheek: { rente: 0.04, rentevast_periode_jaren: 20, renteklassen: [] },
+    });
+    expect(invoer.nieuwe_hypotheek.rentevast_periode_jaren).toBe(10);
+  });
+
+  it('ignores rounding differences below one euro', () => {
+    expect(wijktAf(basis, { ...basis, maandlast: 1_350.4 }, 'maandlast')).toBe(false);
+    expect(wijktAf(basis, { ...basis, maandlast: 1_380 }, 'maandlast')).toBe(true);
+    expect(wijktAf(basis, { ...basis, nhg: true }, 'nhg')).toBe(true);
+    expect(wijktAf(basis, { ...basis, totaal_rente: null }, 'totaal_rente')).toBe(true);
+  });
+
+  it('lists only the kerncijfers that differ in some scenario', () => {
+    const verschillen = bepaalVerschillen(basis, [
+      { ...basis, maandlast: 1_420, totaal_rente: 201_000 },
+      { ...basis, nhg: true },
+    ]);
+
+    expect(verschillen).toEqual(['maandlast', 'totaal_rente', 'nhg']);
+    expect(bepaalVerschillen(basis, [{ ...basis }])).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { annuiteitMaandlast } from '../../src/calculations/financieel.js';
+import {
+  berekenStarterslening,
+  vindStartersleningRegels,
+} from '../../src/calculations/starterslening.js';
+import { StartersleningRegels } from '../../src/types/index.js';
+
+const regels: StartersleningRegels = {
+  gemeente: 'Utrecht',
+  max_bedrag: 50_000,
+  max_koopsom: 435_000,
+  max_percentage_koopsom: 0.2,
+  rente: 0.032,
+  looptijd_maanden: 360,
+  rentevrije_maanden: 36,
+};
+
+describe('Starterslening', () => {
+  it('fills the tekort up to the gemeentelijke maximum', () => {
+    const resultaat = berekenStarterslening({ regels, koopsom: 400_000, tekort: 30_000 });
+
+    expect(resultaat.maximaal).toBe(50_000);
+    expect(resultaat.bedrag).toBe(30_000);
+    expect(resultaat.resterend_tekort).toBe(0);
+    expect(resultaat.reden).toBeUndefined();
+  });
+
+  it('caps the lening at the maximum and reports the remaining tekort', () => {
+    const resultaat = berekenStarterslening({ regels, koopsom: 400_000, tekort: 65_000 });
+
+    expect(resultaat.bedrag).toBe(50_000);
+    expect(resultaat.resterend_tekort).toBe(15_000);
+  });
+
+  it('applies the percentage of the koopsom when that is lower', () => {
+    const resultaat = berekenStarterslening({ regels, koopsom: 200_000, tekort: 60_000 });
+
+    expect(resultaat.maximaal).toBe(40_000);
+    expect(resultaat.bedrag).toBe(40_000);
+  });
+
+  it('is rente- en aflossingsvrij first and annuitair over the remaining looptijd afterwards', () => {
+    const resultaat = berekenStarterslening({ regels, koopsom: 400_000, tekort: 30_000 });
+
+    expect(resultaat.maandlast_rentevrij).toBe(0);
+    expect(resultaat.maandlast_na_rentevrij).toBeCloseTo(annuiteitMaandlast(30_000, 0.032, 324), 2);
+  });
+
+  it('is not available above the koopsomgrens', () => {
+    const resultaat = berekenStarterslening({ regels, koopsom: 450_000, tekort: 30_000 });
+
+    expect(resultaat.bedrag).toBe(0);
+    expect(resultaat.resterend_tekort).toBe(30_000);
+    expect(resultaat.reden).toContain('Utrecht');
+  });
+
+  it('is not needed when hypotheek and eigen geld cover the aankoop', () => {
+    const resultaat = berekenStarterslening({ regels, koopsom: 400_000, tekort: -5_000 });
+
+    expect(resultaat.bedrag).toBe(0);
+    expect(resultaat.maandlast_na_rentevrij).toBe(0);
+    expect(resultaat.reden).toBeDefined();
+  });
+
+  it('uses a requested bedrag within the maximum', () => {
+    const resultaat = berekenStarterslening({
+      regels,
+      koopsom: 400_000,
+      tekort: 10_000,
+      gewenst_bedrag: 60_000,
+    });
+
+    expect(resultaat.bedrag).toBe(50_000);
+    expect(resultaat.resterend_tekort).toBe(0);
+  });
+
+  it('finds the rules of a gemeente regardless of case', () => {
+    expect(vindStartersleningRegels([regels], ' utrecht ')).toBe(regels);
+    expect(vindStartersleningRegels([regels], 'Amersfoort')).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import { bepaalToetsinkomen } from '../../src/calculations/toetsinkomen.js';
+import { validateInkomensbron } from '../../src/validation/schemas.js';
+import { ValidationError } from '../../src/types/index.js';
+
+describe('Toetsinkomen', () => {
+  it('uses the average of the last three years of ZZP winst', () => {
+    const afleiding = bepaalToetsinkomen({ soort: 'zzp', winst_per_jaar: [40000, 50000, 60000] });
+
+    expect(afleiding.gemiddelde).toBe(50000);
+    expect(afleiding.laatste_jaar).toBe(60000);
+    expect(afleiding.toetsinkomen).toBe(50000);
+  });
+
+  it('caps the average at the last year', () => {
+    const afleiding = bepaalToetsinkomen({ soort: 'zzp', winst_per_jaar: [70000, 60000, 45000] });
+
+    expect(afleiding.toetsinkomen).toBe(45000);
+    expect(afleiding.toelichting).toContain('Laatste jaar');
+  });
+
+  it('only looks at the last three years', () => {
+    const afleiding = bepaalToetsinkomen({
+      soort: 'flex',
+      inkomen_per_jaar: [10000, 30000, 33000, 36000],
+    });
+
+    expect(afleiding.gemiddelde).toBe(33000);
+    expect(afleiding.toetsinkomen).toBe(33000);
+  });
+
+  it('never returns a negative toetsinkomen', () => {
+    const afleiding = bepaalToetsinkomen({ soort: 'zzp', winst_per_jaar: [-20000, -10000, -5000] });
+
+    expect(afleiding.toetsinkomen).toBe(0);
+  });
+
+  it('takes IBL and perspectiefverklaring as given', () => {
+    expect(bepaalToetsinkomen({ soort: 'ibl', toetsinkomen: 48123.456 }).toetsinkomen).toBe(
+      48123.46
+    );
+    expect(
+      bepaalToetsinkomen({ soort: 'perspectiefverklaring', jaarinkomen: 52000 }).toetsinkomen
+    ).toBe(52000);
+  });
+});
+
+describe('Inkomensbron Validation', () => {
+  it('accepts a missing inkomensbron', () => {
+    expect(() => validateInkomensbron(undefined, 'inkomensbron_aanvrager')).not.toThrow();
+  });
+
+  it('requires three years of ZZP winst', () => {
+    expect(() =>
+      validateInkomensbron(
+        { soort: 'zzp', winst_per_jaar: [50000, 60000] },
+        'inkomensbron_aanvrager'
+      )
+    ).toThrow(ValidationError);
+  });
+
+  it('accepts a verliesjaar for ZZP but not a negative flexinkomen', () => {
+    expect(() =>
+      validateInkomensbron(
+        { soort: 'zzp', winst_per_jaar: [-5000, 40000, 50000] },
+        'inkomensbron_aanvrager'
+      )
+    ).not.toThrow();
+    expect(() =>
+      validateInkomensbron(
+        { soort: 'flex', inkomen_per_jaar: [-5000, 40000, 50000] },
+        'inkomensbron_aanvrager'
+      )
+    ).toThrow(ValidationError);
+  });
+
+  it('requires the amount for IBL and perspectiefverklaring', () => {
+    expect(() => validateInkomensbron({ soort: 'ibl' }, 'inkomensbron_aanvrager')).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      validateInkomensbron({ soort: 'perspectiefverklaring' }, 'inkomensbron_partner')
+    ).toThrow(ValidationError);
+  });
+
+  it('rejects an unknown soort', () => {
+    expect(() => validateInkomensbron({ soort: 'dga' }, 'inkomensbron_aanvrager')).toThrow(
+      ValidationError
+    );
+  });
+});
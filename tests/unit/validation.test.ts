@@ -8,7 +8,9 @@ import { describe, it, expect } from '@jest/globals';
 import { 
   validateBaseArguments,
   validateDoorstromerArguments,
-  validateLeningdeel
+  validateLeningdeel,
+  validateOverbrugging,
+  validateBouwdepot
 } from '../../src/validation/schemas';
 import { ValidationError, ErrorCode } from '../../src/types/index';
 
@@ -365,3 +367,76 @@ describe('Enum normalization (stricter) and blocking behaviour', () => {
     });
   });
 });
+
+describe('Overbrugging Validation', () => {
+  it('should accept a sale within the maximum bridging period', () => {
+    expect(() => validateOverbrugging({
+      verwachte_verkoopdatum: '2025-09-01',
+      ingangsdatum: '2025-03-01',
+      rente: 0.055
+    })).not.toThrow();
+  });
+
+  it('should reject an invalid or out-of-range verkoopdatum', () => {
+    expect(() => validateOverbrugging({
+      verwachte_verkoopdatum: '2025-02-30',
+      ingangsdatum: '2025-03-01',
+      rente: 0.055
+    })).toThrow(ValidationError);
+    expect(() => validateOverbrugging({
+      verwachte_verkoopdatum: '2025-02-01',
+      ingangsdatum: '2025-03-01',
+      rente: 0.055
+    })).toThrow(/binnen 24 maanden/);
+    expect(() => validateOverbrugging({
+      verwachte_verkoopdatum: '2027-03-02',
+      ingangsdatum: '2025-03-01',
+      rente: 0.055
+    })).toThrow(/binnen 24 maanden/);
+  });
+
+  it('should require a rente', () => {
+    expect(() => validateOverbrugging({
+      verwachte_verkoopdatum: '2025-09-01',
+      ingangsdatum: '2025-03-01'
+    })).toThrow(/rente is verplicht/);
+  });
+});
+
+describe('Bouwdepot Validation', () => {
+  it('should accept a verbouwing with bouwkosten and a nieuwbouw with aanneemsom', () => {
+    expect(() => validateBouwdepot({
+      waarde_woning: 350000,
+      bedrag_verbouwen: 40000,
+      bouwdepot: { bouwperiode_maanden: 6 }
+    })).not.toThrow();
+    expect(() => validateBouwdepot({
+      waarde_woning: 450000,
+      bouwdepot: { soort: 'nieuwbouw', aanneemsom: 300000, start_bouw_maanden: -3 }
+    })).not.toThrow();
+  });
+
+  it('should require bouwkosten or an aanneemsom', () => {
+    expect(() => validateBouwdepot({
+      waarde_woning: 350000,
+      bouwdepot: {}
+    })).toThrow(ValidationError);
+    expect(() => validateBouwdepot({
+      waarde_woning: 350000,
+      bouwdepot: { soort: 'nieuwbouw', aanneemsom: 400000 }
+    })).toThrow(/aanneemsom/);
+  });
+
+  it('should require termijnen that add up to 100%', () => {
+    expect(() => validateBouwdepot({
+      waarde_woning: 350000,
+      bedrag_verbouwen: 40000,
+      bouwdepot: { termijnen: [{ maand: 1, percentage: 0.5 }, { maand: 3, percentage: 0.4 }] }
+    })).toThrow(/100%/);
+    expect(() => validateBouwdepot({
+      waarde_woning: 350000,
+      bedrag_verbouwen: 40000,
+      bouwdepot: { termijnen: [{ maand: 30, percentage: 1 }] }
+    })).toThrow(ValidationError);
+  });
+});